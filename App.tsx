@@ -1,7 +1,23 @@
 import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
-import { ViewState, Recipe, MealPlanItem, ShoppingItem, AppSettings, Language, MealType, SHOPPING_CATEGORIES } from './types';
+import { ViewState, Recipe, MealPlanItem, ShoppingItem, AppSettings, Language, MealType, SHOPPING_CATEGORIES, PantryItem, FreezerItem, AIJob, ImprovementSuggestion, Nutrition, PlanEntry, GuestCount, NO_RECIPE, SyncSettings } from './types';
 import { storage } from './services/storage';
 import { INITIAL_SETTINGS, mergeShoppingList } from './services/mockData';
+import { createLeftover, removeFromPlan, withLeftoverServings } from './services/leftovers';
+import { consumeFromPantry, restockPantry, mealIngredients } from './services/pantry';
+import { parseIngredient } from './services/ingredientParser';
+import { newId } from './services/ids';
+import { generateWeekPlan, applyTemplate, fillRecurring, skipRecurringDate, isReplaceable, PlanChange } from './services/planner';
+import { servingsWithGuests, hasGuests, householdServings } from './services/portions';
+import { freezeFromMeal, freezerMeal, takeFromFreezer, availablePortions } from './services/freezer';
+import { matchesFilter } from './services/recipeFilters';
+import { addDays, toLocalDateString } from './services/dates';
+import { registerServiceWorker, applyUpdate } from './services/serviceWorker';
+import { onQueueChange, processAIQueue, retryAIJob, removeAIJob, ApplyJobResult } from './services/aiQueue';
+import { RecipeDraft } from './services/validation';
+import { CookingTimer, onTimersChange } from './services/timers';
+import { syncNow, replaceWithHousehold, isSyncConfigured, SyncStatus, SyncResult, publishCalendarFeed } from './services/sync';
+import { buildCalendar, currentAppUrl, parseMealLink, parseBusyEvents, busySlots, FEED_DAYS_BACK, FEED_DAYS_AHEAD } from './services/calendar';
+import { SyncConflict } from './services/syncLog';
 import { BASE_TRANSLATIONS } from './services/translations';
 import { PlanView } from './components/PlanView';
 import { ShopView } from './components/ShopView';
@@ -9,6 +25,8 @@ import { RecipesView } from './components/RecipesView';
 import { StatsView } from './components/StatsView';
 import { SettingsView } from './components/SettingsView';
 import { RecipeDetail } from './components/RecipeDetail';
+import { AIQueueIndicator } from './components/AIQueueIndicator';
+import { TimerTray } from './components/TimerTray';
 import { Icons } from './components/Shared';
 
 // Order of tabs for swipe navigation
@@ -18,16 +36,25 @@ const App = () => {
   const [activeView, setActiveView] = useState<ViewState>('plan');
   const [slideDir, setSlideDir] = useState<'right' | 'left'>('right');
   const [loading, setLoading] = useState(true);
+  const [initError, setInitError] = useState<string | null>(null);
+  const [updateAvailable, setUpdateAvailable] = useState(false);
+  const [aiJobs, setAiJobs] = useState<AIJob[]>([]);
+  const [timers, setTimers] = useState<CookingTimer[]>([]);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>({ state: 'idle' });
+  const [syncConflicts, setSyncConflicts] = useState<SyncConflict[]>([]);
   
   // Data State
   const [recipes, setRecipes] = useState<Recipe[]>([]);
   const [plan, setPlan] = useState<MealPlanItem[]>([]);
   const [shoppingItems, setShoppingItems] = useState<ShoppingItem[]>([]);
   const [settings, setSettings] = useState<AppSettings>(INITIAL_SETTINGS);
+  const [pantry, setPantry] = useState<PantryItem[]>([]);
+  const [freezer, setFreezer] = useState<FreezerItem[]>([]);
 
   // UI State
   const [selectedRecipe, setSelectedRecipe] = useState<Recipe | null>(null);
   const [selectedMealForDetail, setSelectedMealForDetail] = useState<MealPlanItem | undefined>(undefined);
+  const [cookingSession, setCookingSession] = useState<MealPlanItem[] | undefined>(undefined);
 
   // Undo History for Plan
   const [planHistory, setPlanHistory] = useState<MealPlanItem[][]>([]);
@@ -40,24 +67,203 @@ const App = () => {
   const minSwipeDistance = 50;
 
   // Load Data
-  useEffect(() => {
-    const load = async () => {
+  const loadData = useCallback(async () => {
+    setLoading(true);
+    setInitError(null);
+    try {
       await storage.init();
-      const [r, p, s, cfg] = await Promise.all([
+      const [r, p, s, cfg, pantryItems, freezerItems] = await Promise.all([
         storage.getRecipes(),
         storage.getPlan(),
         storage.getShoppingList(),
-        storage.getSettings()
+        storage.getSettings(),
+        storage.getPantry(),
+        storage.getFreezer()
       ]);
       setRecipes(r);
       setPlan(p);
       setShoppingItems(s);
       setSettings(cfg);
+      setPantry(pantryItems);
+      setFreezer(freezerItems);
+    } catch (e: any) {
+      setInitError(e?.message || String(e));
+    } finally {
       setLoading(false);
-    };
-    load();
+    }
   }, []);
 
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  // Offline app shell; a new deploy waits until the user accepts the reload
+  useEffect(() => {
+    registerServiceWorker(() => setUpdateAvailable(true));
+  }, []);
+
+  // Calendar events link to "#meal=<id>": opens that meal's recipe
+  useEffect(() => {
+      if (loading) return;
+      const openFromHash = () => {
+          const mealId = parseMealLink(window.location.hash);
+          if (mealId === null) return;
+          history.replaceState(null, '', window.location.pathname + window.location.search);
+          const meal = plan.find(p => p.id === mealId);
+          const recipe = meal && recipes.find(r => r.id === meal.recipe_id);
+          if (!meal || !recipe) return;
+          setActiveView('plan');
+          setSelectedRecipe(recipe);
+          setSelectedMealForDetail(meal);
+      };
+      openFromHash();
+      window.addEventListener('hashchange', openFromHash);
+      return () => window.removeEventListener('hashchange', openFromHash);
+  }, [loading, plan, recipes]);
+
+  // --- Offline AI Queue ---
+  // Results of queued requests land here, possibly long after the screen that asked for them closed
+
+  const applyQueuedResult: ApplyJobResult = async (job, result) => {
+      if (job.kind === 'import') {
+          await handleAddRecipe(result as RecipeDraft);
+          return;
+      }
+      const current = job.recipe_id !== undefined ? await storage.getRecipe(job.recipe_id) : undefined;
+      if (!current) return;
+
+      let updated: Recipe;
+      if (job.kind === 'image') {
+          if (!result) return;
+          updated = { ...current, images: [result as string, ...current.images] };
+      } else if (job.kind === 'nutrition') {
+          updated = { ...current, nutrition: result as Nutrition };
+      } else {
+          // Never rewrite a recipe unasked: the suggestion waits until the user opens it
+          updated = { ...current, pending_improvement: result as ImprovementSuggestion };
+      }
+      await storage.saveRecipe(updated);
+      setRecipes(prev => prev.map(r => r.id === updated.id ? updated : r));
+      setSelectedRecipe(prev => prev?.id === updated.id ? updated : prev);
+  };
+
+  // The queue runs from listeners and timers, so it needs the latest handler rather than the first render's
+  const applyQueuedResultRef = useRef(applyQueuedResult);
+  applyQueuedResultRef.current = applyQueuedResult;
+
+  const runAIQueue = useCallback(() => {
+      processAIQueue((job, result) => applyQueuedResultRef.current(job, result));
+  }, []);
+
+  useEffect(() => {
+      if (loading) return;
+      const unsubscribe = onQueueChange(setAiJobs);
+      runAIQueue();
+      const onOnline = () => runAIQueue();
+      window.addEventListener('online', onOnline);
+      const interval = setInterval(runAIQueue, 30 * 1000); // Picks up jobs whose backoff has passed
+      return () => {
+          unsubscribe();
+          window.removeEventListener('online', onOnline);
+          clearInterval(interval);
+      };
+  }, [loading, runAIQueue]);
+
+  useEffect(() => onTimersChange(setTimers), []);
+
+  const handleRetryAIJob = async (id: number) => {
+      await retryAIJob(id);
+      runAIQueue();
+  };
+
+  // --- Household Sync ---
+
+  // Re-reads what a sync may have changed, without the loading screen
+  const reloadSyncedData = async () => {
+      const [r, p, s, cfg] = await Promise.all([
+          storage.getRecipes(),
+          storage.getPlan(),
+          storage.getShoppingList(),
+          storage.getSettings()
+      ]);
+      setRecipes(r);
+      setPlan(p);
+      setShoppingItems(s);
+      setSettings(cfg);
+      setSelectedRecipe(prev => prev ? r.find(x => x.id === prev.id) || null : prev);
+  };
+
+  const syncConfigRef = useRef(settings.sync);
+  syncConfigRef.current = settings.sync;
+
+  // Republishes the household's calendar feed when the plan in it changed
+  const lastPublishedFeed = useRef('');
+  const publishFeed = async () => {
+      const feed = settings.calendar_feed;
+      if (!feed?.enabled || !isSyncConfigured(settings.sync)) return;
+      const today = toLocalDateString(new Date());
+      const ics = buildCalendar(plan, recipes, {
+          from: addDays(today, -FEED_DAYS_BACK),
+          to: addDays(today, FEED_DAYS_AHEAD),
+          appUrl: currentAppUrl(),
+          name: 'HomeChef',
+          slotLabel: type => t[`slot_${type}`] || type,
+          servingsLabel: t.servings,
+          leftoversLabel: t.leftovers,
+          entryLabel: entry => t[`entry_${entry.kind}`] || entry.kind
+      });
+      const signature = `${feed.key}|${ics.replace(/DTSTAMP:\w+/g, '')}`;
+      if (signature === lastPublishedFeed.current) return;
+      await publishCalendarFeed(settings.sync, feed.key, ics);
+      lastPublishedFeed.current = signature;
+  };
+  const publishFeedRef = useRef(publishFeed);
+  publishFeedRef.current = publishFeed;
+
+  const performSync = async (sync: (config: SyncSettings) => Promise<SyncResult>) => {
+      const config = syncConfigRef.current;
+      if (!isSyncConfigured(config) || !navigator.onLine) return;
+      setSyncStatus(prev => ({ ...prev, state: 'syncing' }));
+      try {
+          const result = await sync(config);
+          if (result.changed) await reloadSyncedData();
+          if (result.conflicts.length > 0) setSyncConflicts(prev => [...prev, ...result.conflicts]);
+          await publishFeedRef.current();
+          setSyncStatus({ state: 'idle', last_synced_at: new Date().toISOString() });
+      } catch (e: any) {
+          console.error("Sync failed", e);
+          setSyncStatus(prev => ({ ...prev, state: 'error', error: e?.message || String(e) }));
+      }
+  };
+  const runSync = useCallback(() => performSync(syncNow), []);
+  const replaceLocalData = useCallback(() => performSync(replaceWithHousehold), []);
+
+  const syncEnabled = isSyncConfigured(settings.sync);
+  const syncEndpoint = `${settings.sync?.url}|${settings.sync?.household}|${settings.sync?.token}`;
+
+  useEffect(() => {
+      if (loading || !syncEnabled) return;
+      storage.getSyncState().then(state => setSyncStatus(prev => ({ ...prev, last_synced_at: prev.last_synced_at || state.last_synced_at })));
+
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      // Local edits are pushed shortly after they stop; the delay also covers typing in the sync settings
+      const schedule = (delay: number) => {
+          clearTimeout(timer);
+          timer = setTimeout(runSync, delay);
+      };
+      schedule(1000);
+      const unsubscribe = storage.onLocalChange(() => schedule(2000));
+      const onOnline = () => schedule(0);
+      window.addEventListener('online', onOnline);
+      const interval = setInterval(runSync, 60 * 1000); // Picks up the other devices' changes
+      return () => {
+          clearTimeout(timer);
+          unsubscribe();
+          window.removeEventListener('online', onOnline);
+          clearInterval(interval);
+      };
+  }, [loading, syncEnabled, syncEndpoint, runSync]);
+
   // --- Translation Helper ---
   const t = useMemo(() => {
     // 1. Check custom languages
@@ -98,198 +304,285 @@ const App = () => {
       });
   };
 
-  const handleAddMeal = async (date: string, recipeId: number) => {
+  const findMealInSlot = (date: string, type: MealType) => plan.find(p => p.date === date && p.type === type);
+
+  const persistRemoval = async (removal: ReturnType<typeof removeFromPlan>) => {
+      for (const id of removal.deletedIds) await storage.deletePlanItem(id);
+      for (const item of removal.updated) await storage.savePlanItem(item);
+  };
+
+  // Adds a meal to a slot, replacing whatever was planned there
+  const handleAddMeal = async (date: string, type: MealType, recipeId: number) => {
       savePlanToHistory();
       const recipe = recipes.find(r => r.id === recipeId);
       if (!recipe) return;
 
+      const existing = findMealInSlot(date, type);
+      const removal = removeFromPlan(plan, existing ? [existing.id] : []);
       const newItem: MealPlanItem = {
-          id: Date.now(),
+          id: newId(),
           date,
           recipe_id: recipeId,
           recipe_version: recipe.version,
-          type: MealType.DINNER,
+          type,
           is_cooked: false,
           is_leftover: false,
           servings: recipe.servings_default
       };
 
-      const newPlan = [...plan, newItem];
-      setPlan(newPlan);
+      setPlan([...removal.plan, newItem]);
+      await persistRemoval(removal);
       await storage.savePlanItem(newItem);
+      if (existing) await skipRecurring(existing);
   };
 
-  const handleGeneratePlan = async (startDateStr: string) => {
+  // Puts an entry like eating out in a slot, replacing whatever was planned there
+  const handleAddEntry = async (date: string, type: MealType, entry: PlanEntry) => {
       savePlanToHistory();
-      
-      const newPlan = [...plan];
-      const start = new Date(startDateStr);
-
-      // Determine today's date string (local) to avoid generating for past days
-      const now = new Date();
-      const todayYear = now.getFullYear();
-      const todayMonth = String(now.getMonth() + 1).padStart(2, '0');
-      const todayDay = String(now.getDate()).padStart(2, '0');
-      const todayStr = `${todayYear}-${todayMonth}-${todayDay}`;
-      
-      // Try to fill 7 days from start date
-      for (let i = 0; i < 7; i++) {
-          const d = new Date(start);
-          d.setDate(d.getDate() + i);
-          const dateStr = d.toISOString().split('T')[0];
-          
-          // Skip if date is in the past
-          if (dateStr < todayStr) continue;
+      const existing = findMealInSlot(date, type);
+      const removal = removeFromPlan(plan, existing ? [existing.id] : []);
+      const newItem: MealPlanItem = {
+          id: newId(),
+          date,
+          recipe_id: NO_RECIPE,
+          type,
+          entry,
+          is_cooked: false,
+          is_leftover: false
+      };
 
-          // Skip if already has meal
-          if (newPlan.some(p => p.date === dateStr)) continue;
-          
-          // Smart Recommendation Logic
-          if (recipes.length > 0) {
-              const scoredRecipes = recipes.map(recipe => {
-                  // 1. Rating Score
-                  const history = newPlan.filter(p => p.recipe_id === recipe.id && p.rating);
-                  const avgRating = history.length > 0 
-                      ? history.reduce((acc, curr) => acc + (curr.rating || 0), 0) / history.length
-                      : (recipe.rating || 3.5); // Default neutral/good
-
-                  // 2. Recency Score
-                  const eatenDates = newPlan
-                      .filter(p => p.recipe_id === recipe.id && p.date < dateStr)
-                      .map(p => p.date)
-                      .sort()
-                      .reverse();
-                  
-                  const lastEatenDate = eatenDates[0];
-                  let daysSince = 100; // Default high if never eaten
-                  
-                  if (lastEatenDate) {
-                      const targetTime = new Date(dateStr).getTime();
-                      const lastTime = new Date(lastEatenDate).getTime();
-                      // Diff in days
-                      daysSince = Math.round((targetTime - lastTime) / (1000 * 60 * 60 * 24));
-                  }
-
-                  // --- Scoring Algorithm ---
-                  // Base: Rating (0-50 points) + DaysSince (capped at 30, x2 = 60 points)
-                  let score = (avgRating * 10) + (Math.min(daysSince, 30) * 2);
-
-                  // Penalties for recent meals (Graduated)
-                  if (daysSince <= 1) {
-                      score -= 10000; // Impossible to pick unless it's the only option
-                  } else if (daysSince <= 2) {
-                      score -= 5000; // Very strongly avoid
-                  } else if (daysSince <= 5) {
-                      score -= 2000; // Avoid if possible
-                  } else if (daysSince <= 7) {
-                      score -= 500;  // Slight preference for variety > 1 week
-                  }
-
-                  // Random Jitter (0-10) to mix up similar candidates
-                  score += Math.random() * 10;
-
-                  return { id: recipe.id, score, daysSince };
-              });
-
-              // Sort by highest score
-              scoredRecipes.sort((a, b) => b.score - a.score);
-              
-              const bestMatch = scoredRecipes[0];
-              
-              // Select the best match. 
-              // We do NOT use a random fallback here because the scoring logic above
-              // already handles "bad" options by penalizing them but keeping them in relative order.
-              // E.g. A meal eaten 5 days ago will have a higher score than one eaten 1 day ago.
-              const selectedRecipe = recipes.find(r => r.id === bestMatch.id);
-
-              if (selectedRecipe) {
-                  const newItem: MealPlanItem = {
-                      id: Date.now() + i,
-                      date: dateStr,
-                      recipe_id: selectedRecipe.id,
-                      recipe_version: selectedRecipe.version,
-                      type: MealType.DINNER,
-                      is_cooked: false,
-                      is_leftover: false,
-                      servings: selectedRecipe.servings_default
-                  };
-                  newPlan.push(newItem);
-                  await storage.savePlanItem(newItem);
-              }
-          }
-      }
-      setPlan(newPlan);
+      setPlan([...removal.plan, newItem]);
+      await persistRemoval(removal);
+      await storage.savePlanItem(newItem);
+      if (existing) await skipRecurring(existing);
   };
 
-  const handleMoveMeal = async (date: string, direction: 'up' | 'down') => {
-      // "Move" in a calendar usually implies changing date. 
-      // But for 'up/down' in a list, it might mean swapping with prev/next day?
-      // Let's implement swapping with adjacent day.
-      const current = plan.find(p => p.date === date);
-      if (!current) return;
+  // Marks the slots taken by events from another calendar (.ics) as eating out. Only future,
+  // enabled slots that are empty or still open for the generator are touched.
+  const handleImportBusy = async (ics: string): Promise<number> => {
+      const today = toLocalDateString(new Date());
+      const slots = settings.meal_slots?.length ? settings.meal_slots : [MealType.DINNER];
+      const busy = busySlots(parseBusyEvents(ics), slots).filter(b => b.date >= today);
+      const replaced = busy
+          .map(b => findMealInSlot(b.date, b.type))
+          .filter((m): m is MealPlanItem => !!m);
+      const blocked = new Set(replaced.filter(m => !isReplaceable(m, plan)).map(m => m.id));
+      const targets = busy.filter(b => {
+          const existing = findMealInSlot(b.date, b.type);
+          return !existing || !blocked.has(existing.id);
+      });
+      if (targets.length === 0) return 0;
 
       savePlanToHistory();
+      const removal = removeFromPlan(plan, replaced.filter(m => !blocked.has(m.id)).map(m => m.id));
+      const added: MealPlanItem[] = targets.map(b => ({
+          id: newId(),
+          date: b.date,
+          recipe_id: NO_RECIPE,
+          type: b.type,
+          entry: { kind: 'eating_out', ...(b.summary ? { note: b.summary } : {}) },
+          is_cooked: false,
+          is_leftover: false
+      }));
+      setPlan([...removal.plan, ...added]);
+      await persistRemoval(removal);
+      for (const item of added) await storage.savePlanItem(item);
+      return added.length;
+  };
 
-      const d = new Date(date);
-      d.setDate(d.getDate() + (direction === 'down' ? 1 : -1));
-      const targetDate = d.toISOString().split('T')[0];
+  // Plans portions from the freezer into a slot, replacing whatever was planned there
+  const handleAddFromFreezer = async (date: string, type: MealType, itemId: number) => {
+      const item = freezer.find(f => f.id === itemId);
+      const available = item ? availablePortions(item, plan) : 0;
+      if (!item || available <= 0) return;
+      savePlanToHistory();
 
-      const target = plan.find(p => p.date === targetDate);
+      const existing = findMealInSlot(date, type);
+      const removal = removeFromPlan(plan, existing ? [existing.id] : []);
+      const newItem = freezerMeal(item, date, type, Math.min(available, householdServings(settings)), newId());
 
-      // Perform swap or move
-      const updatedPlan = plan.map(p => {
-          if (p.id === current.id) return { ...p, date: targetDate };
-          if (target && p.id === target.id) return { ...p, date };
-          return p;
+      setPlan([...removal.plan, newItem]);
+      await persistRemoval(removal);
+      await storage.savePlanItem(newItem);
+      if (existing) await skipRecurring(existing);
+  };
+
+  // Schedules leftovers of a meal into another slot and cooks extra servings for them
+  const handleAddLeftover = async (sourceId: number, date: string, type: MealType, servings: number) => {
+      const source = plan.find(p => p.id === sourceId);
+      if (!source || source.is_leftover || servings <= 0) return;
+      savePlanToHistory();
+
+      const existing = findMealInSlot(date, type);
+      const removal = removeFromPlan(plan, existing ? [existing.id] : []);
+      const leftover = createLeftover(source, date, type, servings, newId());
+      const withLeftover = [...removal.plan, leftover];
+      const updatedSource = withLeftoverServings(withLeftover, source);
+
+      setPlan(withLeftover.map(p => p.id === sourceId ? updatedSource : p));
+      await persistRemoval(removal);
+      await storage.savePlanItem(leftover);
+      await storage.savePlanItem(updatedSource);
+  };
+
+  // Regenerates the open meals of the week; locked, cooked and leftover meals stay
+  const handleGeneratePlan = async (startDateStr: string) => {
+      savePlanToHistory();
+      const preset = settings.filter_presets?.find(p => p.id === settings.planner?.filter_preset_id);
+
+      const result = generateWeekPlan({
+          recipes,
+          plan,
+          shopping: shoppingItems,
+          weekStart: startDateStr,
+          today: toLocalDateString(new Date()),
+          slots: settings.meal_slots?.length ? settings.meal_slots : [MealType.DINNER],
+          settings: settings.planner,
+          ignoredItems: settings.pantry_staples,
+          recurring: settings.recurring_rules,
+          candidates: preset ? r => matchesFilter(r, preset.filter, { plan, collections: settings.collections }) : undefined,
+          newId
       });
+      await persistPlanChange(result);
+  };
 
-      setPlan(updatedPlan);
-      await storage.savePlanItem({ ...current, date: targetDate });
-      if (target) await storage.savePlanItem({ ...target, date });
+  const persistPlanChange = async (change: PlanChange) => {
+      setPlan(change.plan);
+      for (const id of change.removedIds) await storage.deletePlanItem(id);
+      for (const item of change.added) await storage.savePlanItem(item);
+  };
+
+  const handleApplyTemplate = async (templateId: number, weekStart: string) => {
+      const template = settings.plan_templates?.find(tpl => tpl.id === templateId);
+      if (!template) return;
+      savePlanToHistory();
+      await persistPlanChange(applyTemplate(template, plan, recipes, weekStart, toLocalDateString(new Date()), newId));
+  };
+
+  // Fills recurring meals into the empty slots of a week when it is shown
+  const handleFillRecurring = async (weekStart: string) => {
+      const rules = settings.recurring_rules || [];
+      if (rules.length === 0) return;
+      const today = toLocalDateString(new Date());
+      const dates = Array.from({ length: 7 }, (_, i) => addDays(weekStart, i)).filter(d => d >= today);
+      const added = fillRecurring(rules, recipes, plan, dates);
+      if (added.length === 0) return;
+      setPlan(prev => [...prev, ...added]);
+      for (const item of added) await storage.savePlanItem(item);
+  };
+
+  // A recurring meal removed or moved by hand stays away from that day
+  const skipRecurring = async (meal: MealPlanItem) => {
+      if (meal.recurring_rule_id === undefined || !settings.recurring_rules) return;
+      await handleUpdateSettings({
+          ...settings,
+          recurring_rules: skipRecurringDate(settings.recurring_rules, meal, toLocalDateString(new Date()))
+      });
   };
 
-  const handleReorderMeal = async (mealId: number, targetDate: string) => {
+  // Locked meals are kept when the week is regenerated
+  const handleLockMeals = async (ids: number[], locked: boolean) => {
+      const updated = plan.filter(p => ids.includes(p.id)).map(p => ({ ...p, locked }));
+      if (updated.length === 0) return;
+      setPlan(plan.map(p => updated.find(u => u.id === p.id) || p));
+      for (const item of updated) await storage.savePlanItem(item);
+  };
+
+  const handleMoveMeal = async (date: string, type: MealType, direction: 'up' | 'down') => {
+      // Swaps with the same slot on the adjacent day
+      const current = findMealInSlot(date, type);
+      if (!current) return;
+
+      const d = new Date(date);
+      d.setDate(d.getDate() + (direction === 'down' ? 1 : -1));
+      const targetDate = d.toISOString().split('T')[0];
+
+      await handleReorderMeal(current.id, targetDate, type);
+  };
+
+  const handleReorderMeal = async (mealId: number, targetDate: string, targetType: MealType) => {
        const meal = plan.find(p => p.id === mealId);
-       if (!meal || meal.date === targetDate) return;
+       if (!meal || (meal.date === targetDate && meal.type === targetType)) return;
        
        savePlanToHistory();
        
        // Check collision
-       const targetMeal = plan.find(p => p.date === targetDate);
+       const targetMeal = findMealInSlot(targetDate, targetType);
        
        let updatedPlan = [...plan];
        
        if (targetMeal) {
-           // Swap dates
+           // Swap slots
            updatedPlan = updatedPlan.map(p => {
-               if (p.id === mealId) return { ...p, date: targetDate };
-               if (p.id === targetMeal.id) return { ...p, date: meal.date };
+               if (p.id === mealId) return { ...p, date: targetDate, type: targetType };
+               if (p.id === targetMeal.id) return { ...p, date: meal.date, type: meal.type };
                return p;
            });
-           await storage.savePlanItem({ ...meal, date: targetDate });
-           await storage.savePlanItem({ ...targetMeal, date: meal.date });
+           await storage.savePlanItem({ ...meal, date: targetDate, type: targetType });
+           await storage.savePlanItem({ ...targetMeal, date: meal.date, type: meal.type });
        } else {
            // Just move
            updatedPlan = updatedPlan.map(p => {
-               if (p.id === mealId) return { ...p, date: targetDate };
+               if (p.id === mealId) return { ...p, date: targetDate, type: targetType };
                return p;
            });
-           await storage.savePlanItem({ ...meal, date: targetDate });
+           await storage.savePlanItem({ ...meal, date: targetDate, type: targetType });
        }
        setPlan(updatedPlan);
+       if (!targetMeal && meal.date !== targetDate) await skipRecurring(meal);
   };
 
-  const handleRemoveMeal = async (date: string) => {
-      const meal = plan.find(p => p.date === date);
+  const handleRemoveMeal = async (date: string, type: MealType) => {
+      const meal = findMealInSlot(date, type);
       if (!meal) return;
       savePlanToHistory();
       
-      const newPlan = plan.filter(p => p.date !== date);
-      setPlan(newPlan);
-      await storage.deletePlanItem(meal.id);
+      // Also drops leftovers of this meal, or returns its servings to the source
+      const removal = removeFromPlan(plan, [meal.id]);
+      setPlan(removal.plan);
+      await persistRemoval(removal);
+      await skipRecurring(meal);
+  };
+
+  // Uses up the meal's ingredients from the pantry, or its portions from the freezer, the first
+  // time it is marked cooked
+  const consumeForMeal = async (meal: MealPlanItem) => {
+      if (meal.is_cooked) return;
+      const frozen = freezer.find(f => f.id === meal.freezer_item_id);
+      if (frozen) {
+          const left = takeFromFreezer(frozen, meal.servings || 1);
+          setFreezer(prev => left ? prev.map(f => f.id === left.id ? left : f) : prev.filter(f => f.id !== frozen.id));
+          if (left) await storage.saveFreezerItem(left);
+          else await storage.deleteFreezerItem(frozen.id);
+      }
+      const changed = consumeFromPantry(pantry, mealIngredients(meal, recipes));
+      if (changed.length === 0) return;
+      setPantry(prev => prev.map(p => changed.find(c => c.id === p.id) || p));
+      for (const item of changed) await storage.savePantryItem(item);
+  };
+
+  // Extra portions cooked can go straight into the freezer
+  const handleMarkCooked = async (id: number, freeze?: { portions: number; best_before?: string }) => {
+      const meal = plan.find(p => p.id === id);
+      if (!meal || meal.is_cooked) return;
+      await consumeForMeal(meal);
+
+      const recipe = recipes.find(r => r.id === meal.recipe_id);
+      if (freeze && freeze.portions > 0 && recipe) {
+          const item = freezeFromMeal(meal, recipe, freeze.portions, toLocalDateString(new Date()), freeze.best_before, newId());
+          setFreezer(prev => [...prev, item]);
+          await storage.saveFreezerItem(item);
+      }
+
+      const updated = { ...meal, is_cooked: true };
+      setPlan(plan.map(p => p.id === id ? updated : p));
+      await storage.savePlanItem(updated);
   };
 
   const handleRateMeal = async (id: number, rating: number, comment?: string) => {
+      const meal = plan.find(p => p.id === id);
+      if (meal) await consumeForMeal(meal);
+
       const updatedPlan = plan.map(p => 
           p.id === id ? { ...p, is_cooked: true, rating, rating_comment: comment } : p
       );
@@ -298,22 +591,58 @@ const App = () => {
       if (item) await storage.savePlanItem(item);
   };
   
-  const handleUpdateServings = async (mealId: number, servings: number) => {
-      const updatedPlan = plan.map(p => 
-          p.id === mealId ? { ...p, servings } : p
+  const handleUpdateServings = async (mealId: number, servings: number, changes: Partial<MealPlanItem> = {}) => {
+      let updatedPlan = plan.map(p => 
+          p.id === mealId ? { ...p, ...changes, servings } : p
       );
-      setPlan(updatedPlan);
       const item = updatedPlan.find(p => p.id === mealId);
+
+      // Leftover portions are cooked as part of the source meal
+      const source = item?.is_leftover ? updatedPlan.find(p => p.id === item.source_meal_id) : undefined;
+      const updatedSource = source ? withLeftoverServings(updatedPlan, source) : undefined;
+      if (updatedSource) updatedPlan = updatedPlan.map(p => p.id === updatedSource.id ? updatedSource : p);
+
+      setPlan(updatedPlan);
       if (item) await storage.savePlanItem(item);
+      if (updatedSource) await storage.savePlanItem(updatedSource);
   }
 
+  // Guests come on top of the household and change the servings by their portions
+  const handleSetGuests = async (mealId: number, guests: GuestCount) => {
+      const meal = plan.find(p => p.id === mealId);
+      if (!meal) return;
+      const next = hasGuests(guests) ? guests : undefined;
+      await handleUpdateServings(mealId, servingsWithGuests(meal.servings || 1, settings, meal.guests, next), { guests: next });
+  };
+
+  // Links meals to the prep session on a day; meals left out leave that session
+  const handleSetPrepSession = async (date: string, mealIds: number[]) => {
+      const updated = plan
+          .filter(p => mealIds.includes(p.id) ? p.prep_date !== date : p.prep_date === date)
+          .map(p => ({ ...p, prep_date: mealIds.includes(p.id) ? date : undefined }));
+      if (updated.length === 0) return;
+      setPlan(plan.map(p => updated.find(u => u.id === p.id) || p));
+      for (const item of updated) await storage.savePlanItem(item);
+  };
+
+  // Opens cooking mode with the merged steps of every meal in the session
+  const handleCookPrepSession = (mealIds: number[]) => {
+      const meals = plan.filter(p => mealIds.includes(p.id)).sort((a, b) => a.date.localeCompare(b.date));
+      const recipe = recipes.find(r => meals.some(m => m.recipe_id === r.id));
+      if (!recipe) return;
+      setCookingSession(meals);
+      setSelectedMealForDetail(undefined);
+      setSelectedRecipe(recipe);
+  };
+
   // --- Recipe Actions ---
 
-  const handleAddRecipe = async (recipeData: Omit<Recipe, 'id' | 'images' | 'version'>) => {
+  const handleAddRecipe = async (recipeData: Omit<Recipe, 'id' | 'images' | 'version'> & { images?: string[] }) => {
+      const id = newId();
       const newRecipe: Recipe = {
           ...recipeData,
-          id: Date.now(),
-          images: [`https://picsum.photos/seed/${Date.now()}/400/300`], // Placeholder if none
+          id,
+          images: recipeData.images?.length ? recipeData.images : [`https://picsum.photos/seed/${id}/400/300`], // Placeholder if none
           version: 1,
           history: []
       };
@@ -356,6 +685,12 @@ const App = () => {
       setRecipes(newRecipes);
       await storage.deleteRecipe(id);
       // Remove from plan? Optional, keeping history might be better
+      if (settings.collections?.some(c => c.recipe_ids.includes(id))) {
+          await handleUpdateSettings({
+              ...settings,
+              collections: settings.collections.map(c => ({ ...c, recipe_ids: c.recipe_ids.filter(recipeId => recipeId !== id) }))
+          });
+      }
   };
 
   const handleUpdateAllRecipes = async (newRecipes: Recipe[]) => {
@@ -390,13 +725,15 @@ const App = () => {
       await storage.saveShoppingItem(itemToSave);
   };
 
-  const handleAddShoppingItem = async (name: string) => {
+  // Accepts a free-text line like "2 l milk" and fills in amount, unit and category
+  const handleAddShoppingItem = async (line: string) => {
+      const parsed = parseIngredient(line);
       const newItem: ShoppingItem = {
-          id: Date.now(),
-          item_name: name,
-          quantity: 1,
-          unit: 'pc',
-          category: 'Other',
+          id: newId(),
+          item_name: parsed.item_name || line,
+          quantity: parsed.quantity || 1,
+          unit: parsed.unit || 'pc',
+          category: parsed.category,
           checked: false,
           is_manually_added: true,
           lang: settings.language // Store the current language for this item
@@ -427,12 +764,39 @@ const App = () => {
       const toKeep = shoppingItems.filter(i => !i.checked);
       const toDelete = shoppingItems.filter(i => i.checked);
       
+      // Bought items go into the pantry
+      const restocked = restockPantry(pantry, toDelete, newId);
+      setPantry(prev => [...prev.filter(p => !restocked.some(r => r.id === p.id)), ...restocked]);
+      for (const item of restocked) await storage.savePantryItem(item);
+
       setShoppingItems(toKeep);
       for (const item of toDelete) {
           await storage.deleteShoppingItem(item.id);
       }
   };
 
+  // --- Pantry Actions ---
+  const handleSavePantryItem = async (item: PantryItem) => {
+      const updated = { ...item, updated_at: new Date().toISOString() };
+      setPantry(prev => prev.some(p => p.id === item.id) ? prev.map(p => p.id === item.id ? updated : p) : [...prev, updated]);
+      await storage.savePantryItem(updated);
+  };
+
+  const handleDeletePantryItem = async (id: number) => {
+      setPantry(prev => prev.filter(p => p.id !== id));
+      await storage.deletePantryItem(id);
+  };
+
+  const handleSaveFreezerItem = async (item: FreezerItem) => {
+      setFreezer(prev => prev.some(f => f.id === item.id) ? prev.map(f => f.id === item.id ? item : f) : [...prev, item]);
+      await storage.saveFreezerItem(item);
+  };
+
+  const handleDeleteFreezerItem = async (id: number) => {
+      setFreezer(prev => prev.filter(f => f.id !== id));
+      await storage.deleteFreezerItem(id);
+  };
+
   // --- Settings Actions ---
   const handleUpdateSettings = async (newSettings: AppSettings) => {
       setSettings(newSettings);
@@ -502,11 +866,42 @@ const App = () => {
       );
   }
 
+  if (initError) {
+      return (
+          <div className="min-h-screen bg-nordic-bg flex items-center justify-center p-6">
+              <div className="max-w-md w-full bg-white rounded-2xl shadow-sm border border-red-100 p-6 text-center">
+                  <h2 className="text-lg font-bold text-slate-800 mb-2">{t?.dbErrorTitle || "Could not open your kitchen data"}</h2>
+                  <p className="text-sm text-nordic-muted mb-4">{t?.dbErrorDesc || "The local database failed to load or upgrade. Your data has not been changed."}</p>
+                  <pre className="text-xs text-left bg-red-50 text-red-700 rounded-lg p-3 mb-4 whitespace-pre-wrap break-words">{initError}</pre>
+                  <button onClick={loadData} className="px-4 py-2 rounded-xl bg-nordic-primary text-white font-medium">
+                      {t?.retry || "Retry"}
+                  </button>
+              </div>
+          </div>
+      );
+  }
+
   // Animation classes based on direction
   const animClass = slideDir === 'right' ? 'animate-slide-in-right' : 'animate-slide-in-left';
 
   return (
     <div className="h-[100dvh] bg-nordic-bg text-slate-800 font-sans selection:bg-teal-100 overflow-hidden flex flex-row">
+      {/* Update Prompt */}
+      {updateAvailable && (
+          <div className="fixed top-3 left-1/2 -translate-x-1/2 z-50 flex items-center gap-3 bg-nordic-secondary text-white text-sm pl-4 pr-2 py-2 rounded-2xl shadow-lg animate-in slide-in-from-top-2">
+              <span>{t.updateAvailable || "A new version is available."}</span>
+              <button onClick={applyUpdate} className="px-3 py-1 rounded-xl bg-white text-nordic-secondary font-semibold text-xs hover:bg-gray-100">
+                  {t.reload || "Reload"}
+              </button>
+              <button onClick={() => setUpdateAvailable(false)} className="p-1 rounded-full hover:bg-white/10">
+                  <Icons.X className="w-4 h-4" />
+              </button>
+          </div>
+      )}
+
+      <AIQueueIndicator jobs={aiJobs} recipes={recipes} onRetry={handleRetryAIJob} onRemove={removeAIJob} t={t} />
+      <TimerTray timers={timers} t={t} />
+
       {/* Desktop Sidebar */}
       <nav className="hidden md:flex flex-col w-64 bg-white border-r border-gray-100 p-4 shrink-0 z-20 shadow-sm">
           <div className="flex items-center gap-3 px-2 mb-8 mt-2">
@@ -566,6 +961,21 @@ const App = () => {
                         onMoveMeal={handleMoveMeal}
                         onReorderMeal={handleReorderMeal}
                         onRemoveMeal={handleRemoveMeal}
+                        onAddLeftover={handleAddLeftover}
+                        onMarkCooked={handleMarkCooked}
+                        onLockMeals={handleLockMeals}
+                        onAddEntry={handleAddEntry}
+                        freezer={freezer}
+                        onAddFromFreezer={handleAddFromFreezer}
+                        onSaveFreezerItem={handleSaveFreezerItem}
+                        onDeleteFreezerItem={handleDeleteFreezerItem}
+                        onSetPrepSession={handleSetPrepSession}
+                        onCookPrepSession={handleCookPrepSession}
+                        onSetGuests={handleSetGuests}
+                        onImportBusy={handleImportBusy}
+                        onApplyTemplate={handleApplyTemplate}
+                        onFillRecurring={handleFillRecurring}
+                        onUpdateSettings={handleUpdateSettings}
                         onSelectRecipe={(r, m) => { setSelectedRecipe(r); setSelectedMealForDetail(m); }}
                         onUndo={handleUndoPlan}
                         canUndo={planHistory.length > 0}
@@ -586,6 +996,11 @@ const App = () => {
                         onUpdateCategory={handleUpdateCategory}
                         onUpdateItem={handleUpdateShoppingItem}
                         onClearChecked={handleClearChecked}
+                        pantry={pantry}
+                        onSavePantryItem={handleSavePantryItem}
+                        onDeletePantryItem={handleDeletePantryItem}
+                        syncConflicts={syncConflicts}
+                        onDismissConflicts={() => setSyncConflicts([])}
                         language={settings.language}
                         t={t}
                     />
@@ -600,6 +1015,8 @@ const App = () => {
                         onDeleteRecipe={handleDeleteRecipe}
                         onAddMeal={handleAddMeal}
                         onSelectRecipe={(r) => { setSelectedRecipe(r); setSelectedMealForDetail(undefined); }}
+                        settings={settings}
+                        onUpdateSettings={handleUpdateSettings}
                         t={t}
                         language={settings.language}
                     />
@@ -623,6 +1040,10 @@ const App = () => {
                         onUpdateRecipes={handleUpdateAllRecipes}
                         onClearStats={handleClearStats}
                         onClearReviews={handleClearReviews}
+                        onDataRestored={loadData}
+                        syncStatus={syncStatus}
+                        onSyncNow={runSync}
+                        onReplaceWithHousehold={replaceLocalData}
                         t={t}
                     />
                 )}
@@ -661,8 +1082,10 @@ const App = () => {
                     recipes={recipes}
                     meal={selectedMealForDetail}
                     plan={plan}
+                    prepSession={cookingSession}
+                    timers={timers}
                     settings={settings}
-                    onClose={() => setSelectedRecipe(null)}
+                    onClose={() => { setSelectedRecipe(null); setCookingSession(undefined); }}
                     onUpdateRecipe={handleUpdateRecipe}
                     onUpdateServings={handleUpdateServings}
                     onAddMeal={handleAddMeal}
@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { AIJob, Recipe } from '../types';
+import { Button, Icons, Modal } from './Shared';
+
+interface AIQueueIndicatorProps {
+  jobs: AIJob[];
+  recipes: Recipe[];
+  onRetry: (id: number) => void;
+  onRemove: (id: number) => void;
+  t: any;
+}
+
+// Small pill with the number of waiting AI requests; opens a list to retry or drop them
+export const AIQueueIndicator: React.FC<AIQueueIndicatorProps> = ({ jobs, recipes, onRetry, onRemove, t }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  if (jobs.length === 0) return null;
+
+  const running = jobs.some(j => j.status === 'running');
+  const failed = jobs.filter(j => j.status === 'failed').length;
+
+  const kindLabel = (job: AIJob) => {
+    const labels: Record<string, string> = {
+      image: t.aiJob_image || "Generate image",
+      nutrition: t.aiJob_nutrition || "Estimate nutrition",
+      improvement: t.aiJob_improvement || "Suggest improvement",
+      import: t.aiJob_import || "Import recipe"
+    };
+    return labels[job.kind] || job.kind;
+  };
+
+  const statusLabel = (job: AIJob) => {
+    if (job.status === 'running') return t.aiJobRunning || "Running…";
+    if (job.status === 'failed') return t.aiJobFailed || "Failed";
+    if (!navigator.onLine) return t.aiJobWaitingOnline || "Waiting for connection";
+    const time = new Date(Math.max(job.next_attempt_at, Date.now())).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+    return `${t.aiJobNextTry || "Next try"} ${time}`;
+  };
+
+  return (
+    <>
+      <button
+        onClick={() => setIsOpen(true)}
+        className={`fixed top-3 right-3 z-40 flex items-center gap-1.5 pl-2.5 pr-3 py-1.5 rounded-full shadow-md text-xs font-semibold ${failed > 0 ? 'bg-red-50 text-red-700 border border-red-100' : 'bg-white text-nordic-secondary border border-gray-100'}`}
+      >
+        {running
+          ? <div className="w-3.5 h-3.5 border-2 border-nordic-primary/30 border-t-nordic-primary rounded-full animate-spin" />
+          : <Icons.Clock className="w-3.5 h-3.5" />}
+        <span>{jobs.length} {t.aiQueueShort || "AI queued"}</span>
+        {failed > 0 && <span className="opacity-80">· {failed} {t.aiJobFailed?.toLowerCase() || "failed"}</span>}
+      </button>
+
+      <Modal isOpen={isOpen} onClose={() => setIsOpen(false)} title={t.aiQueueTitle || "Queued AI requests"}>
+        <div className="space-y-3">
+          <p className="text-xs text-gray-500">{t.aiQueueDesc || "Requests made while offline or rate-limited. They run automatically when the AI is reachable."}</p>
+          {jobs.map(job => {
+            const recipe = recipes.find(r => r.id === job.recipe_id);
+            return (
+              <div key={job.id} className="p-3 rounded-xl border border-gray-100 bg-gray-50 flex items-start gap-3">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-semibold text-nordic-text truncate">
+                    {kindLabel(job)}{recipe ? `: ${recipe.title}` : ''}
+                  </p>
+                  <p className={`text-xs ${job.status === 'failed' ? 'text-red-600' : 'text-gray-500'}`}>
+                    {statusLabel(job)}{job.attempts > 0 ? ` · ${job.attempts} ${t.aiJobAttempts || "attempts"}` : ''}
+                  </p>
+                  {job.last_error && <p className="text-[11px] text-gray-400 break-words mt-1">{job.last_error}</p>}
+                </div>
+                <div className="flex gap-1 shrink-0">
+                  <Button variant="ghost" onClick={() => onRetry(job.id)} disabled={job.status === 'running'} className="!p-2 h-8 aspect-square">
+                    <Icons.Refresh className="w-4 h-4" />
+                  </Button>
+                  <Button variant="ghost" onClick={() => onRemove(job.id)} disabled={job.status === 'running'} className="!p-2 h-8 aspect-square text-red-500">
+                    <Icons.Trash className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </Modal>
+    </>
+  );
+};
@@ -0,0 +1,194 @@
+import React, { useState } from 'react';
+import { AppSettings, MealPlanItem, MealType, MEAL_TYPES, Recipe, RecurringRule } from '../types';
+import { Button, Icons, Input, Modal } from './Shared';
+import { newId } from '../services/ids';
+import { templateFromWeek } from '../services/planner';
+import { allTags } from '../services/recipeFilters';
+
+interface PlanTemplatesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  weekStart: string; // The week shown in the plan
+  plan: MealPlanItem[];
+  recipes: Recipe[];
+  settings: AppSettings;
+  onUpdateSettings: (settings: AppSettings) => void;
+  onApplyTemplate: (templateId: number, weekStart: string) => void;
+  t: any;
+  language: string;
+}
+
+const NTH_OPTIONS = [1, 2, 3, 4, -1];
+
+// Saved week templates and recurring meal rules, both kept in settings
+export const PlanTemplatesModal: React.FC<PlanTemplatesModalProps> = ({ isOpen, onClose, weekStart, plan, recipes, settings, onUpdateSettings, onApplyTemplate, t, language }) => {
+  const [templateName, setTemplateName] = useState('');
+
+  // New rule form
+  const [ruleWeekday, setRuleWeekday] = useState(5);
+  const [ruleNth, setRuleNth] = useState<number | ''>('');
+  const [ruleType, setRuleType] = useState<MealType>(MealType.DINNER);
+  const [ruleRecipeId, setRuleRecipeId] = useState<number | ''>('');
+  const [ruleKeyword, setRuleKeyword] = useState('');
+  const [ruleName, setRuleName] = useState('');
+
+  const templates = settings.plan_templates || [];
+  const rules = settings.recurring_rules || [];
+  const tags = allTags(recipes);
+  const weekdays = Array.from({ length: 7 }, (_, i) => (settings.week_start_day + i) % 7);
+  const weekdayLabel = (day: number) => new Date(2026, 0, 4 + day).toLocaleDateString(language, { weekday: 'long' }); // Jan 4 2026 is a Sunday
+  const slotLabel = (type: MealType) => t[`slot_${type}`] || type;
+  const nthLabel = (nth: number) => nth === -1 ? (t.recurringLast || "Last") : (t[`recurringNth_${nth}`] || `#${nth}`);
+
+  const saveTemplate = () => {
+      const name = templateName.trim();
+      if (!name) return;
+      const template = templateFromWeek(name, plan, weekStart, newId());
+      if (template.entries.length === 0) return;
+      onUpdateSettings({ ...settings, plan_templates: [...templates, template] });
+      setTemplateName('');
+  };
+
+  const deleteTemplate = (id: number) =>
+      onUpdateSettings({ ...settings, plan_templates: templates.filter(tpl => tpl.id !== id) });
+
+  const addRule = () => {
+      const keyword = ruleKeyword.trim();
+      if (ruleRecipeId === '' && !keyword) return;
+      const rule: RecurringRule = {
+          id: newId(),
+          weekday: ruleWeekday,
+          type: ruleType,
+          ...(ruleName.trim() ? { name: ruleName.trim() } : {}),
+          ...(ruleNth !== '' ? { nth: ruleNth } : {}),
+          ...(ruleRecipeId !== '' ? { recipe_id: ruleRecipeId } : { keyword })
+      };
+      onUpdateSettings({ ...settings, recurring_rules: [...rules, rule] });
+      setRuleName('');
+      setRuleKeyword('');
+  };
+
+  const deleteRule = (id: number) =>
+      onUpdateSettings({ ...settings, recurring_rules: rules.filter(r => r.id !== id) });
+
+  const describeRule = (rule: RecurringRule) => {
+      const when = rule.nth === undefined
+          ? `${t.recurringEvery || "Every"} ${weekdayLabel(rule.weekday)}`
+          : `${nthLabel(rule.nth)} ${weekdayLabel(rule.weekday)} ${t.recurringOfMonth || "of the month"}`;
+      const what = rule.recipe_id !== undefined
+          ? recipes.find(r => r.id === rule.recipe_id)?.title || '-'
+          : `${t.recurringAnyMatching || "Any recipe matching"} "${rule.keyword}"`;
+      return `${when} · ${slotLabel(rule.type)}: ${what}`;
+  };
+
+  const selectClass = "w-full py-1.5 px-2 bg-gray-50 border border-gray-200 rounded-xl text-sm outline-none focus:border-nordic-primary";
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={t.planTemplatesTitle || "Templates & recurring meals"}>
+        <div className="space-y-6">
+            {/* Templates */}
+            <div className="space-y-2">
+                <h4 className="text-xs font-bold text-gray-500 uppercase tracking-wide">{t.planTemplates || "Templates"}</h4>
+                <div className="flex gap-2">
+                    <Input
+                        value={templateName}
+                        onChange={(e: any) => setTemplateName(e.target.value)}
+                        placeholder={t.templateName || "Template name"}
+                        className="!py-1.5 !px-2 text-sm"
+                    />
+                    <Button variant="secondary" onClick={saveTemplate} disabled={!templateName.trim()} className="text-xs h-9 shrink-0">
+                        <Icons.Plus className="w-3.5 h-3.5" /> {t.templateSaveWeek || "Save this week"}
+                    </Button>
+                </div>
+                {templates.length > 0 ? templates.map(template => (
+                    <div key={template.id} className="flex items-center gap-2 p-2 rounded-xl border border-gray-100 bg-gray-50">
+                        <div className="flex-1 min-w-0">
+                            <p className="text-sm font-semibold text-nordic-text truncate">{template.name}</p>
+                            <p className="text-[10px] text-gray-400">{template.entries.length} {t.templateMeals || "meals"}</p>
+                        </div>
+                        <Button variant="secondary" onClick={() => { onApplyTemplate(template.id, weekStart); onClose(); }} className="text-xs h-8 shrink-0">
+                            {t.templateApply || "Apply to this week"}
+                        </Button>
+                        <Button variant="ghost" onClick={() => deleteTemplate(template.id)} className="!p-2 h-8 aspect-square text-red-500">
+                            <Icons.Trash className="w-4 h-4" />
+                        </Button>
+                    </div>
+                )) : (
+                    <p className="text-xs text-gray-400">{t.templateEmpty || "No templates yet. Save a week to reuse it."}</p>
+                )}
+            </div>
+
+            {/* Recurring Rules */}
+            <div className="space-y-2">
+                <h4 className="text-xs font-bold text-gray-500 uppercase tracking-wide">{t.recurringTitle || "Recurring meals"}</h4>
+                <p className="text-[10px] text-gray-500">{t.recurringDesc || "Filled in automatically when a week is shown or generated. Remove or move the meal to skip it that day."}</p>
+                {rules.length > 0 ? rules.map(rule => (
+                    <div key={rule.id} className="flex items-center gap-2 p-2 rounded-xl border border-gray-100 bg-gray-50">
+                        <div className="flex-1 min-w-0">
+                            {rule.name && <p className="text-sm font-semibold text-nordic-text truncate">{rule.name}</p>}
+                            <p className="text-xs text-gray-500 first-letter:uppercase">{describeRule(rule)}</p>
+                        </div>
+                        <Button variant="ghost" onClick={() => deleteRule(rule.id)} className="!p-2 h-8 aspect-square text-red-500">
+                            <Icons.Trash className="w-4 h-4" />
+                        </Button>
+                    </div>
+                )) : (
+                    <p className="text-xs text-gray-400">{t.recurringEmpty || "No recurring meals."}</p>
+                )}
+
+                <div className="p-3 rounded-xl border border-dashed border-gray-200 space-y-2">
+                    <Input
+                        value={ruleName}
+                        onChange={(e: any) => setRuleName(e.target.value)}
+                        placeholder={t.recurringName || "Name (optional), e.g. Taco Friday"}
+                        className="!py-1.5 !px-2 text-sm"
+                    />
+                    <div className="grid grid-cols-3 gap-2">
+                        <select value={ruleNth} onChange={e => setRuleNth(e.target.value === '' ? '' : parseInt(e.target.value))} className={selectClass}>
+                            <option value="">{t.recurringEvery || "Every"}</option>
+                            {NTH_OPTIONS.map(nth => <option key={nth} value={nth}>{nthLabel(nth)}</option>)}
+                        </select>
+                        <select value={ruleWeekday} onChange={e => setRuleWeekday(parseInt(e.target.value))} className={`${selectClass} capitalize`}>
+                            {weekdays.map(day => <option key={day} value={day}>{weekdayLabel(day)}</option>)}
+                        </select>
+                        <select value={ruleType} onChange={e => setRuleType(e.target.value as MealType)} className={selectClass}>
+                            {MEAL_TYPES.map(type => <option key={type} value={type}>{slotLabel(type)}</option>)}
+                        </select>
+                    </div>
+                    <select value={ruleRecipeId} onChange={e => setRuleRecipeId(e.target.value === '' ? '' : Number(e.target.value))} className={selectClass}>
+                        <option value="">{t.recurringAnyMatching || "Any recipe matching"}…</option>
+                        {recipes.map(r => <option key={r.id} value={r.id}>{r.title}</option>)}
+                    </select>
+                    {ruleRecipeId === '' && (
+                        <Input
+                            value={ruleKeyword}
+                            onChange={(e: any) => setRuleKeyword(e.target.value)}
+                            placeholder={t.recurringKeyword || "Title, cuisine or tag, e.g. taco"}
+                            className="!py-1.5 !px-2 text-sm"
+                        />
+                    )}
+                    {ruleRecipeId === '' && tags.length > 0 && (
+                        <div className="flex flex-wrap gap-1">
+                            {tags.map(tag => (
+                                <button
+                                    key={tag}
+                                    onClick={() => setRuleKeyword(tag)}
+                                    className={`px-2 py-0.5 rounded-full text-[10px] transition-colors border ${ruleKeyword.trim() === tag ? 'bg-nordic-primary text-white border-nordic-primary' : 'bg-white text-gray-500 border-gray-200 hover:bg-gray-50'}`}
+                                >
+                                    #{tag}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                    {ruleNth !== '' && (
+                        <p className="text-[10px] text-gray-400">{nthLabel(ruleNth)} {weekdayLabel(ruleWeekday)} {t.recurringOfMonth || "of the month"}</p>
+                    )}
+                    <Button variant="secondary" onClick={addRule} disabled={ruleRecipeId === '' && !ruleKeyword.trim()} className="w-full text-xs h-9">
+                        <Icons.Plus className="w-3.5 h-3.5" /> {t.recurringAdd || "Add rule"}
+                    </Button>
+                </div>
+            </div>
+        </div>
+    </Modal>
+  );
+};
@@ -1,17 +1,40 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { createPortal } from 'react-dom';
-import { MealPlanItem, Recipe, Language, AppSettings } from '../types';
+import { MealPlanItem, Recipe, Language, AppSettings, MealType, MEAL_TYPES, PlanReason, PlanEntry, PlanEntryKind, PLAN_ENTRY_KINDS, GuestCount, FreezerItem } from '../types';
 import { Card, Button, Icons, Modal, Input } from './Shared';
+import { PlanTemplatesModal } from './PlanTemplatesModal';
+import { buildCalendar, calendarFileName, currentAppUrl } from '../services/calendar';
+import { householdServings, hasGuests } from '../services/portions';
+import { prepSessions, canPrepAhead } from '../services/prep';
+import { addDays } from '../services/dates';
+import { extraPortions, availablePortions, daysLeft, nearBestBefore, FREEZER_KEEPS_DAYS, FREEZER_WARN_DAYS } from '../services/freezer';
+import { matchesFilter } from '../services/recipeFilters';
+import { searchRecipes } from '../services/search';
 
 interface PlanViewProps {
   plan: MealPlanItem[];
   recipes: Recipe[];
   onGenerate: (viewStart: string) => void;
   onRateMeal: (id: number, rating: number, comment?: string) => void;
-  onAddMeal: (date: string, recipeId: number) => void;
-  onMoveMeal: (date: string, direction: 'up' | 'down') => void;
-  onReorderMeal: (mealId: number, newDate: string) => void;
-  onRemoveMeal: (date: string) => void;
+  onAddMeal: (date: string, type: MealType, recipeId: number) => void;
+  onMoveMeal: (date: string, type: MealType, direction: 'up' | 'down') => void;
+  onReorderMeal: (mealId: number, newDate: string, newType: MealType) => void;
+  onRemoveMeal: (date: string, type: MealType) => void;
+  onAddLeftover: (sourceId: number, date: string, type: MealType, servings: number) => void;
+  onMarkCooked: (id: number, freeze?: { portions: number; best_before?: string }) => void;
+  onLockMeals: (ids: number[], locked: boolean) => void;
+  onAddEntry: (date: string, type: MealType, entry: PlanEntry) => void;
+  freezer: FreezerItem[];
+  onAddFromFreezer: (date: string, type: MealType, itemId: number) => void;
+  onSaveFreezerItem: (item: FreezerItem) => void;
+  onDeleteFreezerItem: (id: number) => void;
+  onSetPrepSession: (date: string, mealIds: number[]) => void;
+  onCookPrepSession: (mealIds: number[]) => void;
+  onSetGuests: (mealId: number, guests: GuestCount) => void;
+  onImportBusy: (ics: string) => Promise<number>;
+  onApplyTemplate: (templateId: number, weekStart: string) => void;
+  onFillRecurring: (weekStart: string) => void;
+  onUpdateSettings: (settings: AppSettings) => void;
   onSelectRecipe: (recipe: Recipe, meal?: MealPlanItem) => void;
   onUndo: () => void;
   canUndo: boolean;
@@ -20,6 +43,12 @@ interface PlanViewProps {
   settings?: AppSettings;
 }
 
+// A single meal slot on a given day
+interface Slot {
+    date: string;
+    type: MealType;
+}
+
 interface DragState {
     isDragging: boolean;
     itemId: number;
@@ -32,6 +61,7 @@ interface DragState {
     width: number;
     height: number;
     originalDate: string;
+    originalType: MealType;
     draggedRecipe?: Recipe;
     draggedMeal?: MealPlanItem;
 }
@@ -44,13 +74,40 @@ const formatLocalDate = (date: Date) => {
     return `${year}-${month}-${day}`;
 };
 
-export const PlanView: React.FC<PlanViewProps> = ({ plan, recipes, onGenerate, onRateMeal, onAddMeal, onMoveMeal, onReorderMeal, onRemoveMeal, onSelectRecipe, onUndo, canUndo, t, language, settings }) => {
+export const PlanView: React.FC<PlanViewProps> = ({ plan, recipes, onGenerate, onRateMeal, onAddMeal, onMoveMeal, onReorderMeal, onRemoveMeal, onAddLeftover, onMarkCooked, onLockMeals, onAddEntry, freezer, onAddFromFreezer, onSaveFreezerItem, onDeleteFreezerItem, onSetPrepSession, onCookPrepSession, onSetGuests, onImportBusy, onApplyTemplate, onFillRecurring, onUpdateSettings, onSelectRecipe, onUndo, canUndo, t, language, settings }) => {
   const [ratingItem, setRatingItem] = useState<MealPlanItem | null>(null);
   const [ratingValue, setRatingValue] = useState(0);
   const [ratingComment, setRatingComment] = useState('');
   
-  const [addingToDate, setAddingToDate] = useState<string | null>(null);
+  const [addingTo, setAddingTo] = useState<Slot | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
+  // A saved filter preset or a collection narrows the picker
+  const [pickerFilter, setPickerFilter] = useState<{ preset_id?: number; collection_id?: number }>({});
+  const [entryNote, setEntryNote] = useState('');
+
+  // Guests of a meal
+  const [guestsMeal, setGuestsMeal] = useState<MealPlanItem | null>(null);
+  const [guestDraft, setGuestDraft] = useState<GuestCount>({ adults: 0, kids: 0 });
+
+  // Leftovers
+  const [leftoverSource, setLeftoverSource] = useState<MealPlanItem | null>(null);
+  const [leftoverServings, setLeftoverServings] = useState(2);
+  const [highlightedSourceId, setHighlightedSourceId] = useState<number | null>(null);
+
+  // Generator explanation
+  const [reasonsMeal, setReasonsMeal] = useState<MealPlanItem | null>(null);
+  const [isTemplatesOpen, setTemplatesOpen] = useState(false);
+
+  // Freezer: portions to freeze when a meal is marked cooked, and the inventory
+  const [freezeDraft, setFreezeDraft] = useState<{ meal: MealPlanItem; portions: number; best_before: string } | null>(null);
+  const [isFreezerOpen, setFreezerOpen] = useState(false);
+
+  // Prep session being edited: the cooking day and the meals cooked on it
+  const [prepDraft, setPrepDraft] = useState<{ date: string; mealIds: number[] } | null>(null);
+
+  // Calendar export
+  const [exportRange, setExportRange] = useState<{ from: string; to: string } | null>(null);
+  const [busyResult, setBusyResult] = useState<string | null>(null);
   
   // Helper to calculate the start of the week relative to a date (Local Time)
   const getStartOfWeek = (date: Date, startDay: number = 1) => {
@@ -64,6 +121,7 @@ export const PlanView: React.FC<PlanViewProps> = ({ plan, recipes, onGenerate, o
   };
 
   const weekStartDay = settings?.week_start_day ?? 1; // Default Monday
+  const enabledSlots = settings?.meal_slots?.length ? settings.meal_slots : [MealType.DINNER];
 
   // Navigation State - Initialize to the start of the CURRENT week
   const [viewStartDate, setViewStartDate] = useState(() => getStartOfWeek(new Date(), weekStartDay));
@@ -75,7 +133,7 @@ export const PlanView: React.FC<PlanViewProps> = ({ plan, recipes, onGenerate, o
 
   // Drag State
   const [dragState, setDragState] = useState<DragState | null>(null);
-  const [hoveredDate, setHoveredDate] = useState<string | null>(null);
+  const [hoveredSlot, setHoveredSlot] = useState<Slot | null>(null);
   const longPressTimer = useRef<any>(null);
 
   // Helper to check if a date is in the past (strict day comparison)
@@ -97,6 +155,11 @@ export const PlanView: React.FC<PlanViewProps> = ({ plan, recipes, onGenerate, o
     return formatLocalDate(d);
   });
 
+  // Recurring meals appear in every week that is shown
+  useEffect(() => {
+      onFillRecurring(days[0]);
+  }, [days[0], settings?.recurring_rules]);
+
   const changeWeek = (offset: number) => {
       const newDate = new Date(viewStartDate);
       newDate.setDate(newDate.getDate() + (offset * 7));
@@ -117,7 +180,7 @@ export const PlanView: React.FC<PlanViewProps> = ({ plan, recipes, onGenerate, o
   };
 
   // Drag Event Handlers
-  const handlePointerDown = (e: React.PointerEvent, meal: MealPlanItem, recipe: Recipe, date: string) => {
+  const handlePointerDown = (e: React.PointerEvent, meal: MealPlanItem, recipe: Recipe, date: string, type: MealType) => {
       if (isDatePast(date)) return; // Disable dragging for past items
       
       // Ignore if clicking internal buttons
@@ -143,6 +206,7 @@ export const PlanView: React.FC<PlanViewProps> = ({ plan, recipes, onGenerate, o
               width: rect.width,
               height: rect.height,
               originalDate: date,
+              originalType: type,
               draggedRecipe: recipe,
               draggedMeal: meal
           });
@@ -170,27 +234,28 @@ export const PlanView: React.FC<PlanViewProps> = ({ plan, recipes, onGenerate, o
           
           // Hit testing
           const elementUnder = document.elementFromPoint(e.clientX, e.clientY);
-          const dayContainer = elementUnder?.closest('[data-plan-date]');
-          if (dayContainer) {
-              const date = dayContainer.getAttribute('data-plan-date');
+          const slotContainer = elementUnder?.closest('[data-plan-slot]');
+          if (slotContainer) {
+              const date = slotContainer.getAttribute('data-plan-date');
+              const type = slotContainer.getAttribute('data-plan-slot') as MealType;
               // Prevent dropping on past dates
               if (date && !isDatePast(date)) {
-                  setHoveredDate(date);
+                  setHoveredSlot(prev => prev?.date === date && prev.type === type ? prev : { date, type });
               } else {
-                  setHoveredDate(null);
+                  setHoveredSlot(null);
               }
           } else {
-              setHoveredDate(null);
+              setHoveredSlot(null);
           }
       };
 
       const handleUp = (e: PointerEvent) => {
-          if (hoveredDate && hoveredDate !== dragState.originalDate) {
-              onReorderMeal(dragState.itemId, hoveredDate);
+          if (hoveredSlot && (hoveredSlot.date !== dragState.originalDate || hoveredSlot.type !== dragState.originalType)) {
+              onReorderMeal(dragState.itemId, hoveredSlot.date, hoveredSlot.type);
           }
           
           setDragState(null);
-          setHoveredDate(null);
+          setHoveredSlot(null);
           document.body.style.overflow = '';
       };
 
@@ -203,15 +268,191 @@ export const PlanView: React.FC<PlanViewProps> = ({ plan, recipes, onGenerate, o
           window.removeEventListener('pointerup', handleUp);
           window.removeEventListener('pointercancel', handleUp);
       };
-  }, [dragState?.isDragging, hoveredDate, onReorderMeal]);
+  }, [dragState?.isDragging, hoveredSlot, onReorderMeal]);
+
+  // Enabled slots plus any slot that already holds a meal (e.g. after a slot was switched off)
+  const getSlotsForDay = (date: string) =>
+      MEAL_TYPES.filter(type => enabledSlots.includes(type) || plan.some(p => p.date === date && p.type === type));
+
+  const slotLabel = (type: MealType) => t[`slot_${type}`] || type;
+
+  const entryLabel = (kind: PlanEntryKind) => {
+      const labels: Record<PlanEntryKind, string> = {
+          eating_out: t.entry_eating_out || "Eating out",
+          takeaway: t.entry_takeaway || "Takeaway",
+          away: t.entry_away || "Away",
+          fasting: t.entry_fasting || "Fasting"
+      };
+      return labels[kind];
+  };
+
+  const shortDayLabel = (dateStr: string) => {
+      const [y, m, d] = dateStr.split('-').map(Number);
+      return new Date(y, m - 1, d).toLocaleDateString(language, { weekday: 'short' });
+  };
+
+  // Free slots after the source meal (same day later slots, then the next few days)
+  const getLeftoverTargets = (source: MealPlanItem): Slot[] => {
+      const targets: Slot[] = [];
+      const [y, m, d] = source.date.split('-').map(Number);
+      for (let offset = 0; offset <= 3; offset++) {
+          const date = formatLocalDate(new Date(y, m - 1, d + offset));
+          if (isDatePast(date)) continue;
+          enabledSlots.forEach(type => {
+              if (offset === 0 && MEAL_TYPES.indexOf(type) <= MEAL_TYPES.indexOf(source.type)) return;
+              if (plan.some(p => p.date === date && p.type === type)) return;
+              targets.push({ date, type });
+          });
+      }
+      return targets;
+  };
+
+  // Locks every meal of the day, or unlocks them if all are locked already
+  const toggleDayLock = (date: string) => {
+      const meals = plan.filter(p => p.date === date);
+      if (meals.length === 0) return;
+      const lock = meals.some(m => !m.locked);
+      onLockMeals(meals.map(m => m.id), lock);
+  };
+
+  const reasonLabel = (reason: PlanReason) => {
+      const labels: Record<string, string> = {
+          rating: t.planReason_rating || "Highly rated",
+          not_recent: t.planReason_not_recent || "Days since last planned",
+          never_planned: t.planReason_never_planned || "Never planned before",
+          uses_list: t.planReason_uses_list || "Uses items on the shopping list",
+          quick: t.planReason_quick || "Quick day, estimated minutes",
+          veg_fish: t.planReason_veg_fish || "Counts toward vegetarian or fish days",
+          variety: t.planReason_variety || "New cuisine this week",
+          relaxed: t.planReason_relaxed || "No recipe met every rule, this one broke",
+          template: t.planReason_template || "From template",
+          recurring: t.planReason_recurring || "Recurring meal"
+      };
+      if (reason.kind === 'relaxed') {
+          const broken = String(reason.value || '').split(',').map(c => t[`planConstraint_${c}`] || c);
+          return `${labels.relaxed}: ${broken.join(', ')}`;
+      }
+      return reason.value !== undefined ? `${labels[reason.kind]}: ${reason.value}` : labels[reason.kind];
+  };
+
+  const exportCalendar = () => {
+      if (!exportRange) return;
+      const ics = buildCalendar(plan, recipes, {
+          ...exportRange,
+          appUrl: currentAppUrl(),
+          name: 'HomeChef',
+          slotLabel,
+          servingsLabel: t.servings,
+          leftoversLabel: t.leftovers,
+          entryLabel: entry => entryLabel(entry.kind)
+      });
+      const url = URL.createObjectURL(new Blob([ics], { type: 'text/calendar' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = calendarFileName(exportRange.from, exportRange.to);
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+      setExportRange(null);
+  };
+
+  // Events from another calendar block those evenings
+  const importBusy = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+      const count = await onImportBusy(await file.text());
+      setBusyResult(count > 0
+          ? `${count} ${t.calendarBusyMarked || "meals marked as eating out"}`
+          : (t.calendarBusyNone || "No upcoming events in free slots"));
+  };
+
+  const addEntry = (kind: PlanEntryKind) => {
+      if (addingTo) onAddEntry(addingTo.date, addingTo.type, { kind, ...(entryNote.trim() ? { note: entryNote.trim() } : {}) });
+      setAddingTo(null);
+      setEntryNote('');
+  };
+
+  const openGuestsModal = (meal: MealPlanItem) => {
+      setGuestsMeal(meal);
+      setGuestDraft(meal.guests || { adults: 0, kids: 0 });
+  };
+
+  const saveGuests = () => {
+      if (guestsMeal) onSetGuests(guestsMeal.id, guestDraft);
+      setGuestsMeal(null);
+  };
+
+  const sessions = prepSessions(plan);
+
+  // Offers to freeze what was cooked beyond the household's portions
+  const markCooked = (meal: MealPlanItem) => {
+      const extra = settings ? extraPortions(meal, settings) : 0;
+      if (extra > 0) setFreezeDraft({ meal, portions: extra, best_before: addDays(todayStr, FREEZER_KEEPS_DAYS) });
+      else onMarkCooked(meal.id);
+  };
+
+  const confirmFreeze = (freeze: boolean) => {
+      if (!freezeDraft) return;
+      onMarkCooked(freezeDraft.meal.id, freeze ? { portions: freezeDraft.portions, best_before: freezeDraft.best_before } : undefined);
+      setFreezeDraft(null);
+  };
+
+  const recipeTitle = (id: number) => recipes.find(r => r.id === id)?.title || '-';
+
+  const bestBeforeLabel = (item: FreezerItem) => {
+      const left = daysLeft(item, todayStr);
+      return left < 0 ? (t.freezerExpired || "Past best-before") : `${left} ${t.freezerDaysLeft || "days left"}`;
+  };
+
+  const openPrepSession = (date: string) =>
+      setPrepDraft({ date, mealIds: plan.filter(p => p.prep_date === date).map(p => p.id) });
+
+  // Meals of the following week that can be cooked ahead on the draft's day
+  const prepCandidates = prepDraft
+      ? plan
+          .filter(p => canPrepAhead(p, prepDraft.date) && p.date <= addDays(prepDraft.date, 7))
+          .sort((a, b) => a.date.localeCompare(b.date) || MEAL_TYPES.indexOf(a.type) - MEAL_TYPES.indexOf(b.type))
+      : [];
+
+  const togglePrepMeal = (id: number) => {
+      if (!prepDraft) return;
+      const mealIds = prepDraft.mealIds.includes(id) ? prepDraft.mealIds.filter(m => m !== id) : [...prepDraft.mealIds, id];
+      setPrepDraft({ ...prepDraft, mealIds });
+  };
+
+  const savePrepSession = (cook: boolean) => {
+      if (!prepDraft) return;
+      onSetPrepSession(prepDraft.date, prepDraft.mealIds);
+      if (cook) onCookPrepSession(prepDraft.mealIds);
+      setPrepDraft(null);
+  };
+
+  const guestCount = (meal: MealPlanItem) => (meal.guests?.adults || 0) + (meal.guests?.kids || 0);
+
+  const openLeftoverModal = (meal: MealPlanItem) => {
+      setLeftoverSource(meal);
+      setLeftoverServings(2);
+  };
 
   // Filter recipes for search
-  const filteredRecipes = recipes.filter(r => r.title.toLowerCase().includes(searchTerm.toLowerCase()));
+  const filterPresets = settings?.filter_presets || [];
+  const collections = settings?.collections || [];
+  const pickerPreset = filterPresets.find(p => p.id === pickerFilter.preset_id);
+  const filterContext = { plan, collections };
+  const searchResults = useMemo(() => searchRecipes(searchTerm, recipes), [searchTerm, recipes]);
+  const filteredRecipes = searchResults.filter(r =>
+    (!pickerPreset || matchesFilter(r, pickerPreset.filter, filterContext)) &&
+    (pickerFilter.collection_id === undefined || !!collections.find(c => c.id === pickerFilter.collection_id)?.recipe_ids.includes(r.id)));
 
   // Check if we are viewing the current week
   const todayStr = formatLocalDate(new Date());
   const isCurrentWeekView = days.includes(todayStr);
 
+  const freezerAvailable = freezer.filter(item => availablePortions(item, plan) > 0);
+  const freezerWarnings = nearBestBefore(freezer, plan, todayStr);
+
   return (
     <div className="pb-24 md:pb-4 space-y-2">
        {/* Title */}
@@ -233,6 +474,20 @@ export const PlanView: React.FC<PlanViewProps> = ({ plan, recipes, onGenerate, o
             </Button>
         </div>
         <div className="flex gap-2">
+            <Button onClick={() => setFreezerOpen(true)} variant="secondary" className="!p-2 text-xs h-8" title={t.freezerTitle || "Freezer"}>
+                <Icons.Snowflake className="w-3.5 h-3.5" />
+            </Button>
+            <Button onClick={() => openPrepSession(days.includes(todayStr) || days[0] < todayStr ? todayStr : days[0])} variant="secondary" className="!p-2 text-xs h-8" title={t.prepSession || "Prep session"}>
+                <Icons.Tool className="w-3.5 h-3.5" />
+            </Button>
+            <Button onClick={() => setExportRange({ from: days[0], to: days[6] })} variant="secondary" className="!p-2 text-xs h-8" title={t.calendarExport || "Export to calendar"}>
+                <Icons.Upload className="w-3.5 h-3.5" />
+            </Button>
+            {settings && (
+                <Button onClick={() => setTemplatesOpen(true)} variant="secondary" className="!p-2 text-xs h-8" title={t.planTemplatesTitle || "Templates & recurring meals"}>
+                    <Icons.List className="w-3.5 h-3.5" />
+                </Button>
+            )}
             <Button onClick={onUndo} disabled={!canUndo} variant="secondary" className="!p-2 text-xs h-8">
                <Icons.Undo className="w-3.5 h-3.5" />
             </Button>
@@ -242,13 +497,23 @@ export const PlanView: React.FC<PlanViewProps> = ({ plan, recipes, onGenerate, o
         </div>
       </div>
 
+      {freezerWarnings.length > 0 && (
+          <button
+              onClick={() => setFreezerOpen(true)}
+              className="w-full flex items-start gap-2 p-3 mb-2 rounded-xl bg-amber-50 border border-amber-200 text-left text-xs text-amber-800 hover:bg-amber-100 transition-colors"
+          >
+              <Icons.Snowflake className="w-4 h-4 shrink-0 mt-0.5" />
+              <span>
+                  <span className="font-bold">{t.freezerUseSoon || "Use soon from the freezer"}: </span>
+                  {freezerWarnings.map(item => `${recipeTitle(item.recipe_id)} (${bestBeforeLabel(item)})`).join(', ')}
+              </span>
+          </button>
+      )}
+
       <div className="space-y-2 select-none md:space-y-0 md:grid md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 md:gap-4">
         {days.map((date, index) => {
-            const meal = plan.find(p => p.date === date);
-            const recipe = meal ? recipes.find(r => r.id === meal.recipe_id) : null;
-            const isHovered = hoveredDate === date;
-            const isBeingDragged = dragState?.originalDate === date;
             const isPast = isDatePast(date);
+            const isDayHovered = hoveredSlot?.date === date;
 
             // Parse locally for display
             const [y,m,d] = date.split('-').map(Number);
@@ -257,120 +522,263 @@ export const PlanView: React.FC<PlanViewProps> = ({ plan, recipes, onGenerate, o
             const weekday = dateObj.toLocaleDateString(language, { weekday: 'short' }).toUpperCase().replace('.', '');
             const dayNum = dateObj.getDate();
             const isToday = todayStr === date;
+            const dayMeals = plan.filter(p => p.date === date);
+            const dayLocked = dayMeals.length > 0 && dayMeals.every(m => m.locked);
 
             return (
                 <div 
                     key={date} 
-                    className={`relative rounded-2xl transition-all duration-200 ${isHovered ? 'ring-2 ring-nordic-primary ring-offset-2' : ''} ${isPast ? 'grayscale opacity-75' : ''}`}
+                    className={`relative rounded-2xl transition-all duration-200 ${isPast ? 'grayscale opacity-75' : ''}`}
                     data-plan-date={date}
                 >
-                    <div className="flex items-stretch gap-2 md:h-full md:bg-white md:p-2 md:rounded-xl md:border md:border-gray-100 md:shadow-sm">
+                    <div className={`flex items-stretch gap-2 md:h-full md:bg-white md:p-2 md:rounded-xl md:border md:border-gray-100 md:shadow-sm ${isDayHovered ? 'md:border-nordic-primary/40' : ''}`}>
                         {/* Compact Date Column */}
-                        <div className={`flex flex-col items-center justify-center w-12 rounded-xl flex-shrink-0 border transition-all h-16 md:h-full ${isToday ? 'bg-nordic-primary text-white shadow-md border-transparent' : 'bg-white text-gray-400 border-gray-100 md:bg-gray-50'}`}>
+                        <button
+                            onClick={() => toggleDayLock(date)}
+                            disabled={isPast || dayMeals.length === 0}
+                            title={t.planLockDay || "Lock or unlock the day's meals"}
+                            className={`flex flex-col items-center justify-center w-12 rounded-xl flex-shrink-0 border transition-all min-h-[4rem] ${isToday ? 'bg-nordic-primary text-white shadow-md border-transparent' : 'bg-white text-gray-400 border-gray-100 md:bg-gray-50'}`}
+                        >
                             <span className="text-[9px] font-bold tracking-wider opacity-80">{weekday}</span>
                             <span className="text-lg font-bold leading-none">{dayNum}</span>
-                        </div>
+                            {dayLocked && <Icons.Lock className="w-3 h-3 mt-1 opacity-80" />}
+                        </button>
                         
-                        {/* Meal Card Column */}
-                        <div className="flex-grow min-w-0">
-                            {meal && recipe ? (
-                                <div
-                                    onPointerDown={(e) => handlePointerDown(e, meal, recipe, date)}
-                                    onPointerMove={cancelLongPress} 
-                                    onPointerUp={cancelLongPress}
-                                    onPointerLeave={cancelLongPress}
-                                    className={`h-full transition-opacity duration-200 ${isBeingDragged ? 'opacity-30' : 'opacity-100'}`}
-                                >
-                                    <Card 
-                                        className="h-full flex flex-col justify-center relative group cursor-pointer active:scale-[0.99] transition-transform shadow-none border-gray-200 hover:border-nordic-primary/50 md:shadow-none md:border-transparent" 
-                                        onClick={() => {
-                                            if (!dragState) onSelectRecipe(recipe, meal);
-                                        }}
+                        {/* Slot Column */}
+                        <div className="flex-grow min-w-0 flex flex-col gap-1.5">
+                            {getSlotsForDay(date).map(type => {
+                                const meal = plan.find(p => p.date === date && p.type === type);
+                                const recipe = meal ? recipes.find(r => r.id === meal.recipe_id) : null;
+                                const isHovered = hoveredSlot?.date === date && hoveredSlot.type === type;
+                                const isBeingDragged = dragState?.originalDate === date && dragState.originalType === type;
+
+                                return (
+                                    <div
+                                        key={type}
+                                        data-plan-date={date}
+                                        data-plan-slot={type}
+                                        className={`rounded-xl transition-all duration-200 ${isHovered ? 'ring-2 ring-nordic-primary ring-offset-2' : ''}`}
                                     >
-                                        <div className="flex items-center p-1.5 gap-3">
-                                            {/* Compact Image */}
-                                            <img src={recipe.images[0]} className="w-14 h-14 rounded-lg object-cover bg-gray-100 shrink-0 pointer-events-none" alt={recipe.title} />
-                                            
-                                            <div className="flex-1 min-w-0 flex flex-col justify-center h-full">
-                                                <div className="flex justify-between items-start gap-1">
-                                                    <div className="min-w-0">
-                                                        <h4 className="font-semibold text-sm text-nordic-text truncate leading-tight mb-0.5">{recipe.title}</h4>
-                                                        <p className="text-[10px] text-gray-400">{meal.servings || recipe.servings_default} {t.servings}</p>
-                                                    </div>
-                                                    
-                                                    {/* Controls - Hidden if Past */}
-                                                    {!isPast && (
-                                                        <div className="flex gap-1 shrink-0 opacity-100 sm:opacity-0 sm:group-hover:opacity-100 transition-opacity">
-                                                            <button 
-                                                                onClick={(e) => { e.stopPropagation(); onMoveMeal(date, 'up'); }} 
-                                                                className="text-gray-400 hover:text-nordic-primary p-1 rounded-full hover:bg-gray-50 md:hidden"
-                                                            >
-                                                                <Icons.ChevronUp className="w-3.5 h-3.5" />
-                                                            </button>
-                                                            <button 
-                                                                onClick={(e) => { e.stopPropagation(); onMoveMeal(date, 'down'); }} 
-                                                                className="text-gray-400 hover:text-nordic-primary p-1 rounded-full hover:bg-gray-50 md:hidden"
-                                                            >
-                                                                <Icons.ChevronDown className="w-3.5 h-3.5" />
-                                                            </button>
-                                                            <button 
-                                                            onClick={(e) => { e.stopPropagation(); setAddingToDate(date); }} 
-                                                            className="text-gray-400 hover:text-nordic-primary p-1 rounded-full hover:bg-gray-50"
-                                                            >
-                                                            <Icons.Refresh className="w-3.5 h-3.5" />
-                                                            </button>
-                                                            <button 
-                                                            onClick={(e) => { e.stopPropagation(); onRemoveMeal(date); }} 
-                                                            className="text-gray-400 hover:text-red-500 p-1 rounded-full hover:bg-red-50"
-                                                            >
-                                                            <Icons.Trash className="w-3.5 h-3.5" />
-                                                            </button>
-                                                        </div>
-                                                    )}
+                                        {meal?.entry ? (
+                                            <Card className="h-full flex items-center gap-3 p-1.5 group shadow-none md:shadow-none border-dashed border-slate-300 bg-slate-50/60">
+                                                <div className="w-14 h-14 rounded-lg bg-slate-100 text-slate-400 flex items-center justify-center shrink-0">
+                                                    <Icons.X className="w-5 h-5" />
                                                 </div>
-
-                                                {/* Bottom Row: Rating / Cooked status */}
-                                                <div className="flex items-center gap-2 mt-0.5 pointer-events-auto">
-                                                     {meal.is_cooked ? (
-                                                         <div className="flex items-center gap-0.5 bg-yellow-50 px-1.5 py-0.5 rounded-md">
-                                                             <Icons.Star className="w-3 h-3 text-nordic-accent" fill={true} />
-                                                             <span className="text-[10px] font-bold text-yellow-700">{meal.rating || '-'}</span>
-                                                             {/* Allow re-rating even if cooked/past */}
-                                                             <button 
-                                                                onClick={(e) => { e.stopPropagation(); setRatingItem(meal); }}
-                                                                className="ml-1 text-[9px] underline text-gray-400 hover:text-nordic-primary"
-                                                             >
-                                                                 Edit
-                                                             </button>
-                                                         </div>
-                                                     ) : (
-                                                        <button 
-                                                            onClick={(e) => { e.stopPropagation(); setRatingItem(meal); }}
-                                                            className="text-[10px] font-medium text-nordic-primary/70 hover:text-nordic-primary"
+                                                <div className="flex-1 min-w-0">
+                                                    <h4 className="font-semibold text-sm text-slate-600 truncate leading-tight mb-0.5">
+                                                        {meal.locked && <Icons.Lock className="w-3 h-3 inline-block mr-1 -mt-0.5 text-gray-400" />}
+                                                        {entryLabel(meal.entry.kind)}
+                                                    </h4>
+                                                    <p className="text-[10px] text-gray-400 truncate">
+                                                        <span className="font-bold uppercase tracking-wide">{slotLabel(type)}</span>
+                                                        {meal.entry.note && <> · {meal.entry.note}</>}
+                                                    </p>
+                                                </div>
+                                                {!isPast && (
+                                                    <div className="flex gap-1 shrink-0 opacity-100 sm:opacity-0 sm:group-hover:opacity-100 transition-opacity">
+                                                        <button
+                                                        onClick={() => setAddingTo({ date, type })}
+                                                        className="text-gray-400 hover:text-nordic-primary p-1 rounded-full hover:bg-gray-50"
                                                         >
-                                                            {t.rateButton}
+                                                        <Icons.Refresh className="w-3.5 h-3.5" />
                                                         </button>
-                                                     )}
-                                                </div>
+                                                        <button
+                                                        onClick={() => onLockMeals([meal.id], !meal.locked)}
+                                                        className={`p-1 rounded-full hover:bg-gray-50 ${meal.locked ? 'text-nordic-primary' : 'text-gray-400 hover:text-nordic-primary'}`}
+                                                        title={meal.locked ? (t.planUnlock || "Unlock") : (t.planLock || "Lock")}
+                                                        >
+                                                        <Icons.Lock className="w-3.5 h-3.5" />
+                                                        </button>
+                                                        <button
+                                                        onClick={() => onRemoveMeal(date, type)}
+                                                        className="text-gray-400 hover:text-red-500 p-1 rounded-full hover:bg-red-50"
+                                                        >
+                                                        <Icons.Trash className="w-3.5 h-3.5" />
+                                                        </button>
+                                                    </div>
+                                                )}
+                                            </Card>
+                                        ) : meal && recipe ? (
+                                            <div
+                                                onPointerDown={(e) => handlePointerDown(e, meal, recipe, date, type)}
+                                                onPointerMove={cancelLongPress} 
+                                                onPointerUp={cancelLongPress}
+                                                onPointerLeave={cancelLongPress}
+                                                className={`h-full transition-opacity duration-200 ${isBeingDragged ? 'opacity-30' : 'opacity-100'}`}
+                                            >
+                                                <Card 
+                                                    className={`h-full flex flex-col justify-center relative group cursor-pointer active:scale-[0.99] transition-transform shadow-none md:shadow-none ${meal.is_leftover ? 'border-dashed border-amber-300 bg-amber-50/40' : 'border-gray-200 hover:border-nordic-primary/50 md:border-transparent'} ${highlightedSourceId === meal.id ? 'ring-2 ring-amber-400' : ''}`}
+                                                    onClick={() => {
+                                                        if (!dragState) onSelectRecipe(recipe, meal);
+                                                    }}
+                                                    onPointerEnter={() => meal.is_leftover && setHighlightedSourceId(meal.source_meal_id ?? null)}
+                                                    onPointerLeave={() => setHighlightedSourceId(null)}
+                                                >
+                                                    <div className="flex items-center p-1.5 gap-3">
+                                                        {/* Compact Image */}
+                                                        <img src={recipe.images[0]} className="w-14 h-14 rounded-lg object-cover bg-gray-100 shrink-0 pointer-events-none" alt={recipe.title} />
+                                            
+                                                        <div className="flex-1 min-w-0 flex flex-col justify-center h-full">
+                                                            <div className="flex justify-between items-start gap-1">
+                                                                <div className="min-w-0">
+                                                                    <h4 className="font-semibold text-sm text-nordic-text truncate leading-tight mb-0.5">
+                                                                        {meal.locked && <Icons.Lock className="w-3 h-3 inline-block mr-1 -mt-0.5 text-gray-400" />}
+                                                                        {recipe.title}
+                                                                    </h4>
+                                                                    <p className="text-[10px] text-gray-400">
+                                                                        <span className="font-bold uppercase tracking-wide">{slotLabel(type)}</span> · {meal.servings || recipe.servings_default} {t.servings}
+                                                                        {!!meal.leftover_servings && (
+                                                                            <span className="ml-1 text-amber-600 font-medium">+{meal.leftover_servings} {t.leftovers}</span>
+                                                                        )}
+                                                                        {meal.freezer_item_id !== undefined && (
+                                                                            <span className="ml-1 text-sky-600 font-medium">· {t.freezerFrom || "From the freezer"}</span>
+                                                                        )}
+                                                                        {meal.prep_date && meal.prep_date !== meal.date && (
+                                                                            <span className="ml-1 text-nordic-primary font-medium">· {t.prepAhead || "Prepped"} {shortDayLabel(meal.prep_date)}</span>
+                                                                        )}
+                                                                        {hasGuests(meal.guests) && (
+                                                                            <span className="ml-1 text-nordic-primary font-medium">+{guestCount(meal)} {t.guests || "guests"}</span>
+                                                                        )}
+                                                                    </p>
+                                                                </div>
+                                                    
+                                                                {/* Controls - Hidden if Past */}
+                                                                {!isPast && (
+                                                                    <div className="flex gap-1 shrink-0 opacity-100 sm:opacity-0 sm:group-hover:opacity-100 transition-opacity">
+                                                                        <button 
+                                                                            onClick={(e) => { e.stopPropagation(); onMoveMeal(date, type, 'up'); }} 
+                                                                            className="text-gray-400 hover:text-nordic-primary p-1 rounded-full hover:bg-gray-50 md:hidden"
+                                                                        >
+                                                                            <Icons.ChevronUp className="w-3.5 h-3.5" />
+                                                                        </button>
+                                                                        <button 
+                                                                            onClick={(e) => { e.stopPropagation(); onMoveMeal(date, type, 'down'); }} 
+                                                                            className="text-gray-400 hover:text-nordic-primary p-1 rounded-full hover:bg-gray-50 md:hidden"
+                                                                        >
+                                                                            <Icons.ChevronDown className="w-3.5 h-3.5" />
+                                                                        </button>
+                                                                        {!meal.is_leftover && (
+                                                                            <>
+                                                                                <button 
+                                                                                onClick={(e) => { e.stopPropagation(); openLeftoverModal(meal); }} 
+                                                                                className="text-gray-400 hover:text-amber-600 p-1 rounded-full hover:bg-amber-50"
+                                                                                title={t.planLeftovers}
+                                                                                >
+                                                                                <Icons.Box className="w-3.5 h-3.5" />
+                                                                                </button>
+                                                                                {settings && (
+                                                                                    <button
+                                                                                    onClick={(e) => { e.stopPropagation(); openGuestsModal(meal); }}
+                                                                                    className={`p-1 rounded-full hover:bg-gray-50 ${hasGuests(meal.guests) ? 'text-nordic-primary' : 'text-gray-400 hover:text-nordic-primary'}`}
+                                                                                    title={t.guestsTitle || "Guests"}
+                                                                                    >
+                                                                                    <Icons.Users className="w-3.5 h-3.5" />
+                                                                                    </button>
+                                                                                )}
+                                                                                <button 
+                                                                                onClick={(e) => { e.stopPropagation(); setAddingTo({ date, type }); }} 
+                                                                                className="text-gray-400 hover:text-nordic-primary p-1 rounded-full hover:bg-gray-50"
+                                                                                >
+                                                                                <Icons.Refresh className="w-3.5 h-3.5" />
+                                                                                </button>
+                                                                            </>
+                                                                        )}
+                                                                        <button
+                                                                        onClick={(e) => { e.stopPropagation(); onLockMeals([meal.id], !meal.locked); }}
+                                                                        className={`p-1 rounded-full hover:bg-gray-50 ${meal.locked ? 'text-nordic-primary' : 'text-gray-400 hover:text-nordic-primary'}`}
+                                                                        title={meal.locked ? (t.planUnlock || "Unlock") : (t.planLock || "Lock")}
+                                                                        >
+                                                                        <Icons.Lock className="w-3.5 h-3.5" />
+                                                                        </button>
+                                                                        <button 
+                                                                        onClick={(e) => { e.stopPropagation(); onRemoveMeal(date, type); }} 
+                                                                        className="text-gray-400 hover:text-red-500 p-1 rounded-full hover:bg-red-50"
+                                                                        >
+                                                                        <Icons.Trash className="w-3.5 h-3.5" />
+                                                                        </button>
+                                                                    </div>
+                                                                )}
+                                                            </div>
+
+                                                            {/* Bottom Row: Rating / Cooked status, or link to the source for leftovers */}
+                                                            <div className="flex items-center gap-2 mt-0.5 pointer-events-auto">
+                                                                 {meal.is_leftover ? (() => {
+                                                                     const source = plan.find(p => p.id === meal.source_meal_id);
+                                                                     return (
+                                                                         <span className="flex items-center gap-1 text-[10px] font-medium text-amber-700 bg-amber-100/70 px-1.5 py-0.5 rounded-md">
+                                                                             <Icons.Link className="w-3 h-3" />
+                                                                             {t.leftoversFrom} {source ? `${shortDayLabel(source.date)} ${slotLabel(source.type).toLowerCase()}` : '-'}
+                                                                         </span>
+                                                                     );
+                                                                 })() : meal.is_cooked ? (
+                                                                     <div className="flex items-center gap-0.5 bg-yellow-50 px-1.5 py-0.5 rounded-md">
+                                                                         <Icons.Star className="w-3 h-3 text-nordic-accent" fill={true} />
+                                                                         <span className="text-[10px] font-bold text-yellow-700">{meal.rating || '-'}</span>
+                                                                         {/* Allow re-rating even if cooked/past */}
+                                                                         <button 
+                                                                            onClick={(e) => { e.stopPropagation(); setRatingItem(meal); }}
+                                                                            className="ml-1 text-[9px] underline text-gray-400 hover:text-nordic-primary"
+                                                                         >
+                                                                             Edit
+                                                                         </button>
+                                                                     </div>
+                                                                 ) : (
+                                                                    <>
+                                                                        <button 
+                                                                            onClick={(e) => { e.stopPropagation(); markCooked(meal); }}
+                                                                            className="flex items-center gap-0.5 text-[10px] font-medium text-gray-400 hover:text-nordic-primary"
+                                                                        >
+                                                                            <Icons.Check className="w-3 h-3" /> {t.markCooked}
+                                                                        </button>
+                                                                        <button 
+                                                                            onClick={(e) => { e.stopPropagation(); setRatingItem(meal); }}
+                                                                            className="text-[10px] font-medium text-nordic-primary/70 hover:text-nordic-primary"
+                                                                        >
+                                                                            {t.rateButton}
+                                                                        </button>
+                                                                        {!!meal.plan_reasons?.length && (
+                                                                            <button
+                                                                                onClick={(e) => { e.stopPropagation(); setReasonsMeal(meal); }}
+                                                                                className="flex items-center gap-0.5 text-[10px] font-medium text-gray-400 hover:text-nordic-primary"
+                                                                            >
+                                                                                <Icons.Info className="w-3 h-3" /> {t.planWhy || "Why?"}
+                                                                            </button>
+                                                                        )}
+                                                                    </>
+                                                                 )}
+                                                            </div>
+                                                        </div>
+                                                    </div>
+                                                </Card>
                                             </div>
-                                        </div>
-                                    </Card>
-                                </div>
-                            ) : (
-                                !isPast ? (
-                                    <button 
-                                        onClick={() => setAddingToDate(date)}
-                                        className="w-full h-16 md:h-full rounded-xl border-2 border-dashed border-gray-100 text-gray-300 hover:border-nordic-primary hover:text-nordic-primary transition-all flex items-center justify-center gap-2 bg-white/50"
-                                    >
-                                        <Icons.Plus className="w-4 h-4" />
-                                        <span className="font-medium text-xs">{t.addMeal}</span>
-                                    </button>
-                                ) : (
-                                    <div className="w-full h-16 md:h-full rounded-xl border border-gray-100 bg-gray-50 flex items-center justify-center">
-                                        <span className="text-xs text-gray-400 italic">{t.datePassed || "Date passed, no meal"}</span>
+                                        ) : (
+                                            !isPast ? (
+                                                <button 
+                                                    onClick={() => setAddingTo({ date, type })}
+                                                    className="w-full h-12 rounded-xl border-2 border-dashed border-gray-100 text-gray-300 hover:border-nordic-primary hover:text-nordic-primary transition-all flex items-center justify-center gap-2 bg-white/50"
+                                                >
+                                                    <Icons.Plus className="w-4 h-4" />
+                                                    <span className="font-medium text-xs">{t.addMeal} · {slotLabel(type)}</span>
+                                                </button>
+                                            ) : (
+                                                <div className="w-full h-12 rounded-xl border border-gray-100 bg-gray-50 flex items-center justify-center">
+                                                    <span className="text-xs text-gray-400 italic">{slotLabel(type)}: {t.datePassed || "Date passed, no meal"}</span>
+                                                </div>
+                                            )
+                                        )}
                                     </div>
-                                )
-                            )}
+                                );
+                            })}
+                            {sessions.filter(session => session.date === date).map(session => (
+                                <button
+                                    key={session.date}
+                                    onClick={() => openPrepSession(session.date)}
+                                    className="flex items-center gap-1.5 px-2 py-1 rounded-lg bg-teal-50 text-[10px] font-medium text-nordic-primary hover:bg-teal-100 transition-colors"
+                                >
+                                    <Icons.Tool className="w-3 h-3" />
+                                    {t.prepSession || "Prep session"} · {session.meals.length} {t.templateMeals || "meals"}
+                                </button>
+                            ))}
                         </div>
                     </div>
                 </div>
@@ -428,30 +836,361 @@ export const PlanView: React.FC<PlanViewProps> = ({ plan, recipes, onGenerate, o
           )}
       </Modal>
 
+      {/* Leftovers Modal */}
+      <Modal isOpen={!!leftoverSource} onClose={() => setLeftoverSource(null)} title={t.planLeftovers}>
+          {leftoverSource && (() => {
+              const targets = getLeftoverTargets(leftoverSource);
+              return (
+                  <div className="space-y-4">
+                      <p className="text-sm text-gray-500">
+                          {t.leftoversDesc} <span className="font-bold text-slate-700">{recipes.find(r => r.id === leftoverSource.recipe_id)?.title}</span>
+                      </p>
+                      <div className="flex items-center justify-between">
+                          <span className="text-xs font-bold text-gray-500">{t.leftoverServings}</span>
+                          <div className="flex items-center gap-2">
+                              <button onClick={() => setLeftoverServings(Math.max(1, leftoverServings - 1))} className="p-1.5 rounded-full bg-gray-100 hover:bg-gray-200">
+                                  <Icons.Minus className="w-3.5 h-3.5" />
+                              </button>
+                              <span className="w-6 text-center font-bold">{leftoverServings}</span>
+                              <button onClick={() => setLeftoverServings(leftoverServings + 1)} className="p-1.5 rounded-full bg-gray-100 hover:bg-gray-200">
+                                  <Icons.Plus className="w-3.5 h-3.5" />
+                              </button>
+                          </div>
+                      </div>
+                      <div>
+                          <p className="text-xs font-bold text-gray-500 mb-2">{t.leftoverWhen}</p>
+                          {targets.length > 0 ? (
+                              <div className="grid grid-cols-2 gap-2">
+                                  {targets.map(target => (
+                                      <button
+                                          key={`${target.date}-${target.type}`}
+                                          onClick={() => {
+                                              onAddLeftover(leftoverSource.id, target.date, target.type, leftoverServings);
+                                              setLeftoverSource(null);
+                                          }}
+                                          className="p-2 rounded-xl border border-gray-200 text-sm text-left hover:border-amber-400 hover:bg-amber-50 transition-colors"
+                                      >
+                                          <span className="font-medium capitalize">{shortDayLabel(target.date)}</span> · {slotLabel(target.type)}
+                                      </button>
+                                  ))}
+                              </div>
+                          ) : (
+                              <p className="text-center text-sm text-gray-400 py-4">{t.noFreeSlots}</p>
+                          )}
+                      </div>
+                  </div>
+              );
+          })()}
+      </Modal>
+
+      {settings && (
+          <PlanTemplatesModal
+              isOpen={isTemplatesOpen}
+              onClose={() => setTemplatesOpen(false)}
+              weekStart={days[0]}
+              plan={plan}
+              recipes={recipes}
+              settings={settings}
+              onUpdateSettings={onUpdateSettings}
+              onApplyTemplate={onApplyTemplate}
+              t={t}
+              language={language}
+          />
+      )}
+
+      {/* Calendar Export Modal */}
+      <Modal isOpen={!!exportRange} onClose={() => { setExportRange(null); setBusyResult(null); }} title={t.calendarExport || "Export to calendar"}>
+          {exportRange && (
+              <div className="space-y-4">
+                  <p className="text-sm text-gray-500">{t.calendarExportDesc || "Downloads an .ics file with one event per meal. Importing it again updates the same events."}</p>
+                  <div className="flex gap-2">
+                      <div className="flex-1">
+                          <label className="text-[10px] text-gray-500 mb-1 block">{t.calendarFrom || "From"}</label>
+                          <Input type="date" value={exportRange.from} onChange={(e: any) => setExportRange({ ...exportRange, from: e.target.value })} className="!py-1.5 !px-2 text-sm" />
+                      </div>
+                      <div className="flex-1">
+                          <label className="text-[10px] text-gray-500 mb-1 block">{t.calendarTo || "To"}</label>
+                          <Input type="date" value={exportRange.to} min={exportRange.from} onChange={(e: any) => setExportRange({ ...exportRange, to: e.target.value })} className="!py-1.5 !px-2 text-sm" />
+                      </div>
+                  </div>
+                  <Button onClick={exportCalendar} disabled={!exportRange.from || !exportRange.to || exportRange.to < exportRange.from} className="w-full">
+                      <Icons.Upload className="w-4 h-4" /> {t.calendarDownload || "Download .ics"}
+                  </Button>
+                  <div className="pt-4 border-t border-gray-100 space-y-2">
+                      <h4 className="text-xs font-bold text-gray-500 uppercase tracking-wide">{t.calendarBusy || "Busy evenings"}</h4>
+                      <p className="text-[10px] text-gray-500">{t.calendarBusyDesc || "Import an .ics file from your own calendar. Upcoming events mark their meals as eating out, so the generator leaves them alone."}</p>
+                      <label className="flex items-center justify-center gap-2 w-full py-2 rounded-xl border border-gray-200 text-sm font-medium text-gray-600 hover:border-nordic-primary hover:text-nordic-primary cursor-pointer transition-colors">
+                          <Icons.Plan className="w-4 h-4" /> {t.calendarBusyImport || "Import .ics"}
+                          <input type="file" accept=".ics,text/calendar" onChange={importBusy} className="hidden" />
+                      </label>
+                      {busyResult && <p className="text-xs text-nordic-primary text-center">{busyResult}</p>}
+                  </div>
+              </div>
+          )}
+      </Modal>
+
+      {/* Generator Reasons Modal */}
+      <Modal isOpen={!!reasonsMeal} onClose={() => setReasonsMeal(null)} title={t.planWhyTitle || "Why this recipe?"}>
+          {reasonsMeal && (
+              <div className="space-y-3">
+                  <p className="text-sm font-bold text-nordic-text">{recipes.find(r => r.id === reasonsMeal.recipe_id)?.title}</p>
+                  <ul className="space-y-2">
+                      {(reasonsMeal.plan_reasons || []).map((reason, i) => (
+                          <li key={i} className={`flex items-start gap-2 text-sm ${reason.kind === 'relaxed' ? 'text-amber-700' : 'text-gray-600'}`}>
+                              {reason.kind === 'relaxed' ? <Icons.X className="w-4 h-4 mt-0.5 shrink-0" /> : <Icons.Check className="w-4 h-4 mt-0.5 shrink-0" />}
+                              <span>{reasonLabel(reason)}</span>
+                          </li>
+                      ))}
+                  </ul>
+              </div>
+          )}
+      </Modal>
+
+      {/* Freeze Extra Portions Modal */}
+      <Modal isOpen={!!freezeDraft} onClose={() => setFreezeDraft(null)} title={t.freezerFreezeTitle || "Freeze the extra portions?"}>
+          {freezeDraft && (
+              <div className="space-y-4">
+                  <p className="text-sm text-gray-500">
+                      {t.freezerFreezeDesc || "You cooked more than your household eats."} <span className="font-bold text-slate-700">{recipeTitle(freezeDraft.meal.recipe_id)}</span>
+                  </p>
+                  <div className="flex items-center justify-between">
+                      <span className="text-xs font-bold text-gray-500">{t.freezerPortions || "portions"}</span>
+                      <div className="flex items-center gap-2">
+                          <button onClick={() => setFreezeDraft({ ...freezeDraft, portions: Math.max(1, freezeDraft.portions - 1) })} className="p-1.5 rounded-full bg-gray-100 hover:bg-gray-200">
+                              <Icons.Minus className="w-3.5 h-3.5" />
+                          </button>
+                          <span className="w-6 text-center font-bold">{freezeDraft.portions}</span>
+                          <button onClick={() => setFreezeDraft({ ...freezeDraft, portions: freezeDraft.portions + 1 })} className="p-1.5 rounded-full bg-gray-100 hover:bg-gray-200">
+                              <Icons.Plus className="w-3.5 h-3.5" />
+                          </button>
+                      </div>
+                  </div>
+                  <div>
+                      <label className="text-[10px] text-gray-500 mb-1 block">{t.freezerBestBefore || "Best before"}</label>
+                      <Input type="date" value={freezeDraft.best_before} min={todayStr} onChange={(e: any) => e.target.value && setFreezeDraft({ ...freezeDraft, best_before: e.target.value })} className="!py-1.5 !px-2 text-sm" />
+                  </div>
+                  <div className="grid grid-cols-2 gap-2">
+                      <Button variant="secondary" onClick={() => confirmFreeze(false)}>
+                          {t.freezerSkip || "Don't freeze"}
+                      </Button>
+                      <Button onClick={() => confirmFreeze(true)}>
+                          <Icons.Snowflake className="w-4 h-4" /> {t.freezerFreeze || "Freeze"}
+                      </Button>
+                  </div>
+              </div>
+          )}
+      </Modal>
+
+      {/* Freezer Modal */}
+      <Modal isOpen={isFreezerOpen} onClose={() => setFreezerOpen(false)} title={t.freezerTitle || "Freezer"}>
+          <div className="space-y-2">
+              {freezer.length > 0 ? [...freezer].sort((a, b) => a.best_before.localeCompare(b.best_before)).map(item => {
+                  const left = daysLeft(item, todayStr);
+                  const planned = item.portions - availablePortions(item, plan);
+                  return (
+                      <div key={item.id} className="p-2 rounded-xl border border-gray-100 bg-gray-50 space-y-2">
+                          <div className="flex items-center gap-2">
+                              <div className="flex-1 min-w-0">
+                                  <p className="text-sm font-semibold text-nordic-text truncate">{recipeTitle(item.recipe_id)}</p>
+                                  <p className="text-[10px] text-gray-400">
+                                      {t.freezerFrozenOn || "Frozen"} {item.frozen_on}
+                                      {planned > 0 && <> · {planned} {t.freezerPlanned || "planned"}</>}
+                                  </p>
+                              </div>
+                              <div className="flex items-center gap-1.5">
+                                  <button onClick={() => item.portions > 1 ? onSaveFreezerItem({ ...item, portions: item.portions - 1 }) : onDeleteFreezerItem(item.id)} className="p-1 rounded-full bg-white border border-gray-200 hover:bg-gray-100">
+                                      <Icons.Minus className="w-3 h-3" />
+                                  </button>
+                                  <span className="w-5 text-center text-sm font-bold">{item.portions}</span>
+                                  <button onClick={() => onSaveFreezerItem({ ...item, portions: item.portions + 1 })} className="p-1 rounded-full bg-white border border-gray-200 hover:bg-gray-100">
+                                      <Icons.Plus className="w-3 h-3" />
+                                  </button>
+                              </div>
+                              <Button variant="ghost" onClick={() => onDeleteFreezerItem(item.id)} className="!p-2 h-8 aspect-square text-red-500">
+                                  <Icons.Trash className="w-4 h-4" />
+                              </Button>
+                          </div>
+                          <div className="flex items-center gap-2">
+                              <label className="text-[10px] text-gray-500 shrink-0">{t.freezerBestBefore || "Best before"}</label>
+                              <Input type="date" value={item.best_before} onChange={(e: any) => e.target.value && onSaveFreezerItem({ ...item, best_before: e.target.value })} className="!py-1 !px-2 text-xs" />
+                              <span className={`text-[10px] font-medium shrink-0 ${left <= FREEZER_WARN_DAYS ? 'text-amber-600' : 'text-gray-400'}`}>{bestBeforeLabel(item)}</span>
+                          </div>
+                      </div>
+                  );
+              }) : (
+                  <p className="text-center text-sm text-gray-400 py-4">{t.freezerEmpty || "The freezer is empty. Cook extra portions and freeze them when you mark a meal as cooked."}</p>
+              )}
+          </div>
+      </Modal>
+
+      {/* Prep Session Modal */}
+      <Modal isOpen={!!prepDraft} onClose={() => setPrepDraft(null)} title={t.prepSession || "Prep session"}>
+          {prepDraft && (
+              <div className="space-y-4">
+                  <p className="text-sm text-gray-500">{t.prepSessionDesc || "Cook several meals ahead on one day. You get one checklist for all of them and the steps in the order to do them."}</p>
+                  <div>
+                      <label className="text-[10px] text-gray-500 mb-1 block">{t.prepCookingDay || "Cooking day"}</label>
+                      <Input
+                          type="date"
+                          value={prepDraft.date}
+                          min={todayStr}
+                          onChange={(e: any) => e.target.value && openPrepSession(e.target.value)}
+                          className="!py-1.5 !px-2 text-sm"
+                      />
+                  </div>
+                  <div className="max-h-[40vh] overflow-y-auto space-y-1">
+                      {prepCandidates.length > 0 ? prepCandidates.map(meal => {
+                          const recipe = recipes.find(r => r.id === meal.recipe_id);
+                          const otherSession = meal.prep_date && meal.prep_date !== prepDraft.date;
+                          return (
+                              <label key={meal.id} className="flex items-center gap-2 p-2 rounded-xl hover:bg-gray-50 cursor-pointer">
+                                  <input
+                                      type="checkbox"
+                                      checked={prepDraft.mealIds.includes(meal.id)}
+                                      onChange={() => togglePrepMeal(meal.id)}
+                                      className="accent-teal-700"
+                                  />
+                                  <span className="flex-1 min-w-0">
+                                      <span className="block text-sm font-medium text-nordic-text truncate">{recipe?.title || '-'}</span>
+                                      <span className="block text-[10px] text-gray-400">
+                                          <span className="capitalize">{shortDayLabel(meal.date)}</span> · {slotLabel(meal.type)}
+                                          {otherSession && <> · {t.prepAhead || "Prepped"} {shortDayLabel(meal.prep_date!)}</>}
+                                      </span>
+                                  </span>
+                              </label>
+                          );
+                      }) : (
+                          <p className="text-center text-sm text-gray-400 py-4">{t.prepNoMeals || "No planned meals in the week after this day."}</p>
+                      )}
+                  </div>
+                  <div className="grid grid-cols-2 gap-2">
+                      <Button variant="secondary" onClick={() => savePrepSession(false)}>
+                          {t.save}
+                      </Button>
+                      <Button onClick={() => savePrepSession(true)} disabled={prepDraft.mealIds.length === 0}>
+                          <Icons.Play className="w-4 h-4" /> {t.prepCook || "Start cooking"}
+                      </Button>
+                  </div>
+              </div>
+          )}
+      </Modal>
+
+      {/* Guests Modal */}
+      <Modal isOpen={!!guestsMeal} onClose={() => setGuestsMeal(null)} title={t.guestsTitle || "Guests"}>
+          {guestsMeal && settings && (
+              <div className="space-y-4">
+                  <p className="text-sm text-gray-500">{t.guestsDesc || "Guests on top of your household. Kids count as half a portion."}</p>
+                  {(['adults', 'kids'] as const).map(key => (
+                      <div key={key} className="flex items-center justify-between">
+                          <span className="text-xs font-bold text-gray-500">{key === 'adults' ? (t.guestsAdults || "Adults") : (t.guestsKids || "Kids")}</span>
+                          <div className="flex items-center gap-2">
+                              <button onClick={() => setGuestDraft({ ...guestDraft, [key]: Math.max(0, guestDraft[key] - 1) })} className="p-1.5 rounded-full bg-gray-100 hover:bg-gray-200">
+                                  <Icons.Minus className="w-3.5 h-3.5" />
+                              </button>
+                              <span className="w-6 text-center font-bold">{guestDraft[key]}</span>
+                              <button onClick={() => setGuestDraft({ ...guestDraft, [key]: guestDraft[key] + 1 })} className="p-1.5 rounded-full bg-gray-100 hover:bg-gray-200">
+                                  <Icons.Plus className="w-3.5 h-3.5" />
+                              </button>
+                          </div>
+                      </div>
+                  ))}
+                  <p className="text-xs text-gray-400">
+                      {t.guestsHousehold || "Household"}: {householdServings(settings)} · {t.guestsWith || "with guests"}: <span className="font-bold text-nordic-text">{householdServings(settings, guestDraft)}</span> {t.servings}
+                  </p>
+                  <Button onClick={saveGuests} className="w-full">
+                      {t.save}
+                  </Button>
+              </div>
+          )}
+      </Modal>
+
       {/* Add Meal Modal (Recipe Picker) */}
-      <Modal isOpen={!!addingToDate} onClose={() => setAddingToDate(null)} title={t.selectRecipe}>
+      <Modal isOpen={!!addingTo} onClose={() => setAddingTo(null)} title={addingTo ? `${t.selectRecipe} · ${slotLabel(addingTo.type)}` : t.selectRecipe}>
           <div className="space-y-4">
+              <div className="space-y-2">
+                  <p className="text-xs font-bold text-gray-500">{t.entryNotCooking || "Not cooking"}</p>
+                  <div className="flex flex-wrap gap-1.5">
+                      {PLAN_ENTRY_KINDS.map(kind => (
+                          <button
+                              key={kind}
+                              onClick={() => addEntry(kind)}
+                              className="px-2.5 py-1 rounded-full border border-gray-200 text-xs font-medium text-gray-600 hover:border-nordic-primary hover:text-nordic-primary transition-colors"
+                          >
+                              {entryLabel(kind)}
+                          </button>
+                      ))}
+                  </div>
+                  <Input
+                     placeholder={t.entryNote || "Note (optional), e.g. at grandma's"}
+                     value={entryNote}
+                     onChange={(e: any) => setEntryNote(e.target.value)}
+                     className="!py-1.5 !px-2 text-sm"
+                  />
+              </div>
+              {freezerAvailable.length > 0 && (
+                  <div className="space-y-1">
+                      <p className="text-xs font-bold text-gray-500">{t.freezerFrom || "From the freezer"}</p>
+                      {freezerAvailable.map(item => (
+                          <button
+                              key={item.id}
+                              onClick={() => {
+                                  if (addingTo) onAddFromFreezer(addingTo.date, addingTo.type, item.id);
+                                  setAddingTo(null);
+                              }}
+                              className="w-full flex items-center gap-2 p-2 rounded-xl border border-sky-100 bg-sky-50/50 text-left hover:border-sky-300 transition-colors"
+                          >
+                              <Icons.Snowflake className="w-4 h-4 text-sky-500 shrink-0" />
+                              <span className="flex-1 min-w-0">
+                                  <span className="block text-sm font-medium text-nordic-text truncate">{recipeTitle(item.recipe_id)}</span>
+                                  <span className="block text-[10px] text-gray-400">{availablePortions(item, plan)} {t.freezerPortions || "portions"} · {bestBeforeLabel(item)}</span>
+                              </span>
+                          </button>
+                      ))}
+                  </div>
+              )}
               <Input 
                  placeholder={t.searchPlaceholder}
                  value={searchTerm}
                  onChange={(e: any) => setSearchTerm(e.target.value)}
                  autoFocus
               />
+              {(filterPresets.length > 0 || collections.length > 0) && (
+                  <div className="flex gap-1.5 overflow-x-auto no-scrollbar">
+                      {filterPresets.map(preset => (
+                          <button
+                              key={`p${preset.id}`}
+                              onClick={() => setPickerFilter(prev => ({ ...prev, preset_id: prev.preset_id === preset.id ? undefined : preset.id }))}
+                              className={`shrink-0 px-2.5 py-1 rounded-full border text-xs font-medium transition-colors ${pickerFilter.preset_id === preset.id ? 'bg-nordic-primary text-white border-nordic-primary' : 'border-gray-200 text-gray-600 hover:border-nordic-primary'}`}
+                          >
+                              {preset.name}
+                          </button>
+                      ))}
+                      {collections.map(collection => (
+                          <button
+                              key={`c${collection.id}`}
+                              onClick={() => setPickerFilter(prev => ({ ...prev, collection_id: prev.collection_id === collection.id ? undefined : collection.id }))}
+                              className={`shrink-0 flex items-center gap-1 px-2.5 py-1 rounded-full border text-xs font-medium transition-colors ${pickerFilter.collection_id === collection.id ? 'bg-nordic-primary text-white border-nordic-primary' : 'border-gray-200 text-gray-600 hover:border-nordic-primary'}`}
+                          >
+                              <Icons.List className="w-3 h-3" /> {collection.name}
+                          </button>
+                      ))}
+                  </div>
+              )}
               <div className="max-h-[50vh] overflow-y-auto space-y-2">
                   {filteredRecipes.length > 0 ? (
                       filteredRecipes.map(recipe => (
                           <div 
                             key={recipe.id} 
                             onClick={() => {
-                                if (addingToDate) onAddMeal(addingToDate, recipe.id);
-                                setAddingToDate(null);
+                                if (addingTo) onAddMeal(addingTo.date, addingTo.type, recipe.id);
+                                setAddingTo(null);
                             }}
                             className="flex items-center gap-3 p-2 hover:bg-gray-50 rounded-xl cursor-pointer transition-colors"
                           >
                               <img src={recipe.images[0]} className="w-12 h-12 rounded-lg object-cover bg-gray-100" alt={recipe.title} />
                               <div>
                                   <p className="font-bold text-sm text-nordic-text">{recipe.title}</p>
-                                  <p className="text-xs text-gray-400">{recipe.servings_default} srv</p>
+                                  <p className="text-xs text-gray-400">{recipe.servings_default} srv{recipe.total_minutes ? ` · ${recipe.total_minutes} min` : ''}</p>
                               </div>
                           </div>
                       ))
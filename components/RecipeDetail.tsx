@@ -1,25 +1,34 @@
 import React, { useState, useEffect, useRef, useMemo } from 'react';
-import { Recipe, Language, MealPlanItem, Nutrition, SHOPPING_CATEGORIES, Ingredient, AppSettings } from '../types';
-import { Button, Icons, Modal, Input, Badge } from './Shared';
-import { generateRecipeImage, estimateNutrition, refineInstructions, suggestRecipeImprovement, ImprovementSuggestion } from '../services/geminiService';
+import { Recipe, Language, MealPlanItem, Nutrition, SHOPPING_CATEGORIES, Ingredient, AppSettings, MealType, ImprovementSuggestion, DIFFICULTIES, Difficulty } from '../types';
+import { Button, Icons, Modal, Input, Badge, AIErrorBanner, AIQueuedNotice } from './Shared';
+import { refineInstructions } from '../services/geminiService';
+import { runOrQueue } from '../services/aiQueue';
+import { parseIngredient, toIngredient } from '../services/ingredientParser';
+import { prepChecklist, prepTimeline, formatOffset } from '../services/prep';
+import { allTags, normalizeTag } from '../services/recipeFilters';
+import { getProteinType } from '../services/planner';
+import { CookingTimer, detectDurations, startTimer } from '../services/timers';
+import { linkSteps, renameStepIngredient, stepIngredients } from '../services/recipeSteps';
 
 interface RecipeDetailProps {
   recipe: Recipe;
   recipes?: Recipe[];
   meal?: MealPlanItem;
   plan?: MealPlanItem[]; // Passed to find ratings
+  prepSession?: MealPlanItem[]; // Opens straight into cooking all meals of a prep session
+  timers?: CookingTimer[]; // Running timers, to show which steps already have one
   settings?: AppSettings;
   onClose: () => void;
   onUpdateRecipe: (recipe: Recipe) => void;
   onUpdateServings: (mealId: number, servings: number) => void;
-  onAddMeal: (date: string, recipeId: number) => void;
+  onAddMeal: (date: string, type: MealType, recipeId: number) => void;
   onRateMeal?: (id: number, rating: number, comment?: string) => void;
   t: any;
   language: string;
 }
 
-export const RecipeDetail: React.FC<RecipeDetailProps> = ({ recipe, recipes = [], meal, plan, settings, onClose, onUpdateRecipe, onUpdateServings, onAddMeal, onRateMeal, t, language }) => {
-  const [isCooking, setIsCooking] = useState(false);
+export const RecipeDetail: React.FC<RecipeDetailProps> = ({ recipe, recipes = [], meal, plan, prepSession, timers = [], settings, onClose, onUpdateRecipe, onUpdateServings, onAddMeal, onRateMeal, t, language }) => {
+  const [isCooking, setIsCooking] = useState(!!prepSession);
   const [currentStep, setCurrentStep] = useState(0);
   const [slideDirection, setSlideDirection] = useState<'up' | 'down'>('up');
   const [showIngredientsOverlay, setShowIngredientsOverlay] = useState(false);
@@ -27,6 +36,8 @@ export const RecipeDetail: React.FC<RecipeDetailProps> = ({ recipe, recipes = []
   
   const [showDateSelect, setShowDateSelect] = useState(false);
   const [planDate, setPlanDate] = useState(new Date().toISOString().split('T')[0]);
+  const mealSlots = settings?.meal_slots?.length ? settings.meal_slots : [MealType.DINNER];
+  const [planSlot, setPlanSlot] = useState<MealType>(mealSlots.includes(MealType.DINNER) ? MealType.DINNER : mealSlots[0]);
   const [isGeneratingImage, setIsGeneratingImage] = useState(false);
 
   // Calendar Picker State
@@ -59,6 +70,12 @@ export const RecipeDetail: React.FC<RecipeDetailProps> = ({ recipe, recipes = []
   const [isEditing, setIsEditing] = useState(false);
   const [editedRecipe, setEditedRecipe] = useState<Recipe>(viewedRecipe);
   const [isRefining, setIsRefining] = useState(false);
+  const [quickIngredient, setQuickIngredient] = useState('');
+
+  // Last failed AI request, shown above the recipe body
+  const [aiError, setAiError] = useState<unknown>(null);
+  // Last AI request went to the offline queue; App applies the result when it finishes
+  const [aiQueued, setAiQueued] = useState(false);
 
   // Track the ID or URL of the last AI generated image to enable replacement
   const lastGeneratedAiImageRef = useRef<string | null>(null);
@@ -77,6 +94,11 @@ export const RecipeDetail: React.FC<RecipeDetailProps> = ({ recipe, recipes = []
     setViewedRecipe(recipe);
   }, [recipe]);
 
+  // A queued improvement finished: offer it like a fresh suggestion
+  useEffect(() => {
+    if (recipe.pending_improvement) setImprovementSuggestion(recipe.pending_improvement);
+  }, [recipe.pending_improvement]);
+
   useEffect(() => {
     setCurrentServings(meal?.servings || viewedRecipe.servings_default);
     if (meal) {
@@ -123,27 +145,55 @@ export const RecipeDetail: React.FC<RecipeDetailProps> = ({ recipe, recipes = []
     return Array.from(unique.values()).sort();
   }, [recipes]);
 
+  // Tags already in use first, then the built-in suggestions
+  const [tagInput, setTagInput] = useState('');
+  const tagSuggestions = useMemo(() => {
+    const builtIn = String(t.tagSuggestions || 'weeknight, kid-favorite, holiday, batch-friendly').split(',').map(normalizeTag);
+    return Array.from(new Set([...allTags(recipes), ...builtIn])).filter(tag => tag && !editedRecipe.tags?.includes(tag));
+  }, [recipes, t, editedRecipe.tags]);
+
+  const addTags = (text: string) => {
+    const added = text.split(',').map(normalizeTag).filter(Boolean);
+    if (added.length === 0) return;
+    setEditedRecipe(prev => ({ ...prev, tags: Array.from(new Set([...(prev.tags || []), ...added])) }));
+    setTagInput('');
+  };
+
+  const removeTag = (tag: string) => {
+    setEditedRecipe(prev => {
+      const tags = (prev.tags || []).filter(x => x !== tag);
+      return { ...prev, tags: tags.length > 0 ? tags : undefined };
+    });
+  };
+
+  // Empty input clears a time
+  const setTiming = (field: 'prep_minutes' | 'cook_minutes' | 'total_minutes' | 'active_minutes', value: string) => {
+    const minutes = parseInt(value, 10);
+    setEditedRecipe(prev => ({ ...prev, [field]: minutes > 0 ? minutes : undefined }));
+  };
+
+  // A prep session cooks the merged timeline of all its recipes
+  const sessionSteps = useMemo(() => prepSession ? prepTimeline(prepSession, recipes) : null, [prepSession, recipes]);
+  const sessionChecklist = useMemo(() => prepSession ? prepChecklist(prepSession, recipes) : [], [prepSession, recipes]);
+  const [checkedPrep, setCheckedPrep] = useState<Set<number>>(new Set());
+  const cookingSteps = sessionSteps ? sessionSteps.map(step => step.text) : viewedRecipe.instructions;
+
+  const exitCooking = () => prepSession ? onClose() : setIsCooking(false);
+
   // Calculate ingredient scaling
   const scale = currentServings / viewedRecipe.servings_default;
   const isLatestVersion = viewedRecipe.version === recipe.version;
 
+  // --- Timing ---
+  const viewTotal = viewedRecipe.total_minutes || (viewedRecipe.prep_minutes || 0) + (viewedRecipe.cook_minutes || 0) || undefined;
+  // Hands-on time; prep time when not given
+  const viewActive = viewedRecipe.active_minutes ?? viewedRecipe.prep_minutes;
+  const difficultyLabel = (level: Difficulty) => t[`difficulty_${level}`] || level;
+
   // --- Helper to determine Dietary Label ---
   const getDietaryLabel = () => {
-      const meatIngredients = viewedRecipe.ingredients.filter(i => 
-          ['Meat', 'Fish', 'Poultry', 'Seafood'].includes(i.category)
-      );
-
-      if (meatIngredients.length === 0) return 'Vegetarian';
-
-      const names = meatIngredients.map(i => i.item_name.toLowerCase()).join(' ');
-      
-      const fishKeywords = ['salmon', 'tuna', 'cod', 'fish', 'shrimp', 'prawn', 'crab', 'lobster', 'seafood', 'trout', 'haddock', 'scallop', 'mussel', 'clam'];
-      const poultryKeywords = ['chicken', 'turkey', 'duck', 'goose', 'quail', 'poultry', 'hen'];
-
-      if (fishKeywords.some(k => names.includes(k))) return 'Fish';
-      if (poultryKeywords.some(k => names.includes(k))) return 'Poultry';
-
-      return 'Meat';
+      const type = getProteinType(viewedRecipe);
+      return type === 'vegetarian' ? 'Vegetarian' : type === 'fish' ? 'Fish' : type === 'poultry' ? 'Poultry' : 'Meat';
   };
 
   // --- Wake Lock Effect ---
@@ -199,8 +249,15 @@ export const RecipeDetail: React.FC<RecipeDetailProps> = ({ recipe, recipes = []
     e.stopPropagation();
     if (!viewedRecipe || !isLatestVersion) return;
     setIsGeneratingImage(true);
+    setAiError(null);
+    setAiQueued(false);
     try {
-        const imageUrl = await generateRecipeImage(viewedRecipe.title, viewedRecipe.description);
+        const outcome = await runOrQueue('image', {}, viewedRecipe.id);
+        if (outcome.queued) {
+            setAiQueued(true);
+            return;
+        }
+        const imageUrl = outcome.result;
         if (imageUrl) {
              let newImages = [...viewedRecipe.images];
              
@@ -218,6 +275,7 @@ export const RecipeDetail: React.FC<RecipeDetailProps> = ({ recipe, recipes = []
         }
     } catch (error) {
         console.error("Failed to generate image", error);
+        setAiError(error);
     } finally {
         setIsGeneratingImage(false);
     }
@@ -228,12 +286,20 @@ export const RecipeDetail: React.FC<RecipeDetailProps> = ({ recipe, recipes = []
       if (!viewedRecipe || !isLatestVersion) return;
       setLoadingNutrition(true);
       setShowNutritionDetails(true);
+      setAiError(null);
+      setAiQueued(false);
       try {
-          const data = await estimateNutrition(viewedRecipe.ingredients);
+          const outcome = await runOrQueue('nutrition', {}, viewedRecipe.id);
+          if (outcome.queued) {
+              setAiQueued(true);
+              return;
+          }
+          const data = outcome.result;
           setNutrition(data);
           onUpdateRecipe({ ...viewedRecipe, nutrition: data }); // Save immediately
       } catch (error) {
           console.error("Failed to calculate nutrition", error);
+          setAiError(error);
       } finally {
           setLoadingNutrition(false);
       }
@@ -262,7 +328,7 @@ export const RecipeDetail: React.FC<RecipeDetailProps> = ({ recipe, recipes = []
 
   const handleAddToPlan = () => {
       if (viewedRecipe && planDate && isLatestVersion) {
-          onAddMeal(planDate, viewedRecipe.id);
+          onAddMeal(planDate, planSlot, viewedRecipe.id);
           setShowDateSelect(false);
           onClose();
       }
@@ -282,28 +348,45 @@ export const RecipeDetail: React.FC<RecipeDetailProps> = ({ recipe, recipes = []
   const handleSuggestImprovement = async () => {
       if (!isLatestVersion) return;
       setIsImproving(true);
+      setAiError(null);
+      setAiQueued(false);
       
       const context = `Adults: ${settings?.default_adults || 2}, Kids: ${settings?.default_kids || 0}`;
-      const suggestion = await suggestRecipeImprovement(recipe, context);
-      
-      setImprovementSuggestion(suggestion);
-      setIsImproving(false);
+      try {
+          const outcome = await runOrQueue('improvement', { context }, recipe.id);
+          if (outcome.queued) setAiQueued(true);
+          else setImprovementSuggestion(outcome.result);
+      } catch (error) {
+          setAiError(error);
+      } finally {
+          setIsImproving(false);
+      }
   };
 
   const acceptImprovement = () => {
       if (!improvementSuggestion || !isLatestVersion) return;
       
+      const { pending_improvement, ...current } = recipe;
       const updated = {
-          ...recipe,
+          ...current,
           title: improvementSuggestion.changes.title_suffix 
             ? `${recipe.title} ${improvementSuggestion.changes.title_suffix}`
             : recipe.title,
           ingredients: improvementSuggestion.changes.ingredients,
-          instructions: improvementSuggestion.changes.instructions
+          instructions: improvementSuggestion.changes.instructions,
+          steps: undefined
       };
       
-      onUpdateRecipe(updated);
+      onUpdateRecipe({ ...updated, steps: linkSteps(updated) });
+      setImprovementSuggestion(null);
+  };
+
+  const dismissImprovement = () => {
       setImprovementSuggestion(null);
+      if (recipe.pending_improvement) {
+          const { pending_improvement, ...current } = recipe;
+          onUpdateRecipe(current);
+      }
   };
   
   // --- Edit Mode Handlers ---
@@ -311,7 +394,10 @@ export const RecipeDetail: React.FC<RecipeDetailProps> = ({ recipe, recipes = []
   const handleEditIngredient = (index: number, field: keyof Ingredient, value: any) => {
       const newIngredients = [...editedRecipe.ingredients];
       newIngredients[index] = { ...newIngredients[index], [field]: value };
-      setEditedRecipe({ ...editedRecipe, ingredients: newIngredients });
+      const steps = field === 'item_name'
+          ? renameStepIngredient(editedRecipe.steps, editedRecipe.ingredients[index].item_name, value)
+          : editedRecipe.steps;
+      setEditedRecipe({ ...editedRecipe, ingredients: newIngredients, steps });
   };
   
   const handleDeleteIngredient = (index: number) => {
@@ -326,15 +412,28 @@ export const RecipeDetail: React.FC<RecipeDetailProps> = ({ recipe, recipes = []
       });
   };
 
+  // Adds one ingredient from a typed line like "2 dl grädde, vispad"
+  const handleQuickAddIngredient = (e: React.FormEvent) => {
+      e.preventDefault();
+      if (!quickIngredient.trim()) return;
+      setEditedRecipe({
+          ...editedRecipe,
+          ingredients: [...editedRecipe.ingredients, toIngredient(parseIngredient(quickIngredient))]
+      });
+      setQuickIngredient('');
+  };
+
   const handleEditInstruction = (index: number, value: string) => {
       const newInstructions = [...editedRecipe.instructions];
       newInstructions[index] = value;
-      setEditedRecipe({ ...editedRecipe, instructions: newInstructions });
+      // Links set by hand follow the rewritten step
+      const steps = editedRecipe.steps?.map((step, i) => i === index && step.manual ? { ...step, text: value } : step);
+      setEditedRecipe({ ...editedRecipe, instructions: newInstructions, steps });
   };
   
   const handleDeleteInstruction = (index: number) => {
       const newInstructions = editedRecipe.instructions.filter((_, i) => i !== index);
-      setEditedRecipe({ ...editedRecipe, instructions: newInstructions });
+      setEditedRecipe({ ...editedRecipe, instructions: newInstructions, steps: editedRecipe.steps?.filter((_, i) => i !== index) });
   };
   
   const handleAddInstruction = () => {
@@ -344,22 +443,43 @@ export const RecipeDetail: React.FC<RecipeDetailProps> = ({ recipe, recipes = []
       });
   };
 
+  const toggleStepIngredient = (step: number, ingredient: number) => {
+      setEditedRecipe(prev => {
+          const current = stepIngredients(prev, step);
+          const linked = current.includes(ingredient)
+              ? current.filter(i => i !== ingredient)
+              : [...current, ingredient].sort((a, b) => a - b);
+          const steps = linkSteps(prev);
+          steps[step] = { text: prev.instructions[step], ingredients: linked.map(i => prev.ingredients[i].item_name), manual: true };
+          return { ...prev, steps };
+      });
+  };
+
+  // Back to the ingredients found in the step text
+  const resetStepIngredients = (step: number) => {
+      setEditedRecipe(prev => ({
+          ...prev,
+          steps: prev.steps?.map((s, i) => i === step ? { ...s, manual: undefined } : s)
+      }));
+  };
+
   const handleAiRefine = async (mode: 'detailed' | 'simple') => {
       setIsRefining(true);
+      setAiError(null);
       try {
           const ingredientNames = editedRecipe.ingredients.map(i => i.item_name);
           const newSteps = await refineInstructions(editedRecipe.title, ingredientNames, editedRecipe.instructions, mode);
           setEditedRecipe({ ...editedRecipe, instructions: newSteps });
       } catch (e) {
-          // Handle error gracefully
           console.error(e);
+          setAiError(e);
       } finally {
           setIsRefining(false);
       }
   };
 
   const saveEdit = () => {
-      onUpdateRecipe(editedRecipe);
+      onUpdateRecipe({ ...editedRecipe, steps: linkSteps(editedRecipe) });
       setIsEditing(false);
   };
 
@@ -385,7 +505,7 @@ export const RecipeDetail: React.FC<RecipeDetailProps> = ({ recipe, recipes = []
       const distance = touchStart.current - touchEnd.current;
       const isUpSwipe = distance > minSwipeDistance;
       const isDownSwipe = distance < -minSwipeDistance;
-      const stepCount = viewedRecipe.instructions.length;
+      const stepCount = cookingSteps.length;
 
       // Swipe Up -> Next Content (Increment Step)
       if (isUpSwipe && currentStep < stepCount - 1) {
@@ -401,7 +521,7 @@ export const RecipeDetail: React.FC<RecipeDetailProps> = ({ recipe, recipes = []
   };
 
   const nextStep = () => {
-      if (currentStep < viewedRecipe.instructions.length - 1) {
+      if (currentStep < cookingSteps.length - 1) {
           setSlideDirection('up');
           setCurrentStep(currentStep + 1);
       }
@@ -431,7 +551,7 @@ export const RecipeDetail: React.FC<RecipeDetailProps> = ({ recipe, recipes = []
   const handleDateClick = (day: Date) => {
       const dateStr = formatIsoDate(day);
       // Check for existing plan
-      const existing = plan?.find(p => p.date === dateStr);
+      const existing = plan?.find(p => p.date === dateStr && p.type === planSlot);
       if (existing) {
           setConfirmReplaceDate(dateStr);
       } else {
@@ -452,7 +572,10 @@ export const RecipeDetail: React.FC<RecipeDetailProps> = ({ recipe, recipes = []
        <ul className="space-y-3">
            {viewedRecipe.ingredients.map((ing, idx) => (
                <li key={idx} className="flex items-baseline justify-between border-b border-gray-100 pb-2">
-                   <span className="font-medium text-slate-800">{ing.item_name}</span>
+                   <span className="font-medium text-slate-800">
+                       {ing.item_name}
+                       {ing.note && <span className="font-normal text-slate-400">, {ing.note}</span>}
+                   </span>
                    <span className="text-slate-500 whitespace-nowrap ml-2">
                        {parseFloat((ing.quantity * scale).toFixed(2))} {ing.unit}
                    </span>
@@ -461,13 +584,82 @@ export const RecipeDetail: React.FC<RecipeDetailProps> = ({ recipe, recipes = []
        </ul>
   );
 
+  // Every ingredient of the session once, with how it is prepared and where it goes
+  const PrepChecklist = () => (
+       <ul className="space-y-3">
+           {sessionChecklist.map((item, idx) => {
+               const checked = checkedPrep.has(idx);
+               return (
+                   <li key={idx} className="border-b border-gray-100 pb-2">
+                       <label className="flex items-start gap-2 cursor-pointer">
+                           <input
+                               type="checkbox"
+                               checked={checked}
+                               onChange={() => {
+                                   const next = new Set(checkedPrep);
+                                   if (checked) next.delete(idx); else next.add(idx);
+                                   setCheckedPrep(next);
+                               }}
+                               className="mt-1 accent-teal-700"
+                           />
+                           <span className={`flex-1 min-w-0 ${checked ? 'line-through text-gray-400' : ''}`}>
+                               <span className="flex items-baseline justify-between">
+                                   <span className="font-medium text-slate-800">
+                                       {item.item_name}
+                                       {item.notes.length > 0 && <span className="font-normal text-slate-400">, {item.notes.join(' / ')}</span>}
+                                   </span>
+                                   <span className="text-slate-500 whitespace-nowrap ml-2">{parseFloat(item.quantity.toFixed(2))} {item.unit}</span>
+                               </span>
+                               <span className="block text-[10px] text-gray-400 truncate">{item.recipes.join(', ')}</span>
+                           </span>
+                       </label>
+                   </li>
+               );
+           })}
+       </ul>
+  );
+
   // --- Cooking Mode Render (Immersive) ---
   if (isCooking) {
-      const stepCount = viewedRecipe.instructions.length;
+      const stepCount = cookingSteps.length;
       const progress = ((currentStep + 1) / stepCount) * 100;
       
-      const prevStepText = currentStep > 0 ? viewedRecipe.instructions[currentStep - 1] : null;
-      const nextStepText = currentStep < stepCount - 1 ? viewedRecipe.instructions[currentStep + 1] : null;
+      const prevStepText = currentStep > 0 ? cookingSteps[currentStep - 1] : null;
+      const nextStepText = currentStep < stepCount - 1 ? cookingSteps[currentStep + 1] : null;
+      const sessionStep = sessionSteps?.[currentStep];
+
+      // Times in the step start a timer when tapped; one timer per time and step
+      const stepText = cookingSteps[currentStep] || '';
+      const stepRecipe = sessionStep ? { id: sessionStep.recipe_id, title: sessionStep.recipe_title, index: sessionStep.index } : { id: viewedRecipe.id, title: viewedRecipe.title, index: currentStep };
+      const durations = detectDurations(stepText);
+      const timerLabel = (text: string) => `${stepRecipe.title} · ${text}`;
+      const hasTimer = (text: string) => timers.some(timer => !timer.done && timer.recipe_id === stepRecipe.id && timer.step === stepRecipe.index && timer.label === timerLabel(text));
+      const stepParts: React.ReactNode[] = [];
+      let position = 0;
+      durations.forEach((d, i) => {
+          if (d.index > position) stepParts.push(stepText.slice(position, d.index));
+          const running = hasTimer(d.text);
+          stepParts.push(
+              <button
+                  key={i}
+                  onClick={() => !running && startTimer({ label: timerLabel(d.text), seconds: d.seconds, recipe_id: stepRecipe.id, step: stepRecipe.index })}
+                  className={`inline-flex items-center gap-1 px-2 rounded-lg align-baseline transition-colors ${running ? 'bg-nordic-secondary text-white' : 'bg-nordic-accent/15 text-nordic-primary hover:bg-nordic-accent/25 underline decoration-dotted underline-offset-4'}`}
+              >
+                  <Icons.Clock className="w-[0.8em] h-[0.8em]" />{d.text}
+              </button>
+          );
+          position = d.index + d.text.length;
+      });
+      if (position < stepText.length) stepParts.push(stepText.slice(position));
+
+      // What the step uses, in the amounts being cooked: a session step scales by its own meal
+      const sessionRecipe = sessionStep ? recipes.find(r => r.id === sessionStep.recipe_id) : undefined;
+      const sessionMeal = sessionStep ? prepSession?.find(m => m.id === sessionStep.meal_id) : undefined;
+      const stepSource = sessionStep ? sessionRecipe : viewedRecipe;
+      const stepScale = sessionRecipe
+          ? ((sessionMeal?.servings || sessionRecipe.servings_default) + (sessionMeal?.leftover_servings || 0)) / sessionRecipe.servings_default
+          : scale;
+      const usedIngredients = stepSource ? stepIngredients(stepSource, stepRecipe.index).map(i => stepSource.ingredients[i]) : [];
 
       // Determine animation class based on direction
       // 'slide-in-from-bottom-24' translates roughly 6rem/96px which is close to the h-24 of the preview slots
@@ -480,7 +672,7 @@ export const RecipeDetail: React.FC<RecipeDetailProps> = ({ recipe, recipes = []
               {/* Top Bar */}
               <div className="flex items-center justify-between p-3 border-b border-gray-100 bg-white z-20 shadow-sm relative">
                   <div className="flex items-center gap-2">
-                       <Button variant="ghost" onClick={() => setIsCooking(false)} className="!p-1.5 h-8 w-8">
+                       <Button variant="ghost" onClick={exitCooking} className="!p-1.5 h-8 w-8">
                            <Icons.X className="w-5 h-5" />
                        </Button>
                        <div>
@@ -495,7 +687,7 @@ export const RecipeDetail: React.FC<RecipeDetailProps> = ({ recipe, recipes = []
 
                   <div className="flex gap-2 lg:hidden">
                       <Button variant="secondary" onClick={() => setShowIngredientsOverlay(!showIngredientsOverlay)} className="text-[10px] !py-1.5 !px-3 h-8">
-                          {t.ingredients}
+                          {prepSession ? (t.prepChecklist || "Prep checklist") : t.ingredients}
                       </Button>
                       <Button 
                           variant={showSidebar ? 'primary' : 'secondary'} 
@@ -521,7 +713,7 @@ export const RecipeDetail: React.FC<RecipeDetailProps> = ({ recipe, recipes = []
                   >
                       <div className="p-4 space-y-2">
                           <h3 className="text-xs font-bold uppercase text-nordic-muted mb-4 px-2">{t.preview}</h3>
-                          {viewedRecipe.instructions.map((step, index) => {
+                          {cookingSteps.map((step, index) => {
                               const isActive = index === currentStep;
                               const isCompleted = index < currentStep;
                               return (
@@ -538,7 +730,14 @@ export const RecipeDetail: React.FC<RecipeDetailProps> = ({ recipe, recipes = []
                                           <span className={`w-5 h-5 flex items-center justify-center rounded-full text-[10px] font-bold ${isActive ? 'bg-nordic-primary text-white' : 'bg-gray-200 text-gray-500'}`}>
                                               {index + 1}
                                           </span>
-                                          <span className="line-clamp-2 leading-relaxed flex-1">{step}</span>
+                                          <span className="flex-1 min-w-0">
+                                              {sessionSteps && (
+                                                  <span className="block text-[10px] font-medium text-gray-400 truncate">
+                                                      {formatOffset(sessionSteps[index].start)} · {sessionSteps[index].recipe_title}
+                                                  </span>
+                                              )}
+                                              <span className="line-clamp-2 leading-relaxed">{step}</span>
+                                          </span>
                                       </div>
                                   </button>
                               );
@@ -551,8 +750,8 @@ export const RecipeDetail: React.FC<RecipeDetailProps> = ({ recipe, recipes = []
                        {/* Ingredients Overlay - Mobile/Tablet Only */}
                        {showIngredientsOverlay && (
                            <div className="absolute inset-0 bg-white/95 backdrop-blur z-30 p-6 overflow-y-auto text-left animate-in slide-in-from-top-10 lg:hidden">
-                               <h3 className="font-bold text-xl mb-4 text-nordic-primary">{t.ingredients}</h3>
-                               <IngredientsList />
+                               <h3 className="font-bold text-xl mb-4 text-nordic-primary">{prepSession ? (t.prepChecklist || "Prep checklist") : t.ingredients}</h3>
+                               {prepSession ? <PrepChecklist /> : <IngredientsList />}
                                <Button className="mt-8 w-full" onClick={() => setShowIngredientsOverlay(false)}>{t.closeIng}</Button>
                            </div>
                        )}
@@ -579,9 +778,28 @@ export const RecipeDetail: React.FC<RecipeDetailProps> = ({ recipe, recipes = []
                            <div className="flex-1 flex items-center justify-center p-6 overflow-y-auto no-scrollbar">
                                <div key={`${currentStep}-curr`} className={`max-w-md w-full text-center ${animClass}`}>
                                    <span className="inline-block text-6xl font-black text-gray-100 mb-6 select-none">{currentStep + 1}</span>
+                                   {sessionStep && (
+                                       <p className="text-xs font-bold uppercase tracking-wide text-nordic-primary mb-3">
+                                           {formatOffset(sessionStep.start)} · {sessionStep.recipe_title}
+                                           {sessionStep.passive && <span className="ml-2 font-medium normal-case text-gray-400">{t.prepRunsOnItsOwn || "runs on its own"}</span>}
+                                       </p>
+                                   )}
                                    <p className="text-xl md:text-3xl font-bold text-slate-800 leading-tight">
-                                       {viewedRecipe.instructions[currentStep]}
+                                       {stepParts}
                                    </p>
+                                   {usedIngredients.length > 0 && (
+                                       <div className="flex flex-wrap justify-center gap-2 mt-6">
+                                           {usedIngredients.map((ing, i) => (
+                                               <span key={i} className="px-3 py-1 rounded-full bg-gray-50 border border-gray-100 text-sm text-slate-700">
+                                                   {ing.quantity > 0 && <span className="font-bold text-nordic-primary">{parseFloat((ing.quantity * stepScale).toFixed(2))} {ing.unit} </span>}
+                                                   {ing.item_name}
+                                               </span>
+                                           ))}
+                                       </div>
+                                   )}
+                                   {durations.length > 0 && (
+                                       <p className="text-xs text-gray-400 mt-4">{t.timerTapHint || "Tap a time to start a timer"}</p>
+                                   )}
                                </div>
                            </div>
 
@@ -617,7 +835,7 @@ export const RecipeDetail: React.FC<RecipeDetailProps> = ({ recipe, recipes = []
                           ) : (
                               <Button 
                                 variant="primary"
-                                onClick={() => setIsCooking(false)}
+                                onClick={exitCooking}
                                 className="h-14 text-base"
                               >
                                   {t.finish} <Icons.Check className="w-5 h-5" />
@@ -629,8 +847,8 @@ export const RecipeDetail: React.FC<RecipeDetailProps> = ({ recipe, recipes = []
                   {/* Right Sidebar (Ingredients - Desktop Only) */}
                   <div className="hidden lg:flex w-80 bg-gray-50 border-l border-gray-100 flex-col shrink-0 overflow-y-auto z-10">
                        <div className="p-6">
-                          <h3 className="font-bold text-xl mb-4 text-nordic-primary">{t.ingredients}</h3>
-                          <IngredientsList />
+                          <h3 className="font-bold text-xl mb-4 text-nordic-primary">{prepSession ? (t.prepChecklist || "Prep checklist") : t.ingredients}</h3>
+                          {prepSession ? <PrepChecklist /> : <IngredientsList />}
                        </div>
                   </div>
               </div>
@@ -736,6 +954,9 @@ export const RecipeDetail: React.FC<RecipeDetailProps> = ({ recipe, recipes = []
                   </div>
               )}
 
+              <AIErrorBanner error={aiError} t={t} onDismiss={() => setAiError(null)} />
+              <AIQueuedNotice show={aiQueued} t={t} onDismiss={() => setAiQueued(false)} />
+
               {isEditing ? (
                   // --- EDIT MODE ---
                   <div className="space-y-6">
@@ -763,6 +984,75 @@ export const RecipeDetail: React.FC<RecipeDetailProps> = ({ recipe, recipes = []
                                {existingCuisines.map(c => <option key={c} value={c} />)}
                            </datalist>
                        </div>
+
+                       {/* Timing & Difficulty Edit */}
+                       <div>
+                           <label className="text-[10px] text-gray-500 uppercase font-bold">{t.timing || "Time (min)"}</label>
+                           <div className="grid grid-cols-4 gap-2 mt-1">
+                               {([
+                                   ['prep_minutes', t.timePrep || "Prep"],
+                                   ['cook_minutes', t.timeCook || "Cook"],
+                                   ['total_minutes', t.timeTotal || "Total"],
+                                   ['active_minutes', t.timeActive || "Hands-on"]
+                               ] as const).map(([field, label]) => (
+                                   <div key={field}>
+                                       <span className="text-[10px] text-gray-400">{label}</span>
+                                       <Input
+                                           type="number"
+                                           min={0}
+                                           value={editedRecipe[field] ?? ''}
+                                           placeholder={field === 'total_minutes' && (editedRecipe.prep_minutes || editedRecipe.cook_minutes)
+                                               ? String((editedRecipe.prep_minutes || 0) + (editedRecipe.cook_minutes || 0))
+                                               : '-'}
+                                           onChange={(e: any) => setTiming(field, e.target.value)}
+                                           className="!py-1.5 !px-2 text-sm"
+                                       />
+                                   </div>
+                               ))}
+                           </div>
+                           <div className="flex gap-1.5 mt-2">
+                               {DIFFICULTIES.map(level => (
+                                   <button
+                                       key={level}
+                                       onClick={() => setEditedRecipe(prev => ({ ...prev, difficulty: prev.difficulty === level ? undefined : level }))}
+                                       className={`px-3 py-1 text-xs rounded-md border transition-colors ${editedRecipe.difficulty === level ? 'bg-nordic-primary text-white border-transparent' : 'bg-white text-gray-500 border-gray-200 hover:bg-gray-50'}`}
+                                   >
+                                       {difficultyLabel(level)}
+                                   </button>
+                               ))}
+                           </div>
+                       </div>
+
+                       {/* Tags Edit */}
+                       <div>
+                           <label className="text-[10px] text-gray-500 uppercase font-bold">{t.tags || "Tags"}</label>
+                           {(editedRecipe.tags?.length || 0) > 0 && (
+                               <div className="flex flex-wrap gap-1.5 mt-1">
+                                   {editedRecipe.tags!.map(tag => (
+                                       <button key={tag} onClick={() => removeTag(tag)} className="flex items-center gap-1 px-2 py-0.5 rounded-full text-xs bg-teal-50 text-teal-800 border border-teal-100 hover:bg-red-50 hover:text-red-600 hover:border-red-100">
+                                           #{tag} <Icons.X className="w-3 h-3" />
+                                       </button>
+                                   ))}
+                               </div>
+                           )}
+                           <Input
+                               value={tagInput}
+                               onChange={(e: any) => setTagInput(e.target.value)}
+                               onKeyDown={(e: any) => { if (e.key === 'Enter') addTags(tagInput); }}
+                               onBlur={() => addTags(tagInput)}
+                               placeholder={t.tagsPlaceholder || "Add tags, separated by commas"}
+                               className="!py-1.5 text-sm mt-1"
+                           />
+                           {tagSuggestions.length > 0 && (
+                               <div className="flex flex-wrap gap-1.5 mt-1.5">
+                                   {tagSuggestions.map(tag => (
+                                       <button key={tag} onClick={() => addTags(tag)} className="px-2 py-0.5 rounded-full text-xs text-gray-500 border border-dashed border-gray-300 hover:border-nordic-primary hover:text-nordic-primary">
+                                           + {tag}
+                                       </button>
+                                   ))}
+                               </div>
+                           )}
+                       </div>
                        
                        {/* Ingredients Editor */}
                        <div>
@@ -799,6 +1089,17 @@ export const RecipeDetail: React.FC<RecipeDetailProps> = ({ recipe, recipes = []
                                        </button>
                                    </div>
                                ))}
+                               <form onSubmit={handleQuickAddIngredient} className="flex gap-2">
+                                   <Input 
+                                        value={quickIngredient}
+                                        onChange={(e: any) => setQuickIngredient(e.target.value)}
+                                        placeholder={t.quickIngredientPlaceholder || "Type an ingredient, e.g. 2 dl cream, whipped"}
+                                        className="flex-1 !p-1.5 text-xs"
+                                   />
+                                   <Button type="submit" variant="secondary" disabled={!quickIngredient.trim()} className="text-xs h-8 !px-3">
+                                       <Icons.Plus className="w-3 h-3" />
+                                   </Button>
+                               </form>
                                <Button variant="secondary" onClick={handleAddIngredient} className="w-full text-xs h-8">
                                    <Icons.Plus className="w-3 h-3" /> {t.addIngredient}
                                </Button>
@@ -829,19 +1130,45 @@ export const RecipeDetail: React.FC<RecipeDetailProps> = ({ recipe, recipes = []
                            </div>
                            
                            <div className="space-y-2">
-                               {editedRecipe.instructions.map((step, i) => (
-                                   <div key={i} className="flex gap-2 items-start">
-                                       <span className="text-xs font-bold text-gray-300 mt-2 w-4 text-center">{i + 1}</span>
-                                       <textarea 
-                                           value={step}
-                                           onChange={(e) => handleEditInstruction(i, e.target.value)}
-                                           className="flex-1 p-2 bg-gray-50 border border-gray-200 rounded-xl text-sm min-h-[60px] resize-y focus:border-nordic-primary outline-none"
-                                       />
-                                       <button onClick={() => handleDeleteInstruction(i)} className="p-1.5 text-red-400 hover:bg-red-50 rounded-full mt-1">
-                                           <Icons.X className="w-4 h-4" />
-                                       </button>
-                                   </div>
-                               ))}
+                               {editedRecipe.instructions.map((step, i) => {
+                                   const linked = stepIngredients(editedRecipe, i);
+                                   const stored = editedRecipe.steps?.[i];
+                                   const handSet = !!stored?.manual && stored.text === step;
+                                   return (
+                                       <div key={i} className="flex gap-2 items-start">
+                                           <span className="text-xs font-bold text-gray-300 mt-2 w-4 text-center">{i + 1}</span>
+                                           <div className="flex-1 min-w-0 space-y-1.5">
+                                               <textarea 
+                                                   value={step}
+                                                   onChange={(e) => handleEditInstruction(i, e.target.value)}
+                                                   className="w-full p-2 bg-gray-50 border border-gray-200 rounded-xl text-sm min-h-[60px] resize-y focus:border-nordic-primary outline-none"
+                                               />
+                                               {editedRecipe.ingredients.some(ing => ing.item_name.trim()) && (
+                                                   <div className="flex flex-wrap items-center gap-1">
+                                                       <span className="text-[10px] text-gray-400 mr-0.5">{t.stepUses || "Uses"}</span>
+                                                       {editedRecipe.ingredients.map((ing, idx) => ing.item_name.trim() && (
+                                                           <button
+                                                               key={idx}
+                                                               onClick={() => toggleStepIngredient(i, idx)}
+                                                               className={`px-2 py-0.5 rounded-full text-[10px] transition-colors border ${linked.includes(idx) ? 'bg-nordic-primary text-white border-nordic-primary' : 'bg-white text-gray-500 border-gray-200 hover:bg-gray-50'}`}
+                                                           >
+                                                               {ing.item_name}
+                                                           </button>
+                                                       ))}
+                                                       {handSet && (
+                                                           <button onClick={() => resetStepIngredients(i)} className="text-[10px] text-gray-400 hover:text-nordic-primary underline ml-1">
+                                                               {t.stepUsesAuto || "Detect from text"}
+                                                           </button>
+                                                       )}
+                                                   </div>
+                                               )}
+                                           </div>
+                                           <button onClick={() => handleDeleteInstruction(i)} className="p-1.5 text-red-400 hover:bg-red-50 rounded-full mt-1">
+                                               <Icons.X className="w-4 h-4" />
+                                           </button>
+                                       </div>
+                                   );
+                               })}
                                <Button variant="secondary" onClick={handleAddInstruction} className="w-full text-xs h-8">
                                    <Icons.Plus className="w-3 h-3" /> {t.addStep}
                                </Button>
@@ -851,6 +1178,30 @@ export const RecipeDetail: React.FC<RecipeDetailProps> = ({ recipe, recipes = []
               ) : (
                   // --- VIEW MODE ---
                   <>
+                    {(viewTotal || viewedRecipe.difficulty) && (
+                        <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-gray-600">
+                            {viewTotal ? (
+                                <span className="flex items-center gap-1 font-medium">
+                                    <Icons.Clock className="w-3.5 h-3.5 text-nordic-primary" /> {viewTotal} min
+                                </span>
+                            ) : null}
+                            {viewedRecipe.prep_minutes ? <span>{t.timePrep || "Prep"} {viewedRecipe.prep_minutes}</span> : null}
+                            {viewedRecipe.cook_minutes ? <span>{t.timeCook || "Cook"} {viewedRecipe.cook_minutes}</span> : null}
+                            {viewTotal && viewActive !== undefined && viewActive < viewTotal ? (
+                                <span>{viewActive} {t.timeActiveShort || "hands-on"} · {viewTotal - viewActive} {t.timePassiveShort || "on its own"}</span>
+                            ) : null}
+                            {viewedRecipe.difficulty && <Badge variant="outline">{difficultyLabel(viewedRecipe.difficulty)}</Badge>}
+                        </div>
+                    )}
+
+                    {(viewedRecipe.tags?.length || 0) > 0 && (
+                        <div className="flex flex-wrap gap-1.5">
+                            {viewedRecipe.tags!.map(tag => (
+                                <span key={tag} className="px-2 py-0.5 rounded-full text-xs bg-teal-50 text-teal-800 border border-teal-100">#{tag}</span>
+                            ))}
+                        </div>
+                    )}
+
                     {/* Main Actions Row */}
                     <div className="flex gap-2">
                         <Button onClick={startCooking} className="flex-1 py-2 text-sm h-10"><Icons.Play className="w-4 h-4" /> {t.startCooking}</Button>
@@ -885,6 +1236,19 @@ export const RecipeDetail: React.FC<RecipeDetailProps> = ({ recipe, recipes = []
                     {showDateSelect && (
                         <div className="bg-gray-50 p-3 rounded-xl border border-gray-100 animate-in slide-in-from-top-2">
                             <label className="text-xs font-bold text-gray-500 mb-2 block">{t.selectDate}</label>
+                            {mealSlots.length > 1 && (
+                                <div className="flex flex-wrap gap-1 mb-2">
+                                    {mealSlots.map(type => (
+                                        <button
+                                            key={type}
+                                            onClick={() => setPlanSlot(type)}
+                                            className={`px-2.5 py-1 text-xs rounded-md transition-colors ${planSlot === type ? 'bg-nordic-primary text-white' : 'bg-white border border-gray-200 text-gray-500'}`}
+                                        >
+                                            {t[`slot_${type}`] || type}
+                                        </button>
+                                    ))}
+                                </div>
+                            )}
                             <div className="flex gap-2">
                                 <div 
                                     onClick={() => setShowCalendar(true)} 
@@ -903,7 +1267,10 @@ export const RecipeDetail: React.FC<RecipeDetailProps> = ({ recipe, recipes = []
                         <div className="grid grid-cols-1 md:grid-cols-2 gap-x-4 gap-y-1">
                             {viewedRecipe.ingredients.map((ing, i) => (
                                 <div key={i} className="flex justify-between items-baseline text-sm py-1 border-b border-dashed border-gray-100 last:border-0 hover:bg-gray-50 px-1 rounded transition-colors">
-                                    <span className="text-gray-700">{ing.item_name}</span>
+                                    <span className="text-gray-700">
+                                        {ing.item_name}
+                                        {ing.note && <span className="text-gray-400 text-xs">, {ing.note}</span>}
+                                    </span>
                                     <span className="text-gray-500 font-medium whitespace-nowrap ml-2 text-xs">
                                         {parseFloat((ing.quantity * scale).toFixed(1))} {ing.unit}
                                     </span>
@@ -1142,7 +1509,7 @@ export const RecipeDetail: React.FC<RecipeDetailProps> = ({ recipe, recipes = []
                            const d = new Date(year, month, i);
                            const isoStr = formatIsoDate(d);
                            const isSelected = isoStr === planDate;
-                           const hasMeal = plan?.some(p => p.date === isoStr);
+                           const hasMeal = plan?.some(p => p.date === isoStr && p.type === planSlot);
                            const isToday = isoStr === formatIsoDate(new Date());
 
                            days.push(
@@ -1187,7 +1554,7 @@ export const RecipeDetail: React.FC<RecipeDetailProps> = ({ recipe, recipes = []
        </Modal>
 
        {/* AI Suggestion Modal */}
-       <Modal isOpen={!!improvementSuggestion} onClose={() => setImprovementSuggestion(null)} title={t.improveTitle}>
+       <Modal isOpen={!!improvementSuggestion} onClose={dismissImprovement} title={t.improveTitle}>
            {improvementSuggestion && (
                <div className="space-y-4">
                    <div className="bg-indigo-50 border border-indigo-100 p-3 rounded-xl">
@@ -1207,7 +1574,7 @@ export const RecipeDetail: React.FC<RecipeDetailProps> = ({ recipe, recipes = []
                        <Button onClick={acceptImprovement} className="flex-1 bg-indigo-600 hover:bg-indigo-700">
                            {t.acceptImprovement}
                        </Button>
-                       <Button variant="secondary" onClick={() => setImprovementSuggestion(null)} className="flex-1">
+                       <Button variant="secondary" onClick={dismissImprovement} className="flex-1">
                            {t.rejectImprovement}
                        </Button>
                    </div>
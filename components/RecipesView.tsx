@@ -1,38 +1,38 @@
 import React, { useState, useRef, useEffect, useMemo } from 'react';
-import { Recipe, Language, MealPlanItem } from '../types';
-import { Card, Button, Icons, Modal, Input } from './Shared';
-import { parseRecipeWithAI, summarizeFeedback, suggestNewDishes } from '../services/geminiService';
+import { Recipe, Language, MealPlanItem, MealType, AppSettings, FilterState, FilterPreset, RecipeCollection, DIFFICULTIES, Difficulty } from '../types';
+import { Card, Button, Icons, Modal, Input, AIErrorBanner, AIQueuedNotice } from './Shared';
+import { summarizeFeedback, suggestNewDishes } from '../services/geminiService';
+import { runOrQueue } from '../services/aiQueue';
+import { importRecipeFromHtml, looksLikeHtml, htmlToText } from '../services/recipeImport';
+import { EMPTY_FILTER, isRecipeSpicy, getDietaryType, allTags as collectTags, matchesFilter, activeFilterCount as countFilters } from '../services/recipeFilters';
+import { newId } from '../services/ids';
+import { searchRecipes } from '../services/search';
 
 interface RecipesViewProps {
   recipes: Recipe[];
   plan?: MealPlanItem[];
-  onAddRecipe: (recipe: Omit<Recipe, 'id' | 'images' | 'version'>) => void;
+  onAddRecipe: (recipe: Omit<Recipe, 'id' | 'images' | 'version'> & { images?: string[] }) => void;
   onUpdateRecipe: (recipe: Recipe) => void;
   onDeleteRecipe: (id: number) => void;
-  onAddMeal: (date: string, recipeId: number) => void;
+  onAddMeal: (date: string, type: MealType, recipeId: number) => void;
   onSelectRecipe: (recipe: Recipe) => void;
+  settings: AppSettings; // Collections and filter presets
+  onUpdateSettings: (settings: AppSettings) => void;
   t: any;
   language: string;
 }
 
-interface FilterState {
-    cuisines: string[];
-    ingredientSearch: string;
-    onlySpicy: boolean;
-    minRating: number;
-    dietary: string[];
-}
-
-const SPICY_KEYWORDS = ['chili', 'chilli', 'jalapeno', 'jalapeño', 'habanero', 'cayenne', 'sriracha', 'sambal', 'tabasco', 'hot sauce', 'spicy', 'curry', 'masala', 'piri piri', 'harissa'];
-const FISH_KEYWORDS = ['salmon', 'tuna', 'cod', 'fish', 'shrimp', 'prawn', 'crab', 'lobster', 'seafood', 'trout', 'haddock', 'scallop', 'mussel', 'clam', 'anchovy', 'sardine'];
+const MAX_MINUTES_OPTIONS = [20, 30, 45, 60];
 
-export const RecipesView: React.FC<RecipesViewProps> = ({ recipes, plan = [], onAddRecipe, onSelectRecipe, onDeleteRecipe, t, language }) => {
+export const RecipesView: React.FC<RecipesViewProps> = ({ recipes, plan = [], onAddRecipe, onSelectRecipe, onDeleteRecipe, settings, onUpdateSettings, t, language }) => {
   // --- Import State ---
   const [isImportOpen, setImportOpen] = useState(false);
   const [importText, setImportText] = useState('');
+  // data is base64, except for text/html where it holds the page markup
   const [importFile, setImportFile] = useState<{data: string, mimeType: string, name: string} | null>(null);
   const [isLoading, setLoading] = useState(false);
-  const [error, setError] = useState('');
+  const [error, setError] = useState<unknown>(null);
+  const [importQueued, setImportQueued] = useState(false); // Import waits in the offline queue
   
   // --- Menu & Feedback State ---
   const [menuRecipe, setMenuRecipe] = useState<Recipe | null>(null);
@@ -47,13 +47,13 @@ export const RecipesView: React.FC<RecipesViewProps> = ({ recipes, plan = [], on
   
   // --- Filter State ---
   const [showFilters, setShowFilters] = useState(false);
-  const [filters, setFilters] = useState<FilterState>({
-      cuisines: [],
-      ingredientSearch: '',
-      onlySpicy: false,
-      minRating: 0,
-      dietary: []
-  });
+  const [filters, setFilters] = useState<FilterState>(EMPTY_FILTER);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [presetName, setPresetName] = useState('');
+  const [collectionName, setCollectionName] = useState('');
+
+  const collections = settings.collections || [];
+  const presets = settings.filter_presets || [];
 
   // --- Long Press Logic ---
   const timerRef = useRef<any>(null);
@@ -77,26 +77,6 @@ export const RecipesView: React.FC<RecipesViewProps> = ({ recipes, plan = [], on
       return { average, count, comments };
   };
   
-  // Helper to determine spiciness
-  const isRecipeSpicy = (r: Recipe) => {
-      const text = (r.title + ' ' + r.description + ' ' + r.ingredients.map(i=>i.item_name).join(' ')).toLowerCase();
-      return SPICY_KEYWORDS.some(k => text.includes(k));
-  }
-
-  // Helper to determine dietary type
-  const getDietaryType = (r: Recipe): string => {
-      const meatIngredients = r.ingredients.filter(i => 
-          ['Meat', 'Fish', 'Poultry', 'Seafood'].includes(i.category)
-      );
-
-      if (meatIngredients.length === 0) return 'Vegetarian';
-
-      const names = meatIngredients.map(i => i.item_name.toLowerCase()).join(' ');
-      if (FISH_KEYWORDS.some(k => names.includes(k))) return 'Fish';
-      
-      return 'Meat';
-  }
-
   // Derive unique cuisines for filter
   const allCuisines = useMemo(() => {
       const set = new Set<string>();
@@ -106,63 +86,17 @@ export const RecipesView: React.FC<RecipesViewProps> = ({ recipes, plan = [], on
       return Array.from(set).sort();
   }, [recipes]);
 
-  // Derived filtered list
-  const filteredRecipes = useMemo(() => {
-      return recipes.filter(r => {
-          // Cuisine Filter
-          if (filters.cuisines.length > 0 && (!r.cuisine || !filters.cuisines.includes(r.cuisine))) {
-              return false;
-          }
-          
-          // Ingredient Filter
-          if (filters.ingredientSearch.trim()) {
-              const search = filters.ingredientSearch.toLowerCase();
-              const hasIng = r.ingredients.some(i => i.item_name.toLowerCase().includes(search));
-              if (!hasIng) return false;
-          }
-          
-          // Spiciness Filter
-          if (filters.onlySpicy) {
-              if (!isRecipeSpicy(r)) return false;
-          }
+  const allTags = useMemo(() => collectTags(recipes), [recipes]);
 
-          // Rating Filter
-          if (filters.minRating > 0) {
-              const stats = getRecipeStats(r.id);
-              // Use user rating if available, else base rating
-              const rating = stats.count > 0 ? stats.average : (r.rating || 0);
-              if (rating < filters.minRating) return false;
-          }
+  // Derived filtered list, best search matches first
+  const filteredRecipes = useMemo(
+      () => searchRecipes(searchQuery, recipes).filter(r => matchesFilter(r, filters, { plan, collections })),
+      [recipes, searchQuery, filters, plan, collections]
+  );
 
-          // Dietary Filter
-          if (filters.dietary.length > 0) {
-             const type = getDietaryType(r);
-             if (!filters.dietary.includes(type)) return false;
-          }
+  const activeFilterCount = useMemo(() => countFilters(filters), [filters]);
 
-          return true;
-      });
-  }, [recipes, filters, plan]);
-
-  const activeFilterCount = useMemo(() => {
-      let count = 0;
-      if (filters.cuisines.length > 0) count++;
-      if (filters.ingredientSearch) count++;
-      if (filters.onlySpicy) count++;
-      if (filters.minRating > 0) count++;
-      if (filters.dietary.length > 0) count++;
-      return count;
-  }, [filters]);
-
-  const clearFilters = () => {
-      setFilters({
-          cuisines: [],
-          ingredientSearch: '',
-          onlySpicy: false,
-          minRating: 0,
-          dietary: []
-      });
-  };
+  const clearFilters = () => setFilters(EMPTY_FILTER);
 
   const toggleCuisineFilter = (c: string) => {
       setFilters(prev => {
@@ -184,6 +118,62 @@ export const RecipesView: React.FC<RecipesViewProps> = ({ recipes, plan = [], on
       });
   };
 
+  const toggleDifficultyFilter = (level: Difficulty) => {
+      setFilters(prev => {
+          const current = prev.difficulty || [];
+          return { ...prev, difficulty: current.includes(level) ? current.filter(x => x !== level) : [...current, level] };
+      });
+  };
+
+  const difficultyLabel = (level: Difficulty) => t[`difficulty_${level}`] || level;
+
+  const toggleTagFilter = (tag: string) => {
+      setFilters(prev => ({
+          ...prev,
+          tags: prev.tags.includes(tag) ? prev.tags.filter(x => x !== tag) : [...prev.tags, tag]
+      }));
+  };
+
+  // The current filter matches a preset exactly
+  const isPresetActive = (preset: FilterPreset) => JSON.stringify(preset.filter) === JSON.stringify(filters);
+
+  const savePreset = () => {
+      const name = presetName.trim();
+      if (!name || activeFilterCount === 0) return;
+      onUpdateSettings({ ...settings, filter_presets: [...presets, { id: newId(), name, filter: filters }] });
+      setPresetName('');
+  };
+
+  const deletePreset = (id: number) =>
+      onUpdateSettings({ ...settings, filter_presets: presets.filter(p => p.id !== id) });
+
+  const saveCollections = (next: RecipeCollection[]) => onUpdateSettings({ ...settings, collections: next });
+
+  const addCollection = (recipeId?: number) => {
+      const name = collectionName.trim();
+      if (!name) return;
+      saveCollections([...collections, { id: newId(), name, recipe_ids: recipeId !== undefined ? [recipeId] : [] }]);
+      setCollectionName('');
+  };
+
+  const toggleInCollection = (collection: RecipeCollection, recipeId: number) => saveCollections(collections.map(c =>
+      c.id !== collection.id ? c : {
+          ...c,
+          recipe_ids: c.recipe_ids.includes(recipeId) ? c.recipe_ids.filter(id => id !== recipeId) : [...c.recipe_ids, recipeId]
+      }));
+
+  // Presets pointing at the collection lose that part of their filter
+  const deleteCollection = (id: number) => {
+      const withoutCollection = (filter: FilterState): FilterState =>
+          filter.collection_id === id ? { ...filter, collection_id: undefined } : filter;
+      onUpdateSettings({
+          ...settings,
+          collections: collections.filter(c => c.id !== id),
+          filter_presets: presets.map(p => ({ ...p, filter: withoutCollection(p.filter) }))
+      });
+      setFilters(withoutCollection);
+  };
+
   // Effect to generate summary when feedback modal opens
   useEffect(() => {
       if (feedbackRecipe) {
@@ -227,6 +217,13 @@ export const RecipesView: React.FC<RecipesViewProps> = ({ recipes, plan = [], on
         return;
     }
 
+    // Saved web pages are read as text so their structured recipe data can be parsed locally
+    if (file.type === 'text/html' || /\.html?$/i.test(file.name)) {
+        setImportFile({ data: await file.text(), mimeType: 'text/html', name: file.name });
+        e.target.value = '';
+        return;
+    }
+
     const reader = new FileReader();
     reader.onload = (event) => {
         const result = event.target?.result as string;
@@ -244,20 +241,27 @@ export const RecipesView: React.FC<RecipesViewProps> = ({ recipes, plan = [], on
   const handleImport = async () => {
     if (!importText.trim() && !importFile) return;
     setLoading(true);
-    setError('');
+    setError(null);
+    setImportQueued(false);
     
     try {
-      const recipeData = await parseRecipeWithAI({
-          text: importText,
-          fileData: importFile?.data,
-          mimeType: importFile?.mimeType
-      });
-      onAddRecipe(recipeData);
+      const html = importFile?.mimeType === 'text/html' ? importFile.data : looksLikeHtml(importText) ? importText : null;
+      // schema.org data first, free and offline. Pages without it go to the AI as plain text.
+      const imported = html ? await importRecipeFromHtml(html) : null;
+      if (imported) {
+          onAddRecipe(imported.recipe);
+      } else {
+          const outcome = await runOrQueue('import', html
+              ? { text: htmlToText(html).slice(0, 20000) }
+              : { text: importText, fileData: importFile?.data, mimeType: importFile?.mimeType });
+          if (outcome.queued) setImportQueued(true);
+          else onAddRecipe(outcome.result);
+      }
       setImportOpen(false);
       setImportText('');
       setImportFile(null);
     } catch (err) {
-      setError('Failed to parse recipe. Please try again.');
+      setError(err);
     } finally {
       setLoading(false);
     }
@@ -309,16 +313,56 @@ export const RecipesView: React.FC<RecipesViewProps> = ({ recipes, plan = [], on
             <Button onClick={handleSuggestRecipes} variant="secondary" className="!p-2 h-8 aspect-square text-nordic-accent">
                 <Icons.Sparkles className="w-4 h-4" />
             </Button>
-            <Button onClick={() => setImportOpen(true)} variant="primary" className="!p-2 h-8 aspect-square">
+            <Button onClick={() => { setImportOpen(true); setImportQueued(false); }} variant="primary" className="!p-2 h-8 aspect-square">
                <Icons.Plus className="w-4 h-4" />
             </Button>
         </div>
       </div>
 
+      <div className="relative px-1">
+          <Input
+              placeholder={t.searchPlaceholder}
+              value={searchQuery}
+              onChange={(e: any) => setSearchQuery(e.target.value)}
+              className="!py-1.5 !pr-8 text-sm"
+          />
+          {searchQuery && (
+              <button onClick={() => setSearchQuery('')} className="absolute right-3 top-1/2 -translate-y-1/2 p-1 text-gray-400 hover:text-gray-600">
+                  <Icons.X className="w-3.5 h-3.5" />
+              </button>
+          )}
+      </div>
+
+      {(presets.length > 0 || collections.length > 0) && (
+          <div className="flex gap-1.5 overflow-x-auto no-scrollbar px-1">
+              {presets.map(preset => (
+                  <button
+                      key={preset.id}
+                      onClick={() => setFilters(isPresetActive(preset) ? EMPTY_FILTER : preset.filter)}
+                      className={`shrink-0 px-3 py-1 rounded-full text-xs font-medium border transition-colors ${isPresetActive(preset) ? 'bg-nordic-primary text-white border-nordic-primary' : 'bg-white text-gray-700 border-gray-200 hover:bg-gray-50'}`}
+                  >
+                      {preset.name}
+                  </button>
+              ))}
+              {collections.map(collection => (
+                  <button
+                      key={collection.id}
+                      onClick={() => setFilters(prev => ({ ...prev, collection_id: prev.collection_id === collection.id ? undefined : collection.id }))}
+                      className={`shrink-0 flex items-center gap-1 px-3 py-1 rounded-full text-xs font-medium border transition-colors ${filters.collection_id === collection.id ? 'bg-nordic-primary text-white border-nordic-primary' : 'bg-white text-gray-700 border-gray-200 hover:bg-gray-50'}`}
+                  >
+                      <Icons.List className="w-3 h-3" /> {collection.name}
+                  </button>
+              ))}
+          </div>
+      )}
+
+      <AIQueuedNotice show={importQueued} t={t} onDismiss={() => setImportQueued(false)} />
+
       <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-2 md:gap-4">
         {filteredRecipes.map(recipe => {
             const stats = getRecipeStats(recipe.id);
             const isSpicy = isRecipeSpicy(recipe);
+            const totalMinutes = recipe.total_minutes || (recipe.prep_minutes || 0) + (recipe.cook_minutes || 0);
 
             return (
               <Card 
@@ -343,6 +387,13 @@ export const RecipesView: React.FC<RecipesViewProps> = ({ recipes, plan = [], on
                                🌶️
                            </span>
                        )}
+                       {(totalMinutes > 0 || recipe.difficulty) && (
+                           <span className="text-[10px] bg-black/40 backdrop-blur-sm text-white px-1.5 py-0.5 rounded font-bold flex items-center gap-1">
+                               {totalMinutes > 0 && <><Icons.Clock className="w-2.5 h-2.5" /> {totalMinutes} min</>}
+                               {totalMinutes > 0 && recipe.difficulty && ' · '}
+                               {recipe.difficulty && difficultyLabel(recipe.difficulty)}
+                           </span>
+                       )}
                    </div>
                    <div className="absolute bottom-2 left-2 right-2 text-white">
                      <p className="font-bold text-xs leading-tight line-clamp-2 mb-1">{recipe.title}</p>
@@ -381,6 +432,42 @@ export const RecipesView: React.FC<RecipesViewProps> = ({ recipes, plan = [], on
                    </div>
                </div>
 
+               {/* Tags Filter */}
+               {allTags.length > 0 && (
+                   <div>
+                       <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wide mb-2">{t.tags || 'Tags'}</h3>
+                       <div className="flex flex-wrap gap-2">
+                           {allTags.map(tag => (
+                               <button
+                                   key={tag}
+                                   onClick={() => toggleTagFilter(tag)}
+                                   className={`px-3 py-1.5 rounded-full text-xs transition-colors border ${filters.tags.includes(tag) ? 'bg-nordic-primary text-white border-nordic-primary' : 'bg-white text-gray-700 border-gray-200 hover:bg-gray-50'}`}
+                               >
+                                   #{tag}
+                               </button>
+                           ))}
+                       </div>
+                   </div>
+               )}
+
+               {/* Collection Filter */}
+               {collections.length > 0 && (
+                   <div>
+                       <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wide mb-2">{t.collections || 'Collections'}</h3>
+                       <div className="flex flex-wrap gap-2">
+                           {collections.map(collection => (
+                               <button
+                                   key={collection.id}
+                                   onClick={() => setFilters({ ...filters, collection_id: filters.collection_id === collection.id ? undefined : collection.id })}
+                                   className={`px-3 py-1.5 rounded-full text-xs transition-colors border ${filters.collection_id === collection.id ? 'bg-nordic-primary text-white border-nordic-primary' : 'bg-white text-gray-700 border-gray-200 hover:bg-gray-50'}`}
+                               >
+                                   {collection.name} ({collection.recipe_ids.length})
+                               </button>
+                           ))}
+                       </div>
+                   </div>
+               )}
+
                {/* Cuisine Filter */}
                <div>
                    <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wide mb-2">{t.cuisineFilter}</h3>
@@ -397,6 +484,33 @@ export const RecipesView: React.FC<RecipesViewProps> = ({ recipes, plan = [], on
                    </div>
                </div>
 
+               {/* Time & Difficulty Filter */}
+               <div>
+                   <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wide mb-2">{t.maxTime || 'Ready in'}</h3>
+                   <div className="flex flex-wrap gap-2">
+                       {MAX_MINUTES_OPTIONS.map(minutes => (
+                           <button
+                               key={minutes}
+                               onClick={() => setFilters({ ...filters, maxMinutes: filters.maxMinutes === minutes ? undefined : minutes })}
+                               className={`px-3 py-1.5 rounded-full text-xs transition-colors border ${filters.maxMinutes === minutes ? 'bg-nordic-primary text-white border-nordic-primary' : 'bg-white text-gray-700 border-gray-200 hover:bg-gray-50'}`}
+                           >
+                               ≤ {minutes} min
+                           </button>
+                       ))}
+                   </div>
+                   <div className="flex flex-wrap gap-2 mt-2">
+                       {DIFFICULTIES.map(level => (
+                           <button
+                               key={level}
+                               onClick={() => toggleDifficultyFilter(level)}
+                               className={`px-3 py-1.5 rounded-full text-xs transition-colors border ${filters.difficulty?.includes(level) ? 'bg-nordic-primary text-white border-nordic-primary' : 'bg-white text-gray-700 border-gray-200 hover:bg-gray-50'}`}
+                           >
+                               {difficultyLabel(level)}
+                           </button>
+                       ))}
+                   </div>
+               </div>
+
                {/* Ingredients Filter */}
                <div>
                    <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wide mb-2">{t.ingredientsFilter}</h3>
@@ -437,6 +551,32 @@ export const RecipesView: React.FC<RecipesViewProps> = ({ recipes, plan = [], on
                    </div>
                </div>
 
+               {/* Presets */}
+               <div className="space-y-2">
+                   <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wide">{t.filterPresets || 'Saved filters'}</h3>
+                   {presets.map(preset => (
+                       <div key={preset.id} className="flex items-center gap-2 p-2 rounded-xl border border-gray-100 bg-gray-50">
+                           <button onClick={() => setFilters(preset.filter)} className="flex-1 min-w-0 text-left text-sm font-semibold text-nordic-text truncate">
+                               {preset.name}
+                           </button>
+                           <Button variant="ghost" onClick={() => deletePreset(preset.id)} className="!p-2 h-8 aspect-square text-red-500">
+                               <Icons.Trash className="w-4 h-4" />
+                           </Button>
+                       </div>
+                   ))}
+                   <div className="flex gap-2">
+                       <Input
+                           value={presetName}
+                           onChange={(e: any) => setPresetName(e.target.value)}
+                           placeholder={t.filterPresetName || 'Name, e.g. Weeknight veggie'}
+                           className="!py-1.5 !px-2 text-sm"
+                       />
+                       <Button variant="secondary" onClick={savePreset} disabled={!presetName.trim() || activeFilterCount === 0} className="text-xs h-9 shrink-0">
+                           <Icons.Plus className="w-3.5 h-3.5" /> {t.filterPresetSave || 'Save filter'}
+                       </Button>
+                   </div>
+               </div>
+
                <div className="flex gap-2 pt-2 border-t border-gray-100">
                    <Button onClick={() => setShowFilters(false)} className="flex-1">
                        {t.showResults} ({filteredRecipes.length})
@@ -531,6 +671,38 @@ export const RecipesView: React.FC<RecipesViewProps> = ({ recipes, plan = [], on
                       >
                           <Icons.Edit className="w-5 h-5" /> {t.edit}
                       </Button>
+
+                      {/* Collections */}
+                      <div className="space-y-2 pt-2">
+                          <h4 className="text-xs font-bold text-gray-500 uppercase tracking-wide">{t.collections || 'Collections'}</h4>
+                          {collections.map(collection => (
+                              <div key={collection.id} className="flex items-center gap-2">
+                                  <label className="flex-1 flex items-center gap-2 text-sm cursor-pointer">
+                                      <input
+                                          type="checkbox"
+                                          checked={collection.recipe_ids.includes(menuRecipe.id)}
+                                          onChange={() => toggleInCollection(collection, menuRecipe.id)}
+                                          className="w-4 h-4 accent-teal-700"
+                                      />
+                                      <span className="truncate">{collection.name}</span>
+                                  </label>
+                                  <button onClick={() => deleteCollection(collection.id)} className="p-1 text-gray-300 hover:text-red-500">
+                                      <Icons.X className="w-3.5 h-3.5" />
+                                  </button>
+                              </div>
+                          ))}
+                          <div className="flex gap-2">
+                              <Input
+                                  value={collectionName}
+                                  onChange={(e: any) => setCollectionName(e.target.value)}
+                                  placeholder={t.collectionNew || 'New collection'}
+                                  className="!py-1.5 !px-2 text-sm"
+                              />
+                              <Button variant="secondary" onClick={() => addCollection(menuRecipe.id)} disabled={!collectionName.trim()} className="text-xs h-9 shrink-0">
+                                  <Icons.Plus className="w-3.5 h-3.5" /> {t.collectionAdd || 'Add'}
+                              </Button>
+                          </div>
+                      </div>
                       
                       <div className="border-t border-gray-100 my-2 pt-2">
                         <p className="text-xs text-center text-red-400 mb-2">{t.deleteWarning}</p>
@@ -641,7 +813,7 @@ export const RecipesView: React.FC<RecipesViewProps> = ({ recipes, plan = [], on
                         type="file" 
                         ref={fileInputRef} 
                         className="hidden" 
-                        accept=".txt,.pdf,image/*" 
+                        accept=".txt,.pdf,.html,.htm,image/*" 
                         onChange={handleFileChange}
                     />
                 </div>
@@ -675,7 +847,7 @@ export const RecipesView: React.FC<RecipesViewProps> = ({ recipes, plan = [], on
              </div>
           )}
 
-          {error && <p className="text-xs text-red-500">{error}</p>}
+          <AIErrorBanner error={error} t={t} />
           
           <Button 
             className="w-full" 
@@ -1,9 +1,15 @@
 import React, { useState, useRef, useEffect, useMemo } from 'react';
-import { AppSettings, Language, Store, SHOPPING_CATEGORIES, Recipe, Ingredient, MealPlanItem } from '../types';
+import { AppSettings, Language, Store, SHOPPING_CATEGORIES, Recipe, Ingredient, MealPlanItem, MealType, MEAL_TYPES, AIProviderId, AICapability, SyncSettings, PlannerSettings, Difficulty, DIFFICULTIES } from '../types';
 import { Card, Button, Input, Icons, Modal } from './Shared';
 import { translateRecipe, translateShoppingItems, translateStrings, generateInterfaceTranslations } from '../services/geminiService';
 import { storage } from '../services/storage';
+import { newId } from '../services/ids';
 import { BASE_TRANSLATIONS } from '../services/translations';
+import { AI_CAPABILITIES, PROVIDER_CAPABILITIES, DEFAULT_GEMINI_MODEL, DEFAULT_GEMINI_IMAGE_MODEL, DEFAULT_OPENAI_MODEL, DEFAULT_OPENAI_IMAGE_MODEL, DEFAULT_LOCAL_BASE_URL, DEFAULT_LOCAL_MODEL, resolveProviderId } from '../services/aiProviders';
+import { SyncStatus, calendarFeedUrl } from '../services/sync';
+import { newFeedKey } from '../services/calendar';
+import { resolvePlannerSettings } from '../services/planner';
+import { BackupArchive, RestoreMode, RestorePreview, createBackup, backupFileName, parseBackup, previewRestore, restoreBackup } from '../services/backup';
 
 interface SettingsViewProps {
   settings: AppSettings;
@@ -13,6 +19,10 @@ interface SettingsViewProps {
   onUpdateRecipes: (recipes: Recipe[]) => Promise<void>;
   onClearStats: () => Promise<void>;
   onClearReviews: () => Promise<void>;
+  onDataRestored: () => Promise<void>;
+  syncStatus: SyncStatus;
+  onSyncNow: () => void;
+  onReplaceWithHousehold: () => Promise<void>;
   t: any;
 }
 
@@ -31,6 +41,8 @@ const LANGUAGES = [
     { code: 'fi', name: 'Suomi' },
 ];
 
+const AI_PROVIDERS: AIProviderId[] = ['gemini', 'openai', 'local'];
+
 interface AggregatedIngredient {
     name: string; // Lowercase key
     displayName: string; // Display Name (first encountered)
@@ -39,7 +51,7 @@ interface AggregatedIngredient {
     count: number;
 }
 
-export const SettingsView: React.FC<SettingsViewProps> = ({ settings, onUpdate, recipes, plan, onUpdateRecipes, onClearStats, onClearReviews, t }) => {
+export const SettingsView: React.FC<SettingsViewProps> = ({ settings, onUpdate, recipes, plan, onUpdateRecipes, onClearStats, onClearReviews, onDataRestored, syncStatus, onSyncNow, onReplaceWithHousehold, t }) => {
   const [newStaple, setNewStaple] = useState('');
   const [newStoreName, setNewStoreName] = useState('');
   
@@ -58,6 +70,7 @@ export const SettingsView: React.FC<SettingsViewProps> = ({ settings, onUpdate,
   // Clear Data Confirmations
   const [showClearStatsConfirm, setShowClearStatsConfirm] = useState(false);
   const [showClearReviewsConfirm, setShowClearReviewsConfirm] = useState(false);
+  const [showReplaceSyncConfirm, setShowReplaceSyncConfirm] = useState(false);
 
   // Translation State
   const [isTranslating, setIsTranslating] = useState(false);
@@ -68,6 +81,15 @@ export const SettingsView: React.FC<SettingsViewProps> = ({ settings, onUpdate,
   const [langSearch, setLangSearch] = useState('');
   const [isGeneratingLang, setIsGeneratingLang] = useState(false);
 
+  // Backup / Restore State
+  const restoreInputRef = useRef<HTMLInputElement>(null);
+  const [restoreArchive, setRestoreArchive] = useState<BackupArchive | null>(null);
+  const [restoreMode, setRestoreMode] = useState<RestoreMode>('merge');
+  const [restorePreview, setRestorePreview] = useState<RestorePreview | null>(null);
+  const [restoreError, setRestoreError] = useState<string | null>(null);
+  const [isRestoreModalOpen, setIsRestoreModalOpen] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+
   // Drag State for Category Sorting
   const [draggedItemIndex, setDraggedItemIndex] = useState<number | null>(null);
   const [dragOverItemIndex, setDragOverItemIndex] = useState<number | null>(null);
@@ -219,7 +241,7 @@ export const SettingsView: React.FC<SettingsViewProps> = ({ settings, onUpdate,
       if (!newStoreName.trim()) return;
       
       const newStore: Store = {
-          id: Date.now(),
+          id: newId(),
           name: newStoreName.trim(),
           category_order: [...SHOPPING_CATEGORIES]
       };
@@ -266,6 +288,11 @@ export const SettingsView: React.FC<SettingsViewProps> = ({ settings, onUpdate,
       setShowClearReviewsConfirm(false);
   };
 
+  const confirmReplaceSync = async () => {
+      setShowReplaceSyncConfirm(false);
+      await onReplaceWithHousehold();
+  };
+
   const handleTranslateContent = async () => {
       if (isTranslating) return;
       setIsTranslating(true);
@@ -441,6 +468,50 @@ export const SettingsView: React.FC<SettingsViewProps> = ({ settings, onUpdate,
       }
   };
 
+  const toggleMealSlot = (type: MealType) => {
+      const current = settings.meal_slots || [];
+      const next = current.includes(type) ? current.filter(m => m !== type) : [...current, type];
+      if (next.length === 0) return; // Keep at least one slot
+      onUpdate({ ...settings, meal_slots: MEAL_TYPES.filter(m => next.includes(m)) });
+  };
+
+  // --- Plan Generator ---
+  const planner = resolvePlannerSettings(settings.planner);
+  const updatePlanner = (changes: Partial<PlannerSettings>) => onUpdate({ ...settings, planner: { ...planner, ...changes } });
+  // Empty input means no limit
+  const limitValue = (value: string) => value === '' ? undefined : Math.max(0, parseInt(value) || 0);
+  const weekdays = Array.from({ length: 7 }, (_, i) => (settings.week_start_day + i) % 7);
+  const weekdayLabel = (day: number) => new Date(2026, 0, 4 + day).toLocaleDateString(settings.language, { weekday: 'short' }); // Jan 4 2026 is a Sunday
+
+  const toggleQuickDay = (day: number) => {
+      const days = planner.quick_weekdays.includes(day)
+          ? planner.quick_weekdays.filter(d => d !== day)
+          : [...planner.quick_weekdays, day];
+      updatePlanner({ quick_weekdays: days });
+  };
+
+  // --- AI Providers ---
+  const providerLabel = (id: AIProviderId) =>
+      id === 'gemini' ? 'Gemini' : id === 'openai' ? 'OpenAI' : (t.providerLocal || 'Local');
+
+  const updateSync = (changes: Partial<SyncSettings>) => {
+      const current: SyncSettings = settings.sync || { enabled: false, url: '', household: '' };
+      onUpdate({ ...settings, sync: { ...current, ...changes } });
+  };
+
+  const toggleCalendarFeed = (enabled: boolean) =>
+      onUpdate({ ...settings, calendar_feed: { enabled, key: settings.calendar_feed?.key || newFeedKey() } });
+
+  const setCapabilityProvider = (capability: AICapability, id: AIProviderId | '') => {
+      const next = { ...(settings.ai_capabilities || {}) };
+      if (id) next[capability] = id;
+      else delete next[capability];
+      onUpdate({ ...settings, ai_capabilities: next });
+  };
+
+  // Only show credentials for providers that actually serve a capability
+  const usesProvider = (id: AIProviderId) => AI_CAPABILITIES.some(c => resolveProviderId(settings, c) === id);
+
   // --- Export Logic ---
   const downloadFile = (content: string, fileName: string) => {
       const blob = new Blob([content], { type: "application/json" });
@@ -463,6 +534,67 @@ export const SettingsView: React.FC<SettingsViewProps> = ({ settings, onUpdate,
       downloadFile(dataStr, `homechef_history_${new Date().toISOString().split('T')[0]}.json`);
   };
 
+  const handleExportBackup = async () => {
+      try {
+          const archive = await createBackup();
+          downloadFile(JSON.stringify(archive, null, 2), backupFileName());
+      } catch (e) {
+          console.error("Backup failed", e);
+          alert(t.backupFailed);
+      }
+  };
+
+  // --- Restore Logic ---
+  useEffect(() => {
+      if (!restoreArchive) {
+          setRestorePreview(null);
+          return;
+      }
+      setRestorePreview(null); // Nothing to confirm until the preview for this mode is in
+      previewRestore(restoreArchive, restoreMode)
+          .then(setRestorePreview)
+          .catch(e => setRestoreError(e?.message || String(e)));
+  }, [restoreArchive, restoreMode]);
+
+  const handleRestoreFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+
+      setRestoreError(null);
+      setRestoreArchive(null);
+      setRestoreMode('merge');
+      setIsRestoreModalOpen(true);
+      try {
+          setRestoreArchive(parseBackup(await file.text()));
+      } catch (err: any) {
+          setRestoreError(err?.message || String(err));
+      }
+  };
+
+  const closeRestoreModal = () => {
+      if (isRestoring) return;
+      setIsRestoreModalOpen(false);
+      setRestoreArchive(null);
+      setRestoreError(null);
+  };
+
+  const confirmRestore = async () => {
+      if (!restoreArchive) return;
+      setIsRestoring(true);
+      try {
+          await restoreBackup(restoreArchive, restoreMode);
+          setIsRestoreModalOpen(false);
+          setRestoreArchive(null);
+          await onDataRestored();
+      } catch (e: any) {
+          console.error("Restore failed", e);
+          setRestoreError(e?.message || String(e));
+      } finally {
+          setIsRestoring(false);
+      }
+  };
+
   // Drag and Drop Handlers
   const handleDragStart = (index: number) => {
       setDraggedItemIndex(index);
@@ -580,30 +712,122 @@ export const SettingsView: React.FC<SettingsViewProps> = ({ settings, onUpdate,
                 <div className="flex items-center justify-between">
                     <span className="text-xs text-gray-500">{t.provider}</span>
                     <div className="flex bg-gray-100 p-1 rounded-lg">
-                        <button 
-                            onClick={() => onUpdate({...settings, ai_provider: 'gemini'})}
-                            className={`px-3 py-1 text-xs rounded-md transition-all ${settings.ai_provider === 'gemini' ? 'bg-white shadow-sm font-medium text-nordic-primary' : 'text-gray-500'}`}
-                        >
-                            Gemini
-                        </button>
-                        <button 
-                            onClick={() => onUpdate({...settings, ai_provider: 'openai'})}
-                            className={`px-3 py-1 text-xs rounded-md transition-all ${settings.ai_provider === 'openai' ? 'bg-white shadow-sm font-medium text-nordic-primary' : 'text-gray-500'}`}
-                        >
-                            OpenAI
-                        </button>
+                        {AI_PROVIDERS.map(id => (
+                            <button 
+                                key={id}
+                                onClick={() => onUpdate({...settings, ai_provider: id})}
+                                className={`px-3 py-1 text-xs rounded-md transition-all ${settings.ai_provider === id ? 'bg-white shadow-sm font-medium text-nordic-primary' : 'text-gray-500'}`}
+                            >
+                                {providerLabel(id)}
+                            </button>
+                        ))}
                     </div>
                 </div>
-                {settings.ai_provider === 'openai' && (
-                    <div className="animate-in slide-in-from-top-1">
-                        <label className="text-[10px] text-gray-500 mb-1 block">{t.openaiKey}</label>
-                        <Input 
-                            type="password"
-                            value={settings.openai_api_key || ''}
-                            onChange={(e: any) => onUpdate({...settings, openai_api_key: e.target.value})}
-                            placeholder={t.keyPlaceholder}
-                            className="!py-1.5 !px-2 text-sm"
-                        />
+
+                {/* Per-capability overrides */}
+                <div>
+                    <p className="text-[10px] text-gray-500 mb-1.5">{t.aiCapabilitiesDesc || "Use a different provider for specific tasks."}</p>
+                    <div className="space-y-1.5">
+                        {AI_CAPABILITIES.map(capability => {
+                            const defaultSupported = PROVIDER_CAPABILITIES[settings.ai_provider]?.includes(capability);
+                            return (
+                                <div key={capability} className="flex items-center justify-between gap-2">
+                                    <span className="text-xs">{t[`aiCap_${capability}`] || capability}</span>
+                                    <select
+                                        value={settings.ai_capabilities?.[capability] || ''}
+                                        onChange={(e) => setCapabilityProvider(capability, e.target.value as AIProviderId | '')}
+                                        className={`py-1 px-2 bg-gray-50 border rounded-xl text-xs outline-none focus:border-nordic-primary ${!settings.ai_capabilities?.[capability] && !defaultSupported ? 'border-red-300 text-red-500' : 'border-gray-200'}`}
+                                    >
+                                        <option value="">
+                                            {t.aiDefault || "Default"} ({providerLabel(settings.ai_provider)}){!defaultSupported ? ` – ${t.aiUnsupported || "not supported"}` : ''}
+                                        </option>
+                                        {AI_PROVIDERS.filter(id => PROVIDER_CAPABILITIES[id].includes(capability)).map(id => (
+                                            <option key={id} value={id}>{providerLabel(id)}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                            );
+                        })}
+                    </div>
+                </div>
+
+                {usesProvider('gemini') && (
+                    <div className="animate-in slide-in-from-top-1 grid grid-cols-2 gap-2">
+                        <div>
+                            <label className="text-[10px] text-gray-500 mb-1 block">{t.geminiModel || "Gemini model"}</label>
+                            <Input 
+                                value={settings.gemini_model || ''}
+                                onChange={(e: any) => onUpdate({...settings, gemini_model: e.target.value})}
+                                placeholder={DEFAULT_GEMINI_MODEL}
+                                className="!py-1.5 !px-2 text-sm"
+                            />
+                        </div>
+                        <div>
+                            <label className="text-[10px] text-gray-500 mb-1 block">{t.aiImageModel || "Image model"}</label>
+                            <Input 
+                                value={settings.gemini_image_model || ''}
+                                onChange={(e: any) => onUpdate({...settings, gemini_image_model: e.target.value})}
+                                placeholder={DEFAULT_GEMINI_IMAGE_MODEL}
+                                className="!py-1.5 !px-2 text-sm"
+                            />
+                        </div>
+                    </div>
+                )}
+                {usesProvider('openai') && (
+                    <div className="animate-in slide-in-from-top-1 space-y-2">
+                        <div>
+                            <label className="text-[10px] text-gray-500 mb-1 block">{t.openaiKey}</label>
+                            <Input 
+                                type="password"
+                                value={settings.openai_api_key || ''}
+                                onChange={(e: any) => onUpdate({...settings, openai_api_key: e.target.value})}
+                                placeholder={t.keyPlaceholder}
+                                className="!py-1.5 !px-2 text-sm"
+                            />
+                        </div>
+                        <div className="grid grid-cols-2 gap-2">
+                            <div>
+                                <label className="text-[10px] text-gray-500 mb-1 block">{t.openaiModel || "OpenAI model"}</label>
+                                <Input 
+                                    value={settings.openai_model || ''}
+                                    onChange={(e: any) => onUpdate({...settings, openai_model: e.target.value})}
+                                    placeholder={DEFAULT_OPENAI_MODEL}
+                                    className="!py-1.5 !px-2 text-sm"
+                                />
+                            </div>
+                            <div>
+                                <label className="text-[10px] text-gray-500 mb-1 block">{t.aiImageModel || "Image model"}</label>
+                                <Input 
+                                    value={settings.openai_image_model || ''}
+                                    onChange={(e: any) => onUpdate({...settings, openai_image_model: e.target.value})}
+                                    placeholder={DEFAULT_OPENAI_IMAGE_MODEL}
+                                    className="!py-1.5 !px-2 text-sm"
+                                />
+                            </div>
+                        </div>
+                    </div>
+                )}
+                {usesProvider('local') && (
+                    <div className="animate-in slide-in-from-top-1 space-y-2">
+                        <p className="text-[10px] text-gray-500">{t.localAiDesc || "Any OpenAI-compatible server, e.g. Ollama or llama.cpp."}</p>
+                        <div>
+                            <label className="text-[10px] text-gray-500 mb-1 block">{t.localAiUrl || "Server URL"}</label>
+                            <Input 
+                                value={settings.local_ai_base_url || ''}
+                                onChange={(e: any) => onUpdate({...settings, local_ai_base_url: e.target.value})}
+                                placeholder={DEFAULT_LOCAL_BASE_URL}
+                                className="!py-1.5 !px-2 text-sm"
+                            />
+                        </div>
+                        <div>
+                            <label className="text-[10px] text-gray-500 mb-1 block">{t.localAiModel || "Model"}</label>
+                            <Input 
+                                value={settings.local_ai_model || ''}
+                                onChange={(e: any) => onUpdate({...settings, local_ai_model: e.target.value})}
+                                placeholder={DEFAULT_LOCAL_MODEL}
+                                className="!py-1.5 !px-2 text-sm"
+                            />
+                        </div>
                     </div>
                 )}
             </div>
@@ -645,6 +869,214 @@ export const SettingsView: React.FC<SettingsViewProps> = ({ settings, onUpdate,
            </div>
         </div>
 
+        {/* Household Sync Section */}
+        <div className="p-3">
+            <div className="flex items-center justify-between">
+                <h3 className="font-medium text-sm">{t.syncTitle || "Household sync"}</h3>
+                <label className="flex items-center gap-1.5 text-xs text-gray-600">
+                    <input
+                        type="checkbox"
+                        checked={!!settings.sync?.enabled}
+                        onChange={(e) => updateSync({ enabled: e.target.checked })}
+                        className="accent-teal-700"
+                    />
+                    {t.syncEnabled || "On"}
+                </label>
+            </div>
+            <p className="text-[10px] text-gray-500 mb-3">{t.syncDesc || "Share recipes, plan and shopping list between devices through your own sync server. A device joining a household adds its own recipes, plan and list to the household's."}</p>
+            {settings.sync?.enabled && (
+                <div className="space-y-2 animate-in slide-in-from-top-1">
+                    <div>
+                        <label className="text-[10px] text-gray-500 mb-1 block">{t.syncUrl || "Server URL"}</label>
+                        <Input
+                            value={settings.sync.url}
+                            onChange={(e: any) => updateSync({ url: e.target.value })}
+                            placeholder="https://home.example.com/sync"
+                            className="!py-1.5 !px-2 text-sm"
+                        />
+                    </div>
+                    <div className="flex gap-2">
+                        <div className="flex-1">
+                            <label className="text-[10px] text-gray-500 mb-1 block">{t.syncHousehold || "Household code"}</label>
+                            <Input
+                                value={settings.sync.household}
+                                onChange={(e: any) => updateSync({ household: e.target.value.replace(/[^A-Za-z0-9_-]/g, '') })}
+                                className="!py-1.5 !px-2 text-sm"
+                            />
+                        </div>
+                        <div className="flex-1">
+                            <label className="text-[10px] text-gray-500 mb-1 block">{t.syncToken || "Token (optional)"}</label>
+                            <Input
+                                type="password"
+                                value={settings.sync.token || ''}
+                                onChange={(e: any) => updateSync({ token: e.target.value })}
+                                className="!py-1.5 !px-2 text-sm"
+                            />
+                        </div>
+                    </div>
+                    <div className="flex items-center justify-between gap-2 pt-1">
+                        <p className={`text-[10px] min-w-0 break-words ${syncStatus.state === 'error' ? 'text-red-600' : 'text-gray-500'}`}>
+                            {syncStatus.state === 'syncing'
+                                ? (t.syncing || "Syncing…")
+                                : syncStatus.state === 'error'
+                                    ? syncStatus.error
+                                    : syncStatus.last_synced_at
+                                        ? `${t.syncLast || "Last synced"} ${new Date(syncStatus.last_synced_at).toLocaleString()}`
+                                        : (t.syncNever || "Not synced yet")}
+                        </p>
+                        <Button variant="secondary" onClick={onSyncNow} disabled={syncStatus.state === 'syncing' || !settings.sync.url || !settings.sync.household} className="text-xs h-8 shrink-0">
+                            <Icons.Refresh className={`w-3.5 h-3.5 ${syncStatus.state === 'syncing' ? 'animate-spin' : ''}`} /> {t.syncNow || "Sync now"}
+                        </Button>
+                    </div>
+                    <button
+                        onClick={() => setShowReplaceSyncConfirm(true)}
+                        disabled={syncStatus.state === 'syncing' || !settings.sync.url || !settings.sync.household}
+                        className="text-[10px] text-red-600 hover:underline disabled:opacity-50"
+                    >
+                        {t.syncReplace || "Replace this device's data with the household's"}
+                    </button>
+                    <div className="pt-2 border-t border-gray-100">
+                        <label className="flex items-center gap-1.5 text-xs text-gray-600">
+                            <input
+                                type="checkbox"
+                                checked={!!settings.calendar_feed?.enabled}
+                                onChange={(e) => toggleCalendarFeed(e.target.checked)}
+                                className="accent-teal-700"
+                            />
+                            {t.calendarFeed || "Publish the plan as a calendar feed"}
+                        </label>
+                        {settings.calendar_feed?.enabled && settings.sync.url && settings.sync.household && (
+                            <div className="mt-2 space-y-1">
+                                <p className="text-[10px] text-gray-500">{t.calendarFeedDesc || "Subscribe to this address in your calendar app. Anyone with the address can see the plan."}</p>
+                                <div className="flex gap-2">
+                                    <Input
+                                        readOnly
+                                        value={calendarFeedUrl(settings.sync, settings.calendar_feed.key)}
+                                        onFocus={(e: any) => e.target.select()}
+                                        className="!py-1.5 !px-2 text-xs"
+                                    />
+                                    <Button variant="secondary" onClick={() => navigator.clipboard?.writeText(calendarFeedUrl(settings.sync!, settings.calendar_feed!.key))} className="text-xs h-8 shrink-0">
+                                        {t.copy || "Copy"}
+                                    </Button>
+                                </div>
+                            </div>
+                        )}
+                    </div>
+                </div>
+            )}
+        </div>
+
+        {/* Meal Slots Section */}
+        <div className="p-3">
+            <h3 className="font-medium text-sm">{t.mealSlots}</h3>
+            <p className="text-[10px] text-gray-500 mb-3">{t.mealSlotsDesc}</p>
+            <div className="flex flex-wrap gap-1.5">
+                {MEAL_TYPES.map(type => {
+                    const active = (settings.meal_slots || []).includes(type);
+                    return (
+                        <button
+                            key={type}
+                            onClick={() => toggleMealSlot(type)}
+                            className={`px-3 py-1 text-xs rounded-md border transition-colors ${active ? 'bg-nordic-primary text-white border-transparent' : 'bg-white text-gray-500 border-gray-200 hover:bg-gray-50'}`}
+                        >
+                            {t[`slot_${type}`] || type}
+                        </button>
+                    );
+                })}
+            </div>
+        </div>
+
+        {/* Plan Generator Section */}
+        <div className="p-3">
+            <h3 className="font-medium text-sm">{t.plannerTitle || "Plan generator"}</h3>
+            <p className="text-[10px] text-gray-500 mb-3">{t.plannerDesc || "Rules for Generate. Lock meals in the plan to keep them when the week is regenerated."}</p>
+            <div className="grid grid-cols-2 gap-2">
+                {([
+                    ['max_red_meat_per_week', t.plannerMaxRedMeat || "Max red-meat meals per week"],
+                    ['min_veg_or_fish_days', t.plannerMinVegFish || "Min vegetarian or fish days"],
+                    ['max_same_cuisine_per_week', t.plannerMaxCuisine || "Max meals of one cuisine"],
+                    ['max_total_minutes_per_week', t.plannerMaxMinutes || "Max cooking time per week (min)"]
+                ] as [keyof PlannerSettings, string][]).map(([key, label]) => (
+                    <div key={key}>
+                        <label className="text-[10px] text-gray-500 mb-1 block">{label}</label>
+                        <Input
+                            type="number"
+                            min={0}
+                            value={planner[key] ?? ''}
+                            placeholder={t.plannerNoLimit || "No limit"}
+                            onChange={(e: any) => updatePlanner({ [key]: limitValue(e.target.value) })}
+                            className="!py-1.5 !px-2 text-sm"
+                        />
+                    </div>
+                ))}
+                <div>
+                    <label className="text-[10px] text-gray-500 mb-1 block">{t.plannerAvoidRepeat || "No repeats within (days)"}</label>
+                    <Input
+                        type="number"
+                        min={0}
+                        value={planner.avoid_repeat_days}
+                        onChange={(e: any) => updatePlanner({ avoid_repeat_days: limitValue(e.target.value) ?? 0 })}
+                        className="!py-1.5 !px-2 text-sm"
+                    />
+                </div>
+                <div>
+                    <label className="text-[10px] text-gray-500 mb-1 block">{t.plannerQuickMinutes || "Quick meal, max minutes"}</label>
+                    <Input
+                        type="number"
+                        min={5}
+                        value={planner.quick_max_minutes}
+                        onChange={(e: any) => updatePlanner({ quick_max_minutes: limitValue(e.target.value) ?? 0 })}
+                        className="!py-1.5 !px-2 text-sm"
+                    />
+                </div>
+                <div className="col-span-2">
+                    <label className="text-[10px] text-gray-500 mb-1 block">{t.plannerQuickDifficulty || "Quick meal, hardest difficulty"}</label>
+                    <select
+                        value={planner.quick_max_difficulty || ''}
+                        onChange={(e) => updatePlanner({ quick_max_difficulty: (e.target.value || undefined) as Difficulty | undefined })}
+                        className="w-full py-1.5 px-2 bg-gray-50 border border-gray-200 rounded-xl text-sm outline-none focus:border-nordic-primary"
+                    >
+                        <option value="">{t.plannerAnyDifficulty || "Any"}</option>
+                        {DIFFICULTIES.map(level => <option key={level} value={level}>{t[`difficulty_${level}`] || level}</option>)}
+                    </select>
+                </div>
+            </div>
+            <label className="text-[10px] text-gray-500 mt-3 mb-1 block">{t.plannerQuickDays || "Quick meals on"}</label>
+            <div className="flex flex-wrap gap-1.5">
+                {weekdays.map(day => (
+                    <button
+                        key={day}
+                        onClick={() => toggleQuickDay(day)}
+                        className={`px-3 py-1 text-xs rounded-md border transition-colors capitalize ${planner.quick_weekdays.includes(day) ? 'bg-nordic-primary text-white border-transparent' : 'bg-white text-gray-500 border-gray-200 hover:bg-gray-50'}`}
+                    >
+                        {weekdayLabel(day)}
+                    </button>
+                ))}
+            </div>
+            <label className="flex items-center gap-1.5 text-xs text-gray-600 mt-3">
+                <input
+                    type="checkbox"
+                    checked={planner.use_shopping_list}
+                    onChange={(e) => updatePlanner({ use_shopping_list: e.target.checked })}
+                    className="accent-teal-700"
+                />
+                {t.plannerUseList || "Prefer recipes that use up what is on the shopping list"}
+            </label>
+            {(settings.filter_presets?.length || 0) > 0 && (
+                <div className="mt-3">
+                    <label className="text-[10px] text-gray-500 mb-1 block">{t.plannerFilterPreset || "Pick recipes from"}</label>
+                    <select
+                        value={settings.filter_presets!.some(p => p.id === planner.filter_preset_id) ? planner.filter_preset_id : ''}
+                        onChange={(e) => updatePlanner({ filter_preset_id: e.target.value ? Number(e.target.value) : undefined })}
+                        className="w-full py-1.5 px-2 bg-gray-50 border border-gray-200 rounded-xl text-sm outline-none focus:border-nordic-primary"
+                    >
+                        <option value="">{t.plannerAllRecipes || "All recipes"}</option>
+                        {settings.filter_presets!.map(preset => <option key={preset.id} value={preset.id}>{preset.name}</option>)}
+                    </select>
+                </div>
+            )}
+        </div>
+
         {/* Stores Section */}
         <div className="p-3">
             <h3 className="font-medium text-sm">{t.stores}</h3>
@@ -722,6 +1154,19 @@ export const SettingsView: React.FC<SettingsViewProps> = ({ settings, onUpdate,
                   <Icons.Chart className="w-4 h-4" /> {t.exportHistory}
               </Button>
           </div>
+
+          <div className="border-t border-indigo-100 mt-3 pt-3">
+              <p className="text-[10px] text-indigo-700/70 mb-3">{t.backupDesc}</p>
+              <div className="grid grid-cols-2 gap-2">
+                  <Button variant="secondary" onClick={handleExportBackup} className="text-xs h-9 bg-white border-indigo-200 text-indigo-800 hover:bg-indigo-50">
+                      <Icons.Upload className="w-4 h-4 rotate-180" /> {t.fullBackup}
+                  </Button>
+                  <Button variant="secondary" onClick={() => restoreInputRef.current?.click()} className="text-xs h-9 bg-white border-indigo-200 text-indigo-800 hover:bg-indigo-50">
+                      <Icons.Upload className="w-4 h-4" /> {t.restoreBackup}
+                  </Button>
+                  <input type="file" ref={restoreInputRef} className="hidden" accept=".json,application/json" onChange={handleRestoreFile} />
+              </div>
+          </div>
       </Card>
 
       <Card className="rounded-xl p-3 border-red-100 bg-red-50/30">
@@ -819,6 +1264,98 @@ export const SettingsView: React.FC<SettingsViewProps> = ({ settings, onUpdate,
           </div>
       </Modal>
 
+      {/* Confirmation Modal for Replacing Local Data with the Household's */}
+      <Modal isOpen={showReplaceSyncConfirm} onClose={() => setShowReplaceSyncConfirm(false)} title={t.areYouSure}>
+          <div className="space-y-4">
+              <p className="text-sm text-gray-600">{t.syncReplaceConfirm || "This device's recipes, plan and shopping list are deleted, including changes not synced yet, and the household's are downloaded instead."}</p>
+              <div className="flex gap-2">
+                  <Button variant="danger" onClick={confirmReplaceSync} className="flex-1">
+                      {t.syncReplaceAction || "Replace"}
+                  </Button>
+                  <Button variant="secondary" onClick={() => setShowReplaceSyncConfirm(false)} className="flex-1">
+                      {t.cancel}
+                  </Button>
+              </div>
+          </div>
+      </Modal>
+
+      {/* Restore Backup Modal */}
+      <Modal isOpen={isRestoreModalOpen} onClose={closeRestoreModal} title={t.restoreTitle}>
+          <div className="space-y-4">
+              {restoreError && (
+                  <div className="p-3 rounded-xl bg-red-50 text-red-700 text-xs">
+                      <p className="font-bold mb-1">{t.restoreInvalid}</p>
+                      <p>{restoreError}</p>
+                  </div>
+              )}
+
+              {restoreArchive && (
+                  <>
+                      <p className="text-xs text-gray-500">
+                          {t.backupCreatedAt} {restoreArchive.created_at ? new Date(restoreArchive.created_at).toLocaleString() : '-'}
+                      </p>
+
+                      <div className="grid grid-cols-2 gap-2">
+                          {(['merge', 'replace'] as RestoreMode[]).map(mode => (
+                              <button
+                                  key={mode}
+                                  onClick={() => setRestoreMode(mode)}
+                                  className={`p-3 rounded-xl border text-left transition-colors ${restoreMode === mode ? 'border-nordic-primary bg-teal-50' : 'border-gray-200 hover:bg-gray-50'}`}
+                              >
+                                  <p className="text-sm font-bold text-slate-800">{mode === 'merge' ? t.restoreMerge : t.restoreReplace}</p>
+                                  <p className="text-[10px] text-gray-500">{mode === 'merge' ? t.restoreMergeDesc : t.restoreReplaceDesc}</p>
+                              </button>
+                          ))}
+                      </div>
+
+                      {restorePreview ? (
+                          <div className="rounded-xl border border-gray-100 overflow-hidden">
+                              <table className="w-full text-xs">
+                                  <thead className="bg-gray-50 text-gray-500">
+                                      <tr>
+                                          <th className="text-left p-2 font-medium"></th>
+                                          <th className="p-2 font-medium">{t.restoreAdded}</th>
+                                          <th className="p-2 font-medium">{t.restoreUpdated}</th>
+                                          <th className="p-2 font-medium">{t.restoreRemoved}</th>
+                                      </tr>
+                                  </thead>
+                                  <tbody>
+                                      {Object.entries(restorePreview.collections).map(([key, diff]) => (
+                                          <tr key={key} className="border-t border-gray-100">
+                                              <td className="p-2 font-medium text-slate-700">{t[`backup_${key}`] || key}</td>
+                                              <td className="p-2 text-center text-green-700">{diff.added}</td>
+                                              <td className="p-2 text-center text-amber-700">{diff.updated}</td>
+                                              <td className="p-2 text-center text-red-700">{diff.removed}</td>
+                                          </tr>
+                                      ))}
+                                  </tbody>
+                              </table>
+                              {restorePreview.settingsChanged && (
+                                  <p className="p-2 border-t border-gray-100 text-[10px] text-amber-700">{t.restoreSettingsChanged}</p>
+                              )}
+                          </div>
+                      ) : (
+                          <div className="text-center text-xs text-gray-400 py-4">{t.loading}</div>
+                      )}
+                  </>
+              )}
+
+              <div className="flex gap-2">
+                  <Button
+                      variant={restoreMode === 'replace' ? 'danger' : 'primary'}
+                      onClick={confirmRestore}
+                      disabled={!restorePreview || isRestoring}
+                      className="flex-1"
+                  >
+                      {isRestoring ? t.restoring : t.restoreConfirm}
+                  </Button>
+                  <Button variant="secondary" onClick={closeRestoreModal} disabled={isRestoring} className="flex-1">
+                      {t.cancel}
+                  </Button>
+              </div>
+          </div>
+      </Modal>
+
       {/* Store Layout Modal */}
       <Modal isOpen={!!editingStore} onClose={() => setEditingStore(null)} title={t.layoutTitle}>
            <div className="space-y-4">
@@ -1,4 +1,5 @@
 import React, { useEffect } from 'react';
+import { AIValidationError } from '../services/validation';
 
 // Icons as SVG components to avoid dependencies
 export const Icons = {
@@ -85,6 +86,27 @@ export const Icons = {
   ),
   Filter: ({ className }: { className?: string }) => (
     <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className={className}><polygon points="22 3 2 3 10 12.46 10 19 14 21 14 12.46 22 3"></polygon></svg>
+  ),
+  Box: ({ className }: { className?: string }) => (
+    <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className={className}><path d="M21 8v13H3V8"></path><rect x="1" y="3" width="22" height="5"></rect><line x1="10" y1="12" x2="14" y2="12"></line></svg>
+  ),
+  Clock: ({ className }: { className?: string }) => (
+    <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className={className}><circle cx="12" cy="12" r="10"></circle><polyline points="12 6 12 12 16 14"></polyline></svg>
+  ),
+  Lock: ({ className }: { className?: string }) => (
+    <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className={className}><rect x="3" y="11" width="18" height="11" rx="2" ry="2"></rect><path d="M7 11V7a5 5 0 0 1 10 0v4"></path></svg>
+  ),
+  Info: ({ className }: { className?: string }) => (
+    <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className={className}><circle cx="12" cy="12" r="10"></circle><line x1="12" y1="16" x2="12" y2="12"></line><line x1="12" y1="8" x2="12.01" y2="8"></line></svg>
+  ),
+  Users: ({ className }: { className?: string }) => (
+    <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className={className}><path d="M17 21v-2a4 4 0 0 0-4-4H5a4 4 0 0 0-4 4v2"></path><circle cx="9" cy="7" r="4"></circle><path d="M23 21v-2a4 4 0 0 0-3-3.87"></path><path d="M16 3.13a4 4 0 0 1 0 7.75"></path></svg>
+  ),
+  Snowflake: ({ className }: { className?: string }) => (
+    <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className={className}><line x1="2" y1="12" x2="22" y2="12"></line><line x1="12" y1="2" x2="12" y2="22"></line><path d="m20 16-4-4 4-4"></path><path d="m4 8 4 4-4 4"></path><path d="m16 4-4 4-4-4"></path><path d="m8 20 4-4 4 4"></path></svg>
+  ),
+  Pause: ({ className }: { className?: string }) => (
+    <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className={className}><rect x="6" y="4" width="4" height="16"></rect><rect x="14" y="4" width="4" height="16"></rect></svg>
   )
 };
 
@@ -160,4 +182,40 @@ export const Modal = ({ isOpen, onClose, title, children, padding = "p-6", maxWi
             </div>
         </div>
     );
-};
\ No newline at end of file
+};
+
+// Explains a failed AI request: invalid responses list what was wrong, other errors show their message
+export const AIErrorBanner = ({ error, t, onDismiss, className = '' }: any) => {
+    if (!error) return null;
+    const invalid = error instanceof AIValidationError;
+    const details: string[] = invalid ? error.errors.slice(0, 3) : [error?.message || String(error)];
+    return (
+        <div className={`p-3 rounded-xl bg-red-50 text-red-700 text-xs flex items-start gap-2 ${className}`}>
+            <div className="flex-1 min-w-0">
+                <p className="font-bold mb-1">{invalid ? (t.aiInvalidResponse || "The AI kept returning data that couldn't be used. Try again or switch provider.") : (t.aiRequestFailed || "The AI request failed.")}</p>
+                {details.map((d, i) => <p key={i} className="break-words opacity-80">{d}</p>)}
+            </div>
+            {onDismiss && (
+                <button onClick={onDismiss} className="p-0.5 rounded-full hover:bg-red-100">
+                    <Icons.X className="w-3.5 h-3.5" />
+                </button>
+            )}
+        </div>
+    );
+};
+
+// Shown instead of an error when an AI request was saved to the offline queue
+export const AIQueuedNotice = ({ show, t, onDismiss, className = '' }: any) => {
+    if (!show) return null;
+    return (
+        <div className={`p-3 rounded-xl bg-amber-50 text-amber-800 text-xs flex items-start gap-2 ${className}`}>
+            <Icons.Clock className="w-4 h-4 shrink-0" />
+            <p className="flex-1 min-w-0">{t.aiQueued || "You're offline or the AI is busy. The request was saved and will run automatically."}</p>
+            {onDismiss && (
+                <button onClick={onDismiss} className="p-0.5 rounded-full hover:bg-amber-100">
+                    <Icons.X className="w-3.5 h-3.5" />
+                </button>
+            )}
+        </div>
+    );
+};
@@ -1,8 +1,12 @@
 import React, { useState, useRef, useEffect, useMemo } from 'react';
-import { ShoppingItem, Language, AppSettings, SHOPPING_CATEGORIES, MealPlanItem, Recipe } from '../types';
+import { ShoppingItem, Language, AppSettings, SHOPPING_CATEGORIES, MealPlanItem, Recipe, PantryItem } from '../types';
 import { Card, Button, Icons, Input, Modal } from './Shared';
 import { mergeShoppingList } from '../services/mockData';
+import { UNITS } from '../services/units';
+import { guessCategory } from '../services/ingredientParser';
+import { newId } from '../services/ids';
 import { CATEGORY_TRANSLATIONS } from '../services/translations';
+import { SyncConflict } from '../services/syncLog';
 
 interface ShopViewProps {
   items: ShoppingItem[]; // Global persisted items (manual + aggregated)
@@ -14,15 +18,16 @@ interface ShopViewProps {
   onUpdateCategory: (id: number, category: string) => void;
   onUpdateItem: (id: number, updates: Partial<ShoppingItem>) => void;
   onClearChecked: () => void;
+  pantry: PantryItem[];
+  onSavePantryItem: (item: PantryItem) => void;
+  onDeletePantryItem: (id: number) => void;
+  syncConflicts?: SyncConflict[]; // Items checked and unchecked on two devices at once
+  onDismissConflicts?: () => void;
   language: string;
   t: any;
 }
 
-const UNITS = [
-    'pc', 'st', 'pkt', 'g', 'kg', 'ml', 'cl', 'dl', 'l', 'tsp', 'tbsp', 'cup', 'can', 'jar', 'bunch', 'pinch'
-];
-
-export const ShopView: React.FC<ShopViewProps> = ({ items, plan, recipes, settings, onToggleItem, onAddItem, onUpdateCategory, onUpdateItem, onClearChecked, language, t }) => {
+export const ShopView: React.FC<ShopViewProps> = ({ items, plan, recipes, settings, onToggleItem, onAddItem, onUpdateCategory, onUpdateItem, onClearChecked, pantry, onSavePantryItem, onDeletePantryItem, syncConflicts = [], onDismissConflicts, language, t }) => {
   const [newItemName, setNewItemName] = useState('');
   
   // Accordion state: only one item expanded at a time
@@ -45,6 +50,13 @@ export const ShopView: React.FC<ShopViewProps> = ({ items, plan, recipes, settin
   // Week Selection State (0 = This week, 1 = Next week)
   const [weekOffset, setWeekOffset] = useState(0);
 
+  // Pantry Modal State
+  const [isPantryOpen, setIsPantryOpen] = useState(false);
+  const [pantrySearch, setPantrySearch] = useState('');
+  const [newPantryName, setNewPantryName] = useState('');
+  const [newPantryQuantity, setNewPantryQuantity] = useState(1);
+  const [newPantryUnit, setNewPantryUnit] = useState('pc');
+
   // --- Dynamic Filtering Logic ---
   
   // 1. Calculate the visible shopping list based on the selected week
@@ -71,10 +83,28 @@ export const ShopView: React.FC<ShopViewProps> = ({ items, plan, recipes, settin
           return d >= startDate && d < endDate;
       });
 
-      return mergeShoppingList(items, visiblePlan, recipes, settings.pantry_staples);
+      return mergeShoppingList(items, visiblePlan, recipes, settings.pantry_staples, { pantry });
+
+  }, [items, plan, recipes, settings.pantry_staples, pantry, weekOffset]);
+
 
-  }, [items, plan, recipes, settings.pantry_staples, weekOffset]);
+  const handleAddPantryItem = (e: React.FormEvent) => {
+      e.preventDefault();
+      if (!newPantryName.trim()) return;
+      onSavePantryItem({
+          id: newId(),
+          item_name: newPantryName.trim(),
+          quantity: Math.max(0, newPantryQuantity),
+          unit: newPantryUnit,
+          category: guessCategory(newPantryName)
+      });
+      setNewPantryName('');
+      setNewPantryQuantity(1);
+  };
 
+  const sortedPantry = pantry
+      .filter(p => p.item_name.toLowerCase().includes(pantrySearch.toLowerCase()))
+      .sort((a, b) => a.item_name.localeCompare(b.item_name));
 
   // Extract unique item names for suggestions
   const suggestions = Array.from(new Set(visibleItems.map(i => i.item_name))).sort();
@@ -319,11 +349,30 @@ export const ShopView: React.FC<ShopViewProps> = ({ items, plan, recipes, settin
           <h1 className="text-xl font-bold text-nordic-text">{t.shop_title}</h1>
           <p className="text-nordic-muted text-xs">{visibleItems.filter(i => !i.checked).length} {t.remaining}</p>
         </div>
-        <Button variant="ghost" onClick={onClearChecked} className="text-xs !p-2 h-8">
-           {t.clear}
-        </Button>
+        <div className="flex gap-1">
+            <Button variant="ghost" onClick={() => setIsPantryOpen(true)} className="text-xs !p-2 h-8">
+               <Icons.Box className="w-3.5 h-3.5" /> {t.pantry}
+            </Button>
+            <Button variant="ghost" onClick={onClearChecked} className="text-xs !p-2 h-8">
+               {t.clear}
+            </Button>
+        </div>
       </div>
 
+      {syncConflicts.length > 0 && (
+          <div className="p-3 rounded-xl bg-amber-50 text-amber-800 text-xs flex items-start gap-2">
+              <div className="flex-1 min-w-0">
+                  <p className="font-bold mb-1">{t.syncCheckConflict || "Changed on another device at the same time, kept as bought:"}</p>
+                  <p className="break-words opacity-80">{Array.from(new Set(syncConflicts.map(c => c.label))).join(', ')}</p>
+              </div>
+              {onDismissConflicts && (
+                  <button onClick={onDismissConflicts} className="p-0.5 rounded-full hover:bg-amber-100">
+                      <Icons.X className="w-3.5 h-3.5" />
+                  </button>
+              )}
+          </div>
+      )}
+
       {/* Week Selector */}
       <div className="flex bg-gray-100 p-1 rounded-xl">
            <button 
@@ -416,6 +465,75 @@ export const ShopView: React.FC<ShopViewProps> = ({ items, plan, recipes, settin
             </div>
         </div>
       </Modal>
+
+      {/* Pantry Modal */}
+      <Modal isOpen={isPantryOpen} onClose={() => setIsPantryOpen(false)} title={t.pantry}>
+          <div className="space-y-4">
+              <p className="text-xs text-gray-500">{t.pantryInventoryDesc}</p>
+              <form onSubmit={handleAddPantryItem} className="flex gap-2">
+                  <Input
+                      placeholder={t.pantryPlaceholder}
+                      value={newPantryName}
+                      onChange={(e: any) => setNewPantryName(e.target.value)}
+                      className="flex-1 !py-1.5 !px-2 text-sm"
+                  />
+                  <Input
+                      type="number"
+                      min={0}
+                      value={newPantryQuantity}
+                      onChange={(e: any) => setNewPantryQuantity(Number(e.target.value))}
+                      className="w-16 !py-1.5 !px-2 text-sm"
+                  />
+                  <select
+                      value={newPantryUnit}
+                      onChange={(e) => setNewPantryUnit(e.target.value)}
+                      className="py-1.5 px-2 bg-gray-50 border-gray-200 border rounded-xl text-sm outline-none focus:border-nordic-primary"
+                  >
+                      {UNITS.map(u => <option key={u} value={u}>{u}</option>)}
+                  </select>
+                  <Button type="submit" disabled={!newPantryName.trim()} className="!px-3">
+                      <Icons.Plus className="w-4 h-4" />
+                  </Button>
+              </form>
+
+              {pantry.length > 5 && (
+                  <Input
+                      placeholder={t.searchPlaceholder}
+                      value={pantrySearch}
+                      onChange={(e: any) => setPantrySearch(e.target.value)}
+                      className="!py-1.5 !px-2 text-sm"
+                  />
+              )}
+
+              <div className="max-h-[50vh] overflow-y-auto divide-y divide-gray-100">
+                  {sortedPantry.map(item => (
+                      <div key={item.id} className={`flex items-center gap-2 py-2 ${item.quantity <= 0 ? 'opacity-50' : ''}`}>
+                          <span className="flex-1 text-sm font-medium text-slate-700 truncate">{item.item_name}</span>
+                          <Input
+                              type="number"
+                              min={0}
+                              value={parseFloat(item.quantity.toFixed(2))}
+                              onChange={(e: any) => onSavePantryItem({ ...item, quantity: Math.max(0, Number(e.target.value)) })}
+                              className="w-20 !py-1 !px-2 text-sm text-right"
+                          />
+                          <select
+                              value={item.unit}
+                              onChange={(e) => onSavePantryItem({ ...item, unit: e.target.value })}
+                              className="py-1 px-1.5 bg-gray-50 border-gray-200 border rounded-lg text-xs outline-none"
+                          >
+                              {(UNITS.includes(item.unit) ? UNITS : [item.unit, ...UNITS]).map(u => <option key={u} value={u}>{u}</option>)}
+                          </select>
+                          <button onClick={() => onDeletePantryItem(item.id)} className="p-1.5 text-gray-400 hover:text-red-500 rounded-full hover:bg-red-50">
+                              <Icons.Trash className="w-3.5 h-3.5" />
+                          </button>
+                      </div>
+                  ))}
+                  {sortedPantry.length === 0 && (
+                      <p className="text-center text-sm text-gray-400 py-6">{t.pantryEmpty}</p>
+                  )}
+              </div>
+          </div>
+      </Modal>
     </div>
   );
 };
\ No newline at end of file
@@ -14,7 +14,7 @@ export const StatsView: React.FC<StatsViewProps> = ({ plan, recipes, t, language
     // Filter plan to only include history (up to today)
     const historyPlan = useMemo(() => {
         const todayStr = new Date().toISOString().split('T')[0];
-        return plan.filter(p => p.date <= todayStr);
+        return plan.filter(p => p.date <= todayStr && !p.entry);
     }, [plan]);
 
     const stats = useMemo(() => {
@@ -0,0 +1,76 @@
+import React, { useEffect, useState } from 'react';
+import { Icons } from './Shared';
+import { CookingTimer, secondsLeft, formatClock, pauseTimer, resumeTimer, addTime, dismissTimer } from '../services/timers';
+
+interface TimerTrayProps {
+  timers: CookingTimer[];
+  t: any;
+}
+
+// Running cooking timers, shown over every view including cooking mode
+export const TimerTray: React.FC<TimerTrayProps> = ({ timers, t }) => {
+  const [now, setNow] = useState(Date.now());
+  const [collapsed, setCollapsed] = useState(false);
+  const running = timers.some(timer => timer.ends_at !== undefined);
+
+  // Redraw the countdowns every second while something runs
+  useEffect(() => {
+    if (!running) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [running]);
+
+  if (timers.length === 0) return null;
+
+  const done = timers.filter(timer => timer.done).length;
+  // Soonest first, finished ones on top
+  const sorted = [...timers].sort((a, b) => Number(b.done) - Number(a.done) || secondsLeft(a, now) - secondsLeft(b, now));
+
+  if (collapsed) {
+    return (
+      <button
+        onClick={() => setCollapsed(false)}
+        className={`fixed bottom-24 right-3 z-[70] flex items-center gap-1.5 pl-2.5 pr-3 py-1.5 rounded-full shadow-lg text-xs font-bold ${done > 0 ? 'bg-red-600 text-white animate-pulse' : 'bg-nordic-secondary text-white'}`}
+      >
+        <Icons.Clock className="w-3.5 h-3.5" />
+        {done > 0 ? `${done} ${t.timerDone || "Done!"}` : formatClock(secondsLeft(sorted[0], now))}
+        {timers.length > 1 && <span className="opacity-70">+{timers.length - 1}</span>}
+      </button>
+    );
+  }
+
+  return (
+    <div className="fixed bottom-24 right-3 z-[70] w-64 space-y-1.5">
+      {sorted.map(timer => {
+        const paused = timer.paused_left !== undefined;
+        return (
+          <div
+            key={timer.id}
+            className={`flex items-center gap-2 pl-3 pr-1.5 py-1.5 rounded-2xl shadow-lg text-white ${timer.done ? 'bg-red-600 animate-pulse' : paused ? 'bg-gray-500' : 'bg-nordic-secondary'}`}
+          >
+            <div className="flex-1 min-w-0">
+              <p className="text-[10px] opacity-80 truncate">{timer.label}</p>
+              <p className="text-lg font-bold tabular-nums leading-tight">
+                {timer.done ? (t.timerDone || "Done!") : formatClock(secondsLeft(timer, now))}
+              </p>
+            </div>
+            <button onClick={() => addTime(timer.id, 60)} className="px-1.5 py-1 rounded-lg text-[10px] font-bold bg-white/15 hover:bg-white/25">
+              +1 min
+            </button>
+            {!timer.done && (
+              <button onClick={() => paused ? resumeTimer(timer.id) : pauseTimer(timer.id)} className="p-1.5 rounded-lg hover:bg-white/15">
+                {paused ? <Icons.Play className="w-4 h-4" /> : <Icons.Pause className="w-4 h-4" />}
+              </button>
+            )}
+            <button onClick={() => dismissTimer(timer.id)} className="p-1.5 rounded-lg hover:bg-white/15">
+              {timer.done ? <Icons.Check className="w-4 h-4" /> : <Icons.X className="w-4 h-4" />}
+            </button>
+          </div>
+        );
+      })}
+      <button onClick={() => setCollapsed(true)} className="w-full text-[10px] text-gray-500 hover:text-gray-700 flex items-center justify-center gap-1">
+        <Icons.ChevronDown className="w-3 h-3" /> {t.timerHide || "Hide timers"}
+      </button>
+    </div>
+  );
+};
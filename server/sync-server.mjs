@@ -0,0 +1,210 @@
+// HomeChef reference sync server. No dependencies, Node 18+.
+//
+//   node server/sync-server.mjs
+//
+// The server stores and numbers the operations each device pushes; devices merge them on their
+// own (see services/syncLog.ts). One append-only JSON Lines file per household.
+//
+// Environment:
+//   PORT            Port to listen on (default 8787)
+//   SYNC_DATA_DIR   Where household logs are kept (default ./sync-data)
+//   SYNC_TOKEN      If set, requests must send "Authorization: Bearer <token>"
+//   SYNC_ORIGIN     Allowed CORS origin (default *)
+//
+// API:
+//   GET  /health
+//   GET  /households/:id/ops?since=<cursor>&limit=<n>  -> { ops, cursor, more }
+//   POST /households/:id/ops  { device_id, ops }        -> { cursor }
+//   PUT  /households/:id/calendar  { key, ics }         -> { ok }
+//   GET  /calendars/:id/:key.ics                        -> the published calendar (no token, the key is the secret)
+
+import { createServer } from 'node:http';
+import { timingSafeEqual } from 'node:crypto';
+import { appendFile, mkdir, readFile, writeFile } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+
+const PORT = parseInt(process.env.PORT || '8787', 10);
+const DATA_DIR = resolve(process.env.SYNC_DATA_DIR || './sync-data');
+const TOKEN = process.env.SYNC_TOKEN || '';
+const ORIGIN = process.env.SYNC_ORIGIN || '*';
+
+const MAX_BODY_BYTES = 20 * 1024 * 1024; // Recipes can carry images as data URLs
+const MAX_PAGE = 1000;
+const HOUSEHOLD_ID = /^[A-Za-z0-9_-]{1,64}$/;
+const FEED_KEY = /^[a-f0-9]{32}$/;
+const STORES = ['recipes', 'plan', 'shopping', 'settings'];
+
+// --- Household Logs ---
+
+const households = new Map(); // id -> { ops: [], writing: Promise }
+
+const loadHousehold = async (id) => {
+  if (households.has(id)) return households.get(id);
+  let ops = [];
+  try {
+    const text = await readFile(join(DATA_DIR, `${id}.jsonl`), 'utf-8');
+    ops = text.split('\n').filter(Boolean).map(line => JSON.parse(line));
+  } catch (e) {
+    if (e.code !== 'ENOENT') throw e;
+  }
+  const household = { ops, writing: Promise.resolve() };
+  households.set(id, household);
+  return household;
+};
+
+const isValidOp = (op) =>
+  op && typeof op === 'object'
+  && typeof op.device_id === 'string'
+  && STORES.includes(op.store)
+  && (typeof op.record_id === 'number' || typeof op.record_id === 'string')
+  && (op.deleted === undefined || typeof op.deleted === 'string')
+  && (op.fields === undefined || (typeof op.fields === 'object' && !Array.isArray(op.fields)));
+
+// Appends in order; writes to one household are serialized so sequence numbers stay unique
+const appendOps = (id, household, ops) => {
+  const result = household.writing.then(async () => {
+    const start = household.ops.length;
+    const numbered = ops.map((op, i) => ({ ...op, seq: start + i + 1, received_at: new Date().toISOString() }));
+    await mkdir(DATA_DIR, { recursive: true });
+    await appendFile(join(DATA_DIR, `${id}.jsonl`), numbered.map(op => JSON.stringify(op)).join('\n') + '\n');
+    household.ops.push(...numbered);
+    return household.ops.length;
+  });
+  household.writing = result.catch(() => {});
+  return result;
+};
+
+// Compares secrets in constant time, so response timing gives nothing away
+const sameSecret = (a, b) => {
+  const x = Buffer.from(a);
+  const y = Buffer.from(b);
+  return x.length === y.length && timingSafeEqual(x, y);
+};
+
+// --- Calendar Feeds ---
+// One file per household with the feed key and the last published calendar
+
+const calendarPath = (id) => join(DATA_DIR, `${id}.calendar.json`);
+
+const saveCalendar = async (id, key, ics) => {
+  await mkdir(DATA_DIR, { recursive: true });
+  await writeFile(calendarPath(id), JSON.stringify({ key, ics, updated_at: new Date().toISOString() }));
+};
+
+const loadCalendar = async (id, key) => {
+  let stored;
+  try {
+    stored = JSON.parse(await readFile(calendarPath(id), 'utf-8'));
+  } catch (e) {
+    if (e.code === 'ENOENT') return null;
+    throw e;
+  }
+  return sameSecret(stored.key, key) ? stored : null;
+};
+
+// --- HTTP ---
+
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': ORIGIN,
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Allow-Methods': 'GET, POST, PUT, OPTIONS'
+  });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+const sendCalendar = (res, calendar) => {
+  res.writeHead(200, {
+    'Content-Type': 'text/calendar; charset=utf-8',
+    'Last-Modified': new Date(calendar.updated_at).toUTCString(),
+    'Cache-Control': 'no-cache'
+  });
+  res.end(calendar.ics);
+};
+
+const readBody = (req) => new Promise((resolve, reject) => {
+  const chunks = [];
+  let size = 0;
+  req.on('data', chunk => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      reject(Object.assign(new Error('Request body too large'), { status: 413 }));
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => {
+    try {
+      resolve(JSON.parse(Buffer.concat(chunks).toString('utf-8') || '{}'));
+    } catch {
+      reject(Object.assign(new Error('Body must be JSON'), { status: 400 }));
+    }
+  });
+  req.on('error', reject);
+});
+
+const handle = async (req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204);
+
+  const url = new URL(req.url, 'http://localhost');
+  if (url.pathname === '/health') return send(res, 200, { ok: true });
+
+  // Calendar apps can't send a token: the feed is public to whoever knows its key
+  const feed = url.pathname.match(/^\/calendars\/([^/]+)\/([^/]+)\.ics$/);
+  if (feed && req.method === 'GET') {
+    const id = decodeURIComponent(feed[1]);
+    const calendar = HOUSEHOLD_ID.test(id) && FEED_KEY.test(feed[2]) ? await loadCalendar(id, feed[2]) : null;
+    return calendar ? sendCalendar(res, calendar) : send(res, 404, { error: 'Not found' });
+  }
+
+  if (TOKEN && !sameSecret(req.headers.authorization || '', `Bearer ${TOKEN}`)) {
+    return send(res, 401, { error: 'Missing or wrong token' });
+  }
+
+  const match = url.pathname.match(/^\/households\/([^/]+)\/(ops|calendar)$/);
+  if (!match) return send(res, 404, { error: 'Not found' });
+  const id = decodeURIComponent(match[1]);
+  if (!HOUSEHOLD_ID.test(id)) return send(res, 400, { error: 'Household code may only contain letters, digits, - and _' });
+
+  if (match[2] === 'calendar') {
+    if (req.method !== 'PUT') return send(res, 405, { error: 'Method not allowed' });
+    const body = await readBody(req);
+    if (typeof body.key !== 'string' || !FEED_KEY.test(body.key) || typeof body.ics !== 'string' || !body.ics.startsWith('BEGIN:VCALENDAR')) {
+      return send(res, 400, { error: 'Expected { key, ics } with a 32 character hex key and a calendar' });
+    }
+    await saveCalendar(id, body.key, body.ics);
+    return send(res, 200, { ok: true });
+  }
+
+  const household = await loadHousehold(id);
+
+  if (req.method === 'GET') {
+    const since = Math.max(0, parseInt(url.searchParams.get('since') || '0', 10) || 0);
+    const limit = Math.min(MAX_PAGE, Math.max(1, parseInt(url.searchParams.get('limit') || String(MAX_PAGE), 10) || MAX_PAGE));
+    const ops = household.ops.slice(since, since + limit);
+    const cursor = since + ops.length;
+    return send(res, 200, { ops, cursor, more: cursor < household.ops.length });
+  }
+
+  if (req.method === 'POST') {
+    const body = await readBody(req);
+    if (!Array.isArray(body.ops) || !body.ops.every(isValidOp)) {
+      return send(res, 400, { error: 'Expected { device_id, ops: [...] } with valid operations' });
+    }
+    const cursor = body.ops.length > 0 ? await appendOps(id, household, body.ops) : household.ops.length;
+    return send(res, 200, { cursor });
+  }
+
+  return send(res, 405, { error: 'Method not allowed' });
+};
+
+createServer((req, res) => {
+  handle(req, res).catch(e => {
+    console.error(e);
+    send(res, e.status || 500, { error: e.status ? e.message : 'Internal error' });
+  });
+}).listen(PORT, () => {
+  console.log(`HomeChef sync server on :${PORT}, data in ${DATA_DIR}${TOKEN ? ', token required' : ''}`);
+});
@@ -0,0 +1,266 @@
+import { GoogleGenAI, Type } from "@google/genai";
+import { AppSettings, AIProviderId, AICapability } from '../types';
+
+// --- Provider Interface ---
+// Every AI feature talks to one of these instead of a vendor SDK. Which provider serves a
+// capability is chosen in settings (ai_capabilities), falling back to ai_provider.
+
+export const AI_CAPABILITIES: AICapability[] = ['text', 'json', 'vision', 'image'];
+
+// Vendor-neutral JSON schema, converted to each provider's own format
+export interface SchemaNode {
+  type: 'string' | 'number' | 'boolean' | 'object' | 'array';
+  description?: string;
+  properties?: Record<string, SchemaNode>;
+  items?: SchemaNode;
+  required?: string[];
+}
+
+export interface AIRequest {
+  prompt: string;
+  system?: string;
+}
+
+export interface JSONRequest extends AIRequest {
+  schema?: SchemaNode; // Without a schema any JSON value is accepted
+}
+
+export interface VisionRequest extends JSONRequest {
+  file: { data: string; mimeType: string }; // base64
+}
+
+export interface AIProvider {
+  id: AIProviderId;
+  capabilities: AICapability[];
+  text(req: AIRequest): Promise<string>;
+  json<T = any>(req: JSONRequest): Promise<T>;
+  vision<T = any>(req: VisionRequest): Promise<T>;
+  image(prompt: string): Promise<string | null>; // data URL
+}
+
+export class AIProviderError extends Error {
+  status?: number; // HTTP status when the server answered, e.g. 429 when rate-limited
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'AIProviderError';
+    this.status = status;
+  }
+}
+
+export const PROVIDER_CAPABILITIES: Record<AIProviderId, AICapability[]> = {
+  gemini: ['text', 'json', 'vision', 'image'],
+  openai: ['text', 'json', 'vision', 'image'],
+  local: ['text', 'json', 'vision'] // Vision needs a multimodal model (e.g. llava)
+};
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash';
+export const DEFAULT_GEMINI_IMAGE_MODEL = 'gemini-2.5-flash-image';
+export const DEFAULT_OPENAI_MODEL = 'gpt-4o';
+export const DEFAULT_OPENAI_IMAGE_MODEL = 'dall-e-3';
+export const DEFAULT_LOCAL_BASE_URL = 'http://localhost:11434';
+export const DEFAULT_LOCAL_MODEL = 'llama3.1';
+
+const parseJSON = (text: string | undefined, provider: AIProviderId) => {
+  if (!text) throw new AIProviderError(`Empty response from ${provider}`);
+  // Local models sometimes wrap JSON in a markdown fence
+  const cleaned = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/```$/, '').trim();
+  return JSON.parse(cleaned);
+};
+
+// --- Gemini ---
+
+const GEMINI_TYPES: Record<SchemaNode['type'], Type> = {
+  string: Type.STRING,
+  number: Type.NUMBER,
+  boolean: Type.BOOLEAN,
+  object: Type.OBJECT,
+  array: Type.ARRAY
+};
+
+const toGeminiSchema = (node: SchemaNode): any => ({
+  type: GEMINI_TYPES[node.type],
+  ...(node.description ? { description: node.description } : {}),
+  ...(node.properties ? {
+    properties: Object.fromEntries(Object.entries(node.properties).map(([k, v]) => [k, toGeminiSchema(v)]))
+  } : {}),
+  ...(node.items ? { items: toGeminiSchema(node.items) } : {}),
+  ...(node.required ? { required: node.required } : {})
+});
+
+const createGeminiProvider = (model: string, imageModel: string): AIProvider => {
+  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+
+  const generateJSON = async (req: JSONRequest, parts: any[]) => {
+    const response = await ai.models.generateContent({
+      model,
+      contents: { parts },
+      config: {
+        systemInstruction: req.system,
+        responseMimeType: "application/json",
+        responseSchema: req.schema ? toGeminiSchema(req.schema) : undefined
+      }
+    });
+    return parseJSON(response.text, 'gemini');
+  };
+
+  return {
+    id: 'gemini',
+    capabilities: PROVIDER_CAPABILITIES.gemini,
+    async text(req) {
+      const response = await ai.models.generateContent({
+        model,
+        contents: req.prompt,
+        config: { systemInstruction: req.system }
+      });
+      return response.text || '';
+    },
+    json: (req) => generateJSON(req, [{ text: req.prompt }]),
+    vision: (req) => generateJSON(req, [
+      { inlineData: { mimeType: req.file.mimeType, data: req.file.data } },
+      { text: req.prompt }
+    ]),
+    async image(prompt) {
+      const response = await ai.models.generateContent({
+        model: imageModel,
+        contents: { parts: [{ text: prompt }] },
+        config: { imageConfig: { aspectRatio: "16:9" } }
+      });
+      for (const part of response.candidates?.[0]?.content?.parts || []) {
+        if (part.inlineData?.mimeType && part.inlineData?.data) {
+          return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
+        }
+      }
+      return null;
+    }
+  };
+};
+
+// --- OpenAI-compatible (OpenAI and local servers) ---
+
+interface OpenAICompatibleConfig {
+  id: AIProviderId;
+  baseUrl: string; // Without the trailing /v1
+  apiKey?: string;
+  model: string;
+  imageModel?: string;
+}
+
+// json_object mode only accepts objects at the top level, so arrays are wrapped in { items }
+const wrapSchema = (schema?: SchemaNode): { schema?: SchemaNode; wrapped: boolean } =>
+  schema?.type === 'array'
+    ? { schema: { type: 'object', properties: { items: schema }, required: ['items'] }, wrapped: true }
+    : { schema, wrapped: false };
+
+const describeSchema = (node: SchemaNode): any => {
+  if (node.type === 'object') {
+    return Object.fromEntries(Object.entries(node.properties || {}).map(([k, v]) => [k, describeSchema(v)]));
+  }
+  if (node.type === 'array') return [node.items ? describeSchema(node.items) : 'any'];
+  return node.description ? `${node.type} (${node.description})` : node.type;
+};
+
+const createOpenAICompatibleProvider = (config: OpenAICompatibleConfig): AIProvider => {
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (config.apiKey) headers["Authorization"] = `Bearer ${config.apiKey}`;
+
+  const post = async (path: string, body: any) => {
+    const response = await fetch(`${config.baseUrl}/v1${path}`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(body)
+    });
+    if (!response.ok) {
+      const err = await response.json().catch(() => ({}));
+      throw new AIProviderError(`${config.id} error: ${err.error?.message || response.statusText}`, response.status);
+    }
+    return response.json();
+  };
+
+  const chat = async (req: AIRequest, jsonMode: boolean, file?: VisionRequest['file']): Promise<string> => {
+    const userContent: any[] = [{ type: "text", text: req.prompt }];
+    if (file) {
+      userContent.push({ type: "image_url", image_url: { url: `data:${file.mimeType};base64,${file.data}` } });
+    }
+    const data = await post("/chat/completions", {
+      model: config.model,
+      messages: [
+        ...(req.system ? [{ role: "system", content: req.system }] : []),
+        { role: "user", content: userContent }
+      ],
+      response_format: jsonMode ? { type: "json_object" } : undefined,
+      temperature: 0.7
+    });
+    return data.choices?.[0]?.message?.content || '';
+  };
+
+  const chatJSON = async (req: JSONRequest, file?: VisionRequest['file']) => {
+    const { schema, wrapped } = wrapSchema(req.schema);
+    const instruction = schema
+      ? `Respond with valid JSON only, matching this structure: ${JSON.stringify(describeSchema(schema))}`
+      : `Respond with valid JSON only.`;
+    const system = [req.system, instruction].filter(Boolean).join('\n');
+    const parsed = parseJSON(await chat({ prompt: req.prompt, system }, true, file), config.id);
+    if (!wrapped) return parsed;
+    // Models don't always keep the wrapper key, take the first array they return
+    return Array.isArray(parsed) ? parsed : (parsed.items ?? Object.values(parsed).find(Array.isArray) ?? []);
+  };
+
+  return {
+    id: config.id,
+    capabilities: PROVIDER_CAPABILITIES[config.id],
+    text: (req) => chat(req, false),
+    json: (req) => chatJSON(req),
+    vision: (req) => chatJSON(req, req.file),
+    async image(prompt) {
+      if (!config.imageModel) throw new AIProviderError(`${config.id} does not support image generation`);
+      const data = await post("/images/generations", {
+        model: config.imageModel,
+        prompt,
+        n: 1,
+        size: "1024x1024",
+        response_format: "b64_json"
+      });
+      const b64 = data.data?.[0]?.b64_json;
+      return b64 ? `data:image/png;base64,${b64}` : null;
+    }
+  };
+};
+
+// Accepts "http://host:11434", "http://host:11434/" or "http://host:11434/v1"
+export const normalizeBaseUrl = (url: string) => url.trim().replace(/\/+$/, '').replace(/\/v1$/, '');
+
+// --- Resolver ---
+
+export const resolveProviderId = (settings: AppSettings, capability: AICapability): AIProviderId =>
+  settings.ai_capabilities?.[capability] || settings.ai_provider || 'gemini';
+
+export const getProvider = (settings: AppSettings, capability: AICapability): AIProvider => {
+  const id = resolveProviderId(settings, capability);
+  if (!PROVIDER_CAPABILITIES[id]?.includes(capability)) {
+    throw new AIProviderError(`${id} does not support "${capability}". Choose another provider in Settings.`);
+  }
+
+  switch (id) {
+    case 'openai':
+      if (!settings.openai_api_key) throw new AIProviderError('OpenAI API key is missing. Add it in Settings.');
+      return createOpenAICompatibleProvider({
+        id,
+        baseUrl: 'https://api.openai.com',
+        apiKey: settings.openai_api_key,
+        model: settings.openai_model?.trim() || DEFAULT_OPENAI_MODEL,
+        imageModel: settings.openai_image_model?.trim() || DEFAULT_OPENAI_IMAGE_MODEL
+      });
+    case 'local':
+      return createOpenAICompatibleProvider({
+        id,
+        baseUrl: normalizeBaseUrl(settings.local_ai_base_url || DEFAULT_LOCAL_BASE_URL),
+        model: settings.local_ai_model?.trim() || DEFAULT_LOCAL_MODEL
+      });
+    default:
+      return createGeminiProvider(
+        settings.gemini_model?.trim() || DEFAULT_GEMINI_MODEL,
+        settings.gemini_image_model?.trim() || DEFAULT_GEMINI_IMAGE_MODEL
+      );
+  }
+};
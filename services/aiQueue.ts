@@ -0,0 +1,190 @@
+import { AIJob, AIJobKind, ImprovementSuggestion, Nutrition, Recipe } from '../types';
+import { storage } from './storage';
+import { newId } from './ids';
+import { AIProviderError } from './aiProviders';
+import { generateRecipeImage, estimateNutrition, suggestRecipeImprovement, parseRecipeWithAI, ParseInput } from './geminiService';
+import { RecipeDraft } from './validation';
+
+// --- AI Job Queue ---
+// Requests that can't run right now (offline, rate-limited, provider briefly down) are stored in
+// IndexedDB and retried with backoff. Recipe jobs read the recipe when they run, so a nutrition
+// estimate uses the ingredients as they are then, not as they were when the button was pressed.
+
+export interface AIJobPayloads {
+  image: {};
+  nutrition: {};
+  improvement: { context: string };
+  import: ParseInput;
+}
+
+export interface AIJobResults {
+  image: string | null;
+  nutrition: Nutrition;
+  improvement: ImprovementSuggestion;
+  import: RecipeDraft;
+}
+
+export type RunOutcome<K extends AIJobKind> = { queued: true } | { queued: false; result: AIJobResults[K] };
+
+// Hands a finished job's result to the app, which owns the recipe state
+export type ApplyJobResult = (job: AIJob, result: AIJobResults[AIJobKind]) => Promise<void>;
+
+const MAX_ATTEMPTS = 8;
+const BASE_DELAY_MS = 30 * 1000;
+const MAX_DELAY_MS = 60 * 60 * 1000;
+
+// 30 s, 1 min, 2 min, ... capped at an hour
+export const backoffDelay = (attempts: number) => Math.min(BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1), MAX_DELAY_MS);
+
+const RETRYABLE_STATUS = [408, 429, 500, 502, 503, 504];
+
+// Worth trying again later: no connection, network failure, rate limit or an overloaded server.
+// Invalid responses and configuration errors (missing key, unsupported capability) are not.
+export const isRetryableAIError = (error: unknown): boolean => {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  if (error instanceof TypeError) return true; // fetch() rejects with a TypeError when the network is down
+  const status = (error as any)?.status;
+  if (typeof status === 'number') return RETRYABLE_STATUS.includes(status);
+  if (error instanceof AIProviderError) return false;
+  return /RESOURCE_EXHAUSTED|UNAVAILABLE|rate limit|network/i.test((error as any)?.message || '');
+};
+
+const errorMessage = (error: unknown) => error instanceof Error ? error.message : String(error);
+
+// --- Change Notifications ---
+
+type QueueListener = (jobs: AIJob[]) => void;
+const listeners = new Set<QueueListener>();
+
+const notify = async () => {
+  if (listeners.size === 0) return;
+  const jobs = await storage.getAIJobs();
+  listeners.forEach(l => l(jobs));
+};
+
+// Calls the listener with the current jobs and after every change. Returns an unsubscribe function.
+export const onQueueChange = (listener: QueueListener): (() => void) => {
+  listeners.add(listener);
+  storage.getAIJobs().then(listener).catch(e => console.error("Failed to load AI queue", e));
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// --- Execution ---
+
+const loadRecipe = async (id?: number): Promise<Recipe> => {
+  const recipe = id === undefined ? undefined : await storage.getRecipe(id);
+  if (!recipe) throw new Error('The recipe for this request no longer exists');
+  return recipe;
+};
+
+const executeJob = async <K extends AIJobKind>(kind: K, payload: AIJobPayloads[K], recipeId?: number): Promise<AIJobResults[K]> => {
+  switch (kind) {
+    case 'image': {
+      const recipe = await loadRecipe(recipeId);
+      return await generateRecipeImage(recipe.title, recipe.description) as AIJobResults[K];
+    }
+    case 'nutrition': {
+      const recipe = await loadRecipe(recipeId);
+      return await estimateNutrition(recipe.ingredients) as AIJobResults[K];
+    }
+    case 'improvement': {
+      const recipe = await loadRecipe(recipeId);
+      return await suggestRecipeImprovement(recipe, (payload as AIJobPayloads['improvement']).context) as AIJobResults[K];
+    }
+    case 'import':
+      return await parseRecipeWithAI(payload as ParseInput) as AIJobResults[K];
+    default:
+      throw new Error(`Unknown AI job kind "${kind}"`);
+  }
+};
+
+const enqueue = async (kind: AIJobKind, payload: any, recipeId: number | undefined, error?: unknown): Promise<void> => {
+  const attempts = error === undefined ? 0 : 1;
+  await storage.saveAIJob({
+    id: newId(),
+    kind,
+    ...(recipeId !== undefined ? { recipe_id: recipeId } : {}),
+    payload,
+    status: 'pending',
+    attempts,
+    next_attempt_at: Date.now() + (attempts > 0 ? backoffDelay(attempts) : 0),
+    created_at: new Date().toISOString(),
+    ...(error !== undefined ? { last_error: errorMessage(error) } : {})
+  });
+  await notify();
+};
+
+// Runs the request now, or stores it when offline or when the failure is temporary.
+// Other errors are thrown as before so the caller can show them.
+export const runOrQueue = async <K extends AIJobKind>(kind: K, payload: AIJobPayloads[K], recipeId?: number): Promise<RunOutcome<K>> => {
+  if (!navigator.onLine) {
+    await enqueue(kind, payload, recipeId);
+    return { queued: true };
+  }
+  try {
+    return { queued: false, result: await executeJob(kind, payload, recipeId) };
+  } catch (error) {
+    if (!isRetryableAIError(error)) throw error;
+    console.warn(`AI ${kind} request queued for retry`, error);
+    await enqueue(kind, payload, recipeId, error);
+    return { queued: true };
+  }
+};
+
+let processing = false;
+
+// Runs due jobs one at a time. Stops at the first temporary failure, the rest would most likely
+// hit the same rate limit or dead connection.
+export const processAIQueue = async (apply: ApplyJobResult): Promise<void> => {
+  if (processing || !navigator.onLine) return;
+  processing = true;
+  try {
+    const now = Date.now();
+    const due = (await storage.getAIJobs())
+      // 'running' here means the app was closed mid-request
+      .filter(j => j.status !== 'failed' && j.next_attempt_at <= now)
+      .sort((a, b) => a.id - b.id);
+
+    for (const job of due) {
+      await storage.saveAIJob({ ...job, status: 'running' });
+      await notify();
+      try {
+        const result = await executeJob(job.kind, job.payload, job.recipe_id);
+        await apply(job, result);
+        await storage.deleteAIJob(job.id);
+        await notify();
+      } catch (error) {
+        const attempts = job.attempts + 1;
+        const retry = isRetryableAIError(error) && attempts < MAX_ATTEMPTS;
+        await storage.saveAIJob({
+          ...job,
+          status: retry ? 'pending' : 'failed',
+          attempts,
+          next_attempt_at: Date.now() + backoffDelay(attempts),
+          last_error: errorMessage(error)
+        });
+        await notify();
+        if (retry) break;
+      }
+    }
+  } catch (e) {
+    console.error("AI queue processing failed", e);
+  } finally {
+    processing = false;
+  }
+};
+
+// Puts a job back at the front of the schedule, including failed ones
+export const retryAIJob = async (id: number): Promise<void> => {
+  const job = (await storage.getAIJobs()).find(j => j.id === id);
+  if (!job) return;
+  await storage.saveAIJob({ ...job, status: 'pending', next_attempt_at: Date.now() });
+  await notify();
+};
+
+export const removeAIJob = async (id: number): Promise<void> => {
+  await storage.deleteAIJob(id);
+  await notify();
+};
@@ -0,0 +1,243 @@
+import { Recipe, MealPlanItem, ShoppingItem, AppSettings, Store, PantryItem, FreezerItem } from '../types';
+import { storage } from './storage';
+import { LOCAL_SETTINGS_FIELDS } from './syncLog';
+import { STORES, SCHEMA_VERSION, backfillRecipe, backfillPlanItem, backfillShoppingItem, backfillPantryItem, backfillFreezerItem, backfillSettings, normalizeLegacyIds } from './migrations';
+
+export const BACKUP_FORMAT = 'homechef-backup';
+export const BACKUP_FORMAT_VERSION = 1;
+
+export type BackupSettings = Omit<AppSettings, 'stores'>;
+
+export interface BackupData {
+  recipes: Recipe[];
+  plan: MealPlanItem[];
+  shopping: ShoppingItem[];
+  pantry: PantryItem[];
+  freezer: FreezerItem[];
+  settings: BackupSettings;
+  stores: Store[];
+}
+
+export interface BackupArchive {
+  format: typeof BACKUP_FORMAT;
+  format_version: number;
+  schema_version: number; // DB schema the records were written with
+  created_at: string;
+  data: BackupData;
+}
+
+export type RestoreMode = 'replace' | 'merge';
+
+export interface CollectionDiff {
+  added: number;
+  updated: number;
+  removed: number;
+  unchanged: number;
+}
+
+export interface RestorePreview {
+  created_at: string;
+  schema_version: number;
+  collections: Record<string, CollectionDiff>;
+  settingsChanged: boolean;
+}
+
+export class BackupValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupValidationError';
+  }
+}
+
+// --- Collections ---
+// Every id-keyed object store that goes into the archive. Add a row here when a new store is introduced.
+
+interface BackupCollection {
+  key: keyof BackupData;
+  store: string;
+  load: () => Promise<any[]>;
+  backfill: (record: any) => any;
+}
+
+const COLLECTIONS: BackupCollection[] = [
+  { key: 'recipes', store: STORES.RECIPES, load: storage.getRecipes, backfill: backfillRecipe },
+  { key: 'plan', store: STORES.PLAN, load: storage.getPlan, backfill: backfillPlanItem },
+  { key: 'shopping', store: STORES.SHOPPING, load: storage.getShoppingList, backfill: backfillShoppingItem },
+  { key: 'pantry', store: STORES.PANTRY, load: storage.getPantry, backfill: backfillPantryItem },
+  { key: 'freezer', store: STORES.FREEZER, load: storage.getFreezer, backfill: backfillFreezerItem },
+];
+
+// Per-device settings (sync server and token, AI setup and keys) stay out of the downloadable
+// file; a restore keeps this device's own, so it can't move the device into another household
+const DEVICE_SETTINGS_FIELDS = LOCAL_SETTINGS_FIELDS;
+
+const isDeviceField = ([key]: [string, any]) => DEVICE_SETTINGS_FIELDS.includes(key);
+
+const splitSettings = (settings: AppSettings & { id?: string }): { settings: BackupSettings; stores: Store[] } => {
+  const { stores, id, ...rest } = settings;
+  return { settings: Object.fromEntries(Object.entries(rest).filter(f => !isDeviceField(f))) as BackupSettings, stores: stores || [] };
+};
+
+// --- Create ---
+
+export const createBackup = async (): Promise<BackupArchive> => {
+  const data: any = {};
+  for (const c of COLLECTIONS) {
+    data[c.key] = await c.load();
+  }
+  const { settings, stores } = splitSettings(await storage.getSettings());
+  data.settings = settings;
+  data.stores = stores;
+
+  return {
+    format: BACKUP_FORMAT,
+    format_version: BACKUP_FORMAT_VERSION,
+    schema_version: SCHEMA_VERSION,
+    created_at: new Date().toISOString(),
+    data
+  };
+};
+
+export const backupFileName = (date = new Date()) =>
+  `homechef_backup_${date.toISOString().split('T')[0]}.json`;
+
+// --- Validate ---
+
+const isValidId = (id: any) => (typeof id === 'number' && isFinite(id)) || (typeof id === 'string' && id.length > 0);
+
+// Parses and repairs an archive. Records are run through the same backfills as the DB migrations,
+// so an archive from an older app version restores into the current shape.
+export const parseBackup = (text: string): BackupArchive => {
+  let raw: any;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new BackupValidationError('File is not valid JSON.');
+  }
+
+  if (!raw || raw.format !== BACKUP_FORMAT) {
+    throw new BackupValidationError('File is not a HomeChef backup.');
+  }
+  if (typeof raw.format_version !== 'number' || raw.format_version > BACKUP_FORMAT_VERSION) {
+    throw new BackupValidationError('Backup was made with a newer version of the app. Update the app and try again.');
+  }
+  if (typeof raw.schema_version !== 'number' || raw.schema_version > SCHEMA_VERSION) {
+    throw new BackupValidationError(`Backup uses database schema v${raw.schema_version}, this app supports up to v${SCHEMA_VERSION}.`);
+  }
+  if (!raw.data || typeof raw.data !== 'object') {
+    throw new BackupValidationError('Backup has no data section.');
+  }
+
+  const data: any = {};
+  for (const c of COLLECTIONS) {
+    const records = raw.data[c.key] ?? [];
+    if (!Array.isArray(records)) {
+      throw new BackupValidationError(`"${c.key}" must be a list.`);
+    }
+    const seen = new Set<any>();
+    data[c.key] = records.map((r: any, idx: number) => {
+      if (!r || typeof r !== 'object' || !isValidId(r.id)) {
+        throw new BackupValidationError(`Entry ${idx + 1} in "${c.key}" has no valid id.`);
+      }
+      if (seen.has(r.id)) {
+        throw new BackupValidationError(`Duplicate id ${r.id} in "${c.key}".`);
+      }
+      seen.add(r.id);
+      return c.backfill(r);
+    });
+  }
+
+  const stores = raw.data.stores ?? [];
+  if (!Array.isArray(stores) || stores.some((s: any) => !s || !isValidId(s.id) || typeof s.name !== 'string')) {
+    throw new BackupValidationError('"stores" must be a list of stores with id and name.');
+  }
+  // Round-trip through the settings backfill so missing keys get their defaults
+  const repaired = splitSettings(backfillSettings({ ...(raw.data.settings || {}), stores }));
+  data.settings = repaired.settings;
+  data.stores = repaired.stores.map((s: any) => ({
+    ...s,
+    category_order: Array.isArray(s.category_order) ? s.category_order : []
+  }));
+
+  return {
+    format: BACKUP_FORMAT,
+    format_version: raw.format_version,
+    schema_version: raw.schema_version,
+    created_at: typeof raw.created_at === 'string' ? raw.created_at : '',
+    // Same id mapping as the v7 migration, so records match the ones already on this device
+    data: normalizeLegacyIds(data as BackupData).data
+  };
+};
+
+// --- Preview ---
+
+const diffById = (current: { id: any }[], incoming: { id: any }[], mode: RestoreMode): CollectionDiff => {
+  const currentById = new Map(current.map(r => [r.id, r]));
+  const incomingIds = new Set(incoming.map(r => r.id));
+  const diff: CollectionDiff = { added: 0, updated: 0, removed: 0, unchanged: 0 };
+
+  incoming.forEach(r => {
+    const existing = currentById.get(r.id);
+    if (!existing) diff.added++;
+    else if (JSON.stringify(existing) === JSON.stringify(r)) diff.unchanged++;
+    else diff.updated++;
+  });
+  // Merge keeps local-only records, replace drops them
+  if (mode === 'replace') {
+    diff.removed = current.filter(r => !incomingIds.has(r.id)).length;
+  }
+  return diff;
+};
+
+const mergeById = <T extends { id: any }>(current: T[], incoming: T[]): T[] => {
+  const map = new Map(current.map(r => [r.id, r]));
+  incoming.forEach(r => map.set(r.id, r));
+  return Array.from(map.values());
+};
+
+const resolveSettings = (current: AppSettings, archive: BackupArchive, mode: RestoreMode): AppSettings => {
+  const { settings, stores } = archive.data;
+  if (mode === 'replace') return { ...settings, stores, ...Object.fromEntries(Object.entries(current).filter(isDeviceField)) };
+  return {
+    ...current,
+    ...settings,
+    stores: mergeById(current.stores || [], stores)
+  };
+};
+
+export const previewRestore = async (archive: BackupArchive, mode: RestoreMode): Promise<RestorePreview> => {
+  const collections: Record<string, CollectionDiff> = {};
+  for (const c of COLLECTIONS) {
+    collections[c.key] = diffById(await c.load(), archive.data[c.key] as any[], mode);
+  }
+
+  const { id, ...currentSettings } = (await storage.getSettings()) as AppSettings & { id?: string };
+  collections.stores = diffById(currentSettings.stores || [], archive.data.stores, mode);
+  const nextSettings = resolveSettings(currentSettings, archive, mode);
+
+  return {
+    created_at: archive.created_at,
+    schema_version: archive.schema_version,
+    collections,
+    settingsChanged: JSON.stringify(splitSettings(currentSettings).settings) !== JSON.stringify(splitSettings(nextSettings).settings)
+  };
+};
+
+// --- Restore ---
+
+// Applies the archive in a single transaction: either everything lands or nothing does.
+export const restoreBackup = async (archive: BackupArchive, mode: RestoreMode): Promise<void> => {
+  const currentSettings = await storage.getSettings();
+
+  await storage.writeBatch([
+    ...COLLECTIONS.map(c => ({
+      store: c.store,
+      clear: mode === 'replace',
+      items: archive.data[c.key] as any[]
+    })),
+    {
+      store: STORES.SETTINGS,
+      items: [{ id: 'config', ...resolveSettings(currentSettings, archive, mode) }]
+    }
+  ]);
+};
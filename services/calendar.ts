@@ -0,0 +1,220 @@
+import { MealPlanItem, MealType, MEAL_TYPES, PlanEntry, Recipe } from '../types';
+import { addDays, toLocalDateString } from './dates';
+
+// --- iCalendar Export ---
+// Every planned meal becomes an event in floating local time (no time zone), so a 18:00 dinner
+// stays at 18:00 wherever the calendar is opened. UIDs come from plan item ids and stay the same
+// between exports, so a re-import or a subscribed feed updates events instead of duplicating them.
+
+// When each slot shows up in the calendar
+export const SLOT_TIMES: Record<MealType, { start: string; minutes: number }> = {
+  [MealType.BREAKFAST]: { start: '0730', minutes: 30 },
+  [MealType.LUNCH]: { start: '1200', minutes: 45 },
+  [MealType.SNACK]: { start: '1530', minutes: 15 },
+  [MealType.DINNER]: { start: '1800', minutes: 60 }
+};
+
+// The subscription feed covers recent and upcoming meals
+export const FEED_DAYS_BACK = 14;
+export const FEED_DAYS_AHEAD = 60;
+
+export interface CalendarOptions {
+  from: string; // Inclusive, YYYY-MM-DD
+  to: string; // Inclusive
+  appUrl: string; // Events link back to the meal in the app
+  name: string;
+  slotLabel: (type: MealType) => string;
+  servingsLabel: string;
+  leftoversLabel: string;
+  entryLabel: (entry: PlanEntry) => string;
+  now?: Date;
+}
+
+const escapeText = (text: string) =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const encoder = new TextEncoder();
+
+// Content lines over 75 octets continue on the next line after a space (RFC 5545, 3.1)
+const fold = (line: string) => {
+  if (encoder.encode(line).length <= 75) return line;
+  const parts: string[] = [];
+  let current = '';
+  let size = 0;
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    if (size + bytes > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+      size = 0;
+    }
+    current += char;
+    size += bytes;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const utcStamp = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const localDateTime = (date: string, time: string, addMinutes = 0) => {
+  const total = parseInt(time.slice(0, 2), 10) * 60 + parseInt(time.slice(2), 10) + addMinutes;
+  const day = addDays(date, Math.floor(total / 1440));
+  const minutes = total % 1440;
+  return `${day.replace(/-/g, '')}T${String(Math.floor(minutes / 60)).padStart(2, '0')}${String(minutes % 60).padStart(2, '0')}00`;
+};
+
+export const currentAppUrl = () => `${window.location.origin}${window.location.pathname}`;
+
+export const mealLink = (appUrl: string, meal: MealPlanItem) => `${appUrl}#meal=${meal.id}`;
+
+// The meal id from a link made by mealLink
+export const parseMealLink = (hash: string): number | null => {
+  const match = hash.match(/^#meal=(\d+)$/);
+  return match ? Number(match[1]) : null;
+};
+
+export const buildCalendar = (plan: MealPlanItem[], recipes: Recipe[], options: CalendarOptions): string => {
+  const stamp = utcStamp(options.now || new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//HomeChef//Meal Plan//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(options.name)}`
+  ];
+
+  plan
+    .filter(p => p.date >= options.from && p.date <= options.to)
+    .sort((a, b) => a.date.localeCompare(b.date) || MEAL_TYPES.indexOf(a.type) - MEAL_TYPES.indexOf(b.type))
+    .forEach(meal => {
+      const recipe = recipes.find(r => r.id === meal.recipe_id);
+      if (!recipe && !meal.entry) return;
+      const time = SLOT_TIMES[meal.type] || SLOT_TIMES[MealType.DINNER];
+      const link = mealLink(options.appUrl, meal);
+      const title = meal.entry
+        ? `${options.slotLabel(meal.type)}: ${options.entryLabel(meal.entry)}`
+        : `${options.slotLabel(meal.type)}: ${recipe!.title}${meal.is_leftover ? ` (${options.leftoversLabel})` : ''}`;
+      const description = meal.entry
+        ? [meal.entry.note, link].filter(Boolean).join('\n')
+        : `${meal.servings || recipe!.servings_default} ${options.servingsLabel}\n${link}`;
+      lines.push(
+        'BEGIN:VEVENT',
+        `UID:meal-${meal.id}@homechef`,
+        `DTSTAMP:${stamp}`,
+        `DTSTART:${localDateTime(meal.date, time.start)}`,
+        `DTEND:${localDateTime(meal.date, time.start, time.minutes)}`,
+        `SUMMARY:${escapeText(title)}`,
+        `DESCRIPTION:${escapeText(description)}`,
+        `URL:${link}`,
+        'END:VEVENT'
+      );
+    });
+
+  lines.push('END:VCALENDAR');
+  return lines.map(fold).join('\r\n') + '\r\n';
+};
+
+export const calendarFileName = (from: string, to: string) => `homechef_plan_${from}_${to}.ics`;
+
+// Secret part of the feed URL; calendar apps can't send a token, so the URL itself is the key
+export const newFeedKey = () =>
+  Array.from(crypto.getRandomValues(new Uint8Array(16)), b => b.toString(16).padStart(2, '0')).join('');
+
+// --- Busy Evenings Import ---
+// Events from another calendar (an .ics export) mark slots where nobody cooks. Timed events take
+// the slots they overlap, all-day events take dinner. Times with a TZID are read as local time,
+// UTC times are converted to local.
+
+export interface BusyEvent {
+  start: string; // YYYY-MM-DD
+  startMinutes?: number; // Minutes after midnight; missing for all-day events
+  end: string; // Inclusive last day
+  endMinutes?: number;
+  summary: string;
+}
+
+// Longer events (holidays, trips) only mark their first days
+const MAX_BUSY_DAYS = 14;
+
+const unescapeText = (text: string) =>
+  text.replace(/\\n/gi, ' ').replace(/\\([,;\\])/g, '$1').trim();
+
+const parseDateTime = (value: string): { date: string; minutes?: number } | null => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})\d{2}(Z)?)?$/);
+  if (!match) return null;
+  const [, y, mo, d, h, mi, utc] = match;
+  if (h === undefined) return { date: `${y}-${mo}-${d}` };
+  if (utc) {
+    const local = new Date(Date.UTC(+y, +mo - 1, +d, +h, +mi));
+    return { date: toLocalDateString(local), minutes: local.getHours() * 60 + local.getMinutes() };
+  }
+  return { date: `${y}-${mo}-${d}`, minutes: +h * 60 + +mi };
+};
+
+export const parseBusyEvents = (ics: string): BusyEvent[] => {
+  const lines = ics.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const events: BusyEvent[] = [];
+  let current: Record<string, string> | null = null;
+
+  lines.forEach(line => {
+    if (line === 'BEGIN:VEVENT') current = {};
+    else if (line === 'END:VEVENT' && current) {
+      const start = current.DTSTART ? parseDateTime(current.DTSTART) : null;
+      if (start) {
+        // A timed event without an end is treated as an hour long
+        const end = current.DTEND
+          ? parseDateTime(current.DTEND)
+          : { date: start.date, minutes: start.minutes !== undefined ? Math.min(start.minutes + 60, 1439) : undefined };
+        let endDate = end ? end.date : start.date;
+        let endMinutes = end?.minutes || undefined;
+        // All-day DTEND is exclusive, as is a timed end at midnight
+        if (end && endDate > start.date && !endMinutes) endDate = addDays(endDate, -1);
+        const lastDate = addDays(start.date, MAX_BUSY_DAYS - 1);
+        if (endDate > lastDate) {
+          endDate = lastDate;
+          endMinutes = undefined;
+        }
+        events.push({
+          start: start.date,
+          startMinutes: start.minutes,
+          end: endDate,
+          endMinutes,
+          summary: unescapeText(current.SUMMARY || '')
+        });
+      }
+      current = null;
+    } else if (current) {
+      const colon = line.indexOf(':');
+      if (colon < 0) return;
+      const name = line.slice(0, colon).split(';')[0].toUpperCase();
+      if (!(name in current)) current[name] = line.slice(colon + 1);
+    }
+  });
+  return events;
+};
+
+const toMinutes = (time: string) => parseInt(time.slice(0, 2), 10) * 60 + parseInt(time.slice(2), 10);
+
+// The slots each event keeps busy, keyed by date and slot
+export const busySlots = (events: BusyEvent[], slots: MealType[]): { date: string; type: MealType; summary: string }[] => {
+  const result = new Map<string, { date: string; type: MealType; summary: string }>();
+  events.forEach(event => {
+    for (let date = event.start; date <= event.end; date = addDays(date, 1)) {
+      const from = date === event.start && event.startMinutes !== undefined ? event.startMinutes : 0;
+      const to = date === event.end && event.endMinutes !== undefined ? event.endMinutes : 1440;
+      const allDay = event.startMinutes === undefined;
+      slots.forEach(type => {
+        const time = SLOT_TIMES[type];
+        const slotStart = toMinutes(time.start);
+        const busy = allDay
+          ? type === MealType.DINNER
+          : from < slotStart + time.minutes && to > slotStart;
+        const key = `${date}|${type}`;
+        if (busy && !result.has(key)) result.set(key, { date, type, summary: event.summary });
+      });
+    }
+  });
+  return [...result.values()];
+};
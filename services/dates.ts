@@ -0,0 +1,25 @@
+// --- Plan Dates ---
+// Plan dates are plain YYYY-MM-DD strings. Arithmetic on them is done in UTC so daylight saving
+// changes never shift a day.
+
+// YYYY-MM-DD in local time, the format plan dates use
+export const toLocalDateString = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const parseDate = (date: string) => {
+  const [y, m, d] = date.split('-').map(Number);
+  return Date.UTC(y, m - 1, d);
+};
+
+export const addDays = (date: string, days: number) =>
+  new Date(parseDate(date) + days * 86400000).toISOString().split('T')[0];
+
+export const daysBetween = (a: string, b: string) => Math.round(Math.abs(parseDate(a) - parseDate(b)) / 86400000);
+
+// 0 = Sunday, like week_start_day
+export const weekday = (date: string) => new Date(parseDate(date)).getUTCDay();
+
+// 1 for the first such weekday of the month, 2 for the second...
+export const weekdayOfMonth = (date: string) => Math.ceil(new Date(parseDate(date)).getUTCDate() / 7);
+
+export const isLastWeekdayOfMonth = (date: string) => addDays(date, 7).slice(0, 7) !== date.slice(0, 7);
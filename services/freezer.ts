@@ -0,0 +1,61 @@
+import { AppSettings, FreezerItem, MealPlanItem, MealType, Recipe } from '../types';
+import { addDays, daysBetween } from './dates';
+import { householdServings } from './portions';
+
+// --- Freezer ---
+// Extra portions of a cooked meal go into the freezer. A freezer meal in the plan reserves portions
+// of its item and takes them out once it is marked as eaten. It adds nothing to the shopping list.
+
+// Default best-before for cooked food
+export const FREEZER_KEEPS_DAYS = 90;
+// Warn this many days before the best-before date
+export const FREEZER_WARN_DAYS = 14;
+
+// Portions cooked beyond what the household and the meal's guests eat
+export const extraPortions = (meal: MealPlanItem, settings: AppSettings) =>
+  meal.freezer_item_id !== undefined || meal.is_leftover || meal.entry
+    ? 0
+    : Math.max(0, (meal.servings || 0) - householdServings(settings, meal.guests));
+
+export const freezeFromMeal = (meal: MealPlanItem, recipe: Recipe, portions: number, frozenOn: string, bestBefore: string | undefined, id: number): FreezerItem => ({
+  id,
+  recipe_id: recipe.id,
+  recipe_version: meal.recipe_version ?? recipe.version,
+  portions,
+  frozen_on: frozenOn,
+  best_before: bestBefore || addDays(frozenOn, FREEZER_KEEPS_DAYS)
+});
+
+// Portions not yet promised to a planned freezer meal
+export const availablePortions = (item: FreezerItem, plan: MealPlanItem[]) =>
+  item.portions - plan
+    .filter(p => p.freezer_item_id === item.id && !p.is_cooked)
+    .reduce((sum, p) => sum + (p.servings || 0), 0);
+
+// Negative once the best-before date has passed
+export const daysLeft = (item: FreezerItem, today: string) =>
+  item.best_before >= today ? daysBetween(item.best_before, today) : -daysBetween(item.best_before, today);
+
+// Items with unplanned portions close to or past their best-before date, soonest first
+export const nearBestBefore = (items: FreezerItem[], plan: MealPlanItem[], today: string, days = FREEZER_WARN_DAYS) =>
+  items
+    .filter(item => availablePortions(item, plan) > 0 && daysLeft(item, today) <= days)
+    .sort((a, b) => a.best_before.localeCompare(b.best_before));
+
+export const freezerMeal = (item: FreezerItem, date: string, type: MealType, servings: number, id: number): MealPlanItem => ({
+  id,
+  date,
+  type,
+  recipe_id: item.recipe_id,
+  recipe_version: item.recipe_version,
+  is_cooked: false,
+  is_leftover: false,
+  servings,
+  freezer_item_id: item.id
+});
+
+// The item after a freezer meal was eaten; null once it is empty
+export const takeFromFreezer = (item: FreezerItem, portions: number): FreezerItem | null => {
+  const left = item.portions - portions;
+  return left > 0 ? { ...item, portions: left } : null;
+};
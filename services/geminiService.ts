@@ -1,225 +1,159 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { Recipe, Nutrition, Ingredient, ShoppingItem } from '../types';
+import { Recipe, Nutrition, Ingredient, ShoppingItem, AICapability, ImprovementSuggestion } from '../types';
 import { storage } from './storage';
+import { getProvider, SchemaNode } from './aiProviders';
+import {
+  AIValidationError, Validator, RecipeDraft, validateRecipeDraft, validateNutrition, validateImprovement,
+  validateStringList, translatedRecipeValidator, validateTranslatedItems, ingredientLinesValidator
+} from './validation';
 
-interface ParseInput {
+export interface ParseInput {
   text?: string;
   fileData?: string; // base64
   mimeType?: string;
 }
 
-// Helper: Call OpenAI Chat Completion
-const callOpenAI = async (
-  apiKey: string,
-  systemPrompt: string,
-  userPrompt: string,
-  jsonMode: boolean = false,
-  imageInput?: { data: string, mimeType: string }
-): Promise<string> => {
-  const messages: any[] = [
-    { role: "system", content: systemPrompt }
-  ];
-
-  const userContent: any[] = [{ type: "text", text: userPrompt }];
-
-  if (imageInput) {
-    userContent.push({
-      type: "image_url",
-      image_url: {
-        url: `data:${imageInput.mimeType};base64,${imageInput.data}`
-      }
-    });
-  }
+// Provider configured for a capability (see aiProviders.ts)
+const providerFor = async (capability: AICapability) => getProvider(await storage.getSettings(), capability);
 
-  messages.push({ role: "user", content: userContent });
+const MAX_ATTEMPTS = 3;
 
-  try {
-    const response = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "Authorization": `Bearer ${apiKey}`
-      },
-      body: JSON.stringify({
-        model: "gpt-4o",
-        messages: messages,
-        response_format: jsonMode ? { type: "json_object" } : undefined,
-        temperature: 0.7
-      })
-    });
-
-    if (!response.ok) {
-        const err = await response.json();
-        throw new Error(`OpenAI Error: ${err.error?.message || response.statusText}`);
+// Runs a JSON request and validates the result. When validation fails the model is asked again
+// with the list of problems appended to the prompt; after MAX_ATTEMPTS an AIValidationError is thrown.
+const requestValidated = async <T>(
+  run: (prompt: string) => Promise<any>,
+  prompt: string,
+  validate: Validator<T>
+): Promise<T> => {
+  let errors: string[] = [];
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const attemptPrompt = errors.length === 0 ? prompt : `${prompt}
+
+    Your previous answer was rejected because:
+    ${errors.slice(0, 10).map(e => `- ${e}`).join('\n    ')}
+    Return corrected JSON.`;
+
+    let raw: any;
+    try {
+      raw = await run(attemptPrompt);
+    } catch (e) {
+      if (!(e instanceof SyntaxError)) throw e;
+      errors = ['Response was not valid JSON'];
+      continue;
     }
 
-    const data = await response.json();
-    return data.choices[0].message.content;
-  } catch (error) {
-    console.error("OpenAI API Call Error:", error);
-    throw error;
+    const result = validate(raw);
+    if (result.errors.length === 0) return result.value;
+    console.warn(`AI response invalid (attempt ${attempt + 1}/${MAX_ATTEMPTS})`, result.errors);
+    errors = result.errors;
   }
+  throw new AIValidationError(errors);
 };
 
-// Helper: Call OpenAI Image Generation (DALL-E 3)
-const callOpenAIImage = async (apiKey: string, prompt: string): Promise<string | null> => {
-    try {
-        const response = await fetch("https://api.openai.com/v1/images/generations", {
-            method: "POST",
-            headers: {
-                "Content-Type": "application/json",
-                "Authorization": `Bearer ${apiKey}`
-            },
-            body: JSON.stringify({
-                model: "dall-e-3",
-                prompt: prompt,
-                n: 1,
-                size: "1024x1024",
-                response_format: "b64_json"
-            })
-        });
+// --- Schemas ---
 
-        if (!response.ok) throw new Error("OpenAI Image Gen failed");
-        
-        const data = await response.json();
-        if (data.data && data.data.length > 0) {
-            return `data:image/png;base64,${data.data[0].b64_json}`;
-        }
-        return null;
-    } catch (error) {
-        console.error("OpenAI Image Error:", error);
-        return null;
-    }
+const STRING_LIST: SchemaNode = { type: 'array', items: { type: 'string' } };
+
+const INGREDIENT_SCHEMA: SchemaNode = {
+  type: 'object',
+  properties: {
+    item_name: { type: 'string' },
+    quantity: { type: 'number' },
+    unit: { type: 'string' },
+    category: { type: 'string', description: "One of: Produce, Dairy, Meat, Pantry, Bakery, Frozen, Other" }
+  },
+  required: ["item_name", "quantity", "unit", "category"]
 };
 
+const RECIPE_SCHEMA: SchemaNode = {
+  type: 'object',
+  properties: {
+    title: { type: 'string' },
+    description: { type: 'string' },
+    cuisine: { type: 'string' },
+    servings_default: { type: 'number' },
+    instructions: STRING_LIST,
+    ingredients: { type: 'array', items: INGREDIENT_SCHEMA },
+    prep_minutes: { type: 'number' },
+    cook_minutes: { type: 'number' },
+    total_minutes: { type: 'number', description: "Start to table, including resting and marinating" },
+    active_minutes: { type: 'number', description: "Hands-on minutes of the total" },
+    difficulty: { type: 'string', description: "One of: easy, medium, hard" }
+  },
+  required: ["title", "description", "cuisine", "instructions", "ingredients", "servings_default"]
+};
+
+const NUTRITION_FIELDS = ["calories", "protein", "carbs", "sugar", "fat", "saturated_fat", "unsaturated_fat", "fiber", "salt"];
 
-export const parseRecipeWithAI = async (input: ParseInput): Promise<Omit<Recipe, 'id' | 'images' | 'version'>> => {
-  const settings = await storage.getSettings();
-  const provider = settings.ai_provider || 'gemini';
+const NUTRITION_SCHEMA: SchemaNode = {
+  type: 'object',
+  properties: Object.fromEntries(NUTRITION_FIELDS.map(f => [f, { type: 'number' } as SchemaNode])),
+  required: NUTRITION_FIELDS
+};
 
+export const parseRecipeWithAI = async (input: ParseInput): Promise<RecipeDraft> => {
   const promptText = `
     Extract a structured recipe from the provided content (text or document). 
     If the content is just a name of a dish, generate a plausible recipe for it.
     Use Metric units (kg, g, dl, tbsp, tsp) where possible.
     Infer the cuisine type (e.g., Italian, French, Asian, Mexican, Nordic, etc.).
+    Give prep, cook and total time in minutes as stated, or estimate them, plus how many of those
+    minutes are hands-on and the difficulty (easy, medium or hard).
   `;
-
-  if (provider === 'openai' && settings.openai_api_key) {
-      const systemPrompt = `You are a structured data extractor. You must extract recipe data and output valid JSON matching this schema:
-      {
-        "title": "string",
-        "description": "string",
-        "cuisine": "string",
-        "servings_default": "number",
-        "instructions": ["string"],
-        "ingredients": [
-            { "item_name": "string", "quantity": "number", "unit": "string", "category": "string (Produce, Dairy, Meat, Pantry, Bakery, Frozen, Other)" }
-        ]
-      }`;
-      
-      const res = await callOpenAI(
-          settings.openai_api_key, 
-          systemPrompt, 
-          input.text || promptText, 
-          true,
-          (input.fileData && input.mimeType) ? { data: input.fileData, mimeType: input.mimeType } : undefined
-      );
-      return JSON.parse(res) as Omit<Recipe, 'id' | 'images' | 'version'>;
-  }
-
-  // Fallback to Gemini
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  const modelId = "gemini-2.5-flash";
-
-  let contents;
-  if (input.fileData && input.mimeType) {
-    contents = {
-      parts: [
-        { inlineData: { mimeType: input.mimeType, data: input.fileData } },
-        { text: input.text ? `${promptText}\n\nAdditional context: "${input.text}"` : promptText }
-      ]
-    };
-  } else {
-    contents = { parts: [{ text: `${promptText}\n\nText to parse: "${input.text || ''}"` }] }
-  }
+  const system = "You are a structured data extractor for recipes.";
 
   try {
-    const response = await ai.models.generateContent({
-      model: modelId,
-      contents: contents,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            title: { type: Type.STRING },
-            description: { type: Type.STRING },
-            cuisine: { type: Type.STRING },
-            servings_default: { type: Type.NUMBER },
-            instructions: { type: Type.ARRAY, items: { type: Type.STRING } },
-            ingredients: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  item_name: { type: Type.STRING },
-                  quantity: { type: Type.NUMBER },
-                  unit: { type: Type.STRING },
-                  category: { type: Type.STRING, description: "One of: Produce, Dairy, Meat, Pantry, Bakery, Frozen, Other" }
-                },
-                required: ["item_name", "quantity", "unit", "category"]
-              }
-            }
-          },
-          required: ["title", "description", "cuisine", "instructions", "ingredients", "servings_default"]
-        }
-      }
-    });
+    if (input.fileData && input.mimeType) {
+      const provider = await providerFor('vision');
+      const file = { data: input.fileData, mimeType: input.mimeType };
+      return await requestValidated(
+        prompt => provider.vision({ system, prompt, schema: RECIPE_SCHEMA, file }),
+        input.text ? `${promptText}\n\nAdditional context: "${input.text}"` : promptText,
+        validateRecipeDraft
+      );
+    }
 
-    const jsonText = response.text;
-    if (!jsonText) throw new Error("No response from AI");
-    return JSON.parse(jsonText) as Omit<Recipe, 'id' | 'images' | 'version'>;
+    const provider = await providerFor('json');
+    return await requestValidated(
+      prompt => provider.json({ system, prompt, schema: RECIPE_SCHEMA }),
+      `${promptText}\n\nText to parse: "${input.text || ''}"`,
+      validateRecipeDraft
+    );
   } catch (error) {
-    console.error("Gemini AI Recipe Parse Error:", error);
+    console.error("AI Recipe Parse Error:", error);
     throw error;
   }
 };
 
+// Fallback for ingredient lines a deterministic parser couldn't read (e.g. "a handful of basil").
+// Returns one ingredient per line, in order.
+export const parseIngredientLines = async (lines: string[]): Promise<Ingredient[]> => {
+  const prompt = `
+    Parse each of these recipe ingredient lines into item_name, quantity, unit and category.
+    Return exactly one entry per line, in the same order. Use quantity 0 for "to taste" amounts.
+    Lines: ${JSON.stringify(lines)}
+  `;
+
+  const provider = await providerFor('json');
+  return requestValidated(
+    p => provider.json({ prompt: p, schema: { type: 'array', items: INGREDIENT_SCHEMA } }),
+    prompt,
+    ingredientLinesValidator(lines.length)
+  );
+};
+
 export const generateRecipeImage = async (title: string, description: string): Promise<string | null> => {
-  const settings = await storage.getSettings();
-  const provider = settings.ai_provider || 'gemini';
   const prompt = `Professional food photography of ${title}. ${description}. High resolution, appetizing, studio lighting, 4k.`;
 
-  if (provider === 'openai' && settings.openai_api_key) {
-      return await callOpenAIImage(settings.openai_api_key, prompt);
-  }
-
-  // Fallback to Gemini
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash-image",
-      contents: { parts: [{ text: prompt }] },
-      config: { imageConfig: { aspectRatio: "16:9" } }
-    });
-
-    if (response.candidates?.[0]?.content?.parts) {
-        for (const part of response.candidates[0].content.parts) {
-            if (part.inlineData?.mimeType && part.inlineData?.data) {
-                 return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
-            }
-        }
-    }
-    return null;
+    const provider = await providerFor('image');
+    return await provider.image(prompt);
   } catch (error) {
-    console.error("Gemini AI Image Gen Error:", error);
+    console.error("AI Image Gen Error:", error);
     throw error;
   }
 };
 
 export const estimateNutrition = async (ingredients: Ingredient[]): Promise<Nutrition> => {
-  const settings = await storage.getSettings();
-  const provider = settings.ai_provider || 'gemini';
   const ingredientsList = ingredients.map(i => `${i.quantity} ${i.unit} ${i.item_name}`).join(', ');
   
   const prompt = `
@@ -232,40 +166,9 @@ export const estimateNutrition = async (ingredients: Ingredient[]): Promise<Nutr
     3. Return raw numbers only (no units).
   `;
 
-  if (provider === 'openai' && settings.openai_api_key) {
-      const systemPrompt = `Return JSON only: { "calories": number, "protein": number, "carbs": number, "sugar": number, "fat": number, "saturated_fat": number, "unsaturated_fat": number, "fiber": number, "salt": number }`;
-      const res = await callOpenAI(settings.openai_api_key, systemPrompt, prompt, true);
-      return JSON.parse(res) as Nutrition;
-  }
-
-  // Fallback to Gemini
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            calories: { type: Type.NUMBER },
-            protein: { type: Type.NUMBER },
-            carbs: { type: Type.NUMBER },
-            sugar: { type: Type.NUMBER },
-            fat: { type: Type.NUMBER },
-            saturated_fat: { type: Type.NUMBER },
-            unsaturated_fat: { type: Type.NUMBER },
-            fiber: { type: Type.NUMBER },
-            salt: { type: Type.NUMBER },
-          },
-          required: ["calories", "protein", "carbs", "sugar", "fat", "saturated_fat", "unsaturated_fat", "fiber", "salt"]
-        }
-      }
-    });
-    const jsonText = response.text;
-    if (!jsonText) throw new Error("No response");
-    return JSON.parse(jsonText) as Nutrition;
+    const provider = await providerFor('json');
+    return await requestValidated(p => provider.json({ prompt: p, schema: NUTRITION_SCHEMA }), prompt, validateNutrition);
   } catch (error) {
     console.error("Nutrition Error:", error);
     throw error;
@@ -274,30 +177,20 @@ export const estimateNutrition = async (ingredients: Ingredient[]): Promise<Nutr
 
 export const summarizeFeedback = async (title: string, comments: string[]): Promise<string> => {
     if (!comments || comments.length === 0) return "";
-    const settings = await storage.getSettings();
-    const provider = settings.ai_provider || 'gemini';
     
     const prompt = `Summarize comments for recipe "${title}". Identify pros/cons. Max 3 sentences. Comments: ${comments.map(c => `- "${c}"`).join('\n')}`;
 
-    if (provider === 'openai' && settings.openai_api_key) {
-        return await callOpenAI(settings.openai_api_key, "You are a helpful assistant.", prompt, false);
-    }
-
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
     try {
-        const response = await ai.models.generateContent({
-            model: "gemini-2.5-flash",
-            contents: prompt
-        });
-        return response.text || "Could not summarize.";
+        const provider = await providerFor('text');
+        const summary = await provider.text({ system: "You are a helpful assistant.", prompt });
+        return summary || "Could not summarize.";
     } catch (error) {
+        console.error("Summary Error:", error);
         return "Failed to summarize.";
     }
 };
 
 export const refineInstructions = async (title: string, ingredients: string[], currentInstructions: string[], modification: 'detailed' | 'simple'): Promise<string[]> => {
-  const settings = await storage.getSettings();
-  const provider = settings.ai_provider || 'gemini';
   const ingredientsList = ingredients.join(', ');
   
   const prompt = `
@@ -307,29 +200,9 @@ export const refineInstructions = async (title: string, ingredients: string[], c
     Return a JSON array of strings.
   `;
 
-  if (provider === 'openai' && settings.openai_api_key) {
-       const systemPrompt = `Return a JSON object with a key "instructions" containing an array of strings. Example: { "instructions": ["Step 1", "Step 2"] }`;
-       const res = await callOpenAI(settings.openai_api_key, systemPrompt, prompt, true);
-       const parsed = JSON.parse(res);
-       return Array.isArray(parsed) ? parsed : (parsed.instructions || []);
-  }
-
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.ARRAY,
-          items: { type: Type.STRING }
-        }
-      }
-    });
-    const jsonText = response.text;
-    if (!jsonText) throw new Error("No response");
-    return JSON.parse(jsonText) as string[];
+    const provider = await providerFor('json');
+    return await requestValidated(p => provider.json({ prompt: p, schema: STRING_LIST }), prompt, validateStringList);
   } catch (error) {
     console.error("Refine Error:", error);
     throw error;
@@ -337,119 +210,59 @@ export const refineInstructions = async (title: string, ingredients: string[], c
 };
 
 export const suggestNewDishes = async (favorites: string[]): Promise<string[]> => {
-    const settings = await storage.getSettings();
-    const provider = settings.ai_provider || 'gemini';
     const context = favorites.length > 0 ? `Favorites: ${favorites.join(', ')}` : `Healthy family dinners.`;
     const prompt = `${context}. Suggest 5 new dinner dishes. Return JSON array of strings.`;
 
-    if (provider === 'openai' && settings.openai_api_key) {
-        const systemPrompt = `Return JSON: { "suggestions": ["Dish 1", "Dish 2"] }`;
-        const res = await callOpenAI(settings.openai_api_key, systemPrompt, prompt, true);
-        const parsed = JSON.parse(res);
-        return Array.isArray(parsed) ? parsed : (parsed.suggestions || []);
-    }
-
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
     try {
-        const response = await ai.models.generateContent({
-            model: "gemini-2.5-flash",
-            contents: prompt,
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: {
-                    type: Type.ARRAY,
-                    items: { type: Type.STRING }
-                }
-            }
-        });
-        const jsonText = response.text;
-        if (!jsonText) throw new Error("No response");
-        return JSON.parse(jsonText) as string[];
+        const provider = await providerFor('json');
+        return await requestValidated(p => provider.json({ prompt: p, schema: STRING_LIST }), prompt, validateStringList);
     } catch (error) {
         console.error("Suggestion Error:", error);
         return [];
     }
 };
 
-export interface ImprovementSuggestion {
-    motivation: string;
-    changes: {
-        title_suffix?: string;
-        ingredients: Ingredient[];
-        instructions: string[];
-    }
-}
+const IMPROVEMENT_SCHEMA: SchemaNode = {
+    type: 'object',
+    properties: {
+        motivation: { type: 'string' },
+        changes: {
+            type: 'object',
+            properties: {
+                title_suffix: { type: 'string' },
+                ingredients: { type: 'array', items: INGREDIENT_SCHEMA },
+                instructions: STRING_LIST
+            },
+            required: ["ingredients", "instructions"]
+        }
+    },
+    required: ["motivation", "changes"]
+};
 
-export const suggestRecipeImprovement = async (recipe: Recipe, householdContext: string): Promise<ImprovementSuggestion | null> => {
-    const settings = await storage.getSettings();
-    const provider = settings.ai_provider || 'gemini';
-    
+// Throws when the provider fails or keeps returning invalid suggestions, so the UI can explain why
+export const suggestRecipeImprovement = async (recipe: Recipe, householdContext: string): Promise<ImprovementSuggestion> => {
     const prompt = `
         Analyze recipe "${recipe.title}". Context: ${householdContext}.
         Suggest ONE improvement. Return JSON with motivation and full updated ingredients/instructions.
-        Schema: { motivation: string, changes: { title_suffix: string, ingredients: [ {item_name, quantity, unit, category} ], instructions: [string] } }
         Current ingredients: ${recipe.ingredients.map(i => i.item_name).join(', ')}.
     `;
 
-    if (provider === 'openai' && settings.openai_api_key) {
-        const systemPrompt = `You are a creative chef. Output valid JSON matching the schema provided in the prompt.`;
-        const res = await callOpenAI(settings.openai_api_key, systemPrompt, prompt, true);
-        return JSON.parse(res) as ImprovementSuggestion;
-    }
-
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
     try {
-        const response = await ai.models.generateContent({
-            model: "gemini-2.5-flash",
-            contents: prompt,
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: {
-                    type: Type.OBJECT,
-                    properties: {
-                        motivation: { type: Type.STRING },
-                        changes: {
-                            type: Type.OBJECT,
-                            properties: {
-                                title_suffix: { type: Type.STRING },
-                                ingredients: {
-                                    type: Type.ARRAY,
-                                    items: {
-                                        type: Type.OBJECT,
-                                        properties: {
-                                            item_name: { type: Type.STRING },
-                                            quantity: { type: Type.NUMBER },
-                                            unit: { type: Type.STRING },
-                                            category: { type: Type.STRING }
-                                        },
-                                        required: ["item_name", "quantity", "unit", "category"]
-                                    }
-                                },
-                                instructions: { type: Type.ARRAY, items: { type: Type.STRING } }
-                            },
-                            required: ["ingredients", "instructions"]
-                        }
-                    },
-                    required: ["motivation", "changes"]
-                }
-            }
-        });
-
-        const jsonText = response.text;
-        if (!jsonText) throw new Error("No response");
-        return JSON.parse(jsonText) as ImprovementSuggestion;
+        const provider = await providerFor('json');
+        return await requestValidated(
+            p => provider.json({ system: "You are a creative chef.", prompt: p, schema: IMPROVEMENT_SCHEMA }),
+            prompt,
+            validateImprovement
+        );
     } catch (error) {
         console.error("Improvement Error:", error);
-        return null;
+        throw error;
     }
 }
 
 // --- Translation Services ---
 
 export const translateRecipe = async (recipe: Recipe, targetLang: string): Promise<Recipe> => {
-    const settings = await storage.getSettings();
-    const provider = settings.ai_provider || 'gemini';
-    
     const prompt = `
       Translate this recipe content to the language code: "${targetLang}".
       IMPORTANT:
@@ -467,47 +280,23 @@ export const translateRecipe = async (recipe: Recipe, targetLang: string): Promi
       })}
     `;
 
-    // Reusing logic from above, but forcing return of partial Recipe
-    if (provider === 'openai' && settings.openai_api_key) {
-        const systemPrompt = `You are a translator. Return valid JSON only matching the input structure.`;
-        const res = await callOpenAI(settings.openai_api_key, systemPrompt, prompt, true);
-        const translated = JSON.parse(res);
-        return { ...recipe, ...translated, lang: targetLang };
-    }
-
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
     try {
-        const response = await ai.models.generateContent({
-            model: "gemini-2.5-flash",
-            contents: prompt,
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: {
-                    type: Type.OBJECT,
-                    properties: {
-                        title: { type: Type.STRING },
-                        description: { type: Type.STRING },
-                        cuisine: { type: Type.STRING },
-                        instructions: { type: Type.ARRAY, items: { type: Type.STRING } },
-                        ingredients: {
-                            type: Type.ARRAY,
-                            items: {
-                                type: Type.OBJECT,
-                                properties: {
-                                    item_name: { type: Type.STRING },
-                                    quantity: { type: Type.NUMBER },
-                                    unit: { type: Type.STRING },
-                                    category: { type: Type.STRING }
-                                },
-                                required: ["item_name", "quantity", "unit", "category"]
-                            }
-                        }
-                    },
-                    required: ["title", "description", "instructions", "ingredients"]
-                }
+        const provider = await providerFor('json');
+        const translated = await requestValidated(p => provider.json({
+            system: "You are a translator.",
+            prompt: p,
+            schema: {
+                type: 'object',
+                properties: {
+                    title: { type: 'string' },
+                    description: { type: 'string' },
+                    cuisine: { type: 'string' },
+                    instructions: STRING_LIST,
+                    ingredients: { type: 'array', items: INGREDIENT_SCHEMA }
+                },
+                required: ["title", "description", "instructions", "ingredients"]
             }
-        });
-        const translated = JSON.parse(response.text || '{}');
+        }), prompt, translatedRecipeValidator(recipe));
         return { ...recipe, ...translated, lang: targetLang };
     } catch (error) {
         console.error("Translation Error:", error);
@@ -517,8 +306,6 @@ export const translateRecipe = async (recipe: Recipe, targetLang: string): Promi
 
 export const translateShoppingItems = async (items: ShoppingItem[], targetLang: string): Promise<ShoppingItem[]> => {
     if (items.length === 0) return items;
-    const settings = await storage.getSettings();
-    const provider = settings.ai_provider || 'gemini';
 
     // Minify input to save tokens
     const simplifiedItems = items.map(i => ({ id: i.id, n: i.item_name, u: i.unit }));
@@ -532,40 +319,26 @@ export const translateShoppingItems = async (items: ShoppingItem[], targetLang:
     `;
 
     try {
-        let translatedData: any[] = [];
-
-        if (provider === 'openai' && settings.openai_api_key) {
-             const systemPrompt = `Return JSON array.`;
-             const res = await callOpenAI(settings.openai_api_key, systemPrompt, prompt, true);
-             const parsed = JSON.parse(res);
-             translatedData = Array.isArray(parsed) ? parsed : (parsed.items || []);
-        } else {
-            const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-            const response = await ai.models.generateContent({
-                model: "gemini-2.5-flash",
-                contents: prompt,
-                config: {
-                    responseMimeType: "application/json",
-                    responseSchema: {
-                        type: Type.ARRAY,
-                        items: {
-                            type: Type.OBJECT,
-                            properties: {
-                                id: { type: Type.NUMBER },
-                                item_name: { type: Type.STRING },
-                                unit: { type: Type.STRING }
-                            },
-                            required: ["id", "item_name", "unit"]
-                        }
-                    }
+        const provider = await providerFor('json');
+        const translatedData = await requestValidated(p => provider.json({
+            prompt: p,
+            schema: {
+                type: 'array',
+                items: {
+                    type: 'object',
+                    properties: {
+                        id: { type: 'number' },
+                        item_name: { type: 'string' },
+                        unit: { type: 'string' }
+                    },
+                    required: ["id", "item_name", "unit"]
                 }
-            });
-            translatedData = JSON.parse(response.text || '[]');
-        }
+            }
+        }), prompt, validateTranslatedItems);
 
         // Merge back
         return items.map(original => {
-            const translated = translatedData.find((t: any) => t.id === original.id);
+            const translated = translatedData.find(t => t.id === original.id);
             if (translated) {
                 return { ...original, item_name: translated.item_name, unit: translated.unit, lang: targetLang };
             }
@@ -580,41 +353,19 @@ export const translateShoppingItems = async (items: ShoppingItem[], targetLang:
 
 export const translateStrings = async (strings: string[], targetLang: string): Promise<string[]> => {
     if (strings.length === 0) return strings;
-    const settings = await storage.getSettings();
-    const provider = settings.ai_provider || 'gemini';
 
     const prompt = `Translate these strings to language code: "${targetLang}": ${JSON.stringify(strings)}`;
 
     try {
-        if (provider === 'openai' && settings.openai_api_key) {
-             const systemPrompt = `Return JSON array of strings.`;
-             const res = await callOpenAI(settings.openai_api_key, systemPrompt, prompt, true);
-             const parsed = JSON.parse(res);
-             return Array.isArray(parsed) ? parsed : strings;
-        } else {
-             const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-             const response = await ai.models.generateContent({
-                model: "gemini-2.5-flash",
-                contents: prompt,
-                config: {
-                    responseMimeType: "application/json",
-                    responseSchema: {
-                        type: Type.ARRAY,
-                        items: { type: Type.STRING }
-                    }
-                }
-            });
-            return JSON.parse(response.text || '[]');
-        }
+        const provider = await providerFor('json');
+        const translated = await requestValidated(p => provider.json({ prompt: p, schema: STRING_LIST }), prompt, validateStringList);
+        return translated.length === strings.length ? translated : strings;
     } catch (e) {
         return strings;
     }
 }
 
 export const generateInterfaceTranslations = async (targetLang: string, baseTranslations: any): Promise<any> => {
-    const settings = await storage.getSettings();
-    const provider = settings.ai_provider || 'gemini';
-
     // We can't send huge JSON in one go reliably if it's too big, but the current UI strings are small enough (< 2k tokens)
     const prompt = `
         Translate the following UI strings keys and values to the language with code: "${targetLang}".
@@ -622,25 +373,10 @@ export const generateInterfaceTranslations = async (targetLang: string, baseTran
         Input JSON: ${JSON.stringify(baseTranslations)}
     `;
 
-    if (provider === 'openai' && settings.openai_api_key) {
-        const systemPrompt = `Return JSON object matching input keys.`;
-        const res = await callOpenAI(settings.openai_api_key, systemPrompt, prompt, true);
-        return JSON.parse(res);
-    }
-
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    // Since we don't have a rigid schema for arbitrary keys, we just ask for JSON object
+    // Since we don't have a rigid schema for arbitrary keys, we just ask for a JSON object
     try {
-        const response = await ai.models.generateContent({
-            model: "gemini-2.5-flash",
-            contents: prompt,
-            config: {
-                responseMimeType: "application/json"
-            }
-        });
-        const jsonText = response.text;
-        if (!jsonText) throw new Error("No response");
-        return JSON.parse(jsonText);
+        const provider = await providerFor('json');
+        return await provider.json({ prompt });
     } catch (e) {
         console.error("Interface Translation Error", e);
         throw e;
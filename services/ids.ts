@@ -0,0 +1,39 @@
+// --- Record IDs ---
+// Every new record gets its id here. IDs stay plain integers (the rest of the app and existing
+// data use numbers): creation time in ms times 1024 plus a random 10-bit suffix. Within a device
+// they are strictly increasing, so bulk creation in a loop never collides; the random suffix keeps
+// two synced devices from picking the same id in the same millisecond. Safe integers until ~2250.
+
+const SUFFIX_RANGE = 1024;
+
+let lastId = 0;
+
+export const newId = (): number => {
+  const candidate = Date.now() * SUFFIX_RANGE + Math.floor(Math.random() * SUFFIX_RANGE);
+  lastId = Math.max(candidate, lastId + 1);
+  return lastId;
+};
+
+// FNV-1a over the text, 32 bits
+const hash32 = (text: string, seed: number) => {
+  let h = seed >>> 0;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 16777619) >>> 0;
+  }
+  return h;
+};
+
+// The same id on every device for the same parts, for records that several synced devices may
+// create on their own (a recurring meal on its date), so they merge into one instead of doubling.
+export const derivedId = (...parts: (string | number)[]): number => {
+  const key = parts.join('|');
+  return (hash32(key, 0x811c9dc5) & 0x1fffff) * 0x100000000 + hash32(key, 0x5bd1e995) || 1;
+};
+
+export const isValidId = (id: any): id is number => Number.isSafeInteger(id) && id > 0;
+
+// Older versions created ids like Date.now() + Math.random(). This maps them into the same
+// space deterministically, so every synced device rewrites a given record to the same id.
+export const legacyIdToInteger = (id: number): number =>
+  Math.floor(id) * SUFFIX_RANGE + Math.floor((id - Math.floor(id)) * SUFFIX_RANGE);
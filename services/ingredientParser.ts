@@ -0,0 +1,181 @@
+import { Ingredient } from '../types';
+import { findUnit } from './units';
+import { coerceNumber } from './validation';
+
+// --- Ingredient Line Parser ---
+// Turns "2 1/2 dl vetemjöl", "1–2 cloves garlic, minced", "2 x 400 g krossade tomater" or "a pinch
+// of salt" into an Ingredient without calling the AI. English and Swedish. Ranges resolve to their
+// upper bound so the shopping list never under-buys.
+
+export interface ParsedIngredient extends Ingredient {
+  recognized: boolean; // An amount or an explicit "to taste" was found, otherwise defaults were used
+}
+
+const UNICODE_FRACTION = '[½⅓⅔¼¾⅛]';
+// Plain, decimal, fraction ("1/2"), mixed ("2 1/2") or unicode ("1½") numbers; shared with step timers
+export const NUMBER_PATTERN = `(?:\\d+\\s+\\d+\\/\\d+|\\d+\\/\\d+|\\d*\\s*${UNICODE_FRACTION}|\\d+(?:[.,]\\d+)?)`;
+const AMOUNT = new RegExp(`^(${NUMBER_PATTERN})(?:\\s*(?:-|to|till|à)\\s*(${NUMBER_PATTERN}))?(?=\\s|$)`, 'i');
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  twelve: 12, dozen: 12, half: 0.5,
+  en: 1, ett: 1, två: 2, tre: 3, fyra: 4, fem: 5, sex: 6, sju: 7, åtta: 8, nio: 9, tio: 10, tolv: 12,
+  halv: 0.5, halva: 0.5
+};
+
+// Phrases that mean "no fixed amount"; they end up in the note
+const AMOUNTLESS = /\b(to taste|as needed|optional|for serving|for garnish|efter smak|valfritt|till servering|till garnering)\b/i;
+
+const FILLER_WORDS = new Set(['of', 'av']);
+
+// "a pinch of salt" has an amount; "a handful of basil" only reads like one unless a unit follows
+const ARTICLES = new Set(['a', 'an', 'en', 'ett']);
+
+// The pack in "2 x 400 g can tomatoes"
+const CONTAINERS = new Set(['can', 'cans', 'tin', 'tins', 'pack', 'packs', 'jar', 'jars', 'burk', 'burkar', 'paket', 'förp']);
+
+// --- Category Dictionary ---
+// Keywords per shopping category (EN + SV), matched at the start or end of a word, longest first.
+
+const CATEGORY_KEYWORDS: Record<string, string[]> = {
+  Produce: [
+    'onion', 'lök', 'garlic', 'vitlök', 'shallot', 'schalottenlök', 'leek', 'purjolök', 'potato', 'potatis', 'carrot', 'morot', 'morötter',
+    'tomato', 'tomat', 'cucumber', 'gurka', 'lettuce', 'sallad', 'spinach', 'spenat', 'bell pepper', 'paprika', 'zucchini', 'squash',
+    'eggplant', 'aubergine', 'broccoli', 'cauliflower', 'blomkål', 'cabbage', 'kål', 'mushroom', 'svamp', 'champinjon', 'celery', 'selleri',
+    'ginger', 'ingefära', 'chili', 'avocado', 'apple', 'äpple', 'banana', 'banan', 'lemon', 'citron', 'lime', 'orange', 'apelsin',
+    'berries', 'bär', 'vinbär', 'lingon', 'parsley', 'persilja', 'basil', 'basilika', 'dill', 'cilantro', 'chives', 'gräslök', 'herbs', 'örter'
+  ],
+  Dairy: [
+    'milk', 'mjölk', 'cream', 'grädde', 'butter', 'smör', 'cheese', 'ost', 'parmesan', 'mozzarella', 'feta', 'halloumi', 'yogurt', 'yoghurt',
+    'crème fraiche', 'creme fraiche', 'sour cream', 'gräddfil', 'kvarg', 'cottage cheese', 'keso', 'egg', 'eggs', 'ägg'
+  ],
+  Meat: [
+    'beef', 'nötkött', 'pork', 'fläsk', 'gris', 'chicken', 'kyckling', 'turkey', 'kalkon', 'lamb', 'lamm', 'mince', 'färs', 'bacon',
+    'ham', 'skinka', 'sausage', 'korv', 'salmon', 'lax', 'cod', 'torsk', 'fish', 'fisk', 'shrimp', 'prawns', 'räkor', 'tuna steak'
+  ],
+  Bakery: ['bread', 'bröd', 'baguette', 'bun', 'bulle', 'tortilla', 'pita', 'breadcrumbs', 'ströbröd', 'knäckebröd'],
+  Frozen: ['frozen', 'fryst', 'djupfryst', 'ice cream', 'glass'],
+  Pantry: [
+    'flour', 'mjöl', 'sugar', 'socker', 'rice', 'ris', 'pasta', 'spaghetti', 'noodles', 'nudlar', 'oats', 'havregryn', 'oil', 'olja',
+    'vinegar', 'vinäger', 'ättika', 'honey', 'honung', 'syrup', 'sirap', 'stock', 'broth', 'buljong', 'fond', 'soy sauce', 'soja',
+    'ketchup', 'mustard', 'senap', 'mayonnaise', 'majonnäs', 'baking powder', 'bakpulver', 'yeast', 'jäst', 'cocoa', 'kakao',
+    'lentils', 'linser', 'quinoa', 'couscous', 'bulgur', 'nuts', 'nötter', 'almonds', 'mandel'
+  ],
+  Spices: [
+    'salt', 'pepper', 'peppar', 'black pepper', 'svartpeppar', 'cumin', 'spiskummin', 'cinnamon', 'kanel', 'oregano', 'thyme', 'timjan',
+    'rosemary', 'rosmarin', 'chili flakes', 'chiliflakes', 'turmeric', 'gurkmeja', 'curry', 'nutmeg', 'muskot', 'cardamom', 'kardemumma',
+    'bay leaf', 'lagerblad', 'vanilla', 'vanilj', 'smoked paprika', 'paprika powder', 'paprikapulver', 'cayenne', 'allspice', 'kryddpeppar'
+  ],
+  Canned: [
+    'canned', 'crushed tomatoes', 'krossade tomater', 'passata', 'tomato paste', 'tomatpuré', 'coconut milk', 'kokosmjölk',
+    'beans', 'bönor', 'chickpeas', 'kikärtor', 'tuna', 'tonfisk'
+  ],
+  Beverages: ['wine', 'vin', 'beer', 'öl', 'juice', 'coffee', 'kaffe', 'tea', 'soda', 'läsk'],
+  Household: ['paper', 'papper', 'foil', 'folie', 'detergent', 'diskmedel', 'tvättmedel', 'soap', 'tvål']
+};
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const CATEGORY_MATCHERS = Object.entries(CATEGORY_KEYWORDS)
+  .flatMap(([category, words]) => words.map(word => ({ word, category })))
+  .sort((a, b) => b.word.length - a.word.length)
+  .map(({ word, category }) => ({
+    category,
+    // Start or end of a word, so Swedish compounds like "vetemjöl" or "kycklingfilé" still match
+    pattern: new RegExp(`(^|[^\\p{L}])${escapeRegExp(word)}|${escapeRegExp(word)}($|[^\\p{L}])`, 'u')
+  }));
+
+export const guessCategory = (itemName: string): string => {
+  const name = (itemName || '').toLowerCase();
+  return CATEGORY_MATCHERS.find(m => m.pattern.test(name))?.category || 'Other';
+};
+
+// --- Parsing ---
+
+// The value of a NUMBER_PATTERN match
+export const parseAmount = (raw: string): number | null => coerceNumber(raw.replace(/(\d)\s*([½⅓⅔¼¾⅛])/, '$1 $2'));
+
+export const parseIngredient = (line: string): ParsedIngredient => {
+  const notes: string[] = [];
+  let text = (line || '')
+    .trim()
+    .replace(/^[-•*]\s+/, '')
+    .replace(/[–—]/g, '-')
+    .replace(/(\d)([½⅓⅔¼¾⅛])/g, '$1 $2')
+    .replace(/(\d)([\p{L}])/gu, '$1 $2') // "200g" -> "200 g"
+    .replace(/\s+/g, ' ');
+
+  // Parentheses and anything after a comma are preparation notes ("1,5" stays a decimal)
+  text = text.replace(/\s*\(([^)]*)\)/g, (_, note) => {
+    notes.push(note.trim());
+    return '';
+  });
+  const comma = text.search(/,(?!\d)|(?<!\d),/);
+  if (comma >= 0) {
+    notes.push(text.slice(comma + 1).trim());
+    text = text.slice(0, comma).trim();
+  }
+  const amountless = text.match(AMOUNTLESS);
+  if (amountless) {
+    notes.push(amountless[1]);
+    text = text.replace(AMOUNTLESS, '').replace(/\s+/g, ' ').trim();
+  }
+
+  // Amount: numbers, fractions, ranges, or a number word
+  let quantity: number | null = null;
+  let article = false;
+  let packed = false;
+  const amount = text.match(AMOUNT);
+  if (amount) {
+    quantity = parseAmount(amount[2] || amount[1]);
+    text = text.slice(amount[0].length).trim();
+    // "2 x 400 g": packs times their size
+    const pack = quantity !== null ? text.match(/^[x×]\s*/i) : null;
+    const size = pack ? text.slice(pack[0].length).match(AMOUNT) : null;
+    if (pack && size) {
+      quantity = quantity! * (parseAmount(size[2] || size[1]) ?? 1);
+      text = text.slice(pack[0].length + size[0].length).trim();
+      packed = true;
+    }
+  } else {
+    const [first, ...rest] = text.split(' ');
+    const word = NUMBER_WORDS[first?.toLowerCase()];
+    // "a" or "en" alone isn't an amount unless followed by more words
+    if (word !== undefined && rest.length > 0) {
+      quantity = word;
+      article = ARTICLES.has(first.toLowerCase());
+      text = rest.join(' ');
+    }
+  }
+
+  // Unit: two-word aliases first ("fl oz"), only if a name remains after it
+  let unit = '';
+  const words = text.split(' ');
+  for (const size of [2, 1]) {
+    const def = words.length > size ? findUnit(words.slice(0, size).join(' ')) : undefined;
+    if (def) {
+      unit = def.id;
+      words.splice(0, size);
+      break;
+    }
+  }
+  if (unit && quantity === null) quantity = 1; // "pinch of salt"
+  if (packed && CONTAINERS.has(words[0]?.toLowerCase()) && words.length > 1) words.shift();
+  if (FILLER_WORDS.has(words[0]?.toLowerCase()) && words.length > 1) words.shift();
+
+  const item_name = words.join(' ').replace(/[.:;]+$/, '').trim();
+  const recognized = (quantity !== null && !(article && !unit)) || !!amountless;
+  const note = notes.filter(Boolean).join(', ');
+
+  return {
+    item_name,
+    quantity: quantity ?? (amountless ? 0 : 1),
+    unit: unit || (quantity !== null || !amountless ? 'pc' : ''),
+    category: guessCategory(item_name),
+    ...(note ? { note } : {}),
+    recognized
+  };
+};
+
+// Drops the parser bookkeeping for storing the result
+export const toIngredient = ({ recognized, ...ingredient }: ParsedIngredient): Ingredient => ingredient;
@@ -0,0 +1,56 @@
+import { MealPlanItem, MealType } from '../types';
+
+// --- Leftovers ---
+// A leftover is a plan item with is_leftover set and source_meal_id pointing at the meal that is
+// cooked with extra servings. The source keeps leftover_servings in sync so shopping can scale it.
+
+export const getLeftoversFor = (plan: MealPlanItem[], sourceId: number) =>
+    plan.filter(p => p.is_leftover && p.source_meal_id === sourceId);
+
+export const createLeftover = (source: MealPlanItem, date: string, type: MealType, servings: number, id: number): MealPlanItem => ({
+    id,
+    date,
+    type,
+    recipe_id: source.recipe_id,
+    recipe_version: source.recipe_version,
+    is_leftover: true,
+    is_cooked: false,
+    servings,
+    source_meal_id: source.id
+});
+
+// Recomputes leftover_servings on a source from its scheduled leftovers
+export const withLeftoverServings = (plan: MealPlanItem[], source: MealPlanItem): MealPlanItem => ({
+    ...source,
+    leftover_servings: getLeftoversFor(plan, source.id).reduce((sum, l) => sum + (l.servings || 0), 0)
+});
+
+export interface PlanRemoval {
+    plan: MealPlanItem[];
+    deletedIds: number[];
+    updated: MealPlanItem[]; // Sources whose leftover_servings changed
+}
+
+// Removes meals from the plan. Removing a source also removes its leftovers,
+// removing a leftover gives the servings back to its source.
+export const removeFromPlan = (plan: MealPlanItem[], ids: number[]): PlanRemoval => {
+    const deleted = new Set(ids);
+    plan.forEach(p => {
+        if (p.is_leftover && p.source_meal_id !== undefined && deleted.has(p.source_meal_id)) deleted.add(p.id);
+    });
+
+    let remaining = plan.filter(p => !deleted.has(p.id));
+    const affectedSources = new Set(
+        plan.filter(p => deleted.has(p.id) && p.is_leftover && p.source_meal_id !== undefined).map(p => p.source_meal_id!)
+    );
+
+    const updated: MealPlanItem[] = [];
+    remaining = remaining.map(p => {
+        if (!affectedSources.has(p.id)) return p;
+        const next = withLeftoverServings(remaining, p);
+        updated.push(next);
+        return next;
+    });
+
+    return { plan: remaining, deletedIds: Array.from(deleted), updated };
+};
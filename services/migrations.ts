@@ -0,0 +1,351 @@
+import { Recipe, MealPlanItem, ShoppingItem, AppSettings, MealType, MEAL_TYPES, PantryItem, Store, AIJob, FreezerItem } from '../types';
+import { INITIAL_SETTINGS } from './mockData';
+import { legacyIdToInteger } from './ids';
+
+export const STORES = {
+  RECIPES: 'recipes',
+  PLAN: 'plan',
+  SHOPPING: 'shopping',
+  SETTINGS: 'settings',
+  PANTRY: 'pantry',
+  FREEZER: 'freezer',
+  AI_JOBS: 'ai_jobs', // Transient work queue, not part of backups
+  SYNC_META: 'sync_meta', // Per-record field clocks and the device's sync state
+  SYNC_OUTBOX: 'sync_outbox' // Changes not yet pushed to the sync server
+};
+
+export interface MigrationContext {
+  db: IDBDatabase;
+  tx: IDBTransaction; // The versionchange transaction, all steps share it
+}
+
+export interface Migration {
+  version: number;
+  description: string;
+  migrate: (ctx: MigrationContext) => Promise<void> | void;
+}
+
+export class MigrationError extends Error {
+  version: number;
+  cause?: unknown;
+
+  constructor(version: number, description: string, cause?: unknown) {
+    const reason = cause instanceof Error ? cause.message : String(cause ?? 'unknown error');
+    super(`Database migration to v${version} (${description}) failed: ${reason}`);
+    this.name = 'MigrationError';
+    this.version = version;
+    this.cause = cause;
+  }
+}
+
+// --- Helpers ---
+
+const ensureStore = (db: IDBDatabase, name: string) => {
+  if (!db.objectStoreNames.contains(name)) {
+    db.createObjectStore(name, { keyPath: 'id' });
+  }
+};
+
+// Walks every record in a store and writes back whatever the callback returns.
+// Returning undefined leaves the record untouched.
+export const updateEach = <T>(store: IDBObjectStore, fn: (record: T) => T | undefined): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    const request = store.openCursor();
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve();
+        return;
+      }
+      try {
+        const updated = fn(cursor.value as T);
+        if (updated !== undefined) cursor.update(updated);
+        cursor.continue();
+      } catch (e) {
+        reject(e);
+      }
+    };
+  });
+};
+
+const readAll = <T>(store: IDBObjectStore): Promise<T[]> => {
+  return new Promise((resolve, reject) => {
+    const request = store.getAll();
+    request.onsuccess = () => resolve(request.result as T[]);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const toNumber = (value: any, fallback: number) => {
+  const n = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof n === 'number' && isFinite(n) ? n : fallback;
+};
+
+// --- Record Backfills ---
+// Kept separate from the migration list so restore/import paths can repair records the same way.
+
+export const backfillRecipe = (r: any): Recipe => ({
+  ...r,
+  title: r.title || 'Untitled',
+  description: r.description || '',
+  instructions: Array.isArray(r.instructions) ? r.instructions : [],
+  ingredients: Array.isArray(r.ingredients)
+    ? r.ingredients.map((i: any) => ({
+        ...i,
+        item_name: i.item_name || '',
+        quantity: toNumber(i.quantity, 0),
+        unit: i.unit || 'pc',
+        category: i.category || 'Other'
+      }))
+    : [],
+  servings_default: toNumber(r.servings_default, 0) > 0 ? toNumber(r.servings_default, 4) : 4,
+  images: Array.isArray(r.images) ? r.images : [],
+  version: toNumber(r.version, 0) > 0 ? toNumber(r.version, 1) : 1,
+  history: Array.isArray(r.history) ? r.history : [],
+  lang: r.lang || 'en',
+  translations: r.translations || {}
+});
+
+export const backfillPlanItem = (p: any): MealPlanItem => ({
+  ...p,
+  type: p.type || MealType.DINNER,
+  is_leftover: !!p.is_leftover,
+  is_cooked: !!p.is_cooked
+});
+
+export const backfillShoppingItem = (s: any): ShoppingItem => ({
+  ...s,
+  item_name: s.item_name || '',
+  quantity: toNumber(s.quantity, 0),
+  unit: s.unit || 'pc',
+  category: s.category || 'Other',
+  checked: !!s.checked,
+  is_manually_added: !!s.is_manually_added
+});
+
+export const backfillPantryItem = (p: any): PantryItem => ({
+  ...p,
+  item_name: p.item_name || '',
+  quantity: Math.max(0, toNumber(p.quantity, 0)),
+  unit: p.unit || 'pc',
+  category: p.category || 'Other'
+});
+
+export const backfillFreezerItem = (f: any): FreezerItem => ({
+  ...f,
+  recipe_id: toNumber(f.recipe_id, 0),
+  portions: Math.max(0, toNumber(f.portions, 0)),
+  frozen_on: f.frozen_on || '',
+  best_before: f.best_before || f.frozen_on || ''
+});
+
+export const backfillSettings = (s: any): AppSettings & { id?: string } => ({
+  ...INITIAL_SETTINGS,
+  ...s,
+  stores: Array.isArray(s.stores) ? s.stores : INITIAL_SETTINGS.stores,
+  pantry_staples: Array.isArray(s.pantry_staples) ? s.pantry_staples : INITIAL_SETTINGS.pantry_staples,
+  meal_slots: Array.isArray(s.meal_slots) && s.meal_slots.some((m: any) => MEAL_TYPES.includes(m))
+    ? MEAL_TYPES.filter(m => s.meal_slots.includes(m))
+    : INITIAL_SETTINGS.meal_slots
+});
+
+// --- Legacy IDs ---
+// Older versions created fractional ids (Date.now() + Math.random()) that collided on bulk adds.
+// Shared by the v7 migration and backup restore, so an old archive can't bring them back.
+
+export interface IdCollections {
+  recipes: Recipe[];
+  plan: MealPlanItem[];
+  shopping: ShoppingItem[];
+  pantry: PantryItem[];
+  stores: Store[];
+}
+
+// Old id -> integer id for every fractional id in one collection, avoiding ids already in use
+const remapIds = (records: { id: any }[]): Map<number, number> => {
+  const taken = new Set(records.map(r => r.id));
+  const map = new Map<number, number>();
+  records
+    .filter(r => typeof r.id === 'number' && !Number.isInteger(r.id))
+    .sort((a, b) => a.id - b.id)
+    .forEach(r => {
+      let next = legacyIdToInteger(r.id);
+      while (taken.has(next)) next++;
+      taken.add(next);
+      map.set(r.id, next);
+    });
+  return map;
+};
+
+const mapped = (map: Map<number, number>, id: number) => map.get(id) ?? id;
+
+export const normalizeLegacyIds = <T extends IdCollections>(data: T): { data: T; recipeIds: Map<number, number> } => {
+  const recipeIds = remapIds(data.recipes);
+  const planIds = remapIds(data.plan);
+  const shoppingIds = remapIds(data.shopping);
+  const pantryIds = remapIds(data.pantry);
+  const storeIds = remapIds(data.stores);
+
+  return {
+    recipeIds,
+    data: {
+      ...data,
+      recipes: data.recipes.map(r => recipeIds.has(r.id)
+        ? { ...r, id: mapped(recipeIds, r.id), history: r.history?.map(h => ({ ...h, id: mapped(recipeIds, r.id) })) }
+        : r),
+      plan: data.plan.map(p => {
+        const source = p.source_meal_id !== undefined ? mapped(planIds, p.source_meal_id) : undefined;
+        if (!planIds.has(p.id) && !recipeIds.has(p.recipe_id) && source === p.source_meal_id) return p;
+        return {
+          ...p,
+          id: mapped(planIds, p.id),
+          recipe_id: mapped(recipeIds, p.recipe_id),
+          ...(source !== undefined ? { source_meal_id: source } : {})
+        };
+      }),
+      shopping: data.shopping.map(i => shoppingIds.has(i.id) ? { ...i, id: mapped(shoppingIds, i.id) } : i),
+      pantry: data.pantry.map(i => pantryIds.has(i.id) ? { ...i, id: mapped(pantryIds, i.id) } : i),
+      stores: data.stores.map(st => storeIds.has(st.id) ? { ...st, id: mapped(storeIds, st.id) } : st)
+    }
+  };
+};
+
+// Writes back what normalizeLegacyIds changed: records with a new id are moved, others updated in place
+const rewriteStore = (store: IDBObjectStore, before: { id: any }[], after: { id: any }[]) => {
+  before.forEach((b, i) => {
+    const a = after[i];
+    if (a === b) return;
+    if (a.id !== b.id) store.delete(b.id);
+    store.put(a);
+  });
+};
+
+// --- Migrations ---
+// Ordered list, one entry per schema version. Never edit a released step, append a new one instead.
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Create initial object stores',
+    migrate: ({ db }) => {
+      ensureStore(db, STORES.RECIPES);
+      ensureStore(db, STORES.PLAN);
+      ensureStore(db, STORES.SHOPPING);
+      ensureStore(db, STORES.SETTINGS);
+    }
+  },
+  {
+    version: 2,
+    description: 'Backfill required fields on existing records',
+    migrate: async ({ tx }) => {
+      await updateEach<any>(tx.objectStore(STORES.RECIPES), backfillRecipe);
+      await updateEach<any>(tx.objectStore(STORES.PLAN), backfillPlanItem);
+      await updateEach<any>(tx.objectStore(STORES.SHOPPING), backfillShoppingItem);
+      await updateEach<any>(tx.objectStore(STORES.SETTINGS), backfillSettings);
+    }
+  },
+  {
+    version: 3,
+    description: 'Add configurable meal slots to settings',
+    migrate: async ({ tx }) => {
+      await updateEach<any>(tx.objectStore(STORES.SETTINGS), backfillSettings);
+    }
+  },
+  {
+    version: 4,
+    description: 'Create pantry inventory store',
+    migrate: ({ db }) => {
+      ensureStore(db, STORES.PANTRY);
+    }
+  },
+  {
+    version: 5,
+    description: 'Create AI job queue store',
+    migrate: ({ db }) => {
+      ensureStore(db, STORES.AI_JOBS);
+    }
+  },
+  {
+    version: 6,
+    description: 'Create sync change log stores',
+    migrate: ({ db }) => {
+      ensureStore(db, STORES.SYNC_META);
+      ensureStore(db, STORES.SYNC_OUTBOX);
+    }
+  },
+  {
+    version: 7,
+    description: 'Replace fractional ids with integers and fix plan references',
+    migrate: async ({ tx }) => {
+      const settingsStore = tx.objectStore(STORES.SETTINGS);
+      const settings = (await readAll<any>(settingsStore)).find(s => s.id === 'config');
+      const before: IdCollections = {
+        recipes: await readAll<Recipe>(tx.objectStore(STORES.RECIPES)),
+        plan: await readAll<MealPlanItem>(tx.objectStore(STORES.PLAN)),
+        shopping: await readAll<ShoppingItem>(tx.objectStore(STORES.SHOPPING)),
+        pantry: await readAll<PantryItem>(tx.objectStore(STORES.PANTRY)),
+        stores: Array.isArray(settings?.stores) ? settings.stores : []
+      };
+      const { data: after, recipeIds } = normalizeLegacyIds(before);
+
+      rewriteStore(tx.objectStore(STORES.RECIPES), before.recipes, after.recipes);
+      rewriteStore(tx.objectStore(STORES.PLAN), before.plan, after.plan);
+      rewriteStore(tx.objectStore(STORES.SHOPPING), before.shopping, after.shopping);
+      rewriteStore(tx.objectStore(STORES.PANTRY), before.pantry, after.pantry);
+      if (settings && after.stores.some((st, i) => st !== before.stores[i])) {
+        settingsStore.put({ ...settings, stores: after.stores });
+      }
+
+      // Queued AI jobs point at recipes
+      await updateEach<AIJob>(tx.objectStore(STORES.AI_JOBS), job =>
+        job.recipe_id !== undefined && recipeIds.has(job.recipe_id) ? { ...job, recipe_id: recipeIds.get(job.recipe_id) } : undefined
+      );
+
+      // Every device maps ids the same way, so the sync log only needs its keys renamed
+      const renamed = new Map<string, { id: string; record_id: number }>();
+      const collect = (name: string, b: { id: any }[], a: { id: any }[]) =>
+        b.forEach((r, i) => {
+          if (a[i].id !== r.id) renamed.set(`${name}:${r.id}`, { id: `${name}:${a[i].id}`, record_id: a[i].id });
+        });
+      collect(STORES.RECIPES, before.recipes, after.recipes);
+      collect(STORES.PLAN, before.plan, after.plan);
+      collect(STORES.SHOPPING, before.shopping, after.shopping);
+      for (const name of [STORES.SYNC_META, STORES.SYNC_OUTBOX]) {
+        const store = tx.objectStore(name);
+        for (const entry of await readAll<any>(store)) {
+          const target = renamed.get(entry.id);
+          if (!target) continue;
+          store.delete(entry.id);
+          store.put({ ...entry, ...(entry.record_id !== undefined ? { record_id: target.record_id } : {}), id: target.id });
+        }
+      }
+    }
+  },
+  {
+    version: 8,
+    description: 'Create freezer inventory store',
+    migrate: ({ db }) => {
+      ensureStore(db, STORES.FREEZER);
+    }
+  }
+];
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// Runs every step newer than oldVersion, in order, inside the upgrade transaction.
+// Any failure aborts the transaction so the database stays at its previous version.
+export const runMigrations = async (db: IDBDatabase, tx: IDBTransaction, oldVersion: number): Promise<void> => {
+  const pending = MIGRATIONS.filter(m => m.version > oldVersion).sort((a, b) => a.version - b.version);
+
+  for (const migration of pending) {
+    try {
+      console.log(`Migrating database to v${migration.version}: ${migration.description}`);
+      await migration.migrate({ db, tx });
+    } catch (e) {
+      const error = new MigrationError(migration.version, migration.description, e);
+      try { tx.abort(); } catch { /* already finished */ }
+      throw error;
+    }
+  }
+};
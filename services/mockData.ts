@@ -1,4 +1,7 @@
-import { Recipe, MealPlanItem, ShoppingItem, AppSettings, Language, MealType, Ingredient, SHOPPING_CATEGORIES } from '../types';
+import { Recipe, MealPlanItem, ShoppingItem, AppSettings, Language, MealType, Ingredient, SHOPPING_CATEGORIES, PantryItem } from '../types';
+import { Quantity, mergeQuantities, unitGroup } from './units';
+import { remainingToBuy } from './pantry';
+import { newId } from './ids';
 
 export const INITIAL_SETTINGS: AppSettings = {
   language: 'en',
@@ -14,8 +17,12 @@ export const INITIAL_SETTINGS: AppSettings = {
           category_order: [...SHOPPING_CATEGORIES]
       }
   ],
+  meal_slots: [MealType.LUNCH, MealType.DINNER],
   ai_provider: 'gemini',
+  ai_capabilities: {},
   openai_api_key: '',
+  local_ai_base_url: 'http://localhost:11434',
+  local_ai_model: 'llama3.1',
   custom_languages: {}
 };
 
@@ -375,7 +382,7 @@ export const generateInitialPlan = (recipes: Recipe[]): MealPlanItem[] => {
         const recipe = recipes[i % recipes.length];
         
         plan.push({
-            id: Date.now() + i,
+            id: newId(),
             date: dateStr,
             type: MealType.DINNER,
             recipe_id: recipe.id,
@@ -388,23 +395,31 @@ export const generateInitialPlan = (recipes: Recipe[]): MealPlanItem[] => {
     return plan;
 };
 
-// Merges existing manual items with newly calculated plan items
+export interface ShoppingListOptions {
+    pantry?: PantryItem[]; // Quantities on hand are subtracted from what the plan needs
+}
+
+// Merges existing manual items with newly calculated plan items.
+// pantryStaples are always-stocked keywords and excluded entirely; the pantry inventory is subtracted by quantity.
 export const mergeShoppingList = (
     currentList: ShoppingItem[], 
     plan: MealPlanItem[], 
     recipes: Recipe[], 
-    pantryStaples: string[]
+    pantryStaples: string[],
+    options: ShoppingListOptions = {}
 ): ShoppingItem[] => {
     
     // 1. Keep manual items
     const manualItems = currentList.filter(item => item.is_manually_added);
     
     // 2. Map existing checked status AND IDs for persistence
+    // Keyed by unit group rather than unit, so "1 kg flour" keeps its state when it becomes "1.2 kg"
+    const keyOf = (name: string, unit: string) => `${name.toLowerCase().trim()}-${unitGroup(unit)}`;
     const statusMap = new Map<string, boolean>();
     const idMap = new Map<string, number>();
 
     currentList.forEach(item => {
-        const key = `${item.item_name.toLowerCase()}-${item.unit.toLowerCase()}`;
+        const key = keyOf(item.item_name, item.unit);
         statusMap.set(key, item.checked);
         if (!item.is_manually_added) {
             idMap.set(key, item.id);
@@ -413,7 +428,7 @@ export const mergeShoppingList = (
         // Add translation keys too to ensure we can match even if language differs
         if (item.translations) {
             Object.values(item.translations).forEach((tr: any) => {
-                 const trKey = `${tr.item_name.toLowerCase()}-${tr.unit.toLowerCase()}`;
+                 const trKey = keyOf(tr.item_name, tr.unit);
                  // Point to the ORIGINAL item's status/ID
                  if (!statusMap.has(trKey)) statusMap.set(trKey, item.checked);
                  if (!idMap.has(trKey)) idMap.set(trKey, item.id);
@@ -421,10 +436,14 @@ export const mergeShoppingList = (
         }
     });
 
-    // 3. Generate new recipe items
-    const generatedMap = new Map<string, ShoppingItem>();
+    // 3. Collect recipe quantities per ingredient name
+    const collected = new Map<string, { template: Ingredient; lang?: string; hasTranslations: boolean; entries: Quantity[] }>();
 
     plan.forEach(meal => {
+        // Leftovers are cooked as part of their source meal, cooked meals already used their ingredients,
+        // entries like eating out and freezer meals need nothing
+        if (meal.is_leftover || meal.is_cooked || meal.entry || meal.freezer_item_id !== undefined) return;
+
         const recipe = recipes.find(r => r.id === meal.recipe_id);
         if (!recipe) return;
         
@@ -435,7 +454,7 @@ export const mergeShoppingList = (
              if (historical) targetRecipe = historical;
         }
 
-        const servings = meal.servings || targetRecipe.servings_default;
+        const servings = (meal.servings || targetRecipe.servings_default) + (meal.leftover_servings || 0);
         const scale = servings / targetRecipe.servings_default;
         
         targetRecipe.ingredients.forEach(ing => {
@@ -449,29 +468,44 @@ export const mergeShoppingList = (
 
             if (isStaple) return;
 
-            const key = `${ing.item_name.toLowerCase()}-${ing.unit.toLowerCase()}`;
-            const quantity = ing.quantity * scale;
-
-            if (generatedMap.has(key)) {
-                const existing = generatedMap.get(key)!;
-                existing.quantity += quantity;
-            } else {
-                // Restore checked status if it existed before
-                // Note: If we found an ID via translation mapping, we use that ID.
-                // This means 'Tomato' will reuse the ID of 'Tomat' if they are linked via translations.
-                const isChecked = statusMap.get(key) || false;
-                const existingId = idMap.get(key);
-                
-                generatedMap.set(key, {
-                    ...ing,
-                    quantity: quantity,
-                    id: existingId || (Date.now() + Math.random()), // Preserve ID if exists
-                    checked: isChecked,
-                    is_manually_added: false,
-                    lang: targetRecipe.lang, // Inherit language
-                    translations: targetRecipe.translations ? {} : undefined // Init empty translations for item
+            const nameKey = ing.item_name.toLowerCase().trim();
+            if (!collected.has(nameKey)) {
+                collected.set(nameKey, {
+                    template: ing,
+                    lang: targetRecipe.lang,
+                    hasTranslations: !!targetRecipe.translations,
+                    entries: []
                 });
             }
+            collected.get(nameKey)!.entries.push({ quantity: ing.quantity * scale, unit: ing.unit });
+        });
+    });
+
+    // Merge compatible units (200 g + 2 tbsp butter), pick a display unit and round to shop-friendly amounts
+    const generatedMap = new Map<string, ShoppingItem>();
+    collected.forEach(({ template, lang, hasTranslations, entries }) => {
+        mergeQuantities(entries, template.item_name).forEach(({ quantity: needed, unit }) => {
+            const quantity = options.pantry ? remainingToBuy(options.pantry, template.item_name, needed, unit) : needed;
+            if (quantity <= 0 && needed > 0) return; // Fully covered by the pantry
+
+            const key = keyOf(template.item_name, unit);
+
+            // Restore checked status if it existed before
+            // Note: If we found an ID via translation mapping, we use that ID.
+            // This means 'Tomato' will reuse the ID of 'Tomat' if they are linked via translations.
+            const isChecked = statusMap.get(key) || false;
+            const existingId = idMap.get(key);
+
+            generatedMap.set(key, {
+                ...template,
+                quantity,
+                unit,
+                id: existingId || newId(), // Preserve ID if exists
+                checked: isChecked,
+                is_manually_added: false,
+                lang, // Inherit language
+                translations: hasTranslations ? {} : undefined // Init empty translations for item
+            });
         });
     });
 
@@ -0,0 +1,98 @@
+import { PantryItem, ShoppingItem, Ingredient, MealPlanItem, Recipe } from '../types';
+import { convert, roundForShopping } from './units';
+
+// --- Pantry Inventory ---
+// Items are matched by name (case-insensitive). Quantities in different but compatible units
+// (dl vs ml, or dl vs g with a known density) are converted before adding or subtracting.
+
+const nameKey = (name: string) => (name || '').toLowerCase().trim();
+
+const itemsNamed = (pantry: PantryItem[], name: string) =>
+    pantry.filter(p => nameKey(p.item_name) === nameKey(name));
+
+// How much of an ingredient is on hand, expressed in `unit`
+export const availableInPantry = (pantry: PantryItem[], name: string, unit: string): number =>
+    itemsNamed(pantry, name).reduce((sum, p) => sum + (convert(p.quantity, p.unit, unit, name) ?? 0), 0);
+
+// Quantity still to buy after using what's in the pantry, rounded to a shop-friendly amount
+export const remainingToBuy = (pantry: PantryItem[], name: string, quantity: number, unit: string): number => {
+    const missing = quantity - availableInPantry(pantry, name, unit);
+    return missing > 1e-6 ? roundForShopping(missing, unit) : 0;
+};
+
+// Applies a signed change to the pantry. Returns only the items that changed (new ones included).
+const applyChanges = (
+    pantry: PantryItem[],
+    changes: { item_name: string; quantity: number; unit: string; category: string }[],
+    createMissing: boolean,
+    newId: () => number
+): PantryItem[] => {
+    const working = new Map(pantry.map(p => [p.id, { ...p }]));
+    const changed = new Set<number>();
+    const now = new Date().toISOString();
+
+    changes.forEach(change => {
+        let remaining = change.quantity;
+        for (const item of itemsNamed(Array.from(working.values()), change.item_name)) {
+            if (Math.abs(remaining) < 1e-9) break;
+            const target = working.get(item.id)!;
+            const delta = convert(remaining, change.unit, target.unit, change.item_name);
+            if (delta === null) continue;
+
+            // Consuming can't take an item below zero, carry the rest to the next matching item
+            const next = Math.max(0, target.quantity + delta);
+            const applied = next - target.quantity;
+            target.quantity = parseFloat(next.toFixed(3));
+            target.updated_at = now;
+            changed.add(target.id);
+            remaining -= convert(applied, target.unit, change.unit, change.item_name) ?? applied;
+        }
+
+        if (createMissing && remaining > 1e-9) {
+            const created: PantryItem = {
+                id: newId(),
+                item_name: change.item_name,
+                quantity: parseFloat(remaining.toFixed(3)),
+                unit: change.unit,
+                category: change.category,
+                updated_at: now
+            };
+            working.set(created.id, created);
+            changed.add(created.id);
+        }
+    });
+
+    return Array.from(changed).map(id => working.get(id)!);
+};
+
+// Uses up ingredients when a meal is cooked
+export const consumeFromPantry = (pantry: PantryItem[], ingredients: Ingredient[]): PantryItem[] =>
+    applyChanges(
+        pantry,
+        ingredients.map(i => ({ ...i, quantity: -i.quantity })),
+        false,
+        () => 0
+    );
+
+// Tops the pantry up with bought shopping items, creating entries for new ingredients
+export const restockPantry = (pantry: PantryItem[], bought: ShoppingItem[], newId: () => number): PantryItem[] =>
+    applyChanges(
+        pantry,
+        bought.filter(b => b.quantity > 0).map(b => ({ item_name: b.item_name, quantity: b.quantity, unit: b.unit, category: b.category })),
+        true,
+        newId
+    );
+
+// Ingredients a planned meal uses when cooked: the planned recipe version, scaled to
+// the meal's servings plus any extra servings cooked for leftovers
+export const mealIngredients = (meal: MealPlanItem, recipes: Recipe[]): Ingredient[] => {
+    const recipe = recipes.find(r => r.id === meal.recipe_id);
+    if (!recipe || meal.is_leftover || meal.entry || meal.freezer_item_id !== undefined) return [];
+
+    const target = (meal.recipe_version && meal.recipe_version !== recipe.version)
+        ? recipe.history?.find(h => h.version === meal.recipe_version) || recipe
+        : recipe;
+    const servings = (meal.servings || target.servings_default) + (meal.leftover_servings || 0);
+    const scale = servings / target.servings_default;
+    return target.ingredients.map(i => ({ ...i, quantity: i.quantity * scale }));
+};
@@ -0,0 +1,371 @@
+import { DIFFICULTIES, MealPlanItem, MealType, PlannerSettings, PlanReason, PlanTemplate, Recipe, RecurringRule, ShoppingItem } from '../types';
+import { addDays, daysBetween, weekday, weekdayOfMonth, isLastWeekdayOfMonth } from './dates';
+import { detectDurations } from './timers';
+import { derivedId } from './ids';
+
+// --- Weekly Plan Generator ---
+// Fills a week slot by slot. Every candidate recipe is checked against the constraints; the ones
+// breaking the fewest win, then the highest score (rating, time since last planned, use of what is
+// already on the shopping list, a little jitter). A pick that had to break a constraint says so in
+// its reasons instead of leaving the slot empty.
+//
+// Regenerating replaces every meal of the week that is still open: not locked, cooked, rated,
+// an entry like eating out, from the freezer, a leftover or the source of one. Recurring rules
+// are filled in first and count as fixed. Entries block their slot and don't count towards any limit.
+
+export const DEFAULT_PLANNER_SETTINGS: PlannerSettings = {
+  quick_weekdays: [],
+  quick_max_minutes: 30,
+  avoid_repeat_days: 5,
+  use_shopping_list: true
+};
+
+export const resolvePlannerSettings = (settings?: Partial<PlannerSettings>): PlannerSettings => ({
+  ...DEFAULT_PLANNER_SETTINGS,
+  ...settings
+});
+
+export type PlannerConstraint = 'avoid_repeat' | 'red_meat' | 'veg_fish_days' | 'cuisine' | 'quick' | 'total_time';
+
+// --- Recipe Facts ---
+
+export type ProteinType = 'red_meat' | 'poultry' | 'fish' | 'vegetarian';
+
+const RED_MEAT_KEYWORDS = ['beef', 'pork', 'lamb', 'veal', 'mince', 'bacon', 'ham', 'sausage', 'steak', 'chorizo', 'salami', 'pancetta', 'prosciutto', 'venison', 'guanciale',
+  'nötkött', 'fläsk', 'färs', 'lamm', 'kalv', 'skinka', 'korv', 'biff', 'högrev', 'oxfilé', 'älg', 'hjort'];
+const POULTRY_KEYWORDS = ['chicken', 'turkey', 'duck', 'kyckling', 'kalkon', 'anka'];
+const FISH_KEYWORDS = ['salmon', 'tuna', 'cod', 'fish', 'shrimp', 'prawn', 'crab', 'lobster', 'seafood', 'trout', 'haddock', 'scallop', 'mussel', 'clam', 'anchovy', 'sardine', 'mackerel', 'herring',
+  'lax', 'torsk', 'fisk', 'räk', 'sill', 'makrill', 'kolja', 'sej', 'musslor', 'tonfisk'];
+
+const PROTEIN_CATEGORIES = ['Meat', 'Fish', 'Poultry', 'Seafood'];
+
+// The one meat/fish/vegetarian classification: the generator, the recipe filter and the recipe's badge use it.
+// Keywords decide; an unrecognised ingredient filed under Meat counts as red meat, so the limit errs on the safe side.
+// Keywords match at the start or end of a word: "kycklingfilé" and "nötfärs" match, "champignons" is not ham.
+export const getProteinType = (recipe: Recipe): ProteinType => {
+  const words = recipe.ingredients.flatMap(i => i.item_name.toLowerCase().split(/[^a-z0-9åäöéèüæø]+/).filter(Boolean));
+  const has = (keywords: string[]) => words.some(w => keywords.some(k => w.startsWith(k) || w.endsWith(k)));
+  if (has(RED_MEAT_KEYWORDS)) return 'red_meat';
+  if (has(POULTRY_KEYWORDS)) return 'poultry';
+  if (has(FISH_KEYWORDS)) return 'fish';
+  const categories = recipe.ingredients.map(i => i.category);
+  if (categories.some(c => c === 'Fish' || c === 'Seafood')) return 'fish';
+  if (categories.some(c => PROTEIN_CATEGORIES.includes(c))) return 'red_meat';
+  return 'vegetarian';
+};
+
+const isVegOrFish = (recipe: Recipe) => {
+  const type = getProteinType(recipe);
+  return type === 'vegetarian' || type === 'fish';
+};
+
+// Minutes named in a step ("simmer for 20 minutes"), 0 if none
+export const stepMinutes = (step: string): number =>
+  Math.round(detectDurations(step).reduce((sum, d) => sum + d.seconds, 0) / 60);
+
+// The recipe's total time, or prep plus cook. Without either: durations named in the instructions
+// plus two minutes of prep per ingredient.
+export const estimateMinutes = (recipe: Recipe): number => {
+  if (recipe.total_minutes) return recipe.total_minutes;
+  if (recipe.prep_minutes || recipe.cook_minutes) return (recipe.prep_minutes || 0) + (recipe.cook_minutes || 0);
+  const waiting = recipe.instructions.reduce((sum, step) => sum + stepMinutes(step), 0);
+  const total = Math.max(10, waiting + recipe.ingredients.length * 2);
+  return Math.ceil(total / 5) * 5;
+};
+
+// --- Generator ---
+
+// What a plan operation changed, for the caller to persist
+
+export interface GeneratePlanInput {
+  recipes: Recipe[];
+  plan: MealPlanItem[];
+  shopping: ShoppingItem[];
+  weekStart: string; // First day of the 7-day week, YYYY-MM-DD
+  today: string; // Days before this are left alone
+  slots: MealType[];
+  settings?: Partial<PlannerSettings>;
+  ignoredItems?: string[]; // Staples that say nothing about what to cook
+  recurring?: RecurringRule[];
+  candidates?: (recipe: Recipe) => boolean; // E.g. a saved filter preset; recurring rules ignore it
+  newId: () => number;
+  random?: () => number;
+}
+
+export interface PlanChange {
+  plan: MealPlanItem[];
+  added: MealPlanItem[];
+  removedIds: number[];
+}
+
+// Whether regenerating may replace this meal. Meals in a prep session stay with it.
+export const isReplaceable = (meal: MealPlanItem, plan: MealPlanItem[]) =>
+  !meal.locked && !meal.is_cooked && !meal.rating && !meal.is_leftover && !meal.entry && meal.freezer_item_id === undefined
+  && !meal.prep_date && !plan.some(p => p.is_leftover && p.source_meal_id === meal.id);
+
+interface Candidate {
+  recipe: Recipe;
+  score: number;
+  broken: PlannerConstraint[];
+  reasons: PlanReason[];
+}
+
+export const generateWeekPlan = (input: GeneratePlanInput): PlanChange => {
+  const { recipes, slots, today, newId } = input;
+  if (recipes.length === 0) return { plan: input.plan, added: [], removedIds: [] };
+  const settings = resolvePlannerSettings(input.settings);
+  const random = input.random || Math.random;
+  const week = Array.from({ length: 7 }, (_, i) => addDays(input.weekStart, i));
+  const fillDates = week.filter(d => d >= today);
+
+  const removedIds = input.plan
+    .filter(p => fillDates.includes(p.date) && isReplaceable(p, input.plan))
+    .map(p => p.id);
+  const working = input.plan.filter(p => !removedIds.includes(p.id));
+  const added = fillRecurring(input.recurring || [], recipes, working, fillDates);
+  working.push(...added);
+
+  const byId = new Map(recipes.map(r => [r.id, r]));
+  const minutes = new Map(recipes.map(r => [r.id, estimateMinutes(r)]));
+  const fastest = Math.min(...Array.from(minutes.values()));
+
+  const ignored = (input.ignoredItems || []).map(s => s.toLowerCase());
+  const listNames = settings.use_shopping_list
+    ? Array.from(new Set(input.shopping.map(i => i.item_name.toLowerCase().trim())))
+        .filter(n => n.length >= 3 && !ignored.includes(n))
+    : [];
+
+  // Average of the household's ratings, else the recipe's own
+  const ratingOf = (recipe: Recipe) => {
+    const rated = input.plan.filter(p => p.recipe_id === recipe.id && p.rating);
+    return rated.length > 0
+      ? rated.reduce((acc, p) => acc + (p.rating || 0), 0) / rated.length
+      : (recipe.rating || 3.5);
+  };
+  const ratings = new Map(recipes.map(r => [r.id, ratingOf(r)]));
+
+  const weekMeals = () => working.filter(p => week.includes(p.date) && !p.entry);
+  const mealsOn = (date: string) => working.filter(p => p.date === date && !p.entry);
+  const hasOpenSlot = (date: string) => slots.some(type => !working.some(p => p.date === date && p.type === type));
+  const recipeOf = (meal: MealPlanItem) => byId.get(meal.recipe_id);
+
+  // A veg/fish day has meals and none of them with meat or poultry
+  const allVegOrFish = (meals: MealPlanItem[]) => meals.every(m => {
+    const r = recipeOf(m);
+    return !r || isVegOrFish(r);
+  });
+  const qualifies = (date: string) => mealsOn(date).length > 0 && allVegOrFish(mealsOn(date));
+  const canQualify = (date: string) => allVegOrFish(mealsOn(date)) && (qualifies(date) || (date >= today && hasOpenSlot(date)));
+
+  const evaluate = (recipe: Recipe, date: string, slotsLeft: number, vegNeeded: boolean, vegForced: boolean): Candidate => {
+    const broken: PlannerConstraint[] = [];
+    const reasons: PlanReason[] = [];
+    const recipeMinutes = minutes.get(recipe.id)!;
+    const meals = weekMeals();
+    const cooked = meals.filter(m => !m.is_leftover);
+
+    // Closest planned date of this recipe, before or after
+    const planned = working.filter(p => p.recipe_id === recipe.id).map(p => daysBetween(p.date, date));
+    const daysSince = planned.length > 0 ? Math.min(...planned) : 100;
+    if (settings.avoid_repeat_days > 0 && daysSince < settings.avoid_repeat_days) broken.push('avoid_repeat');
+
+    const protein = getProteinType(recipe);
+    if (settings.max_red_meat_per_week !== undefined && protein === 'red_meat') {
+      const redMeat = meals.filter(m => recipeOf(m) && getProteinType(recipeOf(m)!) === 'red_meat').length;
+      if (redMeat >= settings.max_red_meat_per_week) broken.push('red_meat');
+    }
+    const vegOrFish = protein === 'vegetarian' || protein === 'fish';
+    if (vegForced && !vegOrFish) broken.push('veg_fish_days');
+
+    const cuisine = recipe.cuisine?.toLowerCase();
+    const sameCuisine = cuisine ? cooked.filter(m => recipeOf(m)?.cuisine?.toLowerCase() === cuisine).length : 0;
+    if (settings.max_same_cuisine_per_week !== undefined && cuisine && sameCuisine >= settings.max_same_cuisine_per_week) {
+      broken.push('cuisine');
+    }
+
+    const quickDay = settings.quick_weekdays.includes(weekday(date));
+    const tooHard = !!settings.quick_max_difficulty && !!recipe.difficulty
+      && DIFFICULTIES.indexOf(recipe.difficulty) > DIFFICULTIES.indexOf(settings.quick_max_difficulty);
+    const quick = recipeMinutes <= settings.quick_max_minutes && !tooHard;
+    if (quickDay && !quick) broken.push('quick');
+
+    if (settings.max_total_minutes_per_week !== undefined) {
+      const used = cooked.reduce((sum, m) => sum + (minutes.get(m.recipe_id) || 0), 0);
+      // Leave room for the slots still to fill
+      if (used + recipeMinutes + (slotsLeft - 1) * fastest > settings.max_total_minutes_per_week) broken.push('total_time');
+    }
+
+    const rating = ratings.get(recipe.id)!;
+    const matches = listNames.filter(n => recipe.ingredients.some(i => {
+      const name = i.item_name.toLowerCase();
+      return name.includes(n) || n.includes(name);
+    }));
+
+    let score = rating * 10 + Math.min(daysSince, 30) * 2;
+    score += Math.min(matches.length, 5) * 6;
+    if (vegNeeded && vegOrFish) score += 15;
+    if (cuisine && sameCuisine === 0) score += 5;
+    score += random() * 10;
+
+    if (broken.length > 0) reasons.push({ kind: 'relaxed', value: broken.join(',') });
+    if (vegNeeded && vegOrFish) reasons.push({ kind: 'veg_fish' });
+    if (quickDay && quick) reasons.push({ kind: 'quick', value: recipeMinutes });
+    if (matches.length > 0) reasons.push({ kind: 'uses_list', value: matches.slice(0, 3).join(', ') });
+    if (rating >= 4) reasons.push({ kind: 'rating', value: Math.round(rating * 10) / 10 });
+    if (planned.length === 0) reasons.push({ kind: 'never_planned' });
+    else if (daysSince >= 14) reasons.push({ kind: 'not_recent', value: daysSince });
+    if (cuisine && sameCuisine === 0) reasons.push({ kind: 'variety', value: recipe.cuisine });
+
+    return { recipe, score, broken, reasons };
+  };
+
+  // Open slots are picked from the candidates, or from everything when none match
+  const filtered = input.candidates ? recipes.filter(input.candidates) : recipes;
+  const pool = filtered.length > 0 ? filtered : recipes;
+
+  const openSlots = fillDates.flatMap(date => slots.filter(type => !working.some(p => p.date === date && p.type === type)).map(type => ({ date, type })));
+
+  openSlots.forEach(({ date, type }, index) => {
+    // Force a veg/fish meal once the later days can no longer make up the minimum
+    const minVeg = settings.min_veg_or_fish_days || 0;
+    const certain = week.filter(d => d < date && qualifies(d)).length;
+    const possibleLater = week.filter(d => d > date && canQualify(d)).length;
+    const vegNeeded = minVeg - certain > 0 && canQualify(date);
+    const vegForced = vegNeeded && minVeg - certain > possibleLater;
+
+    const best = pool
+      .map(r => evaluate(r, date, openSlots.length - index, vegNeeded, vegForced))
+      .sort((a, b) => a.broken.length - b.broken.length || b.score - a.score)[0];
+
+    const item: MealPlanItem = {
+      id: newId(),
+      date,
+      type,
+      recipe_id: best.recipe.id,
+      recipe_version: best.recipe.version,
+      is_cooked: false,
+      is_leftover: false,
+      servings: best.recipe.servings_default,
+      plan_reasons: best.reasons
+    };
+    working.push(item);
+    added.push(item);
+  });
+
+  // A recurring meal filled in again keeps its id, so it is replaced rather than removed
+  return { plan: working, added, removedIds: removedIds.filter(id => !added.some(a => a.id === id)) };
+};
+
+// --- Templates ---
+
+const weekDates = (weekStart: string) => Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
+
+// Cooked meals of the week; leftovers follow their source, entries and freezer meals are one-offs
+export const templateFromWeek = (name: string, plan: MealPlanItem[], weekStart: string, id: number): PlanTemplate => {
+  const week = weekDates(weekStart);
+  return {
+    id,
+    name,
+    entries: plan
+      .filter(p => !p.is_leftover && !p.entry && p.freezer_item_id === undefined && week.includes(p.date))
+      .map(p => ({ day: week.indexOf(p.date), type: p.type, recipe_id: p.recipe_id, servings: p.servings }))
+  };
+};
+
+// Puts a template on a week. Past days and meals that have to stay (see isReplaceable) are left alone.
+export const applyTemplate = (
+  template: PlanTemplate,
+  plan: MealPlanItem[],
+  recipes: Recipe[],
+  weekStart: string,
+  today: string,
+  newId: () => number
+): PlanChange => {
+  const week = weekDates(weekStart);
+  const removedIds: number[] = [];
+  const added: MealPlanItem[] = [];
+
+  template.entries.forEach(entry => {
+    const date = week[entry.day];
+    const recipe = recipes.find(r => r.id === entry.recipe_id);
+    if (!date || date < today || !recipe) return;
+    const existing = plan.find(p => p.date === date && p.type === entry.type);
+    if (existing && !isReplaceable(existing, plan)) return;
+    if (existing) removedIds.push(existing.id);
+    added.push({
+      id: newId(),
+      date,
+      type: entry.type,
+      recipe_id: recipe.id,
+      recipe_version: recipe.version,
+      is_cooked: false,
+      is_leftover: false,
+      servings: entry.servings || recipe.servings_default,
+      plan_reasons: [{ kind: 'template', value: template.name }]
+    });
+  });
+
+  return { plan: [...plan.filter(p => !removedIds.includes(p.id)), ...added], added, removedIds };
+};
+
+// --- Recurring Rules ---
+
+export const ruleAppliesOn = (rule: RecurringRule, date: string) =>
+  weekday(date) === rule.weekday
+  && (rule.nth === undefined || (rule.nth === -1 ? isLastWeekdayOfMonth(date) : weekdayOfMonth(date) === rule.nth))
+  && !rule.skipped_dates?.includes(date);
+
+export const ruleRecipes = (rule: RecurringRule, recipes: Recipe[]) => {
+  if (rule.recipe_id !== undefined) return recipes.filter(r => r.id === rule.recipe_id);
+  const keyword = rule.keyword?.trim().toLowerCase();
+  if (!keyword) return [];
+  const tag = keyword.replace(/\s+/g, '-'); // Tags are stored like "kid-favorite"
+  return recipes.filter(r =>
+    r.title.toLowerCase().includes(keyword) || r.cuisine?.toLowerCase().includes(keyword) || r.tags?.some(t => t.includes(tag)));
+};
+
+// Meals for the empty slots on the given days that a rule asks for. A keyword rule takes the
+// matching recipe planned longest ago, so "any taco recipe" rotates. Every device fills weeks as
+// they are shown, so a meal's id comes from its rule and date: synced devices fill the same one.
+export const fillRecurring = (
+  rules: RecurringRule[],
+  recipes: Recipe[],
+  plan: MealPlanItem[],
+  dates: string[]
+): MealPlanItem[] => {
+  const working = [...plan];
+  const added: MealPlanItem[] = [];
+  const lastPlanned = (recipe: Recipe) =>
+    working.filter(p => p.recipe_id === recipe.id).reduce((max, p) => p.date > max ? p.date : max, '');
+
+  dates.forEach(date => rules.forEach(rule => {
+    const id = derivedId('recurring', rule.id, date);
+    // The meal may still be around after being moved to another slot by hand
+    if (!ruleAppliesOn(rule, date) || working.some(p => p.id === id || (p.date === date && p.type === rule.type))) return;
+    const recipe = ruleRecipes(rule, recipes)
+      .sort((a, b) => lastPlanned(a).localeCompare(lastPlanned(b)) || (b.rating || 0) - (a.rating || 0))[0];
+    if (!recipe) return;
+    const item: MealPlanItem = {
+      id,
+      date,
+      type: rule.type,
+      recipe_id: recipe.id,
+      recipe_version: recipe.version,
+      is_cooked: false,
+      is_leftover: false,
+      servings: recipe.servings_default,
+      recurring_rule_id: rule.id,
+      plan_reasons: [{ kind: 'recurring', value: rule.name || rule.keyword || recipe.title }]
+    };
+    working.push(item);
+    added.push(item);
+  }));
+  return added;
+};
+
+// Remembers that a recurring meal was taken off its day, so it isn't filled in again
+export const skipRecurringDate = (rules: RecurringRule[], meal: MealPlanItem, today: string): RecurringRule[] =>
+  rules.map(rule => rule.id !== meal.recurring_rule_id ? rule : {
+    ...rule,
+    skipped_dates: [...(rule.skipped_dates || []).filter(d => d >= today && d !== meal.date), meal.date]
+  });
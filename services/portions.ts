@@ -0,0 +1,17 @@
+import { AppSettings, GuestCount } from '../types';
+
+// --- Portions ---
+// Servings for the household plus guests. A kid counts as half a portion.
+
+export const KID_PORTION = 0.5;
+
+export const portionsFor = (adults: number, kids: number) => Math.max(1, Math.ceil(adults + kids * KID_PORTION));
+
+export const householdServings = (settings: AppSettings, guests?: GuestCount) =>
+  portionsFor(settings.default_adults + (guests?.adults || 0), settings.default_kids + (guests?.kids || 0));
+
+// Servings of a meal after its guests change, keeping any adjustment made on top of them
+export const servingsWithGuests = (servings: number, settings: AppSettings, before?: GuestCount, after?: GuestCount) =>
+  Math.max(1, servings - householdServings(settings, before) + householdServings(settings, after));
+
+export const hasGuests = (guests?: GuestCount) => !!guests && (guests.adults > 0 || guests.kids > 0);
@@ -0,0 +1,136 @@
+import { MealPlanItem, Recipe, SHOPPING_CATEGORIES } from '../types';
+import { mealIngredients } from './pantry';
+import { mergeQuantities, Quantity } from './units';
+import { stepMinutes } from './planner';
+
+// --- Prep Sessions ---
+// Meals cooked ahead on one day share its prep_date. A session has one checklist where every
+// ingredient shows up once (chop all the onions at once) and one timeline that interleaves the
+// steps of all recipes for a single cook.
+
+export interface PrepSession {
+  date: string;
+  meals: MealPlanItem[];
+}
+
+export const prepSessions = (plan: MealPlanItem[]): PrepSession[] => {
+  const byDate = new Map<string, MealPlanItem[]>();
+  plan.forEach(meal => {
+    if (!meal.prep_date || meal.entry || meal.is_leftover) return;
+    byDate.set(meal.prep_date, [...(byDate.get(meal.prep_date) || []), meal]);
+  });
+  return Array.from(byDate.entries())
+    .map(([date, meals]) => ({ date, meals: meals.sort((a, b) => a.date.localeCompare(b.date)) }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+};
+
+// Meals that can join a session on this day: planned recipes from that day on, not yet cooked
+export const canPrepAhead = (meal: MealPlanItem, date: string) =>
+  !meal.entry && !meal.is_leftover && !meal.is_cooked && meal.freezer_item_id === undefined && meal.date >= date;
+
+export interface PrepChecklistItem {
+  item_name: string;
+  quantity: number;
+  unit: string;
+  category: string;
+  notes: string[]; // How it is prepared, e.g. "finely chopped"
+  recipes: string[]; // Titles of the recipes that use it
+}
+
+export const prepChecklist = (meals: MealPlanItem[], recipes: Recipe[]): PrepChecklistItem[] => {
+  const collected = new Map<string, { item_name: string; category: string; entries: Quantity[]; notes: Set<string>; recipes: Set<string> }>();
+
+  meals.forEach(meal => {
+    const title = recipes.find(r => r.id === meal.recipe_id)?.title || '';
+    mealIngredients(meal, recipes).forEach(ing => {
+      const key = ing.item_name.toLowerCase().trim();
+      if (!collected.has(key)) {
+        collected.set(key, { item_name: ing.item_name, category: ing.category, entries: [], notes: new Set(), recipes: new Set() });
+      }
+      const item = collected.get(key)!;
+      item.entries.push({ quantity: ing.quantity, unit: ing.unit });
+      if (ing.note?.trim()) item.notes.add(ing.note.trim().toLowerCase());
+      if (title) item.recipes.add(title);
+    });
+  });
+
+  const categoryIndex = (category: string) => {
+    const index = SHOPPING_CATEGORIES.indexOf(category);
+    return index < 0 ? SHOPPING_CATEGORIES.length : index;
+  };
+
+  return Array.from(collected.values())
+    .flatMap(item => mergeQuantities(item.entries, item.item_name).map(({ quantity, unit }) => ({
+      item_name: item.item_name,
+      quantity,
+      unit,
+      category: item.category,
+      notes: Array.from(item.notes),
+      recipes: Array.from(item.recipes)
+    })))
+    .sort((a, b) => categoryIndex(a.category) - categoryIndex(b.category) || a.item_name.localeCompare(b.item_name));
+};
+
+export interface PrepStep {
+  meal_id: number;
+  recipe_id: number;
+  recipe_title: string;
+  index: number; // Step number within its recipe
+  text: string;
+  start: number; // Minutes after the session starts
+  minutes: number;
+  passive: boolean; // Runs on its own (oven, simmering), the cook moves on to other steps
+}
+
+// Steps without a duration are hands-on work of a few minutes
+const ACTIVE_STEP_MINUTES = 5;
+// Attention a timed step needs before it runs by itself
+const PASSIVE_START_MINUTES = 2;
+
+// One cook, many recipes: always continue the recipe that can go on earliest, preferring the one
+// with the most time left, and start timed steps before moving over to another recipe meanwhile.
+export const prepTimeline = (meals: MealPlanItem[], recipes: Recipe[]): PrepStep[] => {
+  const tracks = meals
+    .map(meal => {
+      const recipe = recipes.find(r => r.id === meal.recipe_id);
+      if (!recipe || meal.entry || meal.is_leftover) return null;
+      const steps = recipe.instructions
+        .map((text, index) => {
+          const timed = stepMinutes(text);
+          return { text, index, minutes: timed || ACTIVE_STEP_MINUTES, passive: timed > 0 };
+        })
+        .filter(step => step.text.trim());
+      return { meal, recipe, steps, next: 0, ready: 0 };
+    })
+    .filter((track): track is NonNullable<typeof track> => !!track);
+
+  const remaining = (track: typeof tracks[number]) =>
+    track.steps.slice(track.next).reduce((sum, step) => sum + step.minutes, 0);
+
+  const timeline: PrepStep[] = [];
+  let now = 0;
+  for (;;) {
+    const open = tracks.filter(track => track.next < track.steps.length);
+    if (open.length === 0) break;
+    const track = open.sort((a, b) =>
+      Math.max(a.ready, now) - Math.max(b.ready, now) || remaining(b) - remaining(a))[0];
+    const step = track.steps[track.next++];
+    const start = Math.max(track.ready, now);
+    timeline.push({
+      meal_id: track.meal.id,
+      recipe_id: track.recipe.id,
+      recipe_title: track.recipe.title,
+      index: step.index,
+      text: step.text,
+      start,
+      minutes: step.minutes,
+      passive: step.passive
+    });
+    track.ready = start + step.minutes;
+    now = step.passive ? start + Math.min(PASSIVE_START_MINUTES, step.minutes) : track.ready;
+  }
+  return timeline;
+};
+
+// "1:05" for 65 minutes into the session
+export const formatOffset = (minutes: number) => `${Math.floor(minutes / 60)}:${String(minutes % 60).padStart(2, '0')}`;
@@ -0,0 +1,91 @@
+import { FilterState, MealPlanItem, Recipe, RecipeCollection } from '../types';
+import { foldText } from './search';
+import { estimateMinutes, getProteinType } from './planner';
+
+// --- Recipe Filters ---
+// One filter for the recipe list, the plan's recipe picker and the generator. Saved presets keep
+// a FilterState as is.
+
+export const EMPTY_FILTER: FilterState = {
+  cuisines: [],
+  ingredientSearch: '',
+  onlySpicy: false,
+  minRating: 0,
+  dietary: [],
+  tags: []
+};
+
+const SPICY_KEYWORDS = ['chili', 'chilli', 'jalapeno', 'jalapeño', 'habanero', 'cayenne', 'sriracha', 'sambal', 'tabasco', 'hot sauce', 'spicy', 'curry', 'masala', 'piri piri', 'harissa'];
+
+export const isRecipeSpicy = (r: Recipe) => {
+  const text = (r.title + ' ' + r.description + ' ' + r.ingredients.map(i => i.item_name).join(' ')).toLowerCase();
+  return SPICY_KEYWORDS.some(k => text.includes(k));
+};
+
+// The filter's groups, from the same classification the plan generator uses
+export const getDietaryType = (r: Recipe): string => {
+  const type = getProteinType(r);
+  return type === 'vegetarian' ? 'Vegetarian' : type === 'fish' ? 'Fish' : 'Meat';
+};
+
+// "Kid favorite " -> "kid-favorite"
+export const normalizeTag = (tag: string) => tag.trim().toLowerCase().replace(/\s+/g, '-');
+
+export const allTags = (recipes: Recipe[]) =>
+  Array.from(new Set(recipes.flatMap(r => r.tags || []))).sort();
+
+// The household's average rating, else the recipe's own
+export const recipeRating = (recipe: Recipe, plan: MealPlanItem[]) => {
+  const rated = plan.filter(p => p.recipe_id === recipe.id && (p.rating || 0) > 0);
+  return rated.length > 0
+    ? rated.reduce((sum, p) => sum + (p.rating || 0), 0) / rated.length
+    : (recipe.rating || 0);
+};
+
+export interface FilterContext {
+  plan: MealPlanItem[]; // For ratings
+  collections?: RecipeCollection[];
+}
+
+export const matchesFilter = (r: Recipe, filter: FilterState, context: FilterContext): boolean => {
+  if (filter.cuisines.length > 0 && (!r.cuisine || !filter.cuisines.includes(r.cuisine))) return false;
+
+  if (filter.ingredientSearch.trim()) {
+    const search = foldText(filter.ingredientSearch.trim());
+    if (!r.ingredients.some(i => foldText(i.item_name).includes(search))) return false;
+  }
+
+  if (filter.onlySpicy && !isRecipeSpicy(r)) return false;
+
+  if (filter.minRating > 0 && recipeRating(r, context.plan) < filter.minRating) return false;
+
+  if (filter.dietary.length > 0 && !filter.dietary.includes(getDietaryType(r))) return false;
+
+  if (filter.tags.length > 0 && !filter.tags.every(tag => r.tags?.includes(tag))) return false;
+
+  if (filter.collection_id !== undefined) {
+    const collection = context.collections?.find(c => c.id === filter.collection_id);
+    if (!collection?.recipe_ids.includes(r.id)) return false;
+  }
+
+  if (filter.maxMinutes && estimateMinutes(r) > filter.maxMinutes) return false;
+
+  // Recipes without a difficulty only show when nothing is picked
+  if (filter.difficulty?.length && (!r.difficulty || !filter.difficulty.includes(r.difficulty))) return false;
+
+  return true;
+};
+
+export const activeFilterCount = (filter: FilterState) => {
+  let count = 0;
+  if (filter.cuisines.length > 0) count++;
+  if (filter.ingredientSearch) count++;
+  if (filter.onlySpicy) count++;
+  if (filter.minRating > 0) count++;
+  if (filter.dietary.length > 0) count++;
+  if (filter.tags.length > 0) count++;
+  if (filter.collection_id !== undefined) count++;
+  if (filter.maxMinutes) count++;
+  if (filter.difficulty?.length) count++;
+  return count;
+};
@@ -0,0 +1,256 @@
+import { Ingredient, Nutrition } from '../types';
+import { parseIngredient, toIngredient } from './ingredientParser';
+import { coerceNumber, RecipeDraft, recipeTiming } from './validation';
+import { parseIngredientLines } from './geminiService';
+
+// --- Structured Recipe Import ---
+// Most recipe sites embed a schema.org Recipe, either as JSON-LD or as microdata attributes.
+// Reading it needs no AI and works offline; AI is only asked about ingredient lines we can't parse.
+
+export type ImportedRecipe = RecipeDraft & { images: string[] };
+
+export interface ImportResult {
+  recipe: ImportedRecipe;
+  source: 'json-ld' | 'microdata';
+  usedAI: boolean; // Some ingredient lines were parsed by the AI fallback
+}
+
+// Fields read from the page before they are turned into a recipe
+interface SchemaRecipe {
+  name?: any;
+  description?: any;
+  recipeYield?: any;
+  recipeIngredient?: any;
+  recipeInstructions?: any;
+  image?: any;
+  recipeCuisine?: any;
+  nutrition?: any;
+  prepTime?: any;
+  cookTime?: any;
+  totalTime?: any;
+}
+
+export const looksLikeHtml = (text: string) => /<\s*(html|head|body|script|div|article)[\s>]/i.test(text);
+
+const asArray = (v: any): any[] => v === undefined || v === null ? [] : Array.isArray(v) ? v : [v];
+
+const hasType = (node: any, type: string) =>
+  asArray(node?.['@type']).some(t => typeof t === 'string' && t.replace(/^.*[/#]/, '') === type);
+
+// Decodes entities and strips markup that sites leave in JSON-LD strings
+const cleanText = (value: any): string => {
+  if (value === undefined || value === null) return '';
+  const text = String(value);
+  if (!/[<&]/.test(text)) return text.replace(/\s+/g, ' ').trim();
+  const doc = new DOMParser().parseFromString(text, 'text/html');
+  return (doc.body.textContent || '').replace(/\s+/g, ' ').trim();
+};
+
+// --- JSON-LD ---
+
+const findRecipeNode = (node: any): any => {
+  if (!node || typeof node !== 'object') return null;
+  if (Array.isArray(node)) {
+    for (const n of node) {
+      const found = findRecipeNode(n);
+      if (found) return found;
+    }
+    return null;
+  }
+  if (hasType(node, 'Recipe')) return node;
+  return findRecipeNode(node['@graph']) || findRecipeNode(node.mainEntity);
+};
+
+const fromJsonLd = (doc: Document): SchemaRecipe | null => {
+  for (const script of Array.from(doc.querySelectorAll('script[type="application/ld+json"]'))) {
+    try {
+      const found = findRecipeNode(JSON.parse(script.textContent || ''));
+      if (found) return found;
+    } catch {
+      // Broken blocks are common (trailing commas, several objects), skip to the next one
+    }
+  }
+  return null;
+};
+
+// --- Microdata ---
+
+const isRecipeScope = (el: Element) => /schema\.org\/Recipe$/i.test(el.getAttribute('itemtype') || '');
+
+const itemValue = (el: Element): string =>
+  el.getAttribute('content') || el.getAttribute('src') || el.getAttribute('href') || el.getAttribute('datetime') || el.textContent || '';
+
+// itemprop elements that belong to `scope` itself, not to a nested item
+const ownProps = (scope: Element, prop: string): Element[] =>
+  Array.from(scope.querySelectorAll(`[itemprop~="${prop}"]`))
+    .filter(el => el.parentElement?.closest('[itemscope]') === scope);
+
+const fromMicrodata = (doc: Document): SchemaRecipe | null => {
+  const scope = Array.from(doc.querySelectorAll('[itemscope][itemtype]')).find(isRecipeScope);
+  if (!scope) return null;
+
+  const values = (prop: string) => ownProps(scope, prop).map(itemValue);
+  // Either HowToStep items with their own "text" prop, or plain elements holding the steps
+  const instructions = ownProps(scope, 'recipeInstructions').map(el => {
+    const steps = el.hasAttribute('itemscope') ? ownProps(el, 'text') : [];
+    return steps.length > 0 ? steps.map(itemValue) : el.textContent || '';
+  });
+  const nutritionScope = ownProps(scope, 'nutrition')[0];
+  const nutrition = nutritionScope
+    ? Object.fromEntries(Array.from(nutritionScope.querySelectorAll('[itemprop]')).map(el => [el.getAttribute('itemprop'), itemValue(el)]))
+    : undefined;
+
+  return {
+    name: values('name')[0],
+    description: values('description')[0],
+    recipeYield: values('recipeYield')[0],
+    recipeIngredient: values('recipeIngredient').concat(values('ingredients')),
+    recipeInstructions: instructions,
+    image: values('image'),
+    recipeCuisine: values('recipeCuisine'),
+    nutrition,
+    prepTime: values('prepTime')[0],
+    cookTime: values('cookTime')[0],
+    totalTime: values('totalTime')[0]
+  };
+};
+
+// --- Field Mapping ---
+
+// Strings, HowToStep, HowToSection and ItemList, flattened to plain steps.
+// A section's name is kept as a prefix on its first step.
+const flattenInstructions = (value: any): string[] => {
+  if (typeof value === 'string') {
+    return value.replace(/<\/(p|li)>|<br\s*\/?>/gi, '\n').split('\n').map(cleanText).filter(Boolean);
+  }
+  if (Array.isArray(value)) return value.flatMap(flattenInstructions);
+  if (!value || typeof value !== 'object') return [];
+
+  if (hasType(value, 'HowToSection') || (value.itemListElement && !value.text)) {
+    const steps = flattenInstructions(value.itemListElement);
+    const name = cleanText(value.name);
+    if (name && steps.length > 0) steps[0] = `${name}: ${steps[0]}`;
+    return steps;
+  }
+  const text = cleanText(value.text || value.name);
+  return text ? [text] : [];
+};
+
+const mapImages = (value: any): string[] =>
+  asArray(value)
+    .flatMap(v => typeof v === 'string' ? [v] : asArray(v?.url || v?.contentUrl))
+    .filter((url: any) => typeof url === 'string' && /^(https?:|data:)/.test(url));
+
+const mapYield = (value: any): number => {
+  for (const v of asArray(value)) {
+    const n = coerceNumber(cleanText(v));
+    if (n && n > 0) return Math.round(n);
+  }
+  return 4;
+};
+
+// ISO 8601 durations ("PT1H30M", "P0DT45M"); some sites write plain minutes instead
+const mapDuration = (value: any): number | undefined => {
+  const text = cleanText(asArray(value)[0]);
+  const iso = text.match(/^P(?:(\d+)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:\d+(?:\.\d+)?S)?)?$/i);
+  if (iso) {
+    const minutes = (Number(iso[1]) || 0) * 1440 + (Number(iso[2]) || 0) * 60 + (Number(iso[3]) || 0);
+    return minutes > 0 ? Math.round(minutes) : undefined;
+  }
+  return coerceNumber(text) ?? undefined;
+};
+
+// schema.org nutrition is per serving; the app stores values per 100 g, so we can only convert
+// when the page says how much a serving weighs.
+const mapNutrition = (value: any): Nutrition | undefined => {
+  if (!value || typeof value !== 'object') return undefined;
+  const servingGrams = /g\b|gram/i.test(cleanText(value.servingSize)) ? coerceNumber(cleanText(value.servingSize)) : null;
+  if (!servingGrams) return undefined;
+
+  const per100 = (v: any) => {
+    const n = coerceNumber(cleanText(v));
+    return n === null ? null : parseFloat((n * 100 / servingGrams).toFixed(1));
+  };
+  const calories = per100(value.calories);
+  if (calories === null) return undefined;
+
+  const fat = per100(value.fatContent) ?? 0;
+  const saturated = per100(value.saturatedFatContent) ?? 0;
+  const sodium = coerceNumber(cleanText(value.sodiumContent));
+  // Sodium is usually given in mg; salt is 2.5 times the sodium weight
+  const sodiumGrams = sodium === null ? 0 : /mg/i.test(cleanText(value.sodiumContent)) ? sodium / 1000 : sodium;
+
+  return {
+    calories,
+    protein: per100(value.proteinContent) ?? 0,
+    carbs: per100(value.carbohydrateContent) ?? 0,
+    sugar: per100(value.sugarContent) ?? 0,
+    fat,
+    saturated_fat: saturated,
+    unsaturated_fat: per100(value.unsaturatedFatContent) ?? Math.max(0, parseFloat((fat - saturated).toFixed(1))),
+    fiber: per100(value.fiberContent) ?? 0,
+    salt: parseFloat((sodiumGrams * 2.5 * 100 / servingGrams).toFixed(2))
+  };
+};
+
+// --- Ingredient Lines ---
+
+const mapIngredients = async (lines: string[]): Promise<{ ingredients: Ingredient[]; usedAI: boolean }> => {
+  const parsed = lines.map(parseIngredient);
+  // Only lines the local parser had to guess at (no amount, no "to taste") go to the AI
+  const unsure = lines.filter((_, i) => !parsed[i].recognized);
+  let fromAI: Ingredient[] | null = null;
+
+  if (unsure.length > 0 && navigator.onLine) {
+    try {
+      fromAI = await parseIngredientLines(unsure);
+    } catch (e) {
+      // Offline-first: keep the local guess rather than failing the import
+      console.warn("AI ingredient fallback failed, keeping local parse", e);
+    }
+  }
+
+  let aiIndex = 0;
+  const ingredients = parsed.map(p => (!p.recognized && fromAI?.[aiIndex++]) || toIngredient(p));
+  return { ingredients, usedAI: !!fromAI };
+};
+
+// --- Entry Point ---
+
+// Returns null when the page has no schema.org Recipe, so the caller can fall back to AI parsing
+export const importRecipeFromHtml = async (html: string): Promise<ImportResult | null> => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const jsonLd = fromJsonLd(doc);
+  const raw = jsonLd || fromMicrodata(doc);
+  if (!raw) return null;
+
+  const title = cleanText(asArray(raw.name)[0]);
+  const lines = asArray(raw.recipeIngredient).map(cleanText).filter(Boolean);
+  if (!title || lines.length === 0) return null;
+
+  const { ingredients, usedAI } = await mapIngredients(lines);
+  const nutrition = mapNutrition(raw.nutrition);
+
+  return {
+    recipe: {
+      title,
+      description: cleanText(raw.description),
+      cuisine: asArray(raw.recipeCuisine).map(cleanText).filter(Boolean).join(', ') || 'Other',
+      servings_default: mapYield(raw.recipeYield),
+      instructions: flattenInstructions(raw.recipeInstructions),
+      ingredients,
+      images: mapImages(raw.image),
+      ...(nutrition ? { nutrition } : {}),
+      ...recipeTiming({ prep: mapDuration(raw.prepTime), cook: mapDuration(raw.cookTime), total: mapDuration(raw.totalTime) })
+    },
+    source: jsonLd ? 'json-ld' : 'microdata',
+    usedAI
+  };
+};
+
+// Visible text of a page, for handing HTML without structured data to the AI parser
+export const htmlToText = (html: string): string => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  doc.querySelectorAll('script, style, noscript, nav, header, footer').forEach(el => el.remove());
+  return (doc.body.textContent || '').replace(/\s+/g, ' ').trim();
+};
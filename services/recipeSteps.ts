@@ -0,0 +1,78 @@
+import { Ingredient, Recipe, RecipeStep } from '../types';
+import { foldText, searchTerms, stem } from './search';
+
+// --- Step Ingredients ---
+// Which ingredients each instruction uses, found by the ingredient's name in the step text: "chop
+// the onions" uses "yellow onion", "stek kycklingen" uses "kycklingfilé". Links the cook sets in
+// edit mode are kept as they are; the rest are found again whenever the recipe is saved. Links
+// name the ingredient rather than its place in the list, so reordering, or a sync merging
+// ingredients and steps from two devices, keeps them on the right ingredient.
+
+// Words that describe an ingredient rather than name it, so "fresh" in a step doesn't pull in
+// "fresh basil leaves"
+const DESCRIPTORS = new Set([
+  'fresh', 'dried', 'frozen', 'canned', 'large', 'small', 'medium', 'whole', 'ground', 'chopped',
+  'sliced', 'diced', 'minced', 'grated', 'crushed', 'finely', 'boneless', 'skinless', 'leaves', 'leaf', 'cloves',
+  'färsk', 'färska', 'torkad', 'torkade', 'fryst', 'frysta', 'stor', 'stora', 'liten', 'små', 'hackad', 'hackade',
+  'riven', 'rivna', 'krossad', 'krossade', 'skivad', 'skivade', 'fint', 'blad', 'klyfta', 'klyftor'
+].map(word => stem(foldText(word))));
+
+// How links refer to an ingredient: "Gul lök " and "gul lök" are the same one
+export const ingredientKey = (name: string) => foldText(name.trim());
+
+// "Tomatoes (canned), crushed" -> the words that name it
+const nameTerms = (ingredient: Ingredient) => {
+  const terms = searchTerms(ingredient.item_name.split(/[,(]/)[0]);
+  const naming = terms.filter(term => !DESCRIPTORS.has(term));
+  return naming.length > 0 ? naming : terms;
+};
+
+// A step word names the ingredient word when they are the same after stemming, or:
+// - the step word is a little longer ("potatisen" for "potatis", which the stemmer leaves)
+// - the step word leads a Swedish compound in the name ("kycklingen" for "kycklingfilé")
+const mentions = (stepTerms: string[], term: string) =>
+  stepTerms.some(word =>
+    word === term
+    || (term.length >= 4 && word.startsWith(term) && word.length - term.length <= 2)
+    || (word.length >= 5 && term.startsWith(word)));
+
+export const detectStepIngredients = (step: string, ingredients: Ingredient[]): number[] => {
+  const stepTerms = searchTerms(step);
+  const found = ingredients.map(ingredient => nameTerms(ingredient).filter(term => mentions(stepTerms, term)));
+  // "Add the chicken stock" is the stock, not the chicken breasts: an ingredient whose mentioned
+  // words are all covered by another's longer match gives way to it
+  return found.flatMap((matched, index) =>
+    matched.length > 0 && !found.some(other => other.length > matched.length && matched.every(term => other.includes(term)))
+      ? [index]
+      : []);
+};
+
+// Links set by hand, as long as the step still reads the way it did then
+const handSet = (recipe: Recipe, index: number): RecipeStep | undefined => {
+  const stored = recipe.steps?.[index];
+  return stored?.manual && stored.text === recipe.instructions[index] ? stored : undefined;
+};
+
+// Indexes into the recipe's ingredients that the step uses
+export const stepIngredients = (recipe: Recipe, index: number): number[] => {
+  const stored = handSet(recipe, index);
+  if (!stored) return detectStepIngredients(recipe.instructions[index] || '', recipe.ingredients);
+  const keys = new Set(stored.ingredients.map(ingredientKey));
+  return recipe.ingredients.flatMap((ing, i) => keys.has(ingredientKey(ing.item_name)) ? [i] : []);
+};
+
+// Steps to save with the recipe: hand-set links stay, the others follow the current text
+export const linkSteps = (recipe: Recipe): RecipeStep[] =>
+  recipe.instructions.map((text, index) => handSet(recipe, index) || {
+    text,
+    ingredients: detectStepIngredients(text, recipe.ingredients).map(i => recipe.ingredients[i].item_name)
+  });
+
+// Keeps hand-set links on an ingredient while its name is edited
+export const renameStepIngredient = (steps: RecipeStep[] | undefined, from: string, to: string) => {
+  const key = ingredientKey(from);
+  return steps?.map(step => ({
+    ...step,
+    ingredients: step.ingredients.map(name => ingredientKey(name) === key ? to : name)
+  }));
+};
@@ -0,0 +1,198 @@
+import { Recipe } from '../types';
+
+// --- Recipe Search ---
+// An in-memory inverted index over everything a recipe says in any language: title, description,
+// instructions, ingredients, cuisine, tags and the cached translations. Text is folded (lowercase,
+// no diacritics, so "kottbullar" finds "köttbullar") and lightly stemmed for English and Swedish.
+// storage keeps it current as recipes are saved and deleted; searchRecipes also re-indexes any
+// recipe object it hasn't seen, so the index can never serve a stale version.
+
+// How much a match in each field counts
+const FIELD_WEIGHTS = {
+  title: 5,
+  tags: 3,
+  cuisine: 3,
+  ingredients: 3,
+  description: 1.5,
+  instructions: 1,
+  translatedTitle: 3,
+  translatedText: 0.75
+};
+
+// Match quality: the exact stem beats a prefix (still typing), which beats a typo
+const PREFIX_MATCH = 0.7;
+const TYPO_MATCH = [1, 0.5, 0.3];
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'the', 'with', 'of', 'in', 'on', 'for', 'to', 'or',
+  'och', 'med', 'i', 'pa', 'av', 'till', 'en', 'ett', 'som', 'eller', 'utan'
+]);
+
+// English and Swedish endings, longest first. Both languages share one list so query and recipe
+// text stem the same way whatever language either is in.
+const SUFFIXES = [
+  'ations', 'heten', 'ingar', 'ation', 'arna', 'erna', 'orna', 'ande', 'ende', 'ings', 'heter',
+  'ing', 'ies', 'are', 'ast', 'est', 'ers', 'es', 'ed', 'ly', 'ar', 'er', 'or', 'en', 'et', 'na',
+  's', 'y', 'a', 'e'
+];
+
+export const foldText = (text: string) =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/ø/g, 'o').replace(/æ/g, 'ae');
+
+// Strips one ending, keeping at least three letters (five for a lone vowel: "pasta" stays)
+export const stem = (word: string) => {
+  for (const suffix of SUFFIXES) {
+    const min = suffix.length === 1 && suffix !== 's' ? 5 : 3;
+    if (word.length - suffix.length >= min && word.endsWith(suffix)) return word.slice(0, -suffix.length);
+  }
+  return word;
+};
+
+const words = (text: string) =>
+  (foldText(text).match(/[a-z0-9]+/g) || []).filter(w => w.length > 1 && !STOP_WORDS.has(w));
+
+export const searchTerms = (text: string) => words(text).map(stem);
+
+interface IndexedRecipe {
+  recipe: Recipe; // The object that was indexed
+  terms: Map<string, number>; // Term -> weight
+}
+
+const documents = new Map<number, IndexedRecipe>();
+const postings = new Map<string, Set<number>>(); // Term -> recipe ids
+
+const recipeTerms = (recipe: Recipe): Map<string, number> => {
+  const counts = new Map<string, Map<number, number>>(); // Term -> field weight -> occurrences
+  const add = (text: string | undefined, weight: number) => {
+    if (!text) return;
+    searchTerms(text).forEach(term => {
+      const byWeight = counts.get(term) || new Map<number, number>();
+      byWeight.set(weight, (byWeight.get(weight) || 0) + 1);
+      counts.set(term, byWeight);
+    });
+  };
+
+  add(recipe.title, FIELD_WEIGHTS.title);
+  add(recipe.description, FIELD_WEIGHTS.description);
+  recipe.instructions.forEach(step => add(step, FIELD_WEIGHTS.instructions));
+  recipe.ingredients.forEach(ing => add(ing.item_name, FIELD_WEIGHTS.ingredients));
+  add(recipe.cuisine, FIELD_WEIGHTS.cuisine);
+  recipe.tags?.forEach(tag => add(tag.replace(/-/g, ' '), FIELD_WEIGHTS.tags));
+  Object.values(recipe.translations || {}).forEach(translated => {
+    add(translated.title, FIELD_WEIGHTS.translatedTitle);
+    add(translated.description, FIELD_WEIGHTS.translatedText);
+    translated.instructions.forEach(step => add(step, FIELD_WEIGHTS.translatedText));
+    translated.ingredients.forEach(ing => add(ing.item_name, FIELD_WEIGHTS.ingredients));
+    add(translated.cuisine, FIELD_WEIGHTS.translatedText);
+  });
+
+  // Each field counts once, repeats within it add a little
+  const terms = new Map<string, number>();
+  counts.forEach((byWeight, term) => {
+    let weight = 0;
+    byWeight.forEach((occurrences, fieldWeight) => { weight += fieldWeight * (1 + Math.log(occurrences)); });
+    terms.set(term, weight);
+  });
+  return terms;
+};
+
+export const removeFromIndex = (id: number) => {
+  const doc = documents.get(id);
+  if (!doc) return;
+  doc.terms.forEach((_, term) => {
+    const ids = postings.get(term);
+    ids?.delete(id);
+    if (ids?.size === 0) postings.delete(term);
+  });
+  documents.delete(id);
+};
+
+export const indexRecipe = (recipe: Recipe) => {
+  removeFromIndex(recipe.id);
+  const terms = recipeTerms(recipe);
+  documents.set(recipe.id, { recipe, terms });
+  terms.forEach((_, term) => {
+    if (!postings.has(term)) postings.set(term, new Set());
+    postings.get(term)!.add(recipe.id);
+  });
+};
+
+export const rebuildIndex = (recipes: Recipe[]) => {
+  documents.clear();
+  postings.clear();
+  recipes.forEach(indexRecipe);
+};
+
+// Edit distance up to max; anything further returns max + 1
+const editDistance = (a: string, b: string, max: number) => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Typos allowed for a query word of this length
+const allowedTypos = (length: number) => length >= 8 ? 2 : length >= 4 ? 1 : 0;
+
+// Index terms a query term can stand for, with their match quality
+const expand = (term: string, isLast: boolean): Map<string, number> => {
+  const matches = new Map<string, number>();
+  if (postings.has(term)) matches.set(term, 1);
+  const typos = allowedTypos(term.length);
+  postings.forEach((_, candidate) => {
+    if (candidate === term) return;
+    let quality = 0;
+    // The word being typed may be a prefix of a longer one
+    if (isLast && term.length >= 2 && candidate.startsWith(term)) quality = PREFIX_MATCH;
+    if (typos > 0) {
+      const distance = editDistance(term, candidate, typos);
+      if (distance <= typos) quality = Math.max(quality, TYPO_MATCH[distance]);
+    }
+    if (quality > 0) matches.set(candidate, quality);
+  });
+  return matches;
+};
+
+// Recipes matching every word of the query, best first. Only recipes from the given list are
+// returned, in the versions given.
+export const searchRecipes = (query: string, recipes: Recipe[]): Recipe[] => {
+  recipes.forEach(r => {
+    if (documents.get(r.id)?.recipe !== r) indexRecipe(r);
+  });
+
+  const queryWords = words(query);
+  if (queryWords.length === 0) return recipes;
+
+  const total = documents.size;
+  const scores = new Map<number, number>(recipes.map(r => [r.id, 0]));
+  queryWords.forEach((word, index) => {
+    const matches = expand(stem(word), index === queryWords.length - 1);
+    const best = new Map<number, number>();
+    matches.forEach((quality, term) => {
+      const ids = postings.get(term)!;
+      const idf = Math.log(1 + total / ids.size);
+      ids.forEach(id => {
+        const score = quality * idf * (documents.get(id)?.terms.get(term) || 0);
+        if (score > (best.get(id) || 0)) best.set(id, score);
+      });
+    });
+    // Every word has to match
+    scores.forEach((score, id) => {
+      if (best.has(id)) scores.set(id, score + best.get(id)!);
+      else scores.delete(id);
+    });
+  });
+
+  return recipes
+    .filter(r => scores.has(r.id))
+    .sort((a, b) => scores.get(b.id)! - scores.get(a.id)! || a.title.localeCompare(b.title));
+};
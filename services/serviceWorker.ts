@@ -0,0 +1,58 @@
+// --- Service Worker ---
+// Registered in production builds only (sw.js is generated at build time, see vite-plugin-sw.ts).
+// A new version installs in the background and waits; the app shows a prompt and calls
+// applyUpdate() when the user accepts, which activates it and reloads the page.
+
+const UPDATE_CHECK_INTERVAL = 60 * 60 * 1000; // 1 hour
+
+let waitingWorker: ServiceWorker | null = null;
+
+export const registerServiceWorker = (onUpdateAvailable: () => void) => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+  const trackInstalling = (worker: ServiceWorker | null) => {
+    worker?.addEventListener('statechange', () => {
+      // With an existing controller, "installed" means an update (not the first install)
+      if (worker.state === 'installed' && navigator.serviceWorker.controller) {
+        waitingWorker = worker;
+        onUpdateAvailable();
+      }
+    });
+  };
+
+  let reloading = false;
+  navigator.serviceWorker.addEventListener('controllerchange', () => {
+    if (reloading) return;
+    reloading = true;
+    window.location.reload();
+  });
+
+  window.addEventListener('load', async () => {
+    try {
+      const registration = await navigator.serviceWorker.register(`${import.meta.env.BASE_URL}sw.js`);
+
+      if (registration.waiting && navigator.serviceWorker.controller) {
+        waitingWorker = registration.waiting;
+        onUpdateAvailable();
+      }
+      registration.addEventListener('updatefound', () => trackInstalling(registration.installing));
+
+      // Long-lived tabs (the plan on a kitchen tablet) still notice new deploys
+      setInterval(() => registration.update().catch(() => {}), UPDATE_CHECK_INTERVAL);
+      document.addEventListener('visibilitychange', () => {
+        if (document.visibilityState === 'visible') registration.update().catch(() => {});
+      });
+    } catch (e) {
+      console.error("Service worker registration failed", e);
+    }
+  });
+};
+
+// Activates the waiting version; the controllerchange listener reloads the page
+export const applyUpdate = () => {
+  if (waitingWorker) {
+    waitingWorker.postMessage({ type: 'SKIP_WAITING' });
+  } else {
+    window.location.reload();
+  }
+};
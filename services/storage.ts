@@ -1,42 +1,52 @@
-import { Recipe, MealPlanItem, ShoppingItem, AppSettings, Store } from '../types';
+import { Recipe, MealPlanItem, ShoppingItem, AppSettings, Store, PantryItem, AIJob, FreezerItem } from '../types';
 import { MOCK_RECIPES, INITIAL_SETTINGS, generateInitialPlan, mergeShoppingList } from './mockData';
+import { STORES, SCHEMA_VERSION, MigrationError, runMigrations } from './migrations';
+import {
+  SYNCED_STORES, SYNC_STATE_KEY, SEED_KEY, SyncState, SyncOp, SyncConflict, RecordClock, PendingChange, SeedRecords,
+  clockKey, nextStamp, observeStamp, newDeviceId, changedFields, syncedFields, recordLocalChange, mergeRemoteOp, settlePending, toSyncOp
+} from './syncLog';
+import { indexRecipe, removeFromIndex, rebuildIndex } from './search';
 
 const DB_NAME = 'homechef-db';
-const DB_VERSION = 1;
 
-const STORES = {
-  RECIPES: 'recipes',
-  PLAN: 'plan',
-  SHOPPING: 'shopping',
-  SETTINGS: 'settings'
-};
+export { STORES };
+
+let dbPromise: Promise<IDBDatabase> | null = null;
 
-// Helper to open DB
+// Helper to open DB (cached). Schema changes are applied by the ordered steps in migrations.ts.
 const openDB = (): Promise<IDBDatabase> => {
-  return new Promise((resolve, reject) => {
-    const request = indexedDB.open(DB_NAME, DB_VERSION);
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, SCHEMA_VERSION);
+    let migrationError: MigrationError | null = null;
 
-    request.onerror = () => reject(request.error);
+    request.onerror = () => reject(migrationError || request.error);
+    request.onblocked = () => console.warn("Database upgrade blocked by another open tab");
     
     request.onupgradeneeded = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result;
-      
-      if (!db.objectStoreNames.contains(STORES.RECIPES)) {
-        db.createObjectStore(STORES.RECIPES, { keyPath: 'id' });
-      }
-      if (!db.objectStoreNames.contains(STORES.PLAN)) {
-        db.createObjectStore(STORES.PLAN, { keyPath: 'id' });
-      }
-      if (!db.objectStoreNames.contains(STORES.SHOPPING)) {
-        db.createObjectStore(STORES.SHOPPING, { keyPath: 'id' });
-      }
-      if (!db.objectStoreNames.contains(STORES.SETTINGS)) {
-        db.createObjectStore(STORES.SETTINGS, { keyPath: 'id' });
-      }
+      const db = request.result;
+      const tx = request.transaction!;
+      runMigrations(db, tx, event.oldVersion).catch(e => {
+          migrationError = e;
+      });
     };
 
-    request.onsuccess = () => resolve(request.result);
+    request.onsuccess = () => {
+      const db = request.result;
+      // Let a newer tab upgrade the schema instead of blocking it
+      db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+      };
+      resolve(db);
+    };
+  }).catch(e => {
+    dbPromise = null;
+    throw e;
   });
+
+  return dbPromise;
 };
 
 // Generic Transaction Helper
@@ -71,51 +81,196 @@ const getAll = <T>(storeName: string): Promise<T[]> => {
     return performTransaction<T[]>(storeName, 'readonly', store => store.getAll());
 };
 
-const put = (storeName: string, item: any): Promise<void> => {
-    return performTransaction(storeName, 'readwrite', store => store.put(item));
+// Promise wrappers for use inside one transaction
+const request = <T>(req: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+});
+
+const completion = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+});
+
+// --- Sync Bookkeeping ---
+
+const SYNCED = new Set(SYNCED_STORES);
+const localChangeListeners = new Set<() => void>();
+
+let deviceId: string | null = null;
+
+const getSyncState = async (): Promise<SyncState> => {
+    const state = await performTransaction<SyncState | undefined>(STORES.SYNC_META, 'readonly', store => store.get(SYNC_STATE_KEY));
+    if (state) {
+        deviceId = state.device_id;
+        return state;
+    }
+    const created: SyncState = { id: SYNC_STATE_KEY, device_id: newDeviceId() };
+    await performTransaction(STORES.SYNC_META, 'readwrite', store => store.put(created));
+    deviceId = created.device_id;
+    return created;
+};
+
+const getDeviceId = async () => deviceId || (await getSyncState()).device_id;
+
+const getSeedKeys = async (tx: IDBTransaction): Promise<Set<string>> => {
+    const seed: SeedRecords | undefined = await request(tx.objectStore(STORES.SYNC_META).get(SEED_KEY));
+    return new Set(seed?.keys || []);
 };
 
-const remove = (storeName: string, id: number): Promise<void> => {
-    return performTransaction(storeName, 'readwrite', store => store.delete(id));
+// Demo records that were never edited: no clock has been kept for them
+const isUntouchedSeed = async (tx: IDBTransaction, seeded: Set<string>, storeName: string, id: IDBValidKey) => {
+    const key = clockKey(storeName, id);
+    return seeded.has(key) && !(await request(tx.objectStore(STORES.SYNC_META).get(key)));
 };
 
-const clear = (storeName: string): Promise<void> => {
-    return performTransaction(storeName, 'readwrite', store => store.clear());
+// Updates the clock and pending entry of one record inside the caller's transaction
+const logChange = async (tx: IDBTransaction, device: string, storeName: string, id: IDBValidKey, change: string[] | 'deleted') => {
+    if (change !== 'deleted' && change.length === 0) return;
+    const key = clockKey(storeName, id);
+    const meta = tx.objectStore(STORES.SYNC_META);
+    const outbox = tx.objectStore(STORES.SYNC_OUTBOX);
+    const clock: RecordClock = (await request(meta.get(key))) || { id: key, fields: {} };
+    const pending: PendingChange = (await request(outbox.get(key))) || { id: key, store: storeName, record_id: id, fields: {} };
+    const next = recordLocalChange(clock, pending, change, nextStamp(device));
+    meta.put(next.clock);
+    outbox.put(next.pending);
 };
 
+interface StoreWrite {
+    store: string;
+    clear?: boolean;
+    puts?: any[];
+    deletes?: IDBValidKey[];
+}
+
+// Every write goes through here. Writes to synced stores are diffed against what is stored and
+// logged for the next sync, in the same transaction so the log can't drift from the data.
+const commit = async (writes: StoreWrite[]): Promise<void> => {
+    const tracked = writes.some(w => SYNCED.has(w.store));
+    const device = tracked ? await getDeviceId() : '';
+    const db = await openDB();
+    const names = new Set(writes.map(w => w.store));
+    if (tracked) {
+        names.add(STORES.SYNC_META);
+        names.add(STORES.SYNC_OUTBOX);
+    }
+    const tx = db.transaction(Array.from(names), 'readwrite');
+    const done = completion(tx);
+
+    try {
+        const seeded = tracked ? await getSeedKeys(tx) : new Set<string>();
+        for (const w of writes) {
+            const store = tx.objectStore(w.store);
+            const puts = w.puts || [];
+            const deletes = w.deletes || [];
+            if (!SYNCED.has(w.store)) {
+                if (w.clear) store.clear();
+                deletes.forEach(id => store.delete(id));
+                puts.forEach(item => store.put(item));
+                continue;
+            }
+
+            const before = new Map<IDBValidKey, any>();
+            if (w.clear) {
+                (await request(store.getAll())).forEach((r: any) => before.set(r.id, r));
+            } else {
+                for (const id of [...deletes, ...puts.map(p => p.id)]) {
+                    const existing = await request(store.get(id));
+                    if (existing) before.set(id, existing);
+                }
+            }
+
+            if (w.clear) store.clear();
+            deletes.forEach(id => store.delete(id));
+            puts.forEach(item => store.put(item));
+
+            const putIds = new Set(puts.map(p => p.id));
+            const removed = w.clear ? Array.from(before.keys()).filter(id => !putIds.has(id)) : deletes.filter(id => before.has(id));
+            for (const id of removed) await logChange(tx, device, w.store, id, 'deleted');
+            for (const item of puts) {
+                // The first edit of a demo record logs all of it, as nothing of it was logged before
+                const logged = !(await isUntouchedSeed(tx, seeded, w.store, item.id));
+                await logChange(tx, device, w.store, item.id, changedFields(w.store, logged ? before.get(item.id) : undefined, item));
+            }
+        }
+    } catch (e) {
+        try { tx.abort(); } catch { /* already finished */ }
+        throw e;
+    }
+
+    await done;
+    writes.filter(w => w.store === STORES.RECIPES).forEach(updateSearchIndex);
+    if (tracked) localChangeListeners.forEach(l => l());
+};
+
+// The search index follows every committed recipe write
+const updateSearchIndex = (w: StoreWrite) => {
+    if (w.clear) rebuildIndex([]);
+    (w.deletes || []).forEach(id => removeFromIndex(id as number));
+    (w.puts || []).forEach(indexRecipe);
+};
+
+// Stores the demo data without logging it, and remembers which records it was
+const seed = async (writes: StoreWrite[]): Promise<void> => {
+    const db = await openDB();
+    const tx = db.transaction([...writes.map(w => w.store), STORES.SYNC_META], 'readwrite');
+    const done = completion(tx);
+    const keys: string[] = [];
+    for (const w of writes) {
+        const store = tx.objectStore(w.store);
+        (w.puts || []).forEach(item => {
+            store.put(item);
+            keys.push(clockKey(w.store, item.id));
+        });
+    }
+    const record: SeedRecords = { id: SEED_KEY, keys };
+    tx.objectStore(STORES.SYNC_META).put(record);
+    await done;
+    writes.filter(w => w.store === STORES.RECIPES).forEach(updateSearchIndex);
+};
+
+const put = (storeName: string, item: any): Promise<void> => commit([{ store: storeName, puts: [item] }]);
+
+const remove = (storeName: string, id: IDBValidKey): Promise<void> => commit([{ store: storeName, deletes: [id] }]);
+
+const clear = (storeName: string): Promise<void> => commit([{ store: storeName, clear: true }]);
+
 // Service API
 export const storage = {
     // Initialization & Seeding
+    // Throws if the database cannot be opened or a migration fails, so the caller can surface it.
     async init(): Promise<boolean> {
         try {
             const recipes = await getAll<Recipe>(STORES.RECIPES);
             if (recipes.length === 0) {
                 console.log("Seeding Database...");
-                // Seed Recipes
-                for (const r of MOCK_RECIPES) await put(STORES.RECIPES, r);
-                
-                // Seed Plan
                 const plan = generateInitialPlan(MOCK_RECIPES);
-                for (const p of plan) await put(STORES.PLAN, p);
-
-                // Seed Settings
-                await put(STORES.SETTINGS, { id: 'config', ...INITIAL_SETTINGS });
-
-                // Seed Shopping List (Derived)
+                // Shopping List (Derived)
                 const list = mergeShoppingList([], plan, MOCK_RECIPES, INITIAL_SETTINGS.pantry_staples);
-                for (const item of list) await put(STORES.SHOPPING, item);
-                
+                await seed([
+                    { store: STORES.RECIPES, puts: MOCK_RECIPES },
+                    { store: STORES.PLAN, puts: plan },
+                    { store: STORES.SETTINGS, puts: [{ id: 'config', ...INITIAL_SETTINGS }] },
+                    { store: STORES.SHOPPING, puts: list }
+                ]);
                 return true;
             }
             return false;
         } catch (e) {
             console.error("DB Init Failed", e);
-            return false;
+            throw e;
         }
     },
 
     // Recipes
-    getRecipes: () => getAll<Recipe>(STORES.RECIPES),
+    getRecipes: async (): Promise<Recipe[]> => {
+        const recipes = await getAll<Recipe>(STORES.RECIPES);
+        rebuildIndex(recipes);
+        return recipes;
+    },
+    getRecipe: (id: number) => performTransaction<Recipe | undefined>(STORES.RECIPES, 'readonly', store => store.get(id)),
     saveRecipe: (recipe: Recipe) => put(STORES.RECIPES, recipe),
     deleteRecipe: (id: number) => remove(STORES.RECIPES, id),
 
@@ -129,19 +284,23 @@ export const storage = {
     getShoppingList: () => getAll<ShoppingItem>(STORES.SHOPPING),
     saveShoppingItem: (item: ShoppingItem) => put(STORES.SHOPPING, item),
     deleteShoppingItem: (id: number) => remove(STORES.SHOPPING, id),
-    saveShoppingList: async (items: ShoppingItem[]) => {
-        // Bulk replace logic: Clear then Add all
-        // Note: In a real app, meaningful diffing is better, but this ensures sync
-        await clear(STORES.SHOPPING);
-        const db = await openDB();
-        const tx = db.transaction(STORES.SHOPPING, 'readwrite');
-        const store = tx.objectStore(STORES.SHOPPING);
-        items.forEach(item => store.put(item));
-        return new Promise<void>((resolve, reject) => {
-            tx.oncomplete = () => resolve();
-            tx.onerror = () => reject(tx.error);
-        });
-    },
+    // Bulk replace; only the items that actually changed are logged for sync
+    saveShoppingList: (items: ShoppingItem[]) => commit([{ store: STORES.SHOPPING, clear: true, puts: items }]),
+
+    // Pantry
+    getPantry: () => getAll<PantryItem>(STORES.PANTRY),
+    savePantryItem: (item: PantryItem) => put(STORES.PANTRY, item),
+    deletePantryItem: (id: number) => remove(STORES.PANTRY, id),
+
+    // Freezer
+    getFreezer: () => getAll<FreezerItem>(STORES.FREEZER),
+    saveFreezerItem: (item: FreezerItem) => put(STORES.FREEZER, item),
+    deleteFreezerItem: (id: number) => remove(STORES.FREEZER, id),
+
+    // AI Job Queue
+    getAIJobs: () => getAll<AIJob>(STORES.AI_JOBS),
+    saveAIJob: (job: AIJob) => put(STORES.AI_JOBS, job),
+    deleteAIJob: (id: number) => remove(STORES.AI_JOBS, id),
 
     // Settings
     getSettings: async (): Promise<AppSettings> => {
@@ -149,4 +308,127 @@ export const storage = {
         return result || INITIAL_SETTINGS;
     },
     saveSettings: (settings: AppSettings) => put(STORES.SETTINGS, { id: 'config', ...settings }),
+
+    // Bulk write across several stores in one transaction (used by backup restore)
+    writeBatch: (writes: { store: string; clear?: boolean; items: any[] }[]) =>
+        commit(writes.map(w => ({ store: w.store, clear: w.clear, puts: w.items }))),
+
+    // --- Sync ---
+
+    // Called after any local write to a synced store
+    onLocalChange: (listener: () => void): (() => void) => {
+        localChangeListeners.add(listener);
+        return () => {
+            localChangeListeners.delete(listener);
+        };
+    },
+
+    getSyncState,
+    saveSyncState: (state: SyncState) => performTransaction<void>(STORES.SYNC_META, 'readwrite', store => store.put(state)),
+
+    // Operations for everything changed since the last push, with current values
+    getPendingOps: async (): Promise<{ pending: PendingChange; op: SyncOp }[]> => {
+        const device = await getDeviceId();
+        const db = await openDB();
+        const tx = db.transaction([STORES.SYNC_OUTBOX, ...SYNCED_STORES], 'readonly');
+        const pending = await request<PendingChange[]>(tx.objectStore(STORES.SYNC_OUTBOX).getAll());
+        const result: { pending: PendingChange; op: SyncOp }[] = [];
+        for (const p of pending) {
+            const record = await request(tx.objectStore(p.store).get(p.record_id));
+            const op = toSyncOp(p, record, device);
+            if (op) result.push({ pending: p, op });
+        }
+        return result;
+    },
+
+    // Drops pushed entries, unless the record changed again while the push was in flight
+    settlePendingOps: async (sent: PendingChange[]): Promise<void> => {
+        const db = await openDB();
+        const tx = db.transaction(STORES.SYNC_OUTBOX, 'readwrite');
+        const done = completion(tx);
+        const outbox = tx.objectStore(STORES.SYNC_OUTBOX);
+        for (const s of sent) {
+            const current: PendingChange | undefined = await request(outbox.get(s.id));
+            if (!current) continue;
+            const rest = settlePending(current, s);
+            if (rest) outbox.put(rest);
+            else outbox.delete(s.id);
+        }
+        await done;
+    },
+
+    // Logs every synced record as changed, so the first device of a household uploads everything.
+    // Untouched demo records are left out; when the household already has data, the demo plan and
+    // list are dropped too, so they don't sit next to the household's week. Returns whether any were.
+    queueFullSnapshot: async (householdHasData: boolean): Promise<boolean> => {
+        const device = await getDeviceId();
+        const db = await openDB();
+        const tx = db.transaction([...SYNCED_STORES, STORES.SYNC_META, STORES.SYNC_OUTBOX], 'readwrite');
+        const done = completion(tx);
+        const seeded = await getSeedKeys(tx);
+        let dropped = false;
+        for (const name of SYNCED_STORES) {
+            const store = tx.objectStore(name);
+            const records = await request<any[]>(store.getAll());
+            for (const r of records) {
+                if (!(await isUntouchedSeed(tx, seeded, name, r.id))) {
+                    await logChange(tx, device, name, r.id, syncedFields(name, r));
+                } else if (householdHasData && (name === STORES.PLAN || name === STORES.SHOPPING)) {
+                    store.delete(r.id);
+                    dropped = true;
+                }
+            }
+        }
+        await done;
+        return dropped;
+    },
+
+    // Drops the recipes, plan and list with their unpushed changes, so the household's can replace
+    // them. Settings stay; the household's values replace them field by field as they arrive.
+    resetSyncedData: async (): Promise<void> => {
+        const db = await openDB();
+        const tx = db.transaction([...SYNCED_STORES, STORES.SYNC_META, STORES.SYNC_OUTBOX], 'readwrite');
+        const done = completion(tx);
+        [STORES.RECIPES, STORES.PLAN, STORES.SHOPPING, STORES.SYNC_OUTBOX].forEach(name => tx.objectStore(name).clear());
+        const meta = tx.objectStore(STORES.SYNC_META);
+        const state = await request(meta.get(SYNC_STATE_KEY));
+        meta.clear();
+        if (state) meta.put(state);
+        await done;
+    },
+
+    // Merges operations pulled from the server. Returns the conflicts that were resolved
+    // and whether anything local changed.
+    applyRemoteOps: async (ops: SyncOp[]): Promise<{ changed: boolean; conflicts: SyncConflict[] }> => {
+        const device = await getDeviceId();
+        const db = await openDB();
+        const tx = db.transaction([...SYNCED_STORES, STORES.SYNC_META, STORES.SYNC_OUTBOX], 'readwrite');
+        const done = completion(tx);
+        const meta = tx.objectStore(STORES.SYNC_META);
+        const outbox = tx.objectStore(STORES.SYNC_OUTBOX);
+        const conflicts: SyncConflict[] = [];
+        let changed = false;
+
+        for (const op of ops) {
+            if (op.device_id === device || !SYNCED.has(op.store)) continue;
+            [op.deleted, ...Object.values(op.fields || {}).map(f => f.stamp)].forEach(s => s && observeStamp(s));
+
+            const key = clockKey(op.store, op.record_id);
+            const store = tx.objectStore(op.store);
+            const record = await request(store.get(op.record_id));
+            const clock: RecordClock = (await request(meta.get(key))) || { id: key, fields: {} };
+            const pending: PendingChange | null = (await request(outbox.get(key))) || null;
+
+            const result = mergeRemoteOp(record, clock, pending, op, () => nextStamp(device));
+            if (result.record === null) store.delete(op.record_id);
+            else if (result.record !== undefined) store.put(result.record);
+            changed = changed || result.record !== undefined;
+            meta.put(result.clock);
+            if (result.pending) outbox.put(result.pending);
+            else if (pending) outbox.delete(key);
+            conflicts.push(...result.conflicts);
+        }
+        await done;
+        return { changed, conflicts };
+    },
 };
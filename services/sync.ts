@@ -0,0 +1,146 @@
+import { SyncSettings } from '../types';
+import { storage } from './storage';
+import { SyncConflict, SyncOp } from './syncLog';
+
+// --- Household Sync ---
+// Pushes local changes to a self-hosted server (see server/sync-server.mjs) and pulls everyone
+// else's. The server only stores and numbers operations; all merging happens on the devices.
+//
+// A device that starts syncing with a server, or moves to another one, uploads everything it has
+// and merges it with what is there field by field, so no local data or unpushed edit is lost.
+// Replacing the local data with the household's only happens when the user asks for it.
+
+export interface SyncResult {
+  pushed: number;
+  pulled: number;
+  changed: boolean; // Local data changed, the app should reload it
+  conflicts: SyncConflict[];
+}
+
+// What the settings screen shows
+export interface SyncStatus {
+  state: 'idle' | 'syncing' | 'error';
+  last_synced_at?: string;
+  error?: string;
+}
+
+export class SyncError extends Error {
+  status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'SyncError';
+    this.status = status;
+  }
+}
+
+const PAGE_SIZE = 500;
+
+export const isSyncConfigured = (config?: SyncSettings): config is SyncSettings =>
+  !!config?.enabled && !!config.url.trim() && !!config.household.trim();
+
+const baseUrl = (config: SyncSettings) => config.url.trim().replace(/\/+$/, '');
+
+const householdId = (config: SyncSettings) => encodeURIComponent(config.household.trim());
+
+const opsUrl = (config: SyncSettings) => `${baseUrl(config)}/households/${householdId(config)}/ops`;
+
+const call = async (config: SyncSettings, url: string, init?: RequestInit): Promise<any> => {
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (config.token) headers["Authorization"] = `Bearer ${config.token}`;
+
+  let response: Response;
+  try {
+    response = await fetch(url, { ...init, headers });
+  } catch (e) {
+    throw new SyncError(`Sync server unreachable: ${e instanceof Error ? e.message : String(e)}`);
+  }
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    throw new SyncError(`Sync server error: ${body.error || response.statusText}`, response.status);
+  }
+  return response.json();
+};
+
+const pullSince = async (config: SyncSettings, cursor: number): Promise<{ ops: SyncOp[]; cursor: number }> => {
+  const ops: SyncOp[] = [];
+  let more = true;
+  while (more) {
+    const page = await call(config, `${opsUrl(config)}?since=${cursor}&limit=${PAGE_SIZE}`);
+    ops.push(...(page.ops || []));
+    cursor = page.cursor ?? cursor;
+    more = !!page.more;
+  }
+  return { ops, cursor };
+};
+
+const runSync = async (config: SyncSettings): Promise<SyncResult> => {
+  const state = await storage.getSyncState();
+  const endpoint = opsUrl(config);
+  let cursor = state.endpoint === endpoint ? state.cursor ?? 0 : 0;
+
+  // Pull before pushing, so concurrent edits are detected while our own are still pending
+  const pulled = await pullSince(config, cursor);
+  const droppedDemo = state.endpoint !== endpoint && await storage.queueFullSnapshot(pulled.ops.length > 0);
+  const applied = await storage.applyRemoteOps(pulled.ops);
+  cursor = pulled.cursor;
+
+  const pending = await storage.getPendingOps();
+  if (pending.length > 0) {
+    const response = await call(config, endpoint, {
+      method: 'POST',
+      body: JSON.stringify({ device_id: state.device_id, ops: pending.map(p => p.op) })
+    });
+    await storage.settlePendingOps(pending.map(p => p.pending));
+    // Nobody else wrote in between: skip our own operations on the next pull
+    if (response.cursor === cursor + pending.length) cursor = response.cursor;
+  }
+
+  await storage.saveSyncState({ ...state, endpoint, cursor, last_synced_at: new Date().toISOString() });
+  return {
+    pushed: pending.length,
+    pulled: pulled.ops.filter(op => op.device_id !== state.device_id).length,
+    changed: applied.changed || droppedDemo,
+    conflicts: applied.conflicts
+  };
+};
+
+let running: Promise<SyncResult> | null = null;
+
+// One sync at a time; a call while one is running waits for that one
+export const syncNow = (config: SyncSettings): Promise<SyncResult> => {
+  if (!running) {
+    running = runSync(config).finally(() => {
+      running = null;
+    });
+  }
+  return running;
+};
+
+// Drops this device's recipes, plan and list, unpushed edits included, and pulls the household's
+// from the start. Only on the user's request from the settings screen.
+export const replaceWithHousehold = async (config: SyncSettings): Promise<SyncResult> => {
+  if (running) await running.catch(() => {});
+  running = (async () => {
+    await storage.resetSyncedData();
+    const state = await storage.getSyncState();
+    await storage.saveSyncState({ ...state, endpoint: opsUrl(config), cursor: 0 });
+    return { ...(await runSync(config)), changed: true };
+  })().finally(() => {
+    running = null;
+  });
+  return running;
+};
+
+// --- Calendar Feed ---
+// The server keeps the last published .ics and serves it to anyone with the feed URL
+
+export const calendarFeedUrl = (config: SyncSettings, key: string) =>
+  `${baseUrl(config)}/calendars/${householdId(config)}/${key}.ics`;
+
+export const publishCalendarFeed = async (config: SyncSettings, key: string, ics: string): Promise<void> => {
+  await call(config, `${baseUrl(config)}/households/${householdId(config)}/calendar`, {
+    method: 'PUT',
+    body: JSON.stringify({ key, ics })
+  });
+};
@@ -0,0 +1,251 @@
+import { STORES, backfillRecipe, backfillPlanItem, backfillShoppingItem, backfillSettings } from './migrations';
+
+// --- Sync Change Log ---
+// Every write to a synced store is logged per field: a clock per record remembers when each field
+// last changed, and a pending entry per record lists what still has to be pushed. Pending entries
+// are coalesced, so ten edits to a recipe before the next sync push one operation, not ten.
+// Merging is last-writer-wins per field, except concurrent shopping checks where "checked" wins:
+// if one person ticked an item off, it was bought.
+
+export const SYNCED_STORES = [STORES.RECIPES, STORES.PLAN, STORES.SHOPPING, STORES.SETTINGS];
+
+// Per-device settings that never leave the device
+export const LOCAL_SETTINGS_FIELDS = [
+  'id', 'sync', 'openai_api_key', 'ai_provider', 'ai_capabilities', 'local_ai_base_url', 'local_ai_model',
+  'gemini_model', 'gemini_image_model', 'openai_model', 'openai_image_model'
+];
+
+// Hybrid clock: "<ms>.<counter>.<device>", compared as strings. The device suffix breaks ties.
+export type Stamp = string;
+
+export interface RecordClock {
+  id: string; // "<store>:<record id>"
+  fields: Record<string, Stamp>;
+  deleted?: Stamp;
+}
+
+export interface PendingChange {
+  id: string; // Same key as the clock
+  store: string;
+  record_id: IDBValidKey;
+  fields: Record<string, Stamp>; // Values are read from the record when pushing
+  deleted?: Stamp;
+}
+
+export interface SyncState {
+  id: '_state';
+  device_id: string;
+  endpoint?: string; // Server URL and household the cursor belongs to
+  cursor?: number; // Last server sequence number pulled
+  last_synced_at?: string;
+}
+
+// What travels over the wire
+export interface SyncOp {
+  device_id: string;
+  store: string;
+  record_id: IDBValidKey;
+  deleted?: Stamp;
+  fields?: Record<string, { value: any; stamp: Stamp }>; // null value removes the field
+}
+
+export interface SyncConflict {
+  store: string;
+  record_id: IDBValidKey;
+  field: string;
+  label: string;
+}
+
+// The demo recipes, plan and list a new device starts with. They stay out of the log until
+// they are edited, so joining a household doesn't upload a second week of dinners.
+export interface SeedRecords {
+  id: '_seed';
+  keys: string[]; // Clock keys
+}
+
+export const SYNC_STATE_KEY = '_state';
+export const SEED_KEY = '_seed';
+
+export const clockKey = (store: string, id: IDBValidKey) => `${store}:${id}`;
+
+// --- Clock ---
+
+let lastMs = 0;
+let lastCounter = 0;
+
+const parseStamp = (stamp: Stamp) => {
+  const [ms, counter] = stamp.split('.');
+  return { ms: parseInt(ms) || 0, counter: parseInt(counter) || 0 };
+};
+
+export const nextStamp = (device: string): Stamp => {
+  const now = Date.now();
+  if (now > lastMs) {
+    lastMs = now;
+    lastCounter = 0;
+  } else {
+    lastCounter++;
+  }
+  return `${String(lastMs).padStart(13, '0')}.${String(lastCounter).padStart(4, '0')}.${device}`;
+};
+
+// Moves the clock past a remote stamp, so an edit made after pulling always counts as newer
+// even if the other device's clock runs ahead of ours
+export const observeStamp = (stamp: Stamp) => {
+  const { ms, counter } = parseStamp(stamp);
+  if (ms > lastMs || (ms === lastMs && counter > lastCounter)) {
+    lastMs = ms;
+    lastCounter = counter;
+  }
+};
+
+const maxStamp = (stamps: (Stamp | undefined)[]): Stamp =>
+  stamps.reduce<Stamp>((max, s) => s && s > max ? s : max, '');
+
+export const newDeviceId = () =>
+  Array.from(crypto.getRandomValues(new Uint8Array(6)), b => b.toString(16).padStart(2, '0')).join('');
+
+// --- Local Changes ---
+
+export const syncedFields = (store: string, record: any): string[] =>
+  Object.keys(record || {}).filter(f =>
+    f !== 'id' && record[f] !== undefined && !(store === STORES.SETTINGS && LOCAL_SETTINGS_FIELDS.includes(f))
+  );
+
+// Fields whose value differs between two versions of a record
+export const changedFields = (store: string, before: any, after: any): string[] => {
+  const fields = new Set([...syncedFields(store, before), ...syncedFields(store, after)]);
+  return Array.from(fields).filter(f => JSON.stringify(before?.[f]) !== JSON.stringify(after?.[f]));
+};
+
+export const recordLocalChange = (
+  clock: RecordClock,
+  pending: PendingChange,
+  change: string[] | 'deleted',
+  stamp: Stamp
+): { clock: RecordClock; pending: PendingChange } => {
+  if (change === 'deleted') {
+    return {
+      clock: { id: clock.id, fields: {}, deleted: stamp },
+      pending: { ...pending, fields: {}, deleted: stamp }
+    };
+  }
+  const stamps = Object.fromEntries(change.map(f => [f, stamp]));
+  return {
+    clock: { ...clock, fields: { ...clock.fields, ...stamps } },
+    pending: { ...pending, fields: { ...pending.fields, ...stamps } }
+  };
+};
+
+// Turns a pending entry into the operation to push, with the record's current values
+export const toSyncOp = (pending: PendingChange, record: any, device: string): SyncOp | null => {
+  const fields = record
+    ? Object.fromEntries(Object.entries(pending.fields)
+        .filter(([, stamp]) => !pending.deleted || stamp > pending.deleted)
+        .map(([f, stamp]) => [f, { value: record[f] ?? null, stamp }]))
+    : {};
+  if (!pending.deleted && Object.keys(fields).length === 0) return null;
+  return {
+    device_id: device,
+    store: pending.store,
+    record_id: pending.record_id,
+    ...(pending.deleted ? { deleted: pending.deleted } : {}),
+    ...(Object.keys(fields).length > 0 ? { fields } : {})
+  };
+};
+
+// After a push: drops what was sent, keeps anything that changed again in the meantime
+export const settlePending = (current: PendingChange, sent: PendingChange): PendingChange | null => {
+  const fields = Object.fromEntries(Object.entries(current.fields).filter(([f, stamp]) => sent.fields[f] !== stamp));
+  const deleted = current.deleted !== sent.deleted ? current.deleted : undefined;
+  if (!deleted && Object.keys(fields).length === 0) return null;
+  const { deleted: _, ...rest } = current;
+  return { ...rest, fields, ...(deleted ? { deleted } : {}) };
+};
+
+// --- Remote Changes ---
+
+const BACKFILL: Record<string, (r: any) => any> = {
+  [STORES.RECIPES]: backfillRecipe,
+  [STORES.PLAN]: backfillPlanItem,
+  [STORES.SHOPPING]: backfillShoppingItem,
+  [STORES.SETTINGS]: backfillSettings
+};
+
+export interface MergeResult {
+  record: any | null | undefined; // null: delete it, undefined: leave it alone
+  clock: RecordClock;
+  pending: PendingChange | null;
+  conflicts: SyncConflict[];
+}
+
+// Applies one remote operation to the local copy of a record
+export const mergeRemoteOp = (
+  record: any | undefined,
+  clock: RecordClock,
+  pending: PendingChange | null,
+  op: SyncOp,
+  stamp: () => Stamp
+): MergeResult => {
+  let next: any = record ? { ...record } : undefined;
+  let changed = false;
+  let c: RecordClock = { ...clock, fields: { ...clock.fields } };
+  let p: PendingChange | null = pending ? { ...pending, fields: { ...pending.fields } } : null;
+  const conflicts: SyncConflict[] = [];
+
+  if (op.deleted && op.deleted > (c.deleted || '')) {
+    const newestLocal = maxStamp(Object.values(c.fields));
+    if (next && newestLocal > op.deleted) {
+      // Edited here after it was deleted there: keep it and push the whole record back
+      const s = stamp();
+      syncedFields(op.store, next).forEach(f => {
+        c.fields[f] = s;
+        if (p) p.fields[f] = s;
+      });
+      if (!p) p = { id: c.id, store: op.store, record_id: op.record_id, fields: { ...c.fields } };
+    } else {
+      next = undefined;
+      changed = !!record;
+      c = { id: c.id, fields: {}, deleted: op.deleted };
+      p = null;
+    }
+  }
+
+  const checkConflict = (field: string, value: any) =>
+    op.store === STORES.SHOPPING && field === 'checked' && !!p?.fields.checked && !!next && next.checked !== value;
+
+  Object.entries(op.fields || {}).forEach(([f, { value, stamp: remoteStamp }]) => {
+    if (op.store === STORES.SETTINGS && LOCAL_SETTINGS_FIELDS.includes(f)) return;
+    const remoteNewer = remoteStamp > (c.fields[f] || '') && remoteStamp > (c.deleted || '');
+
+    // Both sides changed "checked" since the last sync: keep it checked on every device
+    if (checkConflict(f, value)) {
+      conflicts.push({ store: op.store, record_id: op.record_id, field: f, label: next.item_name || String(op.record_id) });
+      if (!next.checked) {
+        next.checked = true;
+        changed = true;
+      }
+      const s = stamp();
+      c.fields[f] = s;
+      p!.fields[f] = s;
+      return;
+    }
+    if (!remoteNewer) return;
+
+    if (!next) next = { id: op.record_id };
+    if (value === null) delete next[f];
+    else next[f] = value;
+    changed = true;
+    c.fields[f] = remoteStamp;
+    if (p) delete p.fields[f];
+  });
+
+  if (p && !p.deleted && Object.keys(p.fields).length === 0) p = null;
+
+  return {
+    record: !changed ? undefined : next ? BACKFILL[op.store](next) : null,
+    clock: c,
+    pending: p,
+    conflicts
+  };
+};
@@ -0,0 +1,202 @@
+import { newId } from './ids';
+import { NUMBER_PATTERN, parseAmount } from './ingredientParser';
+
+// --- Step Durations ---
+// Durations named in instruction text, English and Swedish: "simmer for 20 minutes", "20–25 min",
+// "1 hour 30 minutes", "an hour and a half", "1 1/2 hours", "half an hour", "en halvtimme", "ca 1½ timme". A range starts its timer at the lower bound,
+// so the cook checks early rather than late.
+
+export interface StepDuration {
+  text: string; // As written in the step
+  index: number; // Where it starts in the step
+  seconds: number;
+  maxSeconds?: number; // Upper end of a range
+}
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, en: 1, ett: 1,
+  two: 2, 'två': 2, three: 3, tre: 3, four: 4, fyra: 4, five: 5, fem: 5, ten: 10, tio: 10,
+  'half an': 0.5, 'half a': 0.5, 'a half': 0.5, 'en halv': 0.5, 'one and a half': 1.5, 'en och en halv': 1.5
+};
+
+const NUMBER = `(${NUMBER_PATTERN}|one and a half|en och en halv|half an?|a half|en halv|an?|one|two|three|four|five|ten|en|ett|två|tre|fyra|fem|tio)`;
+const UNIT = `(seconds?|secs?|sekund(?:er)?|sek|minutes?|mins?|minut(?:er)?|hours?|hrs?|h|timm(?:e|ar)|tim)`;
+const DURATION_PATTERN = new RegExp(
+  `(?<![\\p{L}\\d])(?:(?:${NUMBER}\\s*(?:-|–|to|till|or|eller)\\s*)?${NUMBER}\\s*${UNIT}(\\s+(?:and a half|och en halv))?|(en\\s+)?(halvtimme))(?![\\p{L}])`,
+  'giu'
+);
+
+const numberValue = (text: string) => {
+  const word = NUMBER_WORDS[text.toLowerCase().replace(/\s+/g, ' ')];
+  return word !== undefined ? word : parseAmount(text) ?? 0;
+};
+
+const unitSeconds = (unit: string) => {
+  const u = unit.toLowerCase();
+  if (/^(h|hours?|hrs?|timm(e|ar)|tim)$/.test(u)) return 3600;
+  if (/^(seconds?|secs?|sek(und(er)?)?)$/.test(u)) return 1;
+  return 60;
+};
+
+export const detectDurations = (step: string): StepDuration[] => {
+  const found: (StepDuration & { unit: number; end: number })[] = [];
+  for (const match of step.matchAll(DURATION_PATTERN)) {
+    const [text, from, amount, unit, andHalf, , halfHour] = match;
+    const index = match.index || 0;
+    const end = index + text.length;
+    if (halfHour) {
+      found.push({ text, index, end, seconds: 1800, unit: 60 });
+      continue;
+    }
+    const size = unitSeconds(unit);
+    // "an hour and a half": the half belongs to the amount
+    const seconds = Math.round((numberValue(amount) + (andHalf ? 0.5 : 0)) * size);
+    if (seconds <= 0) continue;
+    const previous = found[found.length - 1];
+    // "1 hour 30 minutes", "1 timme och 15 minuter": one duration
+    if (!from && previous && !previous.maxSeconds && previous.unit > size && /^\s*(,|and|och)?\s*$/i.test(step.slice(previous.end, index))) {
+      previous.seconds += seconds;
+      previous.text = step.slice(previous.index, end);
+      previous.end = end;
+      previous.unit = size;
+      continue;
+    }
+    const lower = from ? Math.round(numberValue(from) * size) : 0;
+    found.push(lower > 0 && lower < seconds
+      ? { text, index, end, seconds: lower, maxSeconds: seconds, unit: size }
+      : { text, index, end, seconds, unit: size });
+  }
+  return found.map(({ unit, end, ...duration }) => duration);
+};
+
+// "20 min", "1 h 30 min", "45 s"
+export const formatDuration = (seconds: number) => {
+  if (seconds < 60) return `${seconds} s`;
+  const minutes = Math.round(seconds / 60);
+  const hours = Math.floor(minutes / 60);
+  return hours > 0 ? `${hours} h${minutes % 60 ? ` ${minutes % 60} min` : ''}` : `${minutes} min`;
+};
+
+// "4:05" or "1:04:05" for a countdown
+export const formatClock = (seconds: number) => {
+  const s = Math.max(0, Math.ceil(seconds));
+  const h = Math.floor(s / 3600);
+  const m = Math.floor((s % 3600) / 60);
+  const rest = String(s % 60).padStart(2, '0');
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${rest}` : `${m}:${rest}`;
+};
+
+// --- Running Timers ---
+// Timers live outside any view, so they keep running while the cook moves between steps, closes
+// the recipe or switches tabs. A running timer stores when it ends, a paused one what was left.
+
+export interface CookingTimer {
+  id: number;
+  label: string;
+  recipe_id?: number;
+  step?: number; // Index of the instruction it was started from
+  seconds: number; // As started, plus any added time
+  ends_at?: number; // ms timestamp while running
+  paused_left?: number; // Seconds left while paused
+  done: boolean;
+}
+
+type TimerListener = (timers: CookingTimer[]) => void;
+
+let timers: CookingTimer[] = [];
+const listeners = new Set<TimerListener>();
+let ticker: ReturnType<typeof setInterval> | null = null;
+
+// Calls the listener with the current timers and after every change. Returns an unsubscribe function.
+export const onTimersChange = (listener: TimerListener): (() => void) => {
+  listeners.add(listener);
+  listener(timers);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const secondsLeft = (timer: CookingTimer, now = Date.now()) =>
+  timer.done ? 0 : timer.ends_at !== undefined ? Math.max(0, (timer.ends_at - now) / 1000) : timer.paused_left || 0;
+
+const update = (next: CookingTimer[]) => {
+  timers = next;
+  listeners.forEach(l => l(timers));
+  const running = timers.some(timer => timer.ends_at !== undefined && !timer.done);
+  if (running && !ticker) ticker = setInterval(checkFinished, 1000);
+  if (!running && ticker) {
+    clearInterval(ticker);
+    ticker = null;
+  }
+};
+
+const checkFinished = () => {
+  const now = Date.now();
+  const finished = timers.filter(timer => !timer.done && timer.ends_at !== undefined && timer.ends_at <= now);
+  if (finished.length === 0) return;
+  update(timers.map(timer => finished.includes(timer) ? { ...timer, done: true, ends_at: undefined } : timer));
+  finished.forEach(ringTimer);
+};
+
+export const startTimer = (input: { label: string; seconds: number; recipe_id?: number; step?: number }): number => {
+  prepareAlerts();
+  const timer: CookingTimer = { ...input, id: newId(), ends_at: Date.now() + input.seconds * 1000, done: false };
+  update([...timers, timer]);
+  return timer.id;
+};
+
+const change = (id: number, fn: (timer: CookingTimer) => CookingTimer) =>
+  update(timers.map(timer => timer.id === id ? fn(timer) : timer));
+
+export const pauseTimer = (id: number) => change(id, timer =>
+  timer.ends_at === undefined ? timer : { ...timer, ends_at: undefined, paused_left: secondsLeft(timer) });
+
+export const resumeTimer = (id: number) => change(id, timer =>
+  timer.paused_left === undefined ? timer : { ...timer, ends_at: Date.now() + timer.paused_left * 1000, paused_left: undefined });
+
+// Extra time; a finished timer starts again with it
+export const addTime = (id: number, seconds: number) => change(id, timer => {
+  if (timer.done) return { ...timer, done: false, seconds: timer.seconds + seconds, ends_at: Date.now() + seconds * 1000 };
+  if (timer.paused_left !== undefined) return { ...timer, seconds: timer.seconds + seconds, paused_left: timer.paused_left + seconds };
+  return { ...timer, seconds: timer.seconds + seconds, ends_at: (timer.ends_at || Date.now()) + seconds * 1000 };
+});
+
+export const dismissTimer = (id: number) => update(timers.filter(timer => timer.id !== id));
+
+// --- Alerts ---
+
+let audio: AudioContext | null = null;
+
+// Browsers only allow sound after a user gesture, so the audio context is created when a timer is
+// started. Notifications are asked for then too, for when the app is in the background.
+const prepareAlerts = () => {
+  try {
+    if (!audio) audio = new AudioContext();
+    if (audio.state === 'suspended') audio.resume().catch(() => {});
+  } catch {
+    audio = null; // No Web Audio; vibration and notifications still work
+  }
+  if ('Notification' in window && Notification.permission === 'default') {
+    Notification.requestPermission().catch(() => {});
+  }
+};
+
+const beep = (at: number) => {
+  if (!audio) return;
+  const oscillator = audio.createOscillator();
+  const gain = audio.createGain();
+  oscillator.frequency.value = 880;
+  gain.gain.setValueAtTime(0.3, at);
+  gain.gain.exponentialRampToValueAtTime(0.001, at + 0.4);
+  oscillator.connect(gain).connect(audio.destination);
+  oscillator.start(at);
+  oscillator.stop(at + 0.4);
+};
+
+const ringTimer = (timer: CookingTimer) => {
+  if (audio) [0, 0.6, 1.2].forEach(offset => beep(audio!.currentTime + offset));
+  if (navigator.vibrate) navigator.vibrate([400, 200, 400, 200, 400]);
+  if (document.hidden && 'Notification' in window && Notification.permission === 'granted') {
+    new Notification(timer.label, { tag: `timer-${timer.id}` });
+  }
+};
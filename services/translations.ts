@@ -9,6 +9,9 @@ export const BASE_TRANSLATIONS = {
     nav_settings: "Settings",
     nav_stats: "Stats",
     loading: "Loading Kitchen...",
+    dbErrorTitle: "Could not open your kitchen data",
+    dbErrorDesc: "The local database failed to load or upgrade. Your data has not been changed.",
+    retry: "Retry",
 
     // Plan View
     plan_title: "Meal Plan",
@@ -42,7 +45,7 @@ export const BASE_TRANSLATIONS = {
     shop_title: "Shopping",
     remaining: "items",
     clear: "Clear",
-    shop_placeholder: "Add item...",
+    shop_placeholder: "Add item, e.g. 2 l milk...",
     shop_empty: "Your list is empty.",
     moveTitle: "Move Item",
     selectCategory: "Select new category for",
@@ -59,7 +62,7 @@ export const BASE_TRANSLATIONS = {
     saved: "saved",
     add: "Add Recipe",
     importTitle: "Add Recipe",
-    importDesc: "Paste a URL, text, or upload a file (PDF/Image). AI will do the rest.",
+    importDesc: "Paste a URL, text or page source, or upload a file (PDF/Image/HTML). Recipe pages with structured data are imported without AI.",
     recipe_placeholder: "e.g., 'Spaghetti Carbonara' or paste full text...",
     parsing: "Parsing...",
     importBtn: "Import Recipe",
@@ -187,6 +190,9 @@ export const BASE_TRANSLATIONS = {
     provider: "AI Provider",
     openaiKey: "OpenAI API Key",
     keyPlaceholder: "sk-...",
+    aiImageModel: "Image model",
+    geminiModel: "Gemini model",
+    openaiModel: "OpenAI model",
     pantryStaples: "Pantry Staples",
     pantryDesc: "Items to always ignore on shopping lists.",
     addStaple: "Add",
@@ -230,7 +236,221 @@ export const BASE_TRANSLATIONS = {
     changeLanguage: "Change Language",
     selectLanguage: "Select Language",
     searchLanguage: "Search language...",
-    generatingPack: "Generating language pack..."
+    generatingPack: "Generating language pack...",
+    backupDesc: "A full backup contains recipes (with versions and translations), meal history, shopping list, settings and stores in one file.",
+    fullBackup: "Full Backup",
+    restoreBackup: "Restore Backup",
+    backupFailed: "Could not create the backup.",
+    restoreTitle: "Restore Backup",
+    restoreInvalid: "This backup cannot be restored",
+    backupCreatedAt: "Backup created:",
+    restoreMerge: "Merge",
+    restoreMergeDesc: "Add and update by id, keep everything else.",
+    restoreReplace: "Replace everything",
+    restoreReplaceDesc: "Delete current data and use only the backup.",
+    restoreAdded: "Added",
+    restoreUpdated: "Updated",
+    restoreRemoved: "Removed",
+    restoreSettingsChanged: "Settings will also be changed.",
+    restoreConfirm: "Restore",
+    restoring: "Restoring...",
+    backup_recipes: "Recipes",
+    backup_plan: "Meal history",
+    backup_shopping: "Shopping list",
+    backup_stores: "Stores",
+    slot_Breakfast: "Breakfast",
+    slot_Lunch: "Lunch",
+    slot_Snack: "Snack",
+    slot_Dinner: "Dinner",
+    mealSlots: "Meal Slots",
+    mealSlotsDesc: "Which meals to plan each day.",
+    leftovers: "leftovers",
+    planLeftovers: "Plan Leftovers",
+    leftoversDesc: "Cook extra servings of",
+    leftoverServings: "Extra servings",
+    leftoverWhen: "Eat leftovers at",
+    leftoversFrom: "Leftovers from",
+    noFreeSlots: "No free slots in the next few days.",
+    pantry: "Pantry",
+    pantryInventoryDesc: "What you have at home. Quantities here are subtracted from the shopping list, used up when a meal is marked cooked and topped up when you clear bought items.",
+    pantryPlaceholder: "Add item...",
+    pantryEmpty: "Your pantry is empty.",
+    markCooked: "Cooked",
+    backup_pantry: "Pantry",
+    aiCapabilitiesDesc: "Use a different provider for specific tasks.",
+    aiCap_text: "Text (summaries)",
+    aiCap_json: "Structured data (recipes, translations)",
+    aiCap_vision: "Photos & documents",
+    aiCap_image: "Image generation",
+    aiDefault: "Default",
+    aiUnsupported: "not supported",
+    providerLocal: "Local",
+    localAiDesc: "Any OpenAI-compatible server, e.g. Ollama or llama.cpp on your home server.",
+    localAiUrl: "Server URL",
+    localAiModel: "Model",
+    aiInvalidResponse: "The AI kept returning data that couldn't be used. Try again or switch provider.",
+    aiRequestFailed: "The AI request failed.",
+    quickIngredientPlaceholder: "Type an ingredient, e.g. 2 dl cream, whipped",
+    updateAvailable: "A new version is available.",
+    reload: "Reload",
+    aiQueued: "You're offline or the AI is busy. The request was saved and will run automatically.",
+    aiQueueShort: "AI queued",
+    aiQueueTitle: "Queued AI requests",
+    aiQueueDesc: "Requests made while offline or rate-limited. They run automatically when the AI is reachable.",
+    aiJob_image: "Generate image",
+    aiJob_nutrition: "Estimate nutrition",
+    aiJob_improvement: "Suggest improvement",
+    aiJob_import: "Import recipe",
+    aiJobRunning: "Running…",
+    aiJobFailed: "Failed",
+    aiJobWaitingOnline: "Waiting for connection",
+    aiJobNextTry: "Next try",
+    aiJobAttempts: "attempts",
+    syncTitle: "Household sync",
+    syncEnabled: "On",
+    syncDesc: "Share recipes, plan and shopping list between devices through your own sync server. A device joining a household adds its own recipes, plan and list to the household's.",
+    syncUrl: "Server URL",
+    syncHousehold: "Household code",
+    syncToken: "Token (optional)",
+    syncReplace: "Replace this device's data with the household's",
+    syncReplaceConfirm: "This device's recipes, plan and shopping list are deleted, including changes not synced yet, and the household's are downloaded instead.",
+    syncReplaceAction: "Replace",
+    syncing: "Syncing…",
+    syncLast: "Last synced",
+    syncNever: "Not synced yet",
+    syncNow: "Sync now",
+    syncCheckConflict: "Changed on another device at the same time, kept as bought:",
+    plannerTitle: "Plan generator",
+    plannerDesc: "Rules for Generate. Lock meals in the plan to keep them when the week is regenerated.",
+    plannerMaxRedMeat: "Max red-meat meals per week",
+    plannerMinVegFish: "Min vegetarian or fish days",
+    plannerMaxCuisine: "Max meals of one cuisine",
+    plannerMaxMinutes: "Max cooking time per week (min)",
+    plannerAvoidRepeat: "No repeats within (days)",
+    plannerQuickMinutes: "Quick meal, max minutes",
+    plannerQuickDays: "Quick meals on",
+    plannerUseList: "Prefer recipes that use up what is on the shopping list",
+    plannerNoLimit: "No limit",
+    planLock: "Lock",
+    planUnlock: "Unlock",
+    planLockDay: "Lock or unlock the day's meals",
+    planWhy: "Why?",
+    planWhyTitle: "Why this recipe?",
+    planReason_rating: "Highly rated",
+    planReason_not_recent: "Days since last planned",
+    planReason_never_planned: "Never planned before",
+    planReason_uses_list: "Uses items on the shopping list",
+    planReason_quick: "Quick day, estimated minutes",
+    planReason_veg_fish: "Counts toward vegetarian or fish days",
+    planReason_variety: "New cuisine this week",
+    planReason_relaxed: "No recipe met every rule, this one broke",
+    planConstraint_avoid_repeat: "no repeats",
+    planConstraint_red_meat: "red-meat limit",
+    planConstraint_veg_fish_days: "vegetarian or fish days",
+    planConstraint_cuisine: "cuisine variety",
+    planConstraint_quick: "quick meal",
+    planConstraint_total_time: "weekly cooking time",
+    planTemplates: "Templates",
+    planTemplatesTitle: "Templates & recurring meals",
+    templateName: "Template name",
+    templateSaveWeek: "Save this week",
+    templateApply: "Apply to this week",
+    templateMeals: "meals",
+    templateEmpty: "No templates yet. Save a week to reuse it.",
+    recurringTitle: "Recurring meals",
+    recurringDesc: "Filled in automatically when a week is shown or generated. Remove or move the meal to skip it that day.",
+    recurringEvery: "Every",
+    recurringNth_1: "First",
+    recurringNth_2: "Second",
+    recurringNth_3: "Third",
+    recurringNth_4: "Fourth",
+    recurringLast: "Last",
+    recurringOfMonth: "of the month",
+    recurringAnyMatching: "Any recipe matching",
+    recurringKeyword: "Title, cuisine or tag, e.g. taco",
+    recurringName: "Name (optional), e.g. Taco Friday",
+    recurringAdd: "Add rule",
+    recurringEmpty: "No recurring meals.",
+    planReason_template: "From template",
+    planReason_recurring: "Recurring meal",
+    calendarExport: "Export to calendar",
+    calendarExportDesc: "Downloads an .ics file with one event per meal. Importing it again updates the same events.",
+    calendarFrom: "From",
+    calendarTo: "To",
+    calendarDownload: "Download .ics",
+    calendarFeed: "Publish the plan as a calendar feed",
+    calendarFeedDesc: "Subscribe to this address in your calendar app. Anyone with the address can see the plan.",
+    copy: "Copy",
+    entry_eating_out: "Eating out",
+    entry_takeaway: "Takeaway",
+    entry_away: "Away",
+    entry_fasting: "Fasting",
+    entryNotCooking: "Not cooking",
+    entryNote: "Note (optional), e.g. at grandma's",
+    guests: "guests",
+    guestsTitle: "Guests",
+    guestsDesc: "Guests on top of your household. Kids count as half a portion.",
+    guestsAdults: "Adults",
+    guestsKids: "Kids",
+    guestsHousehold: "Household",
+    guestsWith: "with guests",
+    calendarBusy: "Busy evenings",
+    calendarBusyDesc: "Import an .ics file from your own calendar. Upcoming events mark their meals as eating out, so the generator leaves them alone.",
+    calendarBusyImport: "Import .ics",
+    calendarBusyMarked: "meals marked as eating out",
+    calendarBusyNone: "No upcoming events in free slots",
+    prepSession: "Prep session",
+    prepSessionDesc: "Cook several meals ahead on one day. You get one checklist for all of them and the steps in the order to do them.",
+    prepCookingDay: "Cooking day",
+    prepAhead: "Prepped",
+    prepNoMeals: "No planned meals in the week after this day.",
+    prepCook: "Start cooking",
+    prepChecklist: "Prep checklist",
+    prepRunsOnItsOwn: "runs on its own",
+    freezerTitle: "Freezer",
+    freezerExpired: "Past best-before",
+    freezerDaysLeft: "days left",
+    freezerUseSoon: "Use soon from the freezer",
+    freezerFrom: "From the freezer",
+    freezerPortions: "portions",
+    freezerFreezeTitle: "Freeze the extra portions?",
+    freezerFreezeDesc: "You cooked more than your household eats.",
+    freezerBestBefore: "Best before",
+    freezerSkip: "Don't freeze",
+    freezerFreeze: "Freeze",
+    freezerFrozenOn: "Frozen",
+    freezerPlanned: "planned",
+    freezerEmpty: "The freezer is empty. Cook extra portions and freeze them when you mark a meal as cooked.",
+    backup_freezer: "Freezer",
+    tags: "Tags",
+    tagsPlaceholder: "Add tags, separated by commas",
+    tagSuggestions: "weeknight, kid-favorite, holiday, batch-friendly",
+    collections: "Collections",
+    collectionNew: "New collection",
+    collectionAdd: "Add",
+    filterPresets: "Saved filters",
+    filterPresetName: "Name, e.g. Weeknight veggie",
+    filterPresetSave: "Save filter",
+    plannerFilterPreset: "Pick recipes from",
+    plannerAllRecipes: "All recipes",
+    timing: "Time (min)",
+    timePrep: "Prep",
+    timeCook: "Cook",
+    timeTotal: "Total",
+    timeActive: "Hands-on",
+    timeActiveShort: "hands-on",
+    timePassiveShort: "on its own",
+    difficulty_easy: "Easy",
+    difficulty_medium: "Medium",
+    difficulty_hard: "Hard",
+    maxTime: "Ready in",
+    plannerQuickDifficulty: "Quick meal, hardest difficulty",
+    plannerAnyDifficulty: "Any",
+    timerDone: "Done!",
+    timerHide: "Hide timers",
+    timerTapHint: "Tap a time to start a timer",
+    stepUses: "Uses",
+    stepUsesAuto: "Detect from text"
   },
   [Language.SV]: {
     nav_plan: "Planering",
@@ -239,6 +459,9 @@ export const BASE_TRANSLATIONS = {
     nav_settings: "Inställningar",
     nav_stats: "Statistik",
     loading: "Laddar Köket...",
+    dbErrorTitle: "Kunde inte öppna köksdatan",
+    dbErrorDesc: "Den lokala databasen kunde inte laddas eller uppgraderas. Din data har inte ändrats.",
+    retry: "Försök igen",
     plan_title: "Matplanering",
     plan_subtitle: "Veckoöversikt",
     noMeals: "Inga måltider planerade.",
@@ -268,7 +491,7 @@ export const BASE_TRANSLATIONS = {
     shop_title: "Inköpslista",
     remaining: "kvar",
     clear: "Rensa",
-    shop_placeholder: "Lägg till vara...",
+    shop_placeholder: "Lägg till vara, t.ex. 2 l mjölk...",
     shop_empty: "Din lista är tom.",
     moveTitle: "Flytta vara",
     selectCategory: "Välj ny kategori för",
@@ -283,7 +506,7 @@ export const BASE_TRANSLATIONS = {
     saved: "sparade",
     add: "Nytt Recept",
     importTitle: "Lägg till recept",
-    importDesc: "Klistra in URL, text eller ladda upp en fil (PDF/Bild). AI fixar resten.",
+    importDesc: "Klistra in URL, text eller sidans källkod, eller ladda upp en fil (PDF/Bild/HTML). Receptsidor med strukturerad data importeras utan AI.",
     recipe_placeholder: "t.ex. 'Köttbullar' eller klistra in text...",
     parsing: "Bearbetar...",
     importBtn: "Importera Recept",
@@ -406,6 +629,9 @@ export const BASE_TRANSLATIONS = {
     provider: "AI Leverantör",
     openaiKey: "OpenAI API Nyckel",
     keyPlaceholder: "sk-...",
+    aiImageModel: "Bildmodell",
+    geminiModel: "Gemini-modell",
+    openaiModel: "OpenAI-modell",
     pantryStaples: "Skafferi & Basvaror",
     pantryDesc: "Varor som inte ska läggas på inköpslistan.",
     addStaple: "Lägg till",
@@ -449,7 +675,221 @@ export const BASE_TRANSLATIONS = {
     changeLanguage: "Byt Språk",
     selectLanguage: "Välj Språk",
     searchLanguage: "Sök språk...",
-    generatingPack: "Genererar språkpaket..."
+    generatingPack: "Genererar språkpaket...",
+    backupDesc: "En full säkerhetskopia innehåller recept (med versioner och översättningar), mathistorik, inköpslista, inställningar och butiker i en fil.",
+    fullBackup: "Full Säkerhetskopia",
+    restoreBackup: "Återställ",
+    backupFailed: "Kunde inte skapa säkerhetskopian.",
+    restoreTitle: "Återställ Säkerhetskopia",
+    restoreInvalid: "Säkerhetskopian kan inte återställas",
+    backupCreatedAt: "Säkerhetskopia skapad:",
+    restoreMerge: "Slå ihop",
+    restoreMergeDesc: "Lägg till och uppdatera per id, behåll resten.",
+    restoreReplace: "Ersätt allt",
+    restoreReplaceDesc: "Radera nuvarande data och använd bara säkerhetskopian.",
+    restoreAdded: "Nya",
+    restoreUpdated: "Uppdaterade",
+    restoreRemoved: "Borttagna",
+    restoreSettingsChanged: "Inställningarna kommer också att ändras.",
+    restoreConfirm: "Återställ",
+    restoring: "Återställer...",
+    backup_recipes: "Recept",
+    backup_plan: "Mathistorik",
+    backup_shopping: "Inköpslista",
+    backup_stores: "Butiker",
+    slot_Breakfast: "Frukost",
+    slot_Lunch: "Lunch",
+    slot_Snack: "Mellanmål",
+    slot_Dinner: "Middag",
+    mealSlots: "Måltider",
+    mealSlotsDesc: "Vilka måltider som planeras varje dag.",
+    leftovers: "rester",
+    planLeftovers: "Planera Rester",
+    leftoversDesc: "Laga extra portioner av",
+    leftoverServings: "Extra portioner",
+    leftoverWhen: "Ät resterna till",
+    leftoversFrom: "Rester från",
+    noFreeSlots: "Inga lediga måltider de närmaste dagarna.",
+    pantry: "Skafferi",
+    pantryInventoryDesc: "Det du har hemma. Mängderna dras av från inköpslistan, förbrukas när en måltid markeras som lagad och fylls på när du rensar köpta varor.",
+    pantryPlaceholder: "Lägg till vara...",
+    pantryEmpty: "Ditt skafferi är tomt.",
+    markCooked: "Lagad",
+    backup_pantry: "Skafferi",
+    aiCapabilitiesDesc: "Använd en annan leverantör för vissa uppgifter.",
+    aiCap_text: "Text (sammanfattningar)",
+    aiCap_json: "Strukturerad data (recept, översättningar)",
+    aiCap_vision: "Foton & dokument",
+    aiCap_image: "Bildgenerering",
+    aiDefault: "Standard",
+    aiUnsupported: "stöds inte",
+    providerLocal: "Lokal",
+    localAiDesc: "Valfri OpenAI-kompatibel server, t.ex. Ollama eller llama.cpp på din hemserver.",
+    localAiUrl: "Serveradress",
+    localAiModel: "Modell",
+    aiInvalidResponse: "AI:n returnerade data som inte gick att använda. Försök igen eller byt leverantör.",
+    aiRequestFailed: "AI-förfrågan misslyckades.",
+    quickIngredientPlaceholder: "Skriv en ingrediens, t.ex. 2 dl grädde, vispad",
+    updateAvailable: "En ny version finns tillgänglig.",
+    reload: "Ladda om",
+    aiQueued: "Du är offline eller så är AI:n upptagen. Förfrågan har sparats och körs automatiskt.",
+    aiQueueShort: "AI i kö",
+    aiQueueTitle: "AI-förfrågningar i kö",
+    aiQueueDesc: "Förfrågningar gjorda offline eller vid hög belastning. De körs automatiskt när AI:n går att nå.",
+    aiJob_image: "Skapa bild",
+    aiJob_nutrition: "Beräkna näringsvärde",
+    aiJob_improvement: "Föreslå förbättring",
+    aiJob_import: "Importera recept",
+    aiJobRunning: "Körs…",
+    aiJobFailed: "Misslyckades",
+    aiJobWaitingOnline: "Väntar på anslutning",
+    aiJobNextTry: "Nästa försök",
+    aiJobAttempts: "försök",
+    syncTitle: "Synkning i hushållet",
+    syncEnabled: "På",
+    syncDesc: "Dela recept, planering och inköpslista mellan enheter via din egen synkserver. En enhet som ansluter till ett hushåll lägger till sina egna recept, sin planering och lista till hushållets.",
+    syncUrl: "Serveradress",
+    syncHousehold: "Hushållskod",
+    syncToken: "Token (valfritt)",
+    syncReplace: "Ersätt enhetens data med hushållets",
+    syncReplaceConfirm: "Enhetens recept, planering och inköpslista raderas, även ändringar som inte synkats än, och hushållets laddas ner i stället.",
+    syncReplaceAction: "Ersätt",
+    syncing: "Synkar…",
+    syncLast: "Senast synkad",
+    syncNever: "Inte synkad än",
+    syncNow: "Synka nu",
+    syncCheckConflict: "Ändrades samtidigt på en annan enhet, behölls som köpt:",
+    plannerTitle: "Planeringsgenerator",
+    plannerDesc: "Regler för Generera. Lås måltider i planen för att behålla dem när veckan genereras om.",
+    plannerMaxRedMeat: "Max måltider med rött kött per vecka",
+    plannerMinVegFish: "Minst antal vegetariska eller fiskdagar",
+    plannerMaxCuisine: "Max måltider från samma kök",
+    plannerMaxMinutes: "Max matlagningstid per vecka (min)",
+    plannerAvoidRepeat: "Inga upprepningar inom (dagar)",
+    plannerQuickMinutes: "Snabb måltid, max minuter",
+    plannerQuickDays: "Snabba måltider på",
+    plannerUseList: "Föredra recept som använder det som står på inköpslistan",
+    plannerNoLimit: "Ingen gräns",
+    planLock: "Lås",
+    planUnlock: "Lås upp",
+    planLockDay: "Lås eller lås upp dagens måltider",
+    planWhy: "Varför?",
+    planWhyTitle: "Varför det här receptet?",
+    planReason_rating: "Högt betyg",
+    planReason_not_recent: "Dagar sedan senast planerad",
+    planReason_never_planned: "Aldrig planerad förut",
+    planReason_uses_list: "Använder varor på inköpslistan",
+    planReason_quick: "Snabb dag, uppskattade minuter",
+    planReason_veg_fish: "Räknas som vegetarisk- eller fiskdag",
+    planReason_variety: "Nytt kök den här veckan",
+    planReason_relaxed: "Inget recept uppfyllde alla regler, det här bröt mot",
+    planConstraint_avoid_repeat: "inga upprepningar",
+    planConstraint_red_meat: "gräns för rött kött",
+    planConstraint_veg_fish_days: "vegetariska eller fiskdagar",
+    planConstraint_cuisine: "variation i kök",
+    planConstraint_quick: "snabb måltid",
+    planConstraint_total_time: "veckans matlagningstid",
+    planTemplates: "Mallar",
+    planTemplatesTitle: "Mallar och återkommande måltider",
+    templateName: "Mallens namn",
+    templateSaveWeek: "Spara veckan",
+    templateApply: "Använd på veckan",
+    templateMeals: "måltider",
+    templateEmpty: "Inga mallar än. Spara en vecka för att återanvända den.",
+    recurringTitle: "Återkommande måltider",
+    recurringDesc: "Fylls i automatiskt när en vecka visas eller genereras. Ta bort eller flytta måltiden för att hoppa över den den dagen.",
+    recurringEvery: "Varje",
+    recurringNth_1: "Första",
+    recurringNth_2: "Andra",
+    recurringNth_3: "Tredje",
+    recurringNth_4: "Fjärde",
+    recurringLast: "Sista",
+    recurringOfMonth: "i månaden",
+    recurringAnyMatching: "Valfritt recept som matchar",
+    recurringKeyword: "Titel, kök eller tagg, t.ex. taco",
+    recurringName: "Namn (valfritt), t.ex. Tacofredag",
+    recurringAdd: "Lägg till regel",
+    recurringEmpty: "Inga återkommande måltider.",
+    planReason_template: "Från mall",
+    planReason_recurring: "Återkommande måltid",
+    calendarExport: "Exportera till kalender",
+    calendarExportDesc: "Laddar ner en .ics-fil med en händelse per måltid. Importeras den igen uppdateras samma händelser.",
+    calendarFrom: "Från",
+    calendarTo: "Till",
+    calendarDownload: "Ladda ner .ics",
+    calendarFeed: "Publicera planen som kalenderflöde",
+    calendarFeedDesc: "Prenumerera på den här adressen i din kalenderapp. Alla som har adressen kan se planen.",
+    copy: "Kopiera",
+    entry_eating_out: "Äter ute",
+    entry_takeaway: "Hämtmat",
+    entry_away: "Bortrest",
+    entry_fasting: "Fasta",
+    entryNotCooking: "Lagar inte mat",
+    entryNote: "Anteckning (valfritt), t.ex. hos mormor",
+    guests: "gäster",
+    guestsTitle: "Gäster",
+    guestsDesc: "Gäster utöver hushållet. Barn räknas som en halv portion.",
+    guestsAdults: "Vuxna",
+    guestsKids: "Barn",
+    guestsHousehold: "Hushåll",
+    guestsWith: "med gäster",
+    calendarBusy: "Upptagna kvällar",
+    calendarBusyDesc: "Importera en .ics-fil från din egen kalender. Kommande händelser markerar måltiderna som att äta ute, så att generatorn lämnar dem ifred.",
+    calendarBusyImport: "Importera .ics",
+    calendarBusyMarked: "måltider markerade som äta ute",
+    calendarBusyNone: "Inga kommande händelser i lediga tillfällen",
+    prepSession: "Förberedelsepass",
+    prepSessionDesc: "Laga flera måltider i förväg på en dag. Du får en checklista för allihop och stegen i den ordning de ska göras.",
+    prepCookingDay: "Matlagningsdag",
+    prepAhead: "Förberedd",
+    prepNoMeals: "Inga planerade måltider veckan efter den här dagen.",
+    prepCook: "Börja laga",
+    prepChecklist: "Förberedelselista",
+    prepRunsOnItsOwn: "sköter sig själv",
+    freezerTitle: "Frys",
+    freezerExpired: "Bäst före har passerat",
+    freezerDaysLeft: "dagar kvar",
+    freezerUseSoon: "Använd snart från frysen",
+    freezerFrom: "Från frysen",
+    freezerPortions: "portioner",
+    freezerFreezeTitle: "Frysa extraportionerna?",
+    freezerFreezeDesc: "Du lagade mer än hushållet äter.",
+    freezerBestBefore: "Bäst före",
+    freezerSkip: "Frys inte",
+    freezerFreeze: "Frys",
+    freezerFrozenOn: "Fryst",
+    freezerPlanned: "planerade",
+    freezerEmpty: "Frysen är tom. Laga extra portioner och frys dem när du markerar en måltid som lagad.",
+    backup_freezer: "Frys",
+    tags: "Taggar",
+    tagsPlaceholder: "Lägg till taggar, separerade med komma",
+    tagSuggestions: "vardag, barnfavorit, högtid, storkok",
+    collections: "Samlingar",
+    collectionNew: "Ny samling",
+    collectionAdd: "Lägg till",
+    filterPresets: "Sparade filter",
+    filterPresetName: "Namn, t.ex. Vardagsvego",
+    filterPresetSave: "Spara filter",
+    plannerFilterPreset: "Välj recept från",
+    plannerAllRecipes: "Alla recept",
+    timing: "Tid (min)",
+    timePrep: "Förberedelse",
+    timeCook: "Tillagning",
+    timeTotal: "Totalt",
+    timeActive: "Aktiv tid",
+    timeActiveShort: "aktiv tid",
+    timePassiveShort: "sköter sig själv",
+    difficulty_easy: "Lätt",
+    difficulty_medium: "Medel",
+    difficulty_hard: "Svår",
+    maxTime: "Klar på",
+    plannerQuickDifficulty: "Snabb måltid, högsta svårighetsgrad",
+    plannerAnyDifficulty: "Alla",
+    timerDone: "Klart!",
+    timerHide: "Dölj timers",
+    timerTapHint: "Tryck på en tid för att starta en timer",
+    stepUses: "Använder",
+    stepUsesAuto: "Hitta i texten"
   }
 };
 
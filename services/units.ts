@@ -0,0 +1,196 @@
+// --- Unit Registry ---
+// Every unit belongs to a base: 'g' (mass), 'ml' (volume) or a count base ('pc', 'can', ...).
+// Units with the same base can be added together; mass and volume meet through ingredient densities.
+
+export type UnitDimension = 'mass' | 'volume' | 'count';
+
+export interface UnitDef {
+  id: string;
+  dimension: UnitDimension;
+  base: string;
+  factor: number; // Amount of base per 1 of this unit
+  step: number; // Shop-friendly rounding step
+  aliases: string[];
+  next?: { unit: string; at: number }; // Promote to a bigger unit once the amount reaches `at`
+}
+
+export const UNIT_REGISTRY: UnitDef[] = [
+  // Count
+  { id: 'pc', dimension: 'count', base: 'pc', factor: 1, step: 1, aliases: ['pcs', 'piece', 'pieces', 'x', 'whole'] },
+  { id: 'st', dimension: 'count', base: 'pc', factor: 1, step: 1, aliases: ['styck', 'stk', 'stycken'] },
+  { id: 'pkt', dimension: 'count', base: 'pkt', factor: 1, step: 1, aliases: ['pack', 'package', 'packet', 'paket', 'förp', 'förpackning'] },
+  { id: 'can', dimension: 'count', base: 'can', factor: 1, step: 1, aliases: ['cans', 'tin', 'tins', 'burk', 'burkar'] },
+  { id: 'jar', dimension: 'count', base: 'jar', factor: 1, step: 1, aliases: ['jars', 'glas'] },
+  { id: 'btl', dimension: 'count', base: 'btl', factor: 1, step: 1, aliases: ['bottle', 'bottles', 'flaska', 'flaskor'] },
+  { id: 'bunch', dimension: 'count', base: 'bunch', factor: 1, step: 1, aliases: ['bunches', 'knippe', 'knippen'] },
+  { id: 'head', dimension: 'count', base: 'head', factor: 1, step: 1, aliases: ['heads', 'huvud', 'huvuden'] },
+  { id: 'clove', dimension: 'count', base: 'clove', factor: 1, step: 1, aliases: ['cloves', 'klyfta', 'klyftor'] },
+  { id: 'slices', dimension: 'count', base: 'slices', factor: 1, step: 1, aliases: ['slice', 'skiva', 'skivor'] },
+  { id: 'port', dimension: 'count', base: 'port', factor: 1, step: 1, aliases: ['portion', 'portions', 'serving', 'servings'] },
+
+  // Mass
+  { id: 'mg', dimension: 'mass', base: 'g', factor: 0.001, step: 1, aliases: ['milligram', 'milligrams'], next: { unit: 'g', at: 1000 } },
+  { id: 'g', dimension: 'mass', base: 'g', factor: 1, step: 5, aliases: ['gr', 'gram', 'grams'], next: { unit: 'kg', at: 1000 } },
+  { id: 'hg', dimension: 'mass', base: 'g', factor: 100, step: 0.5, aliases: ['hekto', 'hektogram'], next: { unit: 'kg', at: 10 } },
+  { id: 'kg', dimension: 'mass', base: 'g', factor: 1000, step: 0.1, aliases: ['kilo', 'kilos', 'kilogram', 'kilograms'] },
+  { id: 'oz', dimension: 'mass', base: 'g', factor: 28.35, step: 0.5, aliases: ['ounce', 'ounces'], next: { unit: 'lb', at: 16 } },
+  { id: 'lb', dimension: 'mass', base: 'g', factor: 453.6, step: 0.25, aliases: ['lbs', 'pound', 'pounds'] },
+
+  // Volume (metric)
+  { id: 'ml', dimension: 'volume', base: 'ml', factor: 1, step: 5, aliases: ['milliliter', 'milliliters', 'millilitre'], next: { unit: 'l', at: 1000 } },
+  { id: 'cl', dimension: 'volume', base: 'ml', factor: 10, step: 1, aliases: ['centiliter', 'centilitre'], next: { unit: 'dl', at: 10 } },
+  { id: 'dl', dimension: 'volume', base: 'ml', factor: 100, step: 0.5, aliases: ['deciliter', 'decilitre'], next: { unit: 'l', at: 10 } },
+  { id: 'l', dimension: 'volume', base: 'ml', factor: 1000, step: 0.1, aliases: ['liter', 'liters', 'litre', 'litres', 'lit'] },
+
+  // Volume (Swedish spoons)
+  { id: 'krm', dimension: 'volume', base: 'ml', factor: 1, step: 1, aliases: ['kryddmått'], next: { unit: 'tsk', at: 5 } },
+  { id: 'tsk', dimension: 'volume', base: 'ml', factor: 5, step: 0.5, aliases: ['tesked', 'teskedar'], next: { unit: 'msk', at: 3 } },
+  { id: 'msk', dimension: 'volume', base: 'ml', factor: 15, step: 0.5, aliases: ['matsked', 'matskedar'], next: { unit: 'dl', at: 7 } },
+
+  // Volume (US spoons and cups)
+  { id: 'pinch', dimension: 'volume', base: 'ml', factor: 0.5, step: 1, aliases: ['pinches', 'nypa', 'nypor'] },
+  { id: 'tsp', dimension: 'volume', base: 'ml', factor: 5, step: 0.5, aliases: ['teaspoon', 'teaspoons', 'tsps'], next: { unit: 'tbsp', at: 3 } },
+  { id: 'tbsp', dimension: 'volume', base: 'ml', factor: 15, step: 0.5, aliases: ['tablespoon', 'tablespoons', 'tbs', 'tbsps'], next: { unit: 'cup', at: 16 } },
+  { id: 'cup', dimension: 'volume', base: 'ml', factor: 240, step: 0.25, aliases: ['cups', 'kopp', 'koppar'] },
+  { id: 'floz', dimension: 'volume', base: 'ml', factor: 29.57, step: 1, aliases: ['fl oz', 'fl. oz', 'fluid ounce', 'fluid ounces'], next: { unit: 'cup', at: 8 } },
+];
+
+// Unit ids for pickers, in registry order
+export const UNITS = UNIT_REGISTRY.map(u => u.id);
+
+const UNIT_LOOKUP = new Map<string, UnitDef>();
+UNIT_REGISTRY.forEach(u => {
+  UNIT_LOOKUP.set(u.id, u);
+  u.aliases.forEach(a => UNIT_LOOKUP.set(a, u));
+});
+
+const cleanUnit = (raw: string) => (raw || '').trim().toLowerCase().replace(/\.$/, '');
+
+export const findUnit = (raw: string): UnitDef | undefined => UNIT_LOOKUP.get(cleanUnit(raw));
+
+// Canonical id for a known unit, otherwise the cleaned-up input
+export const normalizeUnit = (raw: string): string => findUnit(raw)?.id ?? cleanUnit(raw);
+
+// --- Densities ---
+// Grams per millilitre. Matched by keyword against the ingredient name (EN + SV), longest keyword first.
+
+const DENSITIES: [string, number][] = [
+  ['powdered sugar', 0.5], ['icing sugar', 0.5], ['florsocker', 0.5],
+  ['brown sugar', 0.8], ['farinsocker', 0.8],
+  ['sugar', 0.85], ['socker', 0.85],
+  ['wheat flour', 0.53], ['vetemjöl', 0.53], ['flour', 0.53], ['mjöl', 0.53],
+  ['oats', 0.35], ['havregryn', 0.35],
+  ['rice', 0.85], ['ris', 0.85],
+  ['butter', 0.91], ['smör', 0.91],
+  ['olive oil', 0.92], ['olivolja', 0.92], ['oil', 0.92], ['olja', 0.92],
+  ['honey', 1.42], ['honung', 1.42],
+  ['syrup', 1.37], ['sirap', 1.37],
+  ['milk', 1.03], ['mjölk', 1.03],
+  ['cream', 1.0], ['grädde', 1.0],
+  ['crème fraiche', 1.0], ['creme fraiche', 1.0],
+  ['yogurt', 1.03], ['yoghurt', 1.03],
+  ['grated cheese', 0.4], ['riven ost', 0.4],
+  ['cocoa', 0.45], ['kakao', 0.45],
+  ['salt', 1.2],
+  ['water', 1.0], ['vatten', 1.0],
+  ['stock', 1.0], ['broth', 1.0], ['buljong', 1.0], ['fond', 1.0],
+];
+
+const SORTED_DENSITIES = [...DENSITIES].sort((a, b) => b[0].length - a[0].length);
+
+export const getDensity = (itemName: string): number | undefined => {
+  const name = (itemName || '').toLowerCase();
+  // Keyword at the start or end of a word, so Swedish compounds like "matlagningsgrädde" still match
+  const match = SORTED_DENSITIES.find(([keyword]) =>
+    new RegExp(`(^|[^\\p{L}])${keyword}|${keyword}($|[^\\p{L}])`, 'u').test(name)
+  );
+  return match?.[1];
+};
+
+// --- Conversion ---
+
+export const convert = (quantity: number, from: string, to: string, itemName = ''): number | null => {
+  const a = findUnit(from);
+  const b = findUnit(to);
+  if (!a || !b) return cleanUnit(from) === cleanUnit(to) ? quantity : null;
+
+  const base = quantity * a.factor;
+  if (a.base === b.base) return base / b.factor;
+
+  // Mass <-> volume through density
+  const density = getDensity(itemName);
+  if (!density) return null;
+  if (a.base === 'ml' && b.base === 'g') return (base * density) / b.factor;
+  if (a.base === 'g' && b.base === 'ml') return base / density / b.factor;
+  return null;
+};
+
+// Group key for merging: quantities with the same key can be added. Unknown units only merge with themselves.
+export const unitGroup = (unit: string): string => findUnit(unit)?.base ?? cleanUnit(unit);
+
+// --- Shop-friendly amounts ---
+
+// Rounds up to the unit's step so the list never under-buys
+export const roundForShopping = (quantity: number, unit: string): number => {
+  const def = findUnit(unit);
+  if (!def || quantity <= 0) return parseFloat(quantity.toFixed(2));
+  const steps = Math.ceil(quantity / def.step - 1e-6);
+  return parseFloat((Math.max(steps, 1) * def.step).toFixed(2));
+};
+
+// Picks the unit a total should be shown in: the largest of the units it was written in
+// that still gives at least 1, then promoted along the unit's `next` chain (e.g. 1200 g -> 1.2 kg).
+export const chooseDisplayUnit = (baseAmount: number, candidates: string[]): string => {
+  const defs = Array.from(new Set(candidates.map(c => findUnit(c)).filter((d): d is UnitDef => !!d)))
+    .sort((a, b) => b.factor - a.factor);
+  if (defs.length === 0) return candidates[0] || '';
+
+  let unit = defs.find(d => baseAmount / d.factor >= 1) || defs[defs.length - 1];
+  while (unit.next && baseAmount / unit.factor >= unit.next.at) {
+    const next = findUnit(unit.next.unit);
+    if (!next) break;
+    unit = next;
+  }
+  return unit.id;
+};
+
+export interface Quantity {
+  quantity: number;
+  unit: string;
+}
+
+export interface MergedQuantity extends Quantity {
+  group: string;
+}
+
+// Adds up quantities of one ingredient. Compatible units are merged, volume folds into mass when
+// the ingredient has a known density and is also listed by weight. Returns one line per group.
+export const mergeQuantities = (entries: Quantity[], itemName = ''): MergedQuantity[] => {
+  const groups = new Map<string, { amount: number; units: string[] }>();
+
+  entries.forEach(({ quantity, unit }) => {
+    const def = findUnit(unit);
+    const group = unitGroup(unit);
+    const current = groups.get(group) || { amount: 0, units: [] };
+    current.amount += (quantity || 0) * (def?.factor ?? 1);
+    current.units.push(def?.id ?? cleanUnit(unit));
+    groups.set(group, current);
+  });
+
+  const density = getDensity(itemName);
+  const mass = groups.get('g');
+  const volume = groups.get('ml');
+  if (mass && volume && density) {
+    mass.amount += volume.amount * density;
+    groups.delete('ml');
+  }
+
+  return Array.from(groups.entries()).map(([group, { amount, units }]) => {
+    if (!findUnit(units[0])) {
+      return { group, quantity: parseFloat(amount.toFixed(2)), unit: units[0] };
+    }
+    const unit = chooseDisplayUnit(amount, units);
+    const quantity = roundForShopping(amount / findUnit(unit)!.factor, unit);
+    return { group, quantity, unit };
+  });
+};
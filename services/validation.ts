@@ -0,0 +1,274 @@
+import { Ingredient, Nutrition, Recipe, SHOPPING_CATEGORIES, ImprovementSuggestion, Difficulty, DIFFICULTIES } from '../types';
+
+// --- AI Response Validation ---
+// Models return "almost right" JSON: numbers as strings, categories we don't use, a single string
+// where a list was asked for. Validators coerce what can be fixed and report what can't, so the
+// caller can retry the model with the error list.
+
+export interface Validation<T> {
+  value: T;
+  errors: string[];
+}
+
+export type Validator<T> = (raw: any) => Validation<T>;
+
+export type RecipeDraft = Omit<Recipe, 'id' | 'images' | 'version'>;
+
+export class AIValidationError extends Error {
+  errors: string[];
+
+  constructor(errors: string[]) {
+    super(`AI response failed validation: ${errors.slice(0, 3).join('; ')}${errors.length > 3 ? ` (+${errors.length - 3} more)` : ''}`);
+    this.name = 'AIValidationError';
+    this.errors = errors;
+  }
+}
+
+// --- Coercion ---
+
+const isObject = (v: any) => !!v && typeof v === 'object' && !Array.isArray(v);
+
+const UNICODE_FRACTIONS: Record<string, number> = { '½': 0.5, '⅓': 1 / 3, '⅔': 2 / 3, '¼': 0.25, '¾': 0.75, '⅛': 0.125 };
+
+// Numbers, numeric strings ("1,5", "1/2", "1 ½", "200 g") and nothing else
+export const coerceNumber = (value: any): number | null => {
+  if (typeof value === 'number') return isFinite(value) ? value : null;
+  if (typeof value !== 'string') return null;
+
+  const s = value.trim().replace(',', '.');
+  const unicode = s.match(/^(\d+)?\s*([½⅓⅔¼¾⅛])/);
+  if (unicode) return (unicode[1] ? parseInt(unicode[1]) : 0) + UNICODE_FRACTIONS[unicode[2]];
+  const mixed = s.match(/^(\d+)\s+(\d+)\/(\d+)/);
+  if (mixed && +mixed[3] !== 0) return +mixed[1] + +mixed[2] / +mixed[3];
+  const fraction = s.match(/^(\d+)\/(\d+)/);
+  if (fraction && +fraction[2] !== 0) return +fraction[1] / +fraction[2];
+  const plain = s.match(/^-?\d+(\.\d+)?/);
+  return plain ? parseFloat(plain[0]) : null;
+};
+
+const CATEGORY_SYNONYMS: Record<string, string> = {
+  vegetable: 'Produce', vegetables: 'Produce', fruit: 'Produce', fruits: 'Produce', herbs: 'Produce', greens: 'Produce',
+  grönsaker: 'Produce', frukt: 'Produce',
+  fish: 'Meat', seafood: 'Meat', poultry: 'Meat', chicken: 'Meat', protein: 'Meat', kött: 'Meat', fisk: 'Meat',
+  cheese: 'Dairy', eggs: 'Dairy', egg: 'Dairy', mejeri: 'Dairy',
+  bread: 'Bakery', baking: 'Bakery', bröd: 'Bakery',
+  frozen: 'Frozen', fryst: 'Frozen',
+  spice: 'Spices', seasoning: 'Spices', seasonings: 'Spices', kryddor: 'Spices',
+  'canned goods': 'Canned', conserves: 'Canned', konserver: 'Canned',
+  drinks: 'Beverages', drink: 'Beverages', dryck: 'Beverages',
+  'dry goods': 'Pantry', grains: 'Pantry', pasta: 'Pantry', condiments: 'Pantry', oils: 'Pantry', skafferi: 'Pantry',
+  cleaning: 'Household', hushåll: 'Household'
+};
+
+// Maps whatever the model called the category onto SHOPPING_CATEGORIES, falling back to Other
+export const normalizeCategory = (raw: any): string => {
+  const key = typeof raw === 'string' ? raw.trim().toLowerCase() : '';
+  if (!key) return 'Other';
+  return SHOPPING_CATEGORIES.find(c => c.toLowerCase() === key)
+    || CATEGORY_SYNONYMS[key]
+    // Longer labels like "Dairy products" or "Fresh vegetables"
+    || SHOPPING_CATEGORIES.find(c => key.includes(c.toLowerCase()))
+    || Object.entries(CATEGORY_SYNONYMS).find(([word]) => key.includes(word))?.[1]
+    || 'Other';
+};
+
+const DIFFICULTY_SYNONYMS: Record<string, Difficulty> = {
+  simple: 'easy', beginner: 'easy', lätt: 'easy', enkel: 'easy',
+  intermediate: 'medium', moderate: 'medium', average: 'medium', medel: 'medium', medelsvår: 'medium',
+  difficult: 'hard', advanced: 'hard', challenging: 'hard', svår: 'hard', avancerad: 'hard'
+};
+
+export const normalizeDifficulty = (raw: any): Difficulty | undefined => {
+  const key = typeof raw === 'string' ? raw.trim().toLowerCase() : '';
+  return DIFFICULTIES.find(d => d === key) || DIFFICULTY_SYNONYMS[key];
+};
+
+export type RecipeTiming = Pick<Recipe, 'prep_minutes' | 'cook_minutes' | 'total_minutes' | 'active_minutes' | 'difficulty'>;
+
+// Timing is optional: values that aren't a positive number of minutes are left out. A missing
+// total is prep plus cook.
+export const recipeTiming = (raw: { prep?: any; cook?: any; total?: any; active?: any; difficulty?: any }): RecipeTiming => {
+  const minutes = (value: any) => {
+    const n = coerceNumber(value);
+    return n !== null && n > 0 ? Math.round(n) : undefined;
+  };
+  const prep = minutes(raw.prep);
+  const cook = minutes(raw.cook);
+  const total = minutes(raw.total) ?? (prep || cook ? (prep || 0) + (cook || 0) : undefined);
+  const active = minutes(raw.active);
+  const difficulty = normalizeDifficulty(raw.difficulty);
+  return {
+    ...(prep ? { prep_minutes: prep } : {}),
+    ...(cook ? { cook_minutes: cook } : {}),
+    ...(total ? { total_minutes: total } : {}),
+    ...(active ? { active_minutes: total ? Math.min(active, total) : active } : {}),
+    ...(difficulty ? { difficulty } : {})
+  };
+};
+
+const requiredString = (value: any, path: string, errors: string[]): string => {
+  if (typeof value === 'number') return String(value);
+  if (typeof value === 'string' && value.trim()) return value.trim();
+  errors.push(`${path} must be a non-empty string`);
+  return '';
+};
+
+const optionalString = (value: any, fallback = ''): string =>
+  typeof value === 'string' ? value.trim() : typeof value === 'number' ? String(value) : fallback;
+
+const requiredNumber = (value: any, path: string, errors: string[], min = 0): number => {
+  const n = coerceNumber(value);
+  if (n === null) {
+    errors.push(`${path} must be a number, got ${JSON.stringify(value)}`);
+    return 0;
+  }
+  if (n < min) {
+    errors.push(`${path} must be at least ${min}, got ${n}`);
+    return min;
+  }
+  return n;
+};
+
+// Accepts a list of strings, or a single newline-separated string
+const stringList = (value: any, path: string, errors: string[]): string[] => {
+  const list = typeof value === 'string' ? value.split('\n') : value;
+  if (!Array.isArray(list)) {
+    errors.push(`${path} must be a list of strings`);
+    return [];
+  }
+  const strings = list
+    .map(v => optionalString(isObject(v) ? (v.text ?? v.step) : v))
+    .filter(Boolean);
+  if (strings.length === 0) errors.push(`${path} must not be empty`);
+  return strings;
+};
+
+// --- Validators ---
+
+export const validateIngredient = (raw: any, path: string, errors: string[]): Ingredient => {
+  if (!isObject(raw)) {
+    errors.push(`${path} must be an object`);
+    return { item_name: '', quantity: 0, unit: '', category: 'Other' };
+  }
+  return {
+    item_name: requiredString(raw.item_name, `${path}.item_name`, errors),
+    quantity: requiredNumber(raw.quantity, `${path}.quantity`, errors),
+    unit: optionalString(raw.unit),
+    category: normalizeCategory(raw.category)
+  };
+};
+
+const ingredientList = (value: any, path: string, errors: string[]): Ingredient[] => {
+  if (!Array.isArray(value) || value.length === 0) {
+    errors.push(`${path} must be a non-empty list of ingredients`);
+    return [];
+  }
+  return value.map((i, idx) => validateIngredient(i, `${path}[${idx}]`, errors));
+};
+
+export const validateRecipeDraft: Validator<RecipeDraft> = (raw) => {
+  const errors: string[] = [];
+  if (!isObject(raw)) return { value: raw, errors: ['Response must be a recipe object'] };
+
+  const servings = coerceNumber(raw.servings_default);
+  return {
+    value: {
+      title: requiredString(raw.title, 'title', errors),
+      description: optionalString(raw.description),
+      cuisine: optionalString(raw.cuisine, 'Other') || 'Other',
+      servings_default: servings && servings > 0 ? Math.round(servings) : 4,
+      instructions: stringList(raw.instructions, 'instructions', errors),
+      ingredients: ingredientList(raw.ingredients, 'ingredients', errors),
+      ...recipeTiming({ prep: raw.prep_minutes, cook: raw.cook_minutes, total: raw.total_minutes, active: raw.active_minutes, difficulty: raw.difficulty })
+    },
+    errors
+  };
+};
+
+const NUTRITION_FIELDS: (keyof Nutrition)[] = ["calories", "protein", "carbs", "sugar", "fat", "saturated_fat", "unsaturated_fat", "fiber", "salt"];
+
+export const validateNutrition: Validator<Nutrition> = (raw) => {
+  const errors: string[] = [];
+  if (!isObject(raw)) return { value: raw, errors: ['Response must be a nutrition object'] };
+
+  const value = {} as Nutrition;
+  NUTRITION_FIELDS.forEach(f => {
+    (value as any)[f] = requiredNumber(raw[f], f, errors);
+  });
+  return { value, errors };
+};
+
+export const validateImprovement: Validator<ImprovementSuggestion> = (raw) => {
+  const errors: string[] = [];
+  if (!isObject(raw)) return { value: raw, errors: ['Response must be an object'] };
+  if (!isObject(raw.changes)) return { value: raw, errors: ['changes must be an object'] };
+
+  const suffix = optionalString(raw.changes.title_suffix);
+  return {
+    value: {
+      motivation: requiredString(raw.motivation, 'motivation', errors),
+      changes: {
+        ...(suffix ? { title_suffix: suffix } : {}),
+        ingredients: ingredientList(raw.changes.ingredients, 'changes.ingredients', errors),
+        instructions: stringList(raw.changes.instructions, 'changes.instructions', errors)
+      }
+    },
+    errors
+  };
+};
+
+// One ingredient per input line, in the same order
+export const ingredientLinesValidator = (count: number): Validator<Ingredient[]> => (raw) => {
+  const errors: string[] = [];
+  const value = ingredientList(raw, 'Response', errors);
+  if (value.length !== count) errors.push(`Response must have ${count} ingredients, one per line, got ${value.length}`);
+  return { value, errors };
+};
+
+export const validateStringList: Validator<string[]> = (raw) => {
+  const errors: string[] = [];
+  return { value: stringList(raw, 'Response', errors), errors };
+};
+
+// A translation has to keep the recipe's shape: same number of ingredients, categories and quantities untouched
+export const translatedRecipeValidator = (original: Recipe): Validator<Partial<Recipe>> => (raw) => {
+  const errors: string[] = [];
+  if (!isObject(raw)) return { value: raw, errors: ['Response must be a recipe object'] };
+
+  const ingredients = ingredientList(raw.ingredients, 'ingredients', errors);
+  if (ingredients.length !== original.ingredients.length) {
+    errors.push(`ingredients must have ${original.ingredients.length} entries, got ${ingredients.length}`);
+  }
+  return {
+    value: {
+      title: requiredString(raw.title, 'title', errors),
+      description: optionalString(raw.description, original.description),
+      cuisine: optionalString(raw.cuisine, original.cuisine),
+      instructions: stringList(raw.instructions, 'instructions', errors),
+      ingredients: original.ingredients.map((o, idx) => ({
+        ...o,
+        item_name: ingredients[idx]?.item_name || o.item_name,
+        unit: ingredients[idx]?.unit || o.unit
+      }))
+    },
+    errors
+  };
+};
+
+export interface TranslatedItem {
+  id: number;
+  item_name: string;
+  unit: string;
+}
+
+export const validateTranslatedItems: Validator<TranslatedItem[]> = (raw) => {
+  const errors: string[] = [];
+  if (!Array.isArray(raw)) return { value: [], errors: ['Response must be a list'] };
+
+  const value = raw.map((r, idx) => ({
+    id: requiredNumber(r?.id, `[${idx}].id`, errors),
+    item_name: requiredString(r?.item_name, `[${idx}].item_name`, errors),
+    unit: optionalString(r?.unit)
+  }));
+  return { value, errors };
+};
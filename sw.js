@@ -0,0 +1,87 @@
+// HomeChef service worker.
+// Built by vite-plugin-sw.ts, which fills in the cache version and the precache list from the
+// current build. A new build means a new cache; the old one is dropped once the user accepts
+// the update prompt in the app.
+
+const CACHE_VERSION = __CACHE_VERSION__;
+const PRECACHE_URLS = __PRECACHE_URLS__;
+
+const SHELL_CACHE = `homechef-shell-${CACHE_VERSION}`;
+const RUNTIME_CACHE = 'homechef-runtime';
+
+// Third-party files the shell needs to render (styling is loaded from a CDN)
+const CDN_URLS = ['https://cdn.tailwindcss.com'];
+const CDN_HOSTS = ['cdn.tailwindcss.com', 'fonts.googleapis.com', 'fonts.gstatic.com'];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(SHELL_CACHE);
+    await cache.addAll(PRECACHE_URLS);
+    // Best effort: the CDN may be unreachable during install, the runtime cache picks it up later
+    await Promise.all(CDN_URLS.map(async (url) => {
+      try {
+        const response = await fetch(url, { mode: 'no-cors' });
+        await (await caches.open(RUNTIME_CACHE)).put(url, response);
+      } catch (e) {
+        console.warn('[sw] Could not precache', url, e);
+      }
+    }));
+  })());
+  // No skipWaiting here: the page asks the user first, then sends SKIP_WAITING
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const keys = await caches.keys();
+    await Promise.all(
+      keys.filter((key) => key.startsWith('homechef-shell-') && key !== SHELL_CACHE).map((key) => caches.delete(key))
+    );
+    await self.clients.claim();
+  })());
+});
+
+self.addEventListener('message', (event) => {
+  if (event.data && event.data.type === 'SKIP_WAITING') self.skipWaiting();
+});
+
+// Serve from cache, refresh in the background
+const staleWhileRevalidate = async (request) => {
+  const cache = await caches.open(RUNTIME_CACHE);
+  const cached = await cache.match(request);
+  const network = fetch(request)
+    .then((response) => {
+      if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+      return response;
+    })
+    .catch(() => cached);
+  return cached || network;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  // App shell: every navigation gets the cached index.html, so the app opens without network
+  if (request.mode === 'navigate') {
+    event.respondWith((async () => {
+      const shell = await caches.match(new URL('index.html', self.registration.scope).href, { cacheName: SHELL_CACHE });
+      return shell || fetch(request);
+    })());
+    return;
+  }
+
+  // Built assets: cache first, they are content-hashed
+  if (url.origin === self.location.origin) {
+    event.respondWith((async () => {
+      const cached = await caches.match(request, { cacheName: SHELL_CACHE });
+      return cached || fetch(request);
+    })());
+    return;
+  }
+
+  // CDN styling and recipe images. AI and sync APIs are never cached.
+  if (CDN_HOSTS.includes(url.hostname) || request.destination === 'image') {
+    event.respondWith(staleWhileRevalidate(request));
+  }
+});
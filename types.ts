@@ -5,10 +5,15 @@ export enum Language {
 }
 
 export enum MealType {
+  BREAKFAST = 'Breakfast',
   LUNCH = 'Lunch',
+  SNACK = 'Snack',
   DINNER = 'Dinner'
 }
 
+// Order in which slots appear within a day
+export const MEAL_TYPES: MealType[] = [MealType.BREAKFAST, MealType.LUNCH, MealType.SNACK, MealType.DINNER];
+
 export const SHOPPING_CATEGORIES = [
   "Produce", 
   "Dairy", 
@@ -28,6 +33,7 @@ export interface Ingredient {
   quantity: number;
   unit: string;
   category: string; // 'Produce', 'Dairy', 'Meat', 'Pantry'
+  note?: string; // Preparation note, e.g. "finely chopped"
 }
 
 export interface Nutrition {
@@ -50,35 +56,172 @@ export interface TranslatedRecipeContent {
   cuisine?: string;
 }
 
+export interface ImprovementSuggestion {
+  motivation: string;
+  changes: {
+    title_suffix?: string;
+    ingredients: Ingredient[];
+    instructions: string[];
+  }
+}
+
+// Structured data for one instruction, kept by index alongside Recipe.instructions
+export interface RecipeStep {
+  text: string; // The instruction it was made for; a rewritten step gets its links found again
+  ingredients: string[]; // Item names of the ingredients it uses
+  manual?: boolean; // Set by hand in edit mode rather than found in the text
+}
+
+export type Difficulty = 'easy' | 'medium' | 'hard';
+
+export const DIFFICULTIES: Difficulty[] = ['easy', 'medium', 'hard'];
+
 export interface Recipe {
   id: number;
   title: string;
   description: string;
   instructions: string[];
+  steps?: RecipeStep[]; // Ingredients each instruction uses, same order as instructions
   ingredients: Ingredient[];
   servings_default: number;
   images: string[];
   rating?: number;
   nutrition?: Nutrition;
   cuisine?: string;
+  tags?: string[]; // User-defined, lowercase: weeknight, kid-favorite...
+  // Timing in minutes, missing when unknown
+  prep_minutes?: number;
+  cook_minutes?: number;
+  total_minutes?: number; // Start to table, including resting and marinating
+  active_minutes?: number; // Hands-on part of the total; the rest runs by itself
+  difficulty?: Difficulty;
   // Versioning
   version: number;
   history?: Recipe[]; // Snapshots of previous versions
   lang?: string; // Language code (e.g., 'en', 'sv', 'fr')
   translations?: Record<string, TranslatedRecipeContent>; // Cache for other languages
+  pending_improvement?: ImprovementSuggestion; // Finished while the recipe was closed, shown on next open
 }
 
 export interface MealPlanItem {
   id: number;
   date: string; // ISO Date string YYYY-MM-DD
   type: MealType;
-  recipe_id: number;
+  recipe_id: number; // NO_RECIPE for entries
+  entry?: PlanEntry; // Not a recipe: eating out, away...
   recipe_version?: number; // Links to specific version of the recipe
   is_leftover: boolean;
+  source_meal_id?: number; // Leftover items: the meal that was cooked extra for this one
+  leftover_servings?: number; // Source items: extra servings cooked for planned leftovers
   is_cooked: boolean;
   rating?: number;
   rating_comment?: string;
   servings?: number;
+  locked?: boolean; // Kept as is when the week is regenerated
+  plan_reasons?: PlanReason[]; // Why the generator picked this recipe
+  recurring_rule_id?: number; // Filled in by a recurring rule
+  guests?: GuestCount; // On top of the household; servings are derived from it
+  prep_date?: string; // Cooked ahead in the prep session on this day
+  freezer_item_id?: number; // Thawed from the freezer: nothing to cook or buy
+}
+
+// --- Plan Entries ---
+// A slot can hold something other than a recipe. It keeps the generator away and adds nothing
+// to the shopping list.
+
+export const NO_RECIPE = 0;
+
+export type PlanEntryKind = 'eating_out' | 'takeaway' | 'away' | 'fasting';
+
+export const PLAN_ENTRY_KINDS: PlanEntryKind[] = ['eating_out', 'takeaway', 'away', 'fasting'];
+
+export interface PlanEntry {
+  kind: PlanEntryKind;
+  note?: string; // "At grandma's", or the calendar event it came from
+}
+
+export interface GuestCount {
+  adults: number;
+  kids: number;
+}
+
+// --- Plan Generator ---
+
+// Why the generator picked a recipe; translated for display, value fills in the detail
+export type PlanReasonKind = 'rating' | 'not_recent' | 'never_planned' | 'uses_list' | 'quick' | 'veg_fish' | 'variety' | 'relaxed' | 'template' | 'recurring';
+
+export interface PlanReason {
+  kind: PlanReasonKind;
+  value?: string | number; // Rating, days, matched items, minutes, cuisine, broken constraints, template or rule name
+}
+
+// Constraints for the weekly generator. Unset limits mean "no limit".
+export interface PlannerSettings {
+  max_red_meat_per_week?: number;
+  min_veg_or_fish_days?: number; // Days where nothing planned contains meat or poultry
+  max_same_cuisine_per_week?: number;
+  quick_weekdays: number[]; // 0 = Sunday, like week_start_day
+  quick_max_minutes: number;
+  quick_max_difficulty?: Difficulty; // Harder recipes don't count as quick
+  max_total_minutes_per_week?: number;
+  avoid_repeat_days: number;
+  use_shopping_list: boolean; // Prefer recipes using what is already on the list
+  filter_preset_id?: number; // Only recipes matching this preset are picked
+}
+
+// --- Recipe Filters ---
+
+export interface FilterState {
+  cuisines: string[];
+  ingredientSearch: string;
+  onlySpicy: boolean;
+  minRating: number;
+  dietary: string[];
+  tags: string[]; // Recipes need every one of them
+  collection_id?: number;
+  maxMinutes?: number; // Total time, estimated when the recipe has none
+  difficulty?: Difficulty[];
+}
+
+export interface FilterPreset {
+  id: number;
+  name: string;
+  filter: FilterState;
+}
+
+// A named cookbook of recipes
+export interface RecipeCollection {
+  id: number;
+  name: string;
+  recipe_ids: number[];
+}
+
+// --- Plan Templates ---
+
+export interface PlanTemplateEntry {
+  day: number; // Days after the week start, 0-6
+  type: MealType;
+  recipe_id: number;
+  servings?: number;
+}
+
+// A saved week skeleton that can be applied to any week
+export interface PlanTemplate {
+  id: number;
+  name: string;
+  entries: PlanTemplateEntry[];
+}
+
+// "Every Friday: tacos", "First Sunday of the month: roast"
+export interface RecurringRule {
+  id: number;
+  name?: string;
+  weekday: number; // 0 = Sunday
+  nth?: number; // Only this occurrence in the month: 1-4, or -1 for the last. Unset: every week.
+  type: MealType;
+  recipe_id?: number; // A fixed recipe...
+  keyword?: string; // ...or any recipe whose title, cuisine or tags mention this
+  skipped_dates?: string[]; // Dates where the planned meal was removed or moved by hand
 }
 
 export interface ShoppingItem extends Ingredient {
@@ -89,12 +232,34 @@ export interface ShoppingItem extends Ingredient {
   translations?: Record<string, { item_name: string, unit: string }>; // Cache
 }
 
+export interface PantryItem {
+  id: number;
+  item_name: string;
+  quantity: number;
+  unit: string;
+  category: string;
+  updated_at?: string; // ISO timestamp of the last change
+}
+
+// Frozen portions of a cooked recipe
+export interface FreezerItem {
+  id: number;
+  recipe_id: number;
+  recipe_version?: number;
+  portions: number;
+  frozen_on: string; // YYYY-MM-DD
+  best_before: string; // YYYY-MM-DD
+}
+
 export interface Store {
   id: number;
   name: string;
   category_order: string[];
 }
 
+export type AIProviderId = 'gemini' | 'openai' | 'local';
+export type AICapability = 'text' | 'json' | 'vision' | 'image';
+
 export interface AppSettings {
   language: string; // Changed from enum to string to support any code
   default_adults: number;
@@ -103,9 +268,54 @@ export interface AppSettings {
   pantry_staples: string[];
   custom_staples?: Record<string, string[]>; // Cache for staples per language
   stores: Store[];
-  ai_provider: 'gemini' | 'openai';
+  meal_slots: MealType[]; // Slots shown per day in the plan
+  ai_provider: AIProviderId; // Default provider for every capability
+  ai_capabilities?: Partial<Record<AICapability, AIProviderId>>; // Per-capability overrides
+  gemini_model?: string; // Model names; unset uses the defaults in aiProviders
+  gemini_image_model?: string;
   openai_api_key?: string;
+  openai_model?: string;
+  openai_image_model?: string;
+  local_ai_base_url?: string; // OpenAI-compatible server, e.g. Ollama or llama.cpp
+  local_ai_model?: string;
   custom_languages?: Record<string, any>; // Stores generated UI translations
+  sync?: SyncSettings; // Per device, never synced itself
+  planner?: PlannerSettings;
+  plan_templates?: PlanTemplate[];
+  recurring_rules?: RecurringRule[];
+  collections?: RecipeCollection[];
+  filter_presets?: FilterPreset[];
+  calendar_feed?: CalendarFeedSettings; // Shared by the household, so every device publishes to the same URL
+}
+
+export interface SyncSettings {
+  enabled: boolean;
+  url: string; // Base URL of the self-hosted sync server
+  household: string; // Shared code, every device of the household enters the same one
+  token?: string; // Sent as a bearer token if the server requires one
+}
+
+// Plan published as an .ics feed on the sync server for calendar apps to subscribe to
+export interface CalendarFeedSettings {
+  enabled: boolean;
+  key: string; // Secret in the feed URL
+}
+
+// --- AI Job Queue ---
+// AI requests made offline or while rate-limited wait in IndexedDB until they can run
+
+export type AIJobKind = 'image' | 'nutrition' | 'improvement' | 'import';
+
+export interface AIJob {
+  id: number;
+  kind: AIJobKind;
+  recipe_id?: number; // Target recipe, not set for imports
+  payload: any; // Inputs that can't be read from the recipe when the job runs
+  status: 'pending' | 'running' | 'failed';
+  attempts: number;
+  next_attempt_at: number; // Epoch ms
+  created_at: string; // ISO timestamp
+  last_error?: string;
 }
 
 export type ViewState = 'plan' | 'shop' | 'recipes' | 'settings' | 'stats';
\ No newline at end of file
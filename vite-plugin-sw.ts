@@ -0,0 +1,48 @@
+import { createHash } from 'crypto';
+import { existsSync, readFileSync, readdirSync, statSync } from 'fs';
+import { join, relative, resolve } from 'path';
+import { Plugin, ResolvedConfig } from 'vite';
+
+// Emits sw.js with the list of files to precache. The list covers every file of the build
+// (hashed JS/CSS, index.html) plus the public folder (manifest, icons). The cache version is a
+// hash of that list, so each deploy gets a fresh cache and the app shows an update prompt.
+
+const listFiles = (dir: string): string[] =>
+  readdirSync(dir).flatMap(name => {
+    const path = join(dir, name);
+    return statSync(path).isDirectory() ? listFiles(path) : [path];
+  });
+
+export const serviceWorkerPlugin = (source = 'sw.js'): Plugin => {
+  let config: ResolvedConfig;
+
+  return {
+    name: 'homechef-service-worker',
+    apply: 'build',
+    enforce: 'post',
+    configResolved(resolved) {
+      config = resolved;
+    },
+    generateBundle(_, bundle) {
+      const base = config.base.endsWith('/') ? config.base : `${config.base}/`;
+      const publicFiles = config.publicDir && existsSync(config.publicDir)
+        ? listFiles(config.publicDir).map(f => relative(config.publicDir, f).split('\\').join('/'))
+        : [];
+      const files = [...Object.keys(bundle), ...publicFiles]
+        .filter(f => !f.endsWith('.map') && f !== 'sw.js')
+        .sort();
+
+      const urls = [base, ...files.map(f => `${base}${f}`)];
+      const version = createHash('sha256').update(urls.join('\n')).digest('hex').slice(0, 12);
+
+      const template = readFileSync(resolve(config.root, source), 'utf-8');
+      this.emitFile({
+        type: 'asset',
+        fileName: 'sw.js',
+        source: template
+          .replace('__CACHE_VERSION__', JSON.stringify(version))
+          .replace('__PRECACHE_URLS__', JSON.stringify(urls, null, 2))
+      });
+    }
+  };
+};
@@ -1,10 +1,11 @@
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { serviceWorkerPlugin } from './vite-plugin-sw';
 
 export default defineConfig(({ mode }) => {
   const env = loadEnv(mode, (process as any).cwd(), '');
   return {
-    plugins: [react()],
+    plugins: [react(), serviceWorkerPlugin()],
     define: {
       'process.env.API_KEY': JSON.stringify(env.API_KEY)
     }